@@ -1,18 +1,36 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ShoppingBag, Search, Menu, X, ArrowLeft, ChevronRight, Globe, Coffee, Palette, Shirt, ArrowRight as ArrowRightIcon, Loader2, Send, Download, Share, PlusSquare } from 'lucide-react';
-import { Product, CartItem, Category, LanguageCode } from './types';
+import { ShoppingBag, Search, Menu, X, ArrowLeft, ChevronRight, Globe, Coffee, Palette, ArrowRight as ArrowRightIcon, Loader2, Send, Download, Share, PlusSquare, User, Heart } from 'lucide-react';
+import { Product, CartItem, Category, Collection, LanguageCode, ProductVariant, Promotion, RatingSummary, SharedWishlist } from './types';
 import ProductList from './components/ProductList';
+import ShopFilters from './components/ShopFilters';
 import CartSidebar from './components/CartSidebar';
 import CuratorChat from './components/CuratorChat';
 import CheckoutModal from './components/CheckoutModal';
 import InfoModal, { InfoModalType } from './components/InfoModal';
+import GiftCardModal from './components/GiftCardModal';
+import AccountModal from './components/AccountModal';
+import WishlistView from './components/WishlistView';
+import WishlistButton from './components/WishlistButton';
+import ProductReviews from './components/ProductReviews';
+import StarRating from './components/StarRating';
 import OrdersModal from './components/OrdersModal';
 import Button from './components/Button';
 import ImageWithFallback from './components/ImageWithFallback';
-import { LanguageProvider, useLanguage } from './i18n';
+import { LanguageProvider, getAllTranslations, useLanguage } from './i18n';
+import { CurrencyProvider, useCurrency } from './currency';
+import { AccountProvider, useAccount } from './account';
+import { WishlistProvider, useWishlist } from './wishlist';
 import AutoTranslatedText from './components/AutoTranslatedText';
-import { backend } from './services/backend';
+import LocalizedLabel from './components/LocalizedLabel';
+import { backend } from './services/backendClient';
 import ToastContainer, { ToastMessage } from './components/Toast';
+import { findVariant, getCartLineId, getVariantPrice, hasVariants, isOptionValueAvailable, toCartItem } from './services/variants';
+import { VAT_NOTE_KEY, displayPrice } from './services/vat';
+import { CURRENCY_OPTIONS } from './services/currency';
+import { SEARCH_WEIGHTS, buildSearchIndex, searchIndex } from './services/search';
+import { EMPTY_FILTERS, PRODUCT_SORTS, ProductFilters, ProductSort, applyFilters, getProductFacets, readFilterParams, sortProducts, writeFilterParams } from './services/catalogFilters';
+import { Route, buildPath, buildUrl, findProductBySlug, parseLocation } from './services/routing';
+import { flattenCategoryTree, getAllLocalizedTexts, getCategoryPath, getChildCategories, getCollectionProducts, getProductCategoryId, isInCategory } from './services/categories';
 
 const LANGUAGE_OPTIONS: {code: LanguageCode; label: string; flag: string}[] = [
     { code: 'en', label: 'English', flag: '🇬🇧' },
@@ -28,22 +46,43 @@ const LANGUAGE_OPTIONS: {code: LanguageCode; label: string; flag: string}[] = [
 
 const AppContent: React.FC = () => {
   const { t, language, setLanguage } = useLanguage();
+  const { currency, setCurrency, formatPrice } = useCurrency();
+  const { customer } = useAccount();
+  const { productIds: wishlistIds } = useWishlist();
 
   // State
   const [products, setProducts] = useState<Product[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(true);
+  const [ratings, setRatings] = useState<Record<string, RatingSummary>>({});
+  const [unitsSold, setUnitsSold] = useState<Record<string, number>>({});
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]); // Active ones only
   
-  const [currentView, setCurrentView] = useState<'home' | 'shop' | 'product'>('home');
-  const [selectedCategory, setSelectedCategory] = useState<Category>(Category.ALL);
+  const [currentView, setCurrentView] = useState<'home' | 'shop' | 'product' | 'collection' | 'wishlist' | 'not_found'>('home');
+  const [sharedWishlist, setSharedWishlist] = useState<SharedWishlist | null>(null);
+  const [sharedWishlistId, setSharedWishlistId] = useState<string | null>(null);
+  const [pendingProductSlug, setPendingProductSlug] = useState<string | null>(null); // From the address, until products load
+  const [trackingRef, setTrackingRef] = useState('');
+  const [isRouteReady, setIsRouteReady] = useState(false);
+  const lastPageRef = useRef<string | null>(null);
+  const [categorySlug, setCategorySlug] = useState(''); // Empty for the whole shop
+  const [collectionSlug, setCollectionSlug] = useState('');
+  const [filters, setFilters] = useState<ProductFilters>(EMPTY_FILTERS);
   const [selectedProduct, setSelectedProduct] = useState<Product | undefined>(undefined);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [isOrdersOpen, setIsOrdersOpen] = useState(false);
   const [infoModalType, setInfoModalType] = useState<InfoModalType>(null);
+  const [isGiftCardOpen, setIsGiftCardOpen] = useState(false);
+  const [isAccountOpen, setIsAccountOpen] = useState(false);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [promotion, setPromotion] = useState<Promotion | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isLangMenuOpen, setIsLangMenuOpen] = useState(false);
   const langMenuRef = useRef<HTMLDivElement>(null);
+  const [isCurrencyMenuOpen, setIsCurrencyMenuOpen] = useState(false);
+  const currencyMenuRef = useRef<HTMLDivElement>(null);
   const [emailInput, setEmailInput] = useState('');
   
   // Search State
@@ -115,8 +154,14 @@ const AppContent: React.FC = () => {
   useEffect(() => {
     const loadData = async () => {
         try {
-            const data = await backend.getProducts();
+            const [data, summaries, sold, categoryList, collectionList] = await Promise.all([
+                backend.getProducts(), backend.getRatingSummaries(), backend.getUnitsSold(), backend.getCategories(), backend.getActiveCollections()
+            ]);
             setProducts(data);
+            setRatings(summaries);
+            setUnitsSold(sold);
+            setCategories(categoryList);
+            setCollections(collectionList);
         } catch (e) {
             console.error("Failed to load products", e);
         } finally {
@@ -126,12 +171,138 @@ const AppContent: React.FC = () => {
     loadData();
   }, [isOrdersOpen]); // Reload when admin panel closes in case products changed
 
-  // Close language menu when clicking outside
+  // --- ROUTING ---
+  // The address bar is read into state on load and on back/forward, and written back whenever the state changes
+
+  const applyLocation = () => {
+    const { language: urlLanguage, route, params } = parseLocation(window.location.pathname, window.location.search);
+    if (urlLanguage) setLanguage(urlLanguage);
+    lastPageRef.current = null; // Normalizing this address must not add a history entry
+    setIsOrdersOpen(route.name === 'admin');
+    setInfoModalType(route.name === 'track' ? 'tracking' : null);
+    setTrackingRef(route.name === 'track' ? route.orderRef || '' : '');
+    setSharedWishlistId(route.name === 'wishlist' ? route.shareId || null : null);
+    switch (route.name) {
+      case 'shop':
+      case 'search':
+        setCategorySlug(route.categorySlug || '');
+        setSearchQuery(route.name === 'search' ? route.query : '');
+        setIsSearchActive(route.name === 'search');
+        setFilters(readFilterParams(params));
+        setCurrentView('shop');
+        break;
+      case 'product':
+        setPendingProductSlug(route.slug);
+        setCurrentView('product');
+        break;
+      case 'collection':
+        setCollectionSlug(route.slug);
+        setCurrentView('collection');
+        break;
+      case 'wishlist':
+        setCurrentView('wishlist');
+        break;
+      case 'not_found':
+        setCurrentView('not_found');
+        break;
+      case 'admin':
+      case 'track':
+        break; // Overlays: whatever view is open stays underneath
+      default:
+        setCurrentView('home');
+    }
+    setIsRouteReady(true);
+  };
+
+  useEffect(() => {
+    applyLocation();
+    window.addEventListener('popstate', applyLocation);
+    return () => window.removeEventListener('popstate', applyLocation);
+  }, []);
+
+  // Product addresses can only be resolved once the catalog has loaded
+  useEffect(() => {
+    if (!pendingProductSlug || loadingProducts) return;
+    const product = findProductBySlug(products, pendingProductSlug);
+    setPendingProductSlug(null);
+    if (product) {
+      setSelectedProduct(product);
+      setSelectedOptions({});
+    } else {
+      setCurrentView('not_found');
+    }
+  }, [pendingProductSlug, products, loadingProducts]);
+
+  const selectedCategory = categories.find(c => c.slug === categorySlug);
+  const selectedCollection = collections.find(c => c.slug === collectionSlug);
+
+  // Category and collection addresses are checked once the catalog has loaded too; a search just drops a stale category
+  useEffect(() => {
+    if (loadingProducts) return;
+    if (currentView === 'shop' && categorySlug && !selectedCategory) {
+      if (searchQuery.trim()) setCategorySlug('');
+      else setCurrentView('not_found');
+    }
+    if (currentView === 'collection' && !selectedCollection) setCurrentView('not_found');
+  }, [loadingProducts, currentView, categorySlug, selectedCategory, selectedCollection, searchQuery]);
+
+  // null while the address cannot be written yet (product still resolving) or should stay as typed (404)
+  const currentRoute = ((): Route | null => {
+    if (!isRouteReady || pendingProductSlug) return null;
+    if (isOrdersOpen) return { name: 'admin' };
+    if (infoModalType === 'tracking') return { name: 'track', orderRef: trackingRef || undefined };
+    switch (currentView) {
+      case 'shop': return searchQuery.trim()
+        ? { name: 'search', query: searchQuery.trim(), categorySlug: categorySlug || undefined }
+        : { name: 'shop', categorySlug: categorySlug || undefined };
+      case 'product': return selectedProduct ? { name: 'product', slug: selectedProduct.slug } : null;
+      case 'collection': return { name: 'collection', slug: collectionSlug };
+      case 'wishlist': return { name: 'wishlist', shareId: sharedWishlistId || undefined };
+      case 'not_found': return null;
+      default: return { name: 'home' };
+    }
+  })();
+
+  const currentUrl = currentRoute && buildUrl(currentRoute, language, writeFilterParams(filters));
+
+  // Moving to another page adds a history entry; typing a search, filtering or switching language just updates the address
+  useEffect(() => {
+    if (!currentRoute || !currentUrl) return;
+    const page = buildPath(currentRoute);
+    if (currentUrl !== `${window.location.pathname}${window.location.search}`) {
+      if (lastPageRef.current !== null && lastPageRef.current !== page) {
+        window.history.pushState(null, '', currentUrl);
+      } else {
+        window.history.replaceState(null, '', currentUrl);
+      }
+    }
+    lastPageRef.current = page;
+  }, [currentUrl]);
+
+  // A shared wishlist link opens someone else's list read-only
+  useEffect(() => {
+    if (!sharedWishlistId) {
+      setSharedWishlist(null);
+      return;
+    }
+    backend.getSharedWishlist(sharedWishlistId)
+      .then(setSharedWishlist)
+      .catch(() => {
+        addToast(t('wishlist_not_found'), 'error');
+        setSharedWishlistId(null);
+        setCurrentView('home');
+      });
+  }, [sharedWishlistId]);
+
+  // Close language and currency menus when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
         if (langMenuRef.current && !langMenuRef.current.contains(event.target as Node)) {
             setIsLangMenuOpen(false);
         }
+        if (currencyMenuRef.current && !currencyMenuRef.current.contains(event.target as Node)) {
+            setIsCurrencyMenuOpen(false);
+        }
     };
     // Use mousedown for earlier capture than click to prevent race conditions
     document.addEventListener('mousedown', handleClickOutside);
@@ -152,82 +323,108 @@ const AppContent: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  const getCategoryTranslation = (cat: Category) => {
-      switch (cat) {
-          case Category.CLOTHES: return t('nav_clothes');
-          case Category.ART: return t('nav_art');
-          case Category.ACCESSORIES: return t('nav_accessories');
-          case Category.MISC: return t('nav_misc');
-          default: return t('nav_shop'); // For 'All' usually
-      }
-  };
+  const topCategories = getChildCategories(categories);
+  const selectedTopCategory = getCategoryPath(categories, selectedCategory?.id)[0];
 
-  const getCategoryKey = (category: string) => {
-    if (category === 'Clothes') return 'nav_clothes';
-    if (category === 'Art') return 'nav_art';
-    if (category === 'Accessories') return 'nav_accessories';
-    if (category.includes('Misc')) return 'nav_misc';
-    return `nav_${category.toLowerCase().replace(' ', '_')}`;
-  };
+  // Products in a category nobody has set up (yet) show the stored id
+  const getCategoryName = (product: Product) =>
+    categories.find(c => c.id === getProductCategoryId(product))?.name || { en: product.category };
 
-  // Computed
-  const filteredProducts = useMemo(() => {
-    let filtered = products;
+  // Built once per catalog from every locale, so shoppers find pieces whatever language or script they type in
+  const catalogIndex = useMemo(() => buildSearchIndex(products.map(p => ({
+    id: p.id,
+    fields: [
+      ...[p.name, ...getAllTranslations(`product_${p.id}_name`)].map(text => ({ text, weight: SEARCH_WEIGHTS.name })),
+      ...getCategoryPath(categories, getProductCategoryId(p)).flatMap(c => getAllLocalizedTexts(c.name))
+        .map(text => ({ text, weight: SEARCH_WEIGHTS.category })),
+      ...[p.description, ...getAllTranslations(`product_${p.id}_desc`)].map(text => ({ text, weight: SEARCH_WEIGHTS.description })),
+    ],
+  }))), [products, categories]);
 
-    // Filter by category if not All AND not searching (search usually overrides category, or we can combine)
-    if (selectedCategory !== Category.ALL) {
-      filtered = filtered.filter(p => p.category === selectedCategory);
-    }
+  const searchResults = useMemo(
+    () => searchQuery.trim() ? searchIndex(catalogIndex, searchQuery) : null,
+    [catalogIndex, searchQuery]
+  );
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      filtered = filtered.filter(p => {
-        // Search against translated fields for the current language
-        const translatedName = t(`product_${p.id}_name`).toLowerCase();
-        const translatedDesc = t(`product_${p.id}_desc`).toLowerCase();
-        const translatedCategory = getCategoryTranslation(p.category).toLowerCase();
-        
-        // Also check original English fields to support mixed searching
-        const englishName = p.name.toLowerCase();
-        
-        return (
-            translatedName.includes(q) || 
-            translatedDesc.includes(q) || 
-            translatedCategory.includes(q) ||
-            englishName.includes(q)
-        );
-      });
+  const searchHighlights = useMemo(() => {
+    const highlights: Record<string, string[]> = {};
+    searchResults?.forEach(result => { highlights[result.id] = result.terms; });
+    return highlights;
+  }, [searchResults]);
+
+  // Computed: search and category first, so facet counts describe what the shopper is looking at
+  const shopProducts = useMemo(() => {
+    // Search results come back best match first
+    let filtered = searchResults
+      ? searchResults.map(result => products.find(p => p.id === result.id)).filter((p): p is Product => !!p)
+      : products;
+
+    // Filter by category, subcategories included (combined with the search when there is one)
+    if (selectedCategory) {
+      filtered = filtered.filter(p => isInCategory(categories, p, selectedCategory.id));
     }
-    
+
     return filtered;
-  }, [selectedCategory, searchQuery, language, products]);
+  }, [selectedCategory, searchResults, products, categories]);
+
+  const facets = useMemo(() => getProductFacets(shopProducts, filters), [shopProducts, filters]);
+
+  const filteredProducts = useMemo(
+    () => sortProducts(applyFilters(shopProducts, filters), filters.sort, { ratings, unitsSold }),
+    [shopProducts, filters, ratings, unitsSold]
+  );
+
+  const cartQuantities = useMemo(() => {
+    const quantities: Record<string, number> = {};
+    cart.forEach(item => { quantities[item.id] = (quantities[item.id] || 0) + item.quantity; });
+    return quantities;
+  }, [cart]);
+
+  const getLineQuantity = (lineId: string) => cart.find(item => getCartLineId(item) === lineId)?.quantity || 0;
 
   // Handlers
-  const handleAddToCart = (product: Product) => {
+  const handleAddToCart = (product: Product, variant?: ProductVariant) => {
+    // Products sold in sizes/colors need a choice first, which happens on the detail view
+    if (hasVariants(product) && !variant) {
+      navigateToProduct(product);
+      return;
+    }
+    const line = toCartItem(product, variant);
+    const lineId = getCartLineId(line);
+    if (getLineQuantity(lineId) >= line.stockQuantity) {
+      addToast(t('only_left').replace('{count}', String(line.stockQuantity)), 'error');
+      return;
+    }
     setCart(prev => {
-      const existing = prev.find(item => item.id === product.id);
+      const existing = prev.find(item => getCartLineId(item) === lineId);
       if (existing) {
-        return prev.map(item => item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item);
+        return prev.map(item => getCartLineId(item) === lineId ? { ...item, quantity: Math.min(item.quantity + 1, item.stockQuantity) } : item);
       }
-      return [...prev, { ...product, quantity: 1 }];
+      return [...prev, line];
     });
     addToast(`${t(`product_${product.id}_name`)} added to cart`);
     // Optional: Open cart automatically
     // setIsCartOpen(true);
   };
 
-  const handleUpdateCartQuantity = (id: string, delta: number) => {
+  // Cart handlers take a line id (see getCartLineId) so variants of one product stay separate
+  const handleUpdateCartQuantity = (lineId: string, delta: number) => {
     setCart(prev => prev.map(item => {
-      if (item.id === id) {
-        return { ...item, quantity: Math.max(1, item.quantity + delta) };
+      if (getCartLineId(item) === lineId) {
+        return { ...item, quantity: Math.min(item.stockQuantity, Math.max(1, item.quantity + delta)) };
       }
       return item;
     }));
   };
 
-  const handleRemoveFromCart = (id: string) => {
-    setCart(prev => prev.filter(item => item.id !== id));
+  const handleRemoveFromCart = (lineId: string) => {
+    setCart(prev => prev.filter(item => getCartLineId(item) !== lineId));
+  };
+
+  // Rejects for unknown codes; whether the code fits the cart is shown by PromoCodeInput
+  const handleApplyPromoCode = async (code: string) => {
+    const found = await backend.lookupPromotion(code);
+    setPromotion(found);
   };
 
   const handleStartCheckout = () => {
@@ -237,19 +434,35 @@ const AppContent: React.FC = () => {
 
   const handleCheckoutComplete = () => {
     setCart([]);
+    setPromotion(null);
     addToast('Order placed successfully!', 'success');
   };
 
   const navigateToProduct = (product: Product) => {
     setSelectedProduct(product);
+    setSelectedOptions({});
     setCurrentView('product');
     window.scrollTo(0, 0);
   };
 
-  const navigateToShop = (category: Category = Category.ALL) => {
-    setSelectedCategory(category);
+  const navigateToWishlist = () => {
+    setSharedWishlistId(null);
+    setCurrentView('wishlist');
+    window.scrollTo(0, 0);
+  };
+
+  const navigateToCollection = (collection: Collection) => {
+    setCollectionSlug(collection.slug);
+    setCurrentView('collection');
+    window.scrollTo(0, 0);
+  };
+
+  // Without a category slug: the whole shop
+  const navigateToShop = (slug: string = '') => {
+    setCategorySlug(slug);
     setCurrentView('shop');
-    setSearchQuery(''); // Reset search when clicking nav
+    setSearchQuery(''); // Reset search and filters when clicking nav; the chosen sort stays
+    setFilters(prev => ({ ...EMPTY_FILTERS, sort: prev.sort }));
     setIsSearchActive(false);
     window.scrollTo(0, 0);
   };
@@ -260,7 +473,7 @@ const AppContent: React.FC = () => {
     if (currentView !== 'shop') {
       setCurrentView('shop');
       // If we are on home, maybe we want to search ALL categories by default
-      if (currentView === 'home') setSelectedCategory(Category.ALL);
+      if (currentView === 'home') setCategorySlug('');
     }
   };
 
@@ -275,6 +488,7 @@ const AppContent: React.FC = () => {
   };
 
   const openInfoModal = (type: InfoModalType) => {
+    setTrackingRef('');
     setInfoModalType(type);
   };
 
@@ -296,11 +510,12 @@ const AppContent: React.FC = () => {
           {/* Desktop Nav */}
           {!isSearchActive ? (
             <nav className="hidden md:flex gap-6 lg:gap-8">
-              <button onClick={() => navigateToShop(Category.ALL)} className={`text-sm font-medium uppercase tracking-widest hover:text-eth-earth transition-colors ${currentView === 'shop' && selectedCategory === Category.ALL ? 'text-eth-earth border-b-2 border-eth-earth' : 'text-stone-600'}`}>{t('nav_shop')}</button>
-              <button onClick={() => navigateToShop(Category.CLOTHES)} className="text-sm font-medium uppercase tracking-widest text-stone-600 hover:text-eth-earth transition-colors">{t('nav_clothes')}</button>
-              <button onClick={() => navigateToShop(Category.ART)} className="text-sm font-medium uppercase tracking-widest text-stone-600 hover:text-eth-earth transition-colors">{t('nav_art')}</button>
-              <button onClick={() => navigateToShop(Category.ACCESSORIES)} className="text-sm font-medium uppercase tracking-widest text-stone-600 hover:text-eth-earth transition-colors">{t('nav_accessories')}</button>
-              <button onClick={() => navigateToShop(Category.MISC)} className="text-sm font-medium uppercase tracking-widest text-stone-600 hover:text-eth-earth transition-colors">{t('nav_misc')}</button>
+              <button onClick={() => navigateToShop()} className={`text-sm font-medium uppercase tracking-widest hover:text-eth-earth transition-colors ${currentView === 'shop' && !selectedCategory ? 'text-eth-earth border-b-2 border-eth-earth' : 'text-stone-600'}`}>{t('nav_shop')}</button>
+              {topCategories.map(category => (
+                <button key={category.id} onClick={() => navigateToShop(category.slug)} className={`text-sm font-medium uppercase tracking-widest hover:text-eth-earth transition-colors ${currentView === 'shop' && selectedTopCategory?.id === category.id ? 'text-eth-earth border-b-2 border-eth-earth' : 'text-stone-600'}`}>
+                  <LocalizedLabel text={category.name} />
+                </button>
+              ))}
             </nav>
           ) : (
             <div className="hidden md:flex flex-1 max-w-lg mx-8 animate-fade-in relative">
@@ -344,12 +559,55 @@ const AppContent: React.FC = () => {
                 )}
             </div>
 
+            {/* Currency Selector Desktop */}
+            <div className="relative hidden md:block" ref={currencyMenuRef}>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); setIsCurrencyMenuOpen(!isCurrencyMenuOpen); }}
+                  className="flex items-center gap-1 text-stone-600 hover:text-emerald-900 font-bold uppercase text-xs p-2 rounded hover:bg-stone-50"
+                  title={t('currency')}
+                >
+                    <span>{currency}</span>
+                </button>
+                {isCurrencyMenuOpen && (
+                    <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-xl border border-stone-100 py-2 z-50 overflow-hidden animate-fade-in">
+                        {CURRENCY_OPTIONS.map(opt => (
+                            <button
+                                key={opt.code}
+                                onClick={(e) => { e.stopPropagation(); setCurrency(opt.code); setIsCurrencyMenuOpen(false); }}
+                                className={`w-full text-left px-4 py-2 text-sm hover:bg-emerald-50 flex items-center gap-3 transition-colors ${currency === opt.code ? 'font-bold text-emerald-900 bg-emerald-50/50' : 'text-stone-600'}`}
+                            >
+                                <span className="font-mono text-xs w-8">{opt.code}</span> {opt.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
             <button 
               className={`hover:text-stone-900 hidden sm:block transition-colors ${isSearchActive ? 'text-emerald-900' : 'text-stone-600'}`}
               onClick={toggleSearch}
             >
               <Search size={20} />
             </button>
+            <button
+              className={`hover:text-stone-900 transition-colors ${customer ? 'text-emerald-900' : 'text-stone-600'}`}
+              onClick={() => setIsAccountOpen(true)}
+              title={customer ? t('signed_in_as').replace('{email}', customer.email) : t('sign_in')}
+            >
+              <User size={20} />
+            </button>
+            <button
+              className={`relative hover:text-eth-earth transition-colors ${currentView === 'wishlist' && !sharedWishlist ? 'text-eth-earth' : 'text-stone-600'}`}
+              onClick={navigateToWishlist}
+              title={t('wishlist')}
+            >
+              <Heart size={20} />
+              {wishlistIds.length > 0 && (
+                <span className="absolute -top-1 -right-2 bg-eth-earth text-white text-[10px] font-bold h-4 w-4 rounded-full flex items-center justify-center">
+                  {wishlistIds.length}
+                </span>
+              )}
+            </button>
             <div className="relative">
               <button 
                 className="text-stone-600 hover:text-eth-earth transition-colors"
@@ -386,11 +644,12 @@ const AppContent: React.FC = () => {
                 onChange={handleSearchChange}
               />
            </div>
-           <button onClick={() => {navigateToShop(Category.ALL); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_shop')}</button>
-           <button onClick={() => {navigateToShop(Category.CLOTHES); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_clothes')}</button>
-           <button onClick={() => {navigateToShop(Category.ART); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_art')}</button>
-           <button onClick={() => {navigateToShop(Category.ACCESSORIES); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_accessories')}</button>
-           <button onClick={() => {navigateToShop(Category.MISC); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_misc')}</button>
+           <button onClick={() => {navigateToShop(); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">{t('nav_shop')}</button>
+           {topCategories.map(category => (
+             <button key={category.id} onClick={() => {navigateToShop(category.slug); setIsMobileMenuOpen(false)}} className="block w-full text-left py-2 font-serif font-medium text-stone-800 border-b border-stone-200">
+               <LocalizedLabel text={category.name} />
+             </button>
+           ))}
            
            {/* Mobile Language Selector */}
            <div className="pt-2">
@@ -408,6 +667,22 @@ const AppContent: React.FC = () => {
              </div>
            </div>
            
+           {/* Mobile Currency Selector */}
+           <div className="pt-2">
+             <h4 className="text-xs uppercase text-stone-400 font-bold mb-2">{t('currency')}</h4>
+             <div className="grid grid-cols-3 gap-2">
+                {CURRENCY_OPTIONS.map(opt => (
+                    <button
+                        key={opt.code}
+                        onClick={() => { setCurrency(opt.code); setIsMobileMenuOpen(false); }}
+                        className={`px-3 py-2 rounded text-sm font-mono border ${currency === opt.code ? 'bg-emerald-50 border-emerald-900 text-emerald-900' : 'bg-white border-stone-200 text-stone-600'}`}
+                    >
+                        {opt.code}
+                    </button>
+                ))}
+             </div>
+           </div>
+           
            {/* Install App - Mobile Menu Priority */}
            {!isStandalone && (deferredPrompt || isIOS) && (
                <div className="pt-4 border-t border-stone-200 pb-2">
@@ -445,7 +720,27 @@ const AppContent: React.FC = () => {
     </div>
   );
 
-  const renderCategorySection = () => (
+  // Curated collections first, then the top-level categories that have a banner
+  const renderCategorySection = () => {
+    const cards = [
+      ...collections.map(collection => ({
+        id: collection.id,
+        name: collection.name,
+        description: collection.description,
+        image: collection.bannerUrl || getCollectionProducts(collection, products, categories)[0]?.imageUrl || '',
+        onClick: () => navigateToCollection(collection),
+      })),
+      ...topCategories.filter(category => category.bannerUrl).map(category => ({
+        id: category.id,
+        name: category.name,
+        description: category.description,
+        image: category.bannerUrl || '',
+        onClick: () => navigateToShop(category.slug),
+      })),
+    ];
+    if (cards.length === 0) return null;
+
+    return (
     <div className="py-24 bg-white">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="text-center mb-16">
@@ -454,30 +749,25 @@ const AppContent: React.FC = () => {
           <div className="w-24 h-px bg-eth-earth mx-auto"></div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-          {[
-            { icon: Shirt, label: t('nav_clothes'), cat: Category.CLOTHES, desc: t('cat_clothes_desc'), image: '/images/banners/fashion.png' },
-            { icon: Palette, label: t('nav_art'), cat: Category.ART, desc: t('cat_art_desc'), image: '/images/banners/art.png' },
-            { icon: Coffee, label: t('nav_misc'), cat: Category.MISC, desc: t('cat_misc_desc'), image: '/images/banners/coffee.png' },
-          ].map((item, idx) => (
+          {cards.map(item => (
             <div 
-              key={idx} 
-              onClick={() => navigateToShop(item.cat)}
+              key={item.id} 
+              onClick={item.onClick}
               className="relative h-96 group rounded-xl overflow-hidden cursor-pointer shadow-md hover:shadow-2xl transition-all duration-500"
             >
               <ImageWithFallback 
                 src={item.image} 
-                alt={item.label} 
-                fallbackTerm={`ethiopian ${item.label}`}
+                alt={item.name.en} 
+                fallbackTerm={`ethiopian ${item.name.en}`}
                 className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" 
               />
               <div className="absolute inset-0 bg-gradient-to-t from-stone-900 via-stone-900/40 to-transparent opacity-90 group-hover:opacity-80 transition-opacity"></div>
               
               <div className="absolute bottom-0 left-0 right-0 p-8 transform translate-y-4 group-hover:translate-y-0 transition-transform duration-500">
-                  <div className="w-12 h-12 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center mb-4 text-white border border-white/20">
-                    <item.icon size={24} />
-                  </div>
-                  <h3 className="text-2xl font-serif font-bold text-white mb-2">{item.label}</h3>
-                  <p className="text-stone-300 mb-6 opacity-0 group-hover:opacity-100 transition-opacity duration-500 delay-100">{item.desc}</p>
+                  <LocalizedLabel as="h3" className="text-2xl font-serif font-bold text-white mb-2" text={item.name} />
+                  {item.description && (
+                    <LocalizedLabel as="p" className="text-stone-300 mb-6 opacity-0 group-hover:opacity-100 transition-opacity duration-500 delay-100" text={item.description} />
+                  )}
                   <div className="flex items-center text-gold-accent font-medium text-sm tracking-wide uppercase">
                     {t('shop_now')} <ChevronRight size={16} className="ml-2 group-hover:translate-x-2 transition-transform" />
                   </div>
@@ -487,9 +777,91 @@ const AppContent: React.FC = () => {
         </div>
       </div>
     </div>
+    );
+  };
+
+  const renderCollection = (collection: Collection) => {
+    const members = getCollectionProducts(collection, products, categories);
+    return (
+      <div>
+        <div className="relative h-72 md:h-96 overflow-hidden bg-stone-900">
+          <ImageWithFallback
+            src={collection.bannerUrl || members[0]?.imageUrl || ''}
+            alt={collection.name.en}
+            fallbackTerm={`ethiopian ${collection.name.en}`}
+            className="w-full h-full object-cover opacity-80"
+          />
+          <div className="absolute inset-0 bg-gradient-to-t from-stone-900 via-stone-900/40 to-transparent"></div>
+          <div className="absolute bottom-0 left-0 right-0 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pb-10">
+            <span className="text-gold-accent uppercase tracking-widest text-xs font-bold mb-2 block">{t('collection_label')}</span>
+            <LocalizedLabel as="h1" className="text-4xl md:text-5xl font-serif font-bold text-white mb-3" text={collection.name} />
+            {collection.description && <LocalizedLabel as="p" className="text-stone-200 max-w-2xl" text={collection.description} />}
+          </div>
+        </div>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <p className="text-stone-500 mb-8">{members.length} {members.length === 1 ? 'item' : t('items_found')}.</p>
+          {members.length > 0 ? (
+            <ProductList
+              products={members}
+              onProductClick={navigateToProduct}
+              onAddToCart={handleAddToCart}
+              cartQuantities={cartQuantities}
+              ratings={ratings}
+              categories={categories}
+            />
+          ) : (
+            <div className="text-center py-20 bg-white border border-stone-100 rounded-lg">
+              <h3 className="text-lg font-medium text-stone-900">{t('no_items_found')}</h3>
+              <Button className="mt-6" onClick={() => navigateToShop()}>{t('full_collection')}</Button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const getOptionLabel = (name: string) => {
+    const key = `option_${name}`;
+    const label = t(key);
+    return label === key ? name : label;
+  };
+
+  const renderVariantPicker = (product: Product) => (
+    <div className="space-y-5 mb-8">
+      {product.variantOptions?.map(option => (
+        <div key={option.name}>
+          <p className="text-xs font-bold uppercase tracking-widest text-stone-500 mb-2">
+            {getOptionLabel(option.name)}
+            {selectedOptions[option.name] && <span className="ml-2 normal-case tracking-normal font-medium text-stone-800">{selectedOptions[option.name]}</span>}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map(value => {
+              const isSelected = selectedOptions[option.name] === value;
+              const isAvailable = isOptionValueAvailable(product, selectedOptions, option.name, value);
+              return (
+                <button
+                  key={value}
+                  disabled={!isAvailable}
+                  onClick={() => setSelectedOptions(prev => ({ ...prev, [option.name]: value }))}
+                  className={`min-w-[3rem] px-4 py-2 border text-sm font-medium transition-colors ${isSelected ? 'bg-emerald-900 border-emerald-900 text-white' : 'bg-white border-stone-300 text-stone-700 hover:border-emerald-900'} disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
   );
 
-  const renderProductDetail = (product: Product) => (
+  const renderProductDetail = (product: Product) => {
+    const selectedVariant = findVariant(product, selectedOptions);
+    const needsChoice = hasVariants(product) && !selectedVariant;
+    const line = toCartItem(product, selectedVariant);
+    const isAtLimit = !needsChoice && getLineQuantity(getCartLineId(line)) >= line.stockQuantity;
+
+    return (
     <div className="bg-parchment min-h-screen">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         <button 
@@ -504,7 +876,7 @@ const AppContent: React.FC = () => {
             <div className="relative bg-white rounded-sm shadow-xl p-2 rotate-1 hover:rotate-0 transition-transform duration-500 border border-stone-200">
             <div className="aspect-[4/5] overflow-hidden relative">
                 <ImageWithFallback 
-                  src={product.imageUrl} 
+                  src={selectedVariant?.imageUrl || product.imageUrl} 
                   alt={product.name}
                   fallbackTerm={`ethiopian ${product.category} ${product.name}`}
                   className="w-full h-full object-cover" 
@@ -519,11 +891,10 @@ const AppContent: React.FC = () => {
             <div className="flex flex-col justify-center pt-8">
             <div className="flex items-center gap-2 mb-4">
                 <span className="h-px w-8 bg-eth-earth"></span>
-                <AutoTranslatedText 
+                <LocalizedLabel 
                  as="span"
                  className="text-eth-earth font-bold tracking-widest uppercase text-xs"
-                 value={product.category}
-                 translationKey={getCategoryKey(product.category)}
+                 text={getCategoryName(product)}
                />
             </div>
             
@@ -533,8 +904,20 @@ const AppContent: React.FC = () => {
                 value={product.name}
                 translationKey={`product_${product.id}_name`}
             />
+            {ratings[product.id] && (
+                <p className="flex items-center gap-2 -mt-3 mb-6 text-sm text-stone-500">
+                    <StarRating rating={ratings[product.id].average} size={16} />
+                    {ratings[product.id].average.toFixed(1)} · {t('reviews_count').replace('{count}', String(ratings[product.id].count))}
+                </p>
+            )}
+
+            <p className="text-3xl text-coffee font-serif italic mb-2">
+                {formatPrice(displayPrice(getVariantPrice(product, selectedVariant), product.category))}
+                <span className="ml-2 text-xs font-sans not-italic text-stone-400">{t(VAT_NOTE_KEY)}</span>
+            </p>
+            <p className="text-xs font-mono text-stone-400 mb-8 h-4">{selectedVariant ? `SKU ${selectedVariant.sku}` : ''}</p>
 
-            <p className="text-3xl text-coffee font-serif italic mb-8">{product.currency}{product.price}</p>
+            {hasVariants(product) && renderVariantPicker(product)}
             
             <div className="prose prose-stone mb-10">
                 <AutoTranslatedText 
@@ -558,10 +941,16 @@ const AppContent: React.FC = () => {
                 </div>
             </div>
 
-            <div className="flex gap-4 mb-10">
-                <Button size="lg" className="flex-1 h-14 bg-eth-earth text-lg" onClick={() => handleAddToCart(product)} disabled={!product.inStock}>
-                {product.inStock ? t('add_to_collection') : t('out_of_stock')}
-                </Button>
+            <div className="flex flex-col gap-2 mb-10">
+                <div className="flex gap-2">
+                    <Button size="lg" className="flex-1 h-14 bg-eth-earth text-lg" onClick={() => handleAddToCart(product, selectedVariant)} disabled={!product.inStock || needsChoice || isAtLimit || line.stockQuantity <= 0}>
+                    {!product.inStock || (!needsChoice && line.stockQuantity <= 0) ? t('out_of_stock') : needsChoice ? t('choose_options') : isAtLimit ? t('max_in_cart') : t('add_to_collection')}
+                    </Button>
+                    <WishlistButton productId={product.id} size={24} className="h-14 w-14 shrink-0 flex items-center justify-center border border-stone-300 bg-white hover:border-eth-earth" />
+                </div>
+                {!needsChoice && line.stockQuantity > 0 && line.stockQuantity <= 3 && (
+                    <p className="text-sm text-amber-700 font-medium">{t('only_left').replace('{count}', String(line.stockQuantity))}</p>
+                )}
             </div>
 
             <div className="grid grid-cols-2 gap-4 border-t border-stone-200 pt-6">
@@ -582,9 +971,12 @@ const AppContent: React.FC = () => {
             </div>
             </div>
         </div>
+
+        <ProductReviews product={product} summary={ratings[product.id]} />
         </div>
     </div>
-  );
+    );
+  };
 
   return (
     <div className="min-h-screen font-sans bg-stone-50 text-stone-900 selection:bg-gold-accent selection:text-stone-900 relative">
@@ -621,6 +1013,9 @@ const AppContent: React.FC = () => {
                     products={products.slice(0, 3)} 
                     onProductClick={navigateToProduct}
                     onAddToCart={handleAddToCart}
+                    cartQuantities={cartQuantities}
+                    ratings={ratings}
+                    categories={categories}
                  />
               </div>
             </div>
@@ -632,51 +1027,114 @@ const AppContent: React.FC = () => {
             <div className="flex flex-col md:flex-row justify-between items-center mb-12 gap-6">
               <div>
                 <h1 className="text-4xl font-serif font-bold mb-2">
-                    {searchQuery ? `${t('search_results')} "${searchQuery}"` : (selectedCategory === Category.ALL ? t('full_collection') : getCategoryTranslation(selectedCategory))}
+                    {searchQuery ? `${t('search_results')} "${searchQuery}"` : (selectedCategory ? <LocalizedLabel text={selectedCategory.name} /> : t('full_collection'))}
                 </h1>
-                <p className="text-stone-500">{filteredProducts.length} {filteredProducts.length === 1 ? 'item' : t('items_found')}.</p>
+                <div className="flex flex-wrap items-center gap-4">
+                  <p className="text-stone-500">{filteredProducts.length} {filteredProducts.length === 1 ? 'item' : t('items_found')}.</p>
+                  <label className="flex items-center gap-2 text-sm text-stone-500">
+                    {t('sort_by')}
+                    <select
+                      value={filters.sort}
+                      onChange={e => setFilters({ ...filters, sort: e.target.value as ProductSort })}
+                      className="border border-stone-200 bg-white rounded px-2 py-1 text-stone-700 focus:ring-2 focus:ring-emerald-800 outline-none"
+                    >
+                      {PRODUCT_SORTS.map(sort => <option key={sort} value={sort}>{t(`sort_${sort}`)}</option>)}
+                    </select>
+                  </label>
+                </div>
               </div>
               
               {!searchQuery && (
-                <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0 w-full md:w-auto no-scrollbar">
-                  {[Category.ALL, Category.CLOTHES, Category.ART, Category.ACCESSORIES, Category.MISC].map(cat => (
-                    <button
-                      key={cat}
-                      onClick={() => setSelectedCategory(cat)}
-                      className={`px-6 py-2.5 rounded-full text-sm font-medium whitespace-nowrap transition-all duration-300 ${selectedCategory === cat ? 'bg-eth-earth text-white shadow-lg transform scale-105' : 'bg-white border border-stone-200 text-stone-600 hover:bg-stone-50 hover:border-emerald-200'}`}
-                    >
-                      {cat === Category.ALL ? t('nav_shop') : getCategoryTranslation(cat)}
-                    </button>
-                  ))}
+                <div className="w-full md:w-auto space-y-3">
+                  <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0 no-scrollbar">
+                    {[undefined, ...topCategories].map(category => (
+                      <button
+                        key={category?.id || 'all'}
+                        onClick={() => setCategorySlug(category?.slug || '')}
+                        className={`px-6 py-2.5 rounded-full text-sm font-medium whitespace-nowrap transition-all duration-300 ${selectedTopCategory?.id === category?.id ? 'bg-eth-earth text-white shadow-lg transform scale-105' : 'bg-white border border-stone-200 text-stone-600 hover:bg-stone-50 hover:border-emerald-200'}`}
+                      >
+                        {category ? <LocalizedLabel text={category.name} /> : t('nav_shop')}
+                      </button>
+                    ))}
+                  </div>
+                  {/* Subcategories of the chosen top-level category */}
+                  {selectedTopCategory && flattenCategoryTree(categories, selectedTopCategory.id).length > 0 && (
+                    <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0 no-scrollbar">
+                      {flattenCategoryTree(categories, selectedTopCategory.id).map(({ category }) => (
+                        <button
+                          key={category.id}
+                          onClick={() => setCategorySlug(category.slug === categorySlug ? selectedTopCategory.slug : category.slug)}
+                          className={`px-4 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${category.id === selectedCategory?.id ? 'bg-emerald-900 text-white' : 'bg-white border border-stone-200 text-stone-600 hover:border-emerald-200'}`}
+                        >
+                          <LocalizedLabel text={category.name} />
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
             
-            {loadingProducts ? (
-               <div className="py-20 text-center text-stone-500">Loading catalog...</div>
-            ) : filteredProducts.length > 0 ? (
-                <ProductList 
-                products={filteredProducts} 
-                onProductClick={navigateToProduct}
-                onAddToCart={handleAddToCart}
-                />
-            ) : (
-                <div className="text-center py-20 bg-white border border-stone-100 rounded-lg">
-                    <Search className="mx-auto h-12 w-12 text-stone-300 mb-4" />
-                    <h3 className="text-lg font-medium text-stone-900">{t('no_items_found')}</h3>
-                    <p className="text-stone-500 mt-2">Try adjusting your search terms or browse our full collection.</p>
-                    <Button 
-                        className="mt-6" 
-                        onClick={() => {setSearchQuery(''); setIsSearchActive(false); setSelectedCategory(Category.ALL)}}
-                    >
-                        {t('reset_search')}
-                    </Button>
-                </div>
-            )}
+            <div className="flex flex-col lg:flex-row gap-10">
+              <ShopFilters facets={facets} filters={filters} onChange={setFilters} />
+              <div className="flex-1 min-w-0">
+                {loadingProducts ? (
+                   <div className="py-20 text-center text-stone-500">Loading catalog...</div>
+                ) : filteredProducts.length > 0 ? (
+                    <ProductList 
+                    products={filteredProducts} 
+                    onProductClick={navigateToProduct}
+                    onAddToCart={handleAddToCart}
+                    cartQuantities={cartQuantities}
+                    ratings={ratings}
+                    highlights={searchHighlights}
+                    categories={categories}
+                    />
+                ) : (
+                    <div className="text-center py-20 bg-white border border-stone-100 rounded-lg">
+                        <Search className="mx-auto h-12 w-12 text-stone-300 mb-4" />
+                        <h3 className="text-lg font-medium text-stone-900">{t('no_items_found')}</h3>
+                        <p className="text-stone-500 mt-2">Try adjusting your search terms or browse our full collection.</p>
+                        <Button 
+                            className="mt-6" 
+                            onClick={() => {setSearchQuery(''); setIsSearchActive(false); setCategorySlug(''); setFilters(EMPTY_FILTERS)}}
+                        >
+                            {t('reset_search')}
+                        </Button>
+                    </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {currentView === 'product' && (pendingProductSlug ? (
+          <div className="py-32 flex justify-center text-stone-400"><Loader2 size={32} className="animate-spin" /></div>
+        ) : selectedProduct && renderProductDetail(selectedProduct))}
+
+        {currentView === 'collection' && (loadingProducts || !selectedCollection ? (
+          <div className="py-32 flex justify-center text-stone-400"><Loader2 size={32} className="animate-spin" /></div>
+        ) : renderCollection(selectedCollection))}
+
+        {currentView === 'not_found' && (
+          <div className="max-w-xl mx-auto px-4 py-32 text-center">
+            <p className="text-6xl font-serif font-bold text-eth-earth mb-4">404</p>
+            <h1 className="text-3xl font-serif font-bold text-stone-900 mb-2">{t('page_not_found')}</h1>
+            <p className="text-stone-500 mb-8">{t('page_not_found_desc')}</p>
+            <Button onClick={() => navigateToShop()}>{t('full_collection')}</Button>
           </div>
         )}
 
-        {currentView === 'product' && selectedProduct && renderProductDetail(selectedProduct)}
+        {currentView === 'wishlist' && (
+          <WishlistView
+            catalog={products}
+            shared={sharedWishlist}
+            onProductClick={navigateToProduct}
+            onAddToCart={handleAddToCart}
+            onBrowse={() => navigateToShop()}
+            cartQuantities={cartQuantities}
+          />
+        )}
       </main>
 
       <footer className="bg-stone-900 text-stone-400 py-16 mt-0 relative">
@@ -711,6 +1169,7 @@ const AppContent: React.FC = () => {
               <li onClick={() => openInfoModal('shipping')} className="hover:text-white cursor-pointer transition-colors">{t('shipping_policy')}</li>
               <li onClick={() => openInfoModal('authenticity')} className="hover:text-white cursor-pointer transition-colors">{t('authenticity_guarantee')}</li>
               <li onClick={() => openInfoModal('returns')} className="hover:text-white cursor-pointer transition-colors">{t('returns_exchanges')}</li>
+              <li onClick={() => setIsGiftCardOpen(true)} className="hover:text-white cursor-pointer transition-colors">{t('gift_cards')}</li>
               <li onClick={() => openInfoModal('tracking')} className="hover:text-white cursor-pointer transition-colors font-bold text-gold-accent">{t('track_order')}</li>
             </ul>
           </div>
@@ -783,6 +1242,9 @@ const AppContent: React.FC = () => {
         onUpdateQuantity={handleUpdateCartQuantity}
         onRemove={handleRemoveFromCart}
         onCheckout={handleStartCheckout}
+        promotion={promotion}
+        onApplyPromoCode={handleApplyPromoCode}
+        onRemovePromotion={() => setPromotion(null)}
       />
 
       <CheckoutModal 
@@ -790,6 +1252,9 @@ const AppContent: React.FC = () => {
         onClose={() => setIsCheckoutOpen(false)}
         cart={cart}
         onComplete={handleCheckoutComplete}
+        promotion={promotion}
+        onApplyPromoCode={handleApplyPromoCode}
+        onRemovePromotion={() => setPromotion(null)}
       />
 
       <OrdersModal
@@ -801,6 +1266,18 @@ const AppContent: React.FC = () => {
         isOpen={!!infoModalType}
         onClose={() => setInfoModalType(null)}
         type={infoModalType}
+        trackingRef={trackingRef}
+        onTracked={setTrackingRef}
+      />
+
+      <GiftCardModal
+        isOpen={isGiftCardOpen}
+        onClose={() => setIsGiftCardOpen(false)}
+      />
+
+      <AccountModal
+        isOpen={isAccountOpen}
+        onClose={() => setIsAccountOpen(false)}
       />
 
       <CuratorChat activeProduct={currentView === 'product' ? selectedProduct : undefined} />
@@ -811,7 +1288,13 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
     return (
         <LanguageProvider>
-            <AppContent />
+            <CurrencyProvider>
+                <AccountProvider>
+                    <WishlistProvider>
+                        <AppContent />
+                    </WishlistProvider>
+                </AccountProvider>
+            </CurrencyProvider>
         </LanguageProvider>
     );
 }
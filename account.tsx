@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { Customer, CustomerRegistration, CustomerSession } from './types';
+import { backend } from './services/backendClient';
+import { BackendError } from './services/backend';
+import { createStorageAdapter } from './services/storage';
+
+// The session token is all the browser keeps; the profile is always fetched fresh
+const SESSION_KEY = 'ethio_customer_session';
+const tokenStorage = createStorageAdapter();
+
+interface AccountContextType {
+  customer: Customer | null;
+  token: string | null;
+  isRestoring: boolean;
+  register: (registration: CustomerRegistration) => Promise<void>;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  setCustomer: (customer: Customer) => void; // After profile or address changes
+}
+
+const AccountContext = createContext<AccountContextType | undefined>(undefined);
+
+export const AccountProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  const clearSession = async () => {
+    setCustomer(null);
+    setToken(null);
+    await tokenStorage.removeItem(SESSION_KEY);
+  };
+
+  // Resume the previous visit's session if the backend still knows it
+  useEffect(() => {
+    const restore = async () => {
+      const saved = await tokenStorage.getItem(SESSION_KEY);
+      if (!saved) return;
+      try {
+        setCustomer(await backend.getCustomer(saved));
+        setToken(saved);
+      } catch (error) {
+        if (error instanceof BackendError && error.status === 401) await clearSession();
+        else console.error('Failed to restore customer session', error);
+      }
+    };
+    restore().finally(() => setIsRestoring(false));
+  }, []);
+
+  const startSession = async (session: CustomerSession) => {
+    setCustomer(session.customer);
+    setToken(session.token);
+    await tokenStorage.setItem(SESSION_KEY, session.token);
+  };
+
+  const register = async (registration: CustomerRegistration) => startSession(await backend.registerCustomer(registration));
+
+  const login = async (email: string, password: string) => startSession(await backend.loginCustomer(email, password));
+
+  const logout = async () => {
+    if (token) await backend.logoutCustomer(token).catch(error => console.error('Failed to end session', error));
+    await clearSession();
+  };
+
+  return (
+    <AccountContext.Provider value={{ customer, token, isRestoring, register, login, logout, setCustomer }}>
+      {children}
+    </AccountContext.Provider>
+  );
+};
+
+export const useAccount = () => {
+  const context = useContext(AccountContext);
+  if (!context) {
+    throw new Error('useAccount must be used within an AccountProvider');
+  }
+  return context;
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { X, User, Loader2, AlertCircle, Package, LogOut, CheckCircle } from 'lucide-react';
+import Button from './Button';
+import ImageWithFallback from './ImageWithFallback';
+import AddressBook from './AddressBook';
+import { Order } from '../types';
+import { backend } from '../services/backendClient';
+import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { useAccount } from '../account';
+import { PASSWORD_MIN_LENGTH } from '../services/accounts';
+import { getShipmentStatus } from '../services/shipments';
+
+interface AccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type AccountTab = 'orders' | 'addresses' | 'profile';
+
+const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose }) => {
+  const { t, language } = useLanguage();
+  const { formatSettlement } = useCurrency();
+  const { customer, token, register, login, logout, setCustomer } = useAccount();
+  const [mode, setMode] = useState<'sign_in' | 'register'>('sign_in');
+  const [activeTab, setActiveTab] = useState<AccountTab>('orders');
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setError('');
+      setNotice('');
+      setOrders(null);
+      setActiveTab('orders');
+    }
+  }, [isOpen]);
+
+  // Orders are loaded whenever the tab is shown, so a checkout just completed appears straight away
+  useEffect(() => {
+    if (!isOpen || !token || activeTab !== 'orders') return;
+    backend.getCustomerOrders(token)
+      .then(setOrders)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [isOpen, token, activeTab]);
+
+  if (!isOpen) return null;
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAuth = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get('email') as string;
+    const password = formData.get('password') as string;
+    run(() => mode === 'register'
+      ? register({ email, password, firstName: formData.get('firstName') as string, lastName: formData.get('lastName') as string })
+      : login(email, password));
+  };
+
+  const handleProfile = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    run(async () => {
+      setCustomer(await backend.updateCustomer(token!, {
+        firstName: formData.get('firstName') as string,
+        lastName: formData.get('lastName') as string,
+        phone: formData.get('phone') as string,
+      }));
+      setNotice(t('profile_saved'));
+    });
+  };
+
+  const tabClass = (tab: AccountTab) =>
+    `py-2 text-sm font-bold border-b-2 transition-colors ${activeTab === tab ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`;
+
+  const errorMessage = error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm" onClick={() => !isSubmitting && onClose()}></div>
+      <div className="relative w-full max-w-lg bg-white rounded-xl shadow-2xl p-8 animate-fade-in max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-stone-400 hover:text-stone-800 transition-colors">
+          <X size={24} />
+        </button>
+
+        <div className="flex items-center gap-3 mb-6 text-emerald-900 border-b border-stone-200 pb-4">
+          <User size={28} />
+          <h2 className="text-2xl font-serif font-bold">
+            {customer ? t('account_greeting').replace('{name}', customer.firstName) : t(mode === 'register' ? 'create_account' : 'sign_in')}
+          </h2>
+        </div>
+
+        {!customer ? (
+          <form key={mode} onSubmit={handleAuth} className="space-y-4">
+            {mode === 'register' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('form_fname')}</label>
+                  <input required name="firstName" type="text" autoComplete="given-name" className={inputClass} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('form_lname')}</label>
+                  <input required name="lastName" type="text" autoComplete="family-name" className={inputClass} />
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_email')}</label>
+              <input required name="email" type="email" autoComplete="email" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_password')}</label>
+              <input
+                required
+                name="password"
+                type="password"
+                minLength={mode === 'register' ? PASSWORD_MIN_LENGTH : undefined}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                className={inputClass}
+              />
+              {mode === 'register' && <p className="text-xs text-stone-400">{t('password_hint')}</p>}
+            </div>
+            {errorMessage}
+            <Button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center gap-2">
+              {isSubmitting && <Loader2 size={16} className="animate-spin" />} {t(mode === 'register' ? 'create_account' : 'sign_in')}
+            </Button>
+            <button
+              type="button"
+              onClick={() => { setMode(mode === 'register' ? 'sign_in' : 'register'); setError(''); }}
+              className="block w-full text-center text-sm text-emerald-800 hover:underline"
+            >
+              {t(mode === 'register' ? 'have_account' : 'no_account_yet')}
+            </button>
+          </form>
+        ) : (
+          <>
+            <div className="flex gap-6 border-b border-stone-200 mb-4">
+              <button onClick={() => setActiveTab('orders')} className={tabClass('orders')}>{t('my_orders')}</button>
+              <button onClick={() => setActiveTab('addresses')} className={tabClass('addresses')}>{t('saved_addresses')}</button>
+              <button onClick={() => setActiveTab('profile')} className={tabClass('profile')}>{t('profile')}</button>
+            </div>
+
+            {activeTab === 'orders' && (
+              <div className="space-y-3">
+                {orders === null ? (
+                  <div className="flex justify-center py-8 text-stone-400"><Loader2 size={24} className="animate-spin" /></div>
+                ) : orders.length === 0 ? (
+                  <div className="text-center py-8 text-stone-400 flex flex-col items-center">
+                    <Package size={40} className="mb-3 opacity-30" />
+                    <p className="text-sm">{t('no_orders_yet')}</p>
+                  </div>
+                ) : orders.map(order => {
+                  const latestShipment = order.shipments?.[order.shipments.length - 1];
+                  const shipmentStatus = latestShipment && getShipmentStatus(latestShipment);
+                  return (
+                    <div key={order.id} className="border border-stone-200 rounded p-4 text-sm">
+                      <div className="flex justify-between gap-4 mb-3">
+                        <span>
+                          <span className="font-mono font-bold text-stone-900">{order.id}</span>
+                          <span className="block text-xs text-stone-400">
+                            {new Date(order.date).toLocaleDateString(language)} · {t('order_items_count').replace('{count}', String(order.items.reduce((n, item) => n + item.quantity, 0)))}
+                          </span>
+                        </span>
+                        <span className="text-right">
+                          <span className="block font-bold text-emerald-900">{t(`order_status_${order.status}`)}</span>
+                          <span className="block text-xs text-stone-500">{formatSettlement(order.total)}</span>
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        {order.items.map(item => (
+                          <ImageWithFallback key={`${item.id}-${item.variant?.id || ''}`} src={item.imageUrl} alt={item.name} className="w-12 h-12 object-cover rounded" />
+                        ))}
+                      </div>
+                      {latestShipment && shipmentStatus && (
+                        <p className="text-xs text-stone-500 mt-3">
+                          {t(`shipment_status_${shipmentStatus}`)} · {latestShipment.carrier} <span className="font-mono">{latestShipment.trackingNumber}</span>
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+                {errorMessage}
+              </div>
+            )}
+
+            {activeTab === 'addresses' && <AddressBook />}
+
+            {activeTab === 'profile' && (
+              <form onSubmit={handleProfile} className="space-y-4">
+                <p className="text-sm text-stone-500">{t('signed_in_as').replace('{email}', customer.email)}</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('form_fname')}</label>
+                    <input required name="firstName" defaultValue={customer.firstName} type="text" className={inputClass} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('form_lname')}</label>
+                    <input required name="lastName" defaultValue={customer.lastName} type="text" className={inputClass} />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('form_phone')}</label>
+                  <input name="phone" defaultValue={customer.phone} type="tel" placeholder="+32 ..." className={inputClass} />
+                </div>
+                {errorMessage}
+                {notice && <p className="text-xs text-emerald-700 flex items-center gap-1"><CheckCircle size={12} /> {notice}</p>}
+                <div className="flex justify-between items-center">
+                  <button type="button" onClick={() => run(logout)} className="text-sm text-stone-500 hover:text-red-600 flex items-center gap-1">
+                    <LogOut size={14} /> {t('sign_out')}
+                  </button>
+                  <Button type="submit" disabled={isSubmitting} className="flex items-center gap-2">
+                    {isSubmitting && <Loader2 size={16} className="animate-spin" />} {t('save')}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccountModal;
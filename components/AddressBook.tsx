@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, MapPin, Plus, Star, Trash2 } from 'lucide-react';
+import Button from './Button';
+import { useLanguage } from '../i18n';
+import { useAccount } from '../account';
+import { backend } from '../services/backendClient';
+import { Customer, SavedAddress } from '../types';
+import { EU_COUNTRIES } from '../constants';
+import { getDefaultAddress } from '../services/accounts';
+import { AddressErrors, AddressField, SAVED_ADDRESS_REQUIRED_FIELDS, getPhoneExample, getPostalCodeExample, hasAddressErrors, validateAddress } from '../services/addressValidation';
+
+// Saved delivery addresses on the signed-in account; checkout starts from the default one
+const AddressBook: React.FC = () => {
+  const { t } = useLanguage();
+  const { customer, token, setCustomer } = useAccount();
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [country, setCountry] = useState('Germany');
+  const [fieldErrors, setFieldErrors] = useState<AddressErrors>({});
+  const [error, setError] = useState('');
+
+  if (!customer || !token) return null;
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+  const fieldClass = (field: AddressField) => `${inputClass} ${fieldErrors[field] ? 'border-red-500 bg-red-50' : ''}`;
+  const defaultAddressId = getDefaultAddress(customer)?.id;
+
+  const renderFieldError = (field: AddressField) => {
+    const code = fieldErrors[field];
+    if (!code) return null;
+    const example = field === 'postalCode' ? getPostalCodeExample(country) : getPhoneExample(country);
+    return <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={10} /> {t(`address_error_${code}`).replace('{example}', example)}</p>;
+  };
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const { address, errors } = validateAddress<Omit<SavedAddress, 'id'>>({
+      label: formData.get('label') as string,
+      firstName: formData.get('firstName') as string,
+      lastName: formData.get('lastName') as string,
+      phone: formData.get('phone') as string,
+      address: formData.get('address') as string,
+      city: formData.get('city') as string,
+      postalCode: formData.get('postalCode') as string,
+      country: formData.get('country') as string,
+    }, SAVED_ADDRESS_REQUIRED_FIELDS);
+    setFieldErrors(errors);
+    if (hasAddressErrors(errors)) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      setCustomer(await backend.saveCustomerAddress(token, address));
+      closeForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runForAddress = async (addressId: string, action: () => Promise<Customer>) => {
+    setBusyId(addressId);
+    setError('');
+    try {
+      setCustomer(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setFieldErrors({});
+    setError('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {customer.addresses.length === 0 && !isAdding && (
+        <p className="text-sm text-stone-500">{t('no_saved_addresses')}</p>
+      )}
+      {customer.addresses.map(address => (
+        <div key={address.id} className="flex items-start justify-between gap-4 bg-stone-50 border border-stone-200 rounded p-4 text-sm">
+          <span className="flex gap-3">
+            <MapPin size={16} className="text-stone-400 shrink-0 mt-0.5" />
+            <span>
+              <span className="flex items-center gap-2">
+                {address.label && <span className="font-bold text-stone-900">{address.label}</span>}
+                {address.id === defaultAddressId && (
+                  <span className="text-[10px] font-bold uppercase bg-emerald-100 text-emerald-900 px-2 py-0.5 rounded">{t('default_address')}</span>
+                )}
+              </span>
+              <span className="block text-stone-700">{address.firstName} {address.lastName}</span>
+              <span className="block text-stone-500">{address.address}, {address.postalCode} {address.city}, {address.country}</span>
+            </span>
+          </span>
+          {busyId === address.id ? (
+            <Loader2 size={16} className="animate-spin text-stone-400" />
+          ) : (
+            <span className="flex gap-2">
+              {address.id !== defaultAddressId && (
+                <button
+                  onClick={() => runForAddress(address.id, () => backend.setDefaultCustomerAddress(token, address.id))}
+                  className="text-stone-400 hover:text-emerald-800 transition-colors"
+                  title={t('make_default')}
+                >
+                  <Star size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => runForAddress(address.id, () => backend.deleteCustomerAddress(token, address.id))}
+                className="text-stone-400 hover:text-red-600 transition-colors"
+                title={t('remove')}
+              >
+                <Trash2 size={16} />
+              </button>
+            </span>
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>}
+
+      {isAdding ? (
+        <form onSubmit={handleAdd} noValidate className="space-y-3 border border-stone-200 rounded p-4 animate-fade-in">
+          <div className="space-y-1">
+            <label className={labelClass}>{t('address_label')}</label>
+            <input name="label" type="text" className={inputClass} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_fname')}</label>
+              <input required name="firstName" defaultValue={customer.firstName} type="text" className={fieldClass('firstName')} />
+              {renderFieldError('firstName')}
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_lname')}</label>
+              <input required name="lastName" defaultValue={customer.lastName} type="text" className={fieldClass('lastName')} />
+              {renderFieldError('lastName')}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>{t('form_phone')}</label>
+            <input name="phone" defaultValue={customer.phone} type="tel" placeholder={getPhoneExample(country)} className={fieldClass('phone')} />
+            {renderFieldError('phone')}
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>{t('form_address')}</label>
+            <input required name="address" type="text" className={fieldClass('address')} />
+            {renderFieldError('address')}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_city')}</label>
+              <input required name="city" type="text" className={fieldClass('city')} />
+              {renderFieldError('city')}
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_postal_code')}</label>
+              <input required name="postalCode" type="text" placeholder={getPostalCodeExample(country)} className={fieldClass('postalCode')} />
+              {renderFieldError('postalCode')}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>{t('form_country')}</label>
+            <select name="country" value={country} onChange={e => setCountry(e.target.value)} className={`${inputClass} bg-white`}>
+              {EU_COUNTRIES.map(country => <option key={country} value={country}>{country}</option>)}
+            </select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={closeForm}>{t('cancel')}</Button>
+            <Button type="submit" size="sm" disabled={isSaving} className="flex items-center gap-2">
+              {isSaving && <Loader2 size={14} className="animate-spin" />} {t('save')}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsAdding(true)} className="flex items-center gap-2">
+          <Plus size={14} /> {t('add_address')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AddressBook;
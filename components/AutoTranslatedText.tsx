@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useLanguage } from '../i18n';
 import { translateText } from '../services/geminiService';
+import { highlightMatches } from '../services/search';
+import { LanguageCode } from '../types';
 
 interface AutoTranslatedTextProps {
   value: string;      // The English fallback text
   translationKey?: string; // The key to check in i18n.tsx
+  sourceLanguage?: LanguageCode; // For customer-written text (reviews) that may not be English
+  highlightTerms?: string[]; // Search terms to mark in whatever text ends up shown
   className?: string;
   as?: 'span' | 'p' | 'h1' | 'h2' | 'h3' | 'div';
 }
@@ -23,6 +27,8 @@ const simpleHash = (str: string) => {
 const AutoTranslatedText: React.FC<AutoTranslatedTextProps> = ({ 
   value, 
   translationKey, 
+  sourceLanguage = 'en',
+  highlightTerms = [],
   className = '', 
   as: Component = 'span' 
 }) => {
@@ -39,15 +45,15 @@ const AutoTranslatedText: React.FC<AutoTranslatedTextProps> = ({
   useEffect(() => {
     if (!value) return;
 
-    // 1. If language is English, just show the value
-    if (language === 'en') {
+    // 1. If the reader's language is the one it was written in, just show the value
+    if (language === sourceLanguage) {
       setTranslatedContent(value);
       setIsLoading(false);
       return;
     }
 
     // 2. Try to get it from i18n (Strict Check via Key)
-    if (translationKey) {
+    if (translationKey && sourceLanguage === 'en') {
       const exactMatch = getExactTranslation(translationKey);
       if (exactMatch) {
         setTranslatedContent(exactMatch);
@@ -59,7 +65,7 @@ const AutoTranslatedText: React.FC<AutoTranslatedTextProps> = ({
     // 3. Translation Memory check (Reverse Lookup)
     // This looks for ANY existing translation of the exact same English text.
     // Extremely useful for duplicate products/descriptions.
-    const memoryMatch = findBestTranslation(value);
+    const memoryMatch = sourceLanguage === 'en' ? findBestTranslation(value) : null;
     if (memoryMatch) {
         setTranslatedContent(memoryMatch);
         setIsLoading(false);
@@ -105,17 +111,21 @@ const AutoTranslatedText: React.FC<AutoTranslatedTextProps> = ({
         }
       });
 
-  }, [language, value, translationKey, getExactTranslation, findBestTranslation]);
+  }, [language, value, translationKey, sourceLanguage, getExactTranslation, findBestTranslation]);
+
+  const content = highlightTerms.length === 0 ? translatedContent : highlightMatches(translatedContent, highlightTerms).map((segment, idx) =>
+    segment.match ? <mark key={idx} className="bg-gold-accent/30 text-inherit rounded-sm">{segment.text}</mark> : segment.text
+  );
 
   if (isLoading) {
     return (
         <Component className={`${className} opacity-60 animate-pulse`}>
-           {translatedContent} 
+           {content} 
         </Component>
     );
   }
 
-  return <Component className={className}>{translatedContent}</Component>;
+  return <Component className={className}>{content}</Component>;
 };
 
 export default AutoTranslatedText;
\ No newline at end of file
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Loader2, FileText } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { ReconciliationResult, ReconciliationStatus } from '../types';
+import Button from './Button';
+
+const RESULT_LABELS: Record<ReconciliationStatus, string> = {
+    matched: 'Paid',
+    overpaid: 'Overpaid',
+    partial: 'Partial',
+    not_pending: 'Check order',
+    unmatched: 'Unmatched',
+    duplicate: 'Duplicate',
+    ignored: 'Ignored',
+};
+
+const RESULT_STYLES: Record<ReconciliationStatus, string> = {
+    matched: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+    overpaid: 'bg-orange-50 text-orange-800 border-orange-200',
+    partial: 'bg-amber-50 text-amber-800 border-amber-200',
+    not_pending: 'bg-red-50 text-red-700 border-red-200',
+    unmatched: 'bg-red-50 text-red-700 border-red-200',
+    duplicate: 'bg-stone-100 text-stone-500 border-stone-200',
+    ignored: 'bg-stone-100 text-stone-500 border-stone-200',
+};
+
+// Admin import of bank statements (CSV or camt.053) to settle bank transfer orders
+const BankReconciliationTab: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importing, setImporting] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [results, setResults] = useState<ReconciliationResult[] | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+
+        setImporting(true);
+        setFileName(file.name);
+        try {
+            setResults(await backend.importBankStatement(await file.text()));
+        } catch (error) {
+            setResults(null);
+            alert(error instanceof Error ? error.message : 'Failed to import bank statement.');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const count = (...statuses: ReconciliationStatus[]) => results?.filter(r => statuses.includes(r.status)).length || 0;
+    const needsAttention = count('overpaid', 'partial', 'not_pending', 'unmatched');
+
+    return (
+        <div className="h-full overflow-y-auto p-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <p className="text-sm text-stone-500 max-w-2xl">
+                    Import a CSV export or camt.053 statement from the bank. Credits quoting an order reference (e.g. <span className="font-mono">ORDER ETH-12345</span>) are applied to pending bank transfer orders; orders paid in full move to Paid automatically.
+                </p>
+                <input ref={fileInputRef} type="file" accept=".csv,.txt,.xml,text/csv,application/xml,text/xml" className="hidden" onChange={handleFile} />
+                <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing} className="flex items-center gap-2 shrink-0">
+                    {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import Statement
+                </Button>
+            </div>
+
+            {!results ? (
+                <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                    <FileText size={48} className="mb-4 opacity-20" />
+                    <p>No statement imported yet.</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Entries</p>
+                            <p className="text-2xl font-serif text-stone-900">{results.length}</p>
+                            <p className="text-xs text-stone-400 truncate">{fileName}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Orders Paid</p>
+                            <p className="text-2xl font-serif text-emerald-800">{count('matched', 'overpaid')}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Needs Attention</p>
+                            <p className={`text-2xl font-serif ${needsAttention > 0 ? 'text-amber-700' : 'text-stone-900'}`}>{needsAttention}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Skipped</p>
+                            <p className="text-2xl font-serif text-stone-400">{count('duplicate', 'ignored')}</p>
+                        </div>
+                    </div>
+
+                    <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-x-auto">
+                        <table className="w-full text-left border-collapse">
+                            <thead>
+                                <tr className="bg-stone-50 text-stone-500 text-xs uppercase tracking-wider border-b border-stone-200">
+                                    <th className="p-4">Date</th>
+                                    <th className="p-4">Payer / Reference</th>
+                                    <th className="p-4 text-right">Amount</th>
+                                    <th className="p-4">Order</th>
+                                    <th className="p-4">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-sm text-stone-700">
+                                {results.map(result => (
+                                    <tr key={result.line.entryId} className="border-b border-stone-100 last:border-0 align-top">
+                                        <td className="p-4 whitespace-nowrap">{result.line.date}</td>
+                                        <td className="p-4">
+                                            <span className="block font-medium">{result.line.counterparty || '—'}</span>
+                                            <span className="block text-xs text-stone-500 font-mono break-all">{result.line.remittance || 'No reference'}</span>
+                                        </td>
+                                        <td className={`p-4 text-right font-mono whitespace-nowrap ${result.line.amount < 0 ? 'text-red-600' : ''}`}>
+                                            {result.line.amount.toFixed(2)} {result.line.currency}
+                                        </td>
+                                        <td className="p-4">
+                                            {result.orderId ? <span className="font-mono">{result.orderId}</span> : <span className="text-stone-400">—</span>}
+                                            {result.amountDue !== undefined && (
+                                                <span className="block text-xs text-stone-500">Due €{result.amountDue.toFixed(2)}</span>
+                                            )}
+                                        </td>
+                                        <td className="p-4">
+                                            <span className={`inline-block px-2 py-1 rounded border text-xs font-bold uppercase tracking-wider ${RESULT_STYLES[result.status]}`}>
+                                                {RESULT_LABELS[result.status]}
+                                            </span>
+                                            {result.note && <span className="block text-xs text-stone-500 mt-1">{result.note}</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BankReconciliationTab;
@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Loader2, Truck } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { CarrierEventImportResult, CarrierEventImportStatus } from '../types';
+import { SHIPMENT_EVENT_LABELS, SHIPMENT_EVENT_STYLES } from '../services/shipments';
+import Button from './Button';
+
+const RESULT_LABELS: Record<CarrierEventImportStatus, string> = {
+    added: 'Added',
+    duplicate: 'Duplicate',
+    unmatched: 'Unknown parcel',
+};
+
+const RESULT_STYLES: Record<CarrierEventImportStatus, string> = {
+    added: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+    duplicate: 'bg-stone-100 text-stone-500 border-stone-200',
+    unmatched: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// Admin import of carrier scan exports (CSV) onto order shipments
+const CarrierEventsTab: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importing, setImporting] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [results, setResults] = useState<CarrierEventImportResult[] | null>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+
+        setImporting(true);
+        setFileName(file.name);
+        try {
+            setResults(await backend.importCarrierEvents(await file.text()));
+        } catch (error) {
+            setResults(null);
+            alert(error instanceof Error ? error.message : 'Failed to import carrier events.');
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const count = (status: CarrierEventImportStatus) => results?.filter(r => r.status === status).length || 0;
+
+    return (
+        <div className="h-full overflow-y-auto p-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <p className="text-sm text-stone-500 max-w-2xl">
+                    Import a carrier's tracking export as CSV with tracking number, date, status and location columns. Scans are added to the matching shipments; orders move to Shipped or Delivered as their parcels do.
+                </p>
+                <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+                <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing} className="flex items-center gap-2 shrink-0">
+                    {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import Events
+                </Button>
+            </div>
+
+            {!results ? (
+                <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                    <Truck size={48} className="mb-4 opacity-20" />
+                    <p>No carrier file imported yet.</p>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Rows</p>
+                            <p className="text-2xl font-serif text-stone-900">{results.length}</p>
+                            <p className="text-xs text-stone-400 truncate">{fileName}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Events Added</p>
+                            <p className="text-2xl font-serif text-emerald-800">{count('added')}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Unknown Parcels</p>
+                            <p className={`text-2xl font-serif ${count('unmatched') > 0 ? 'text-amber-700' : 'text-stone-900'}`}>{count('unmatched')}</p>
+                        </div>
+                        <div className="bg-white p-4 rounded-lg border border-stone-200">
+                            <p className="text-xs text-stone-500 uppercase tracking-wider font-bold mb-1">Duplicates</p>
+                            <p className="text-2xl font-serif text-stone-400">{count('duplicate')}</p>
+                        </div>
+                    </div>
+
+                    <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-x-auto">
+                        <table className="w-full text-left border-collapse">
+                            <thead>
+                                <tr className="bg-stone-50 text-stone-500 text-xs uppercase tracking-wider border-b border-stone-200">
+                                    <th className="p-4">Scanned</th>
+                                    <th className="p-4">Tracking Number</th>
+                                    <th className="p-4">Event</th>
+                                    <th className="p-4">Order</th>
+                                    <th className="p-4">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-sm text-stone-700">
+                                {results.map((result, idx) => (
+                                    <tr key={idx} className="border-b border-stone-100 last:border-0 align-top">
+                                        <td className="p-4 whitespace-nowrap">{new Date(result.event.date).toLocaleString()}</td>
+                                        <td className="p-4 font-mono">{result.trackingNumber}</td>
+                                        <td className="p-4">
+                                            <span className={`inline-block px-2 py-1 rounded border text-[10px] font-bold uppercase tracking-wider ${SHIPMENT_EVENT_STYLES[result.event.status]}`}>
+                                                {SHIPMENT_EVENT_LABELS[result.event.status]}
+                                            </span>
+                                            {result.event.location && <span className="block text-xs text-stone-500 mt-1">{result.event.location}</span>}
+                                        </td>
+                                        <td className="p-4">
+                                            {result.orderId ? <span className="font-mono">{result.orderId}</span> : <span className="text-stone-400">—</span>}
+                                        </td>
+                                        <td className="p-4">
+                                            <span className={`inline-block px-2 py-1 rounded border text-xs font-bold uppercase tracking-wider ${RESULT_STYLES[result.status]}`}>
+                                                {RESULT_LABELS[result.status]}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CarrierEventsTab;
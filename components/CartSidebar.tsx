@@ -1,24 +1,36 @@
 
 import React from 'react';
 import { X, Minus, Plus, ShoppingBag, ShieldCheck } from 'lucide-react';
-import { CartItem } from '../types';
+import { CartItem, Promotion } from '../types';
 import Button from './Button';
 import ImageWithFallback from './ImageWithFallback';
 import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
 import AutoTranslatedText from './AutoTranslatedText';
+import PromoCodeInput from './PromoCodeInput';
+import { describeVariant, getCartLineId } from '../services/variants';
+import { calculatePricing } from '../services/pricing';
+import { VAT_NOTE_KEY, displayPrice } from '../services/vat';
 
 interface CartSidebarProps {
   isOpen: boolean;
   onClose: () => void;
   items: CartItem[];
-  onUpdateQuantity: (id: string, delta: number) => void;
-  onRemove: (id: string) => void;
+  onUpdateQuantity: (lineId: string, delta: number) => void;
+  onRemove: (lineId: string) => void;
   onCheckout: () => void;
+  promotion: Promotion | null;
+  onApplyPromoCode: (code: string) => Promise<void>;
+  onRemovePromotion: () => void;
 }
 
-const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpdateQuantity, onRemove, onCheckout }) => {
+const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpdateQuantity, onRemove, onCheckout, promotion, onApplyPromoCode, onRemovePromotion }) => {
   const { t } = useLanguage();
-  const total = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const { formatPrice } = useCurrency();
+  // Shipping and duties depend on the destination, so the cart only prices the goods
+  const pricing = calculatePricing({ lines: items, promotions: promotion ? [promotion] : [] });
+  const goodsTotal = pricing.lines.reduce((sum, line, index) => sum + displayPrice(line.net, items[index].category), 0);
+  const discountShown = pricing.lines.reduce((sum, line, index) => sum + displayPrice(line.discount, items[index].category), 0);
 
   return (
     <>
@@ -52,7 +64,7 @@ const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpd
               </div>
             ) : (
               items.map((item) => (
-                <div key={item.id} className="flex gap-4 p-4 bg-white rounded-lg shadow-sm border border-stone-100">
+                <div key={getCartLineId(item)} className="flex gap-4 p-4 bg-white rounded-lg shadow-sm border border-stone-100">
                   <div className="w-20 h-20 bg-stone-100 rounded-md overflow-hidden flex-shrink-0 border border-stone-200">
                     <ImageWithFallback 
                       src={item.imageUrl} 
@@ -68,10 +80,11 @@ const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpd
                       value={item.name}
                       translationKey={`product_${item.id}_name`}
                     />
-                    <p className="text-emerald-800 font-bold text-sm">{item.currency}{item.price}</p>
+                    {item.variant && <p className="text-xs text-stone-500">{describeVariant(item.variant)}</p>}
+                    <p className="text-emerald-800 font-bold text-sm">{formatPrice(displayPrice(item.price, item.category))}</p>
                     <div className="flex items-center gap-3 mt-2">
                       <button 
-                        onClick={() => onUpdateQuantity(item.id, -1)}
+                        onClick={() => onUpdateQuantity(getCartLineId(item), -1)}
                         className="p-1 rounded-full hover:bg-stone-100 text-stone-600 border border-stone-200"
                         disabled={item.quantity <= 1}
                       >
@@ -79,18 +92,22 @@ const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpd
                       </button>
                       <span className="text-sm font-medium w-4 text-center">{item.quantity}</span>
                       <button 
-                        onClick={() => onUpdateQuantity(item.id, 1)}
-                        className="p-1 rounded-full hover:bg-stone-100 text-stone-600 border border-stone-200"
+                        onClick={() => onUpdateQuantity(getCartLineId(item), 1)}
+                        className="p-1 rounded-full hover:bg-stone-100 text-stone-600 border border-stone-200 disabled:opacity-40"
+                        disabled={item.quantity >= item.stockQuantity}
                       >
                         <Plus size={12} />
                       </button>
                       <button 
-                        onClick={() => onRemove(item.id)}
+                        onClick={() => onRemove(getCartLineId(item))}
                         className="ml-auto text-red-500 text-xs hover:text-red-700 font-medium"
                       >
                         Remove
                       </button>
                     </div>
+                    {item.quantity >= item.stockQuantity && (
+                      <p className="text-[11px] text-amber-700 mt-1">{t('only_left').replace('{count}', String(item.stockQuantity))}</p>
+                    )}
                   </div>
                 </div>
               ))
@@ -98,9 +115,20 @@ const CartSidebar: React.FC<CartSidebarProps> = ({ isOpen, onClose, items, onUpd
           </div>
 
           <div className="p-6 border-t border-stone-200 bg-white">
+            {items.length > 0 && (
+              <div className="mb-4">
+                <PromoCodeInput promotion={promotion} lines={items} onApply={onApplyPromoCode} onRemove={onRemovePromotion} />
+              </div>
+            )}
+            {discountShown > 0 && (
+              <div className="flex justify-between items-center mb-2 text-sm text-emerald-700">
+                <span>{t('discount')}</span>
+                <span>-{formatPrice(discountShown)}</span>
+              </div>
+            )}
             <div className="flex justify-between items-center mb-4">
-              <span className="font-medium text-stone-600">Subtotal</span>
-              <span className="font-serif text-2xl font-bold text-stone-900">€{total.toFixed(2)}</span>
+              <span className="font-medium text-stone-600">Subtotal <span className="text-xs text-stone-400">({t(VAT_NOTE_KEY)})</span></span>
+              <span className="font-serif text-2xl font-bold text-stone-900">{formatPrice(goodsTotal)}</span>
             </div>
             <div className="flex items-center gap-2 text-xs text-stone-500 mb-6 bg-stone-50 p-2 rounded">
                 <ShieldCheck size={14} className="text-emerald-700" />
@@ -0,0 +1,439 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, FolderTree, ArrowUp, ArrowDown, CornerDownRight, Layers } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { Category, Collection, CollectionMembership, CollectionRules, LanguageCode, LocalizedText, Product } from '../types';
+import { flattenCategoryTree, getChildCategories, getCollectionProducts, getDescendantIds, isInCategory } from '../services/categories';
+import Button from './Button';
+import ImageWithFallback from './ImageWithFallback';
+
+// Names and descriptions are entered in English; these languages can be given their own
+const TRANSLATED_LANGUAGES: { code: LanguageCode; label: string }[] = [
+    { code: 'am', label: 'Amharic' },
+    { code: 'om', label: 'Afaan Oromoo' },
+    { code: 'ti', label: 'Tigrinya' },
+    { code: 'fr', label: 'French' },
+    { code: 'de', label: 'German' },
+    { code: 'nl', label: 'Dutch' },
+    { code: 'it', label: 'Italian' },
+    { code: 'es', label: 'Spanish' },
+];
+
+type CategoryDraft = Partial<Category> & { name: LocalizedText };
+type CollectionDraft = Partial<Collection> & { name: LocalizedText; membership: CollectionMembership; productIds: string[]; rules: CollectionRules };
+
+const EMPTY_COLLECTION: CollectionDraft = {
+    name: { en: '' },
+    membership: 'manual',
+    productIds: [],
+    rules: {},
+    active: false
+};
+
+const countTranslations = (text?: LocalizedText) => TRANSLATED_LANGUAGES.filter(({ code }) => !!text?.[code]).length;
+
+const describeRules = (rules: CollectionRules, categories: Category[]) => [
+    rules.categoryId && (categories.find(c => c.id === rules.categoryId)?.name.en || rules.categoryId),
+    rules.region,
+    rules.material,
+    rules.artisan,
+    rules.minPrice !== undefined && `from €${rules.minPrice}`,
+    rules.maxPrice !== undefined && `up to €${rules.maxPrice}`,
+    rules.inStockOnly && 'in stock',
+].filter(Boolean).join(' · ') || 'Every product';
+
+interface LocalizedTextFieldsProps {
+    label: string;
+    value?: LocalizedText;
+    required?: boolean;
+    multiline?: boolean;
+    placeholder?: string;
+    onChange: (value: LocalizedText) => void;
+}
+
+// English plus an optional translation per language; blank languages fall back to English in the shop
+const LocalizedTextFields: React.FC<LocalizedTextFieldsProps> = ({ label, value, required, multiline, placeholder, onChange }) => {
+    const text = value || { en: '' };
+    const set = (code: LanguageCode, next: string) => onChange({ ...text, [code]: next });
+    const Field = multiline ? 'textarea' : 'input';
+    return (
+        <div>
+            <label className="block text-xs font-bold uppercase text-stone-500 mb-1">{label} (English)</label>
+            <Field required={required} rows={multiline ? 2 : undefined} className="w-full border p-2 rounded" placeholder={placeholder} value={text.en} onChange={e => set('en', e.target.value)} />
+            <details className="mt-2">
+                <summary className="text-xs text-emerald-800 cursor-pointer">Translations ({countTranslations(text)} of {TRANSLATED_LANGUAGES.length})</summary>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                    {TRANSLATED_LANGUAGES.map(({ code, label: languageLabel }) => (
+                        <div key={code}>
+                            <label className="block text-[10px] uppercase text-stone-400 mb-0.5">{languageLabel}</label>
+                            <Field rows={multiline ? 2 : undefined} className="w-full border p-1.5 rounded text-sm" placeholder={text.en} value={text[code] || ''} onChange={e => set(code, e.target.value)} />
+                        </div>
+                    ))}
+                </div>
+            </details>
+        </div>
+    );
+};
+
+const BannerField: React.FC<{ value?: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+    <div>
+        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Banner Image URL</label>
+        <input className="w-full border p-2 rounded text-sm" placeholder="/images/banners/timkat.png" value={value || ''} onChange={e => onChange(e.target.value)} />
+        {value && (
+            <div className="mt-2 h-24 rounded overflow-hidden bg-stone-100">
+                <ImageWithFallback src={value} alt="" className="w-full h-full object-cover" />
+            </div>
+        )}
+    </div>
+);
+
+// Admin tab for the shop's category tree and curated collections (Timkat Edit, gifts under €50…)
+const CategoriesTab: React.FC = () => {
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [collections, setCollections] = useState<Collection[]>([]);
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [editingCategory, setEditingCategory] = useState<CategoryDraft | null>(null);
+    const [editingCollection, setEditingCollection] = useState<CollectionDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        const [categoryList, collectionList, productList] = await Promise.all([backend.getCategories(), backend.getCollections(), backend.getProducts()]);
+        setCategories(categoryList);
+        setCollections(collectionList);
+        setProducts(productList);
+        setLoading(false);
+    };
+
+    // Runs an admin action and reloads; failures (e.g. deleting a category still in use) are shown as is
+    const run = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+        try {
+            await action();
+            refresh();
+            return true;
+        } catch (error) {
+            alert(error instanceof Error ? error.message : fallbackMessage);
+            return false;
+        }
+    };
+
+    // --- CATEGORIES ---
+
+    const tree = flattenCategoryTree(categories);
+    const countProducts = (category: Category) => products.filter(p => isInCategory(categories, p, category.id)).length;
+
+    const moveCategory = (category: Category, offset: number) => {
+        const siblings = getChildCategories(categories, category.parentId);
+        const index = siblings.findIndex(c => c.id === category.id);
+        run(() => backend.updateCategory(category.id, { position: index + offset }), 'Failed to reorder categories.');
+    };
+
+    const handleDeleteCategory = (category: Category) => {
+        const note = category.parentId ? ' Its products move up to the parent category.' : '';
+        if (window.confirm(`Delete the category "${category.name.en}"?${note}`)) {
+            run(() => backend.deleteCategory(category.id), 'Failed to delete category.');
+        }
+    };
+
+    const handleSaveCategory = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editingCategory) return;
+        setSaving(true);
+        const { id, name, description, bannerUrl, parentId } = editingCategory;
+        const fields = { name, description: description || { en: '' }, bannerUrl: bannerUrl?.trim() || '' };
+        const saved = await run(
+            () => id ? backend.updateCategory(id, { ...fields, parentId: parentId || '' }) : backend.addCategory({ ...fields, parentId: parentId || undefined }),
+            'Failed to save category.'
+        );
+        setSaving(false);
+        if (saved) setEditingCategory(null);
+    };
+
+    // A category cannot move under itself or anything nested in it
+    const parentOptions = editingCategory?.id
+        ? tree.filter(({ category }) => !getDescendantIds(categories, editingCategory.id!).includes(category.id))
+        : tree;
+
+    // --- COLLECTIONS ---
+
+    const moveCollection = (collection: Collection, offset: number) => {
+        run(() => backend.updateCollection(collection.id, { position: collection.position + offset }), 'Failed to reorder collections.');
+    };
+
+    const handleDeleteCollection = (collection: Collection) => {
+        if (window.confirm(`Delete the collection "${collection.name.en}"? Its page stops working.`)) {
+            run(() => backend.deleteCollection(collection.id), 'Failed to delete collection.');
+        }
+    };
+
+    const updateCollectionDraft = (changes: Partial<CollectionDraft>) => setEditingCollection(prev => prev && ({ ...prev, ...changes }));
+    const updateRules = (changes: Partial<CollectionRules>) => setEditingCollection(prev => prev && ({ ...prev, rules: { ...prev.rules, ...changes } }));
+
+    const moveMember = (index: number, offset: number) => {
+        if (!editingCollection) return;
+        const productIds = [...editingCollection.productIds];
+        const [moved] = productIds.splice(index, 1);
+        productIds.splice(index + offset, 0, moved);
+        updateCollectionDraft({ productIds });
+    };
+
+    const handleSaveCollection = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editingCollection) return;
+        setSaving(true);
+        // Only what the chosen membership uses is kept
+        const { id, slug, position, ...draft } = editingCollection;
+        const fields = {
+            ...draft,
+            description: draft.description || { en: '' },
+            bannerUrl: draft.bannerUrl?.trim() || '',
+            productIds: draft.membership === 'manual' ? draft.productIds : [],
+            rules: draft.membership === 'rules' ? draft.rules : {},
+            active: !!draft.active
+        };
+        const saved = await run(
+            () => id ? backend.updateCollection(id, fields) : backend.addCollection(fields),
+            'Failed to save collection.'
+        );
+        setSaving(false);
+        if (saved) setEditingCollection(null);
+    };
+
+    const distinctValues = (field: 'region' | 'material' | 'artisan') =>
+        Array.from(new Set(products.map(p => p[field]).filter((value): value is string => !!value))).sort();
+
+    const previewProducts = editingCollection ? getCollectionProducts({ ...EMPTY_COLLECTION, ...editingCollection } as Collection, products, categories) : [];
+
+    const iconButton = "p-2 text-stone-400 hover:text-emerald-800 hover:bg-emerald-50 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="p-4 bg-stone-100 border-b border-stone-200 flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setEditingCollection({ ...EMPTY_COLLECTION })} className="flex items-center gap-2">
+                    <Plus size={16}/> New Collection
+                </Button>
+                <Button size="sm" onClick={() => setEditingCategory({ name: { en: '' } })} className="flex items-center gap-2">
+                    <Plus size={16}/> New Category
+                </Button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-10">
+                {loading && categories.length === 0 ? (
+                    <div className="text-center py-20 text-stone-400">Loading categories...</div>
+                ) : (
+                    <>
+                        <section>
+                            <h3 className="font-bold text-stone-900 mb-3 flex items-center gap-2"><FolderTree size={18}/> Categories</h3>
+                            <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                                {tree.map(({ category, depth }) => {
+                                    const siblings = getChildCategories(categories, category.parentId);
+                                    const index = siblings.findIndex(c => c.id === category.id);
+                                    return (
+                                        <div key={category.id} className="flex items-center gap-3 p-3 border-b border-stone-100 last:border-0 hover:bg-stone-50" style={{ paddingLeft: `${12 + depth * 28}px` }}>
+                                            {depth > 0 && <CornerDownRight size={14} className="text-stone-300 flex-shrink-0" />}
+                                            <div className="w-12 h-12 bg-stone-100 rounded overflow-hidden flex-shrink-0">
+                                                {category.bannerUrl && <ImageWithFallback src={category.bannerUrl} alt="" className="w-full h-full object-cover" />}
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-bold text-stone-900 truncate">{category.name.en}</p>
+                                                <p className="text-xs text-stone-500">
+                                                    /shop/{category.slug} · {countProducts(category)} products · {countTranslations(category.name)}/{TRANSLATED_LANGUAGES.length} translations
+                                                    {!depth && category.bannerUrl && ' · on the home page'}
+                                                </p>
+                                            </div>
+                                            <div className="flex gap-1">
+                                                <button title="Move up" disabled={index === 0} onClick={() => moveCategory(category, -1)} className={iconButton}><ArrowUp size={16}/></button>
+                                                <button title="Move down" disabled={index === siblings.length - 1} onClick={() => moveCategory(category, 1)} className={iconButton}><ArrowDown size={16}/></button>
+                                                <button title="Add subcategory" onClick={() => setEditingCategory({ name: { en: '' }, parentId: category.id })} className={iconButton}><Plus size={16}/></button>
+                                                <button title="Edit" onClick={() => setEditingCategory({ ...category })} className={iconButton}><Edit size={16}/></button>
+                                                <button title="Delete" onClick={() => handleDeleteCategory(category)} className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"><Trash2 size={16}/></button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </section>
+
+                        <section>
+                            <h3 className="font-bold text-stone-900 mb-3 flex items-center gap-2"><Layers size={18}/> Collections</h3>
+                            {collections.length === 0 ? (
+                                <div className="text-center py-10 text-stone-400 bg-white rounded-lg border border-stone-200">
+                                    <p>No collections yet. Group pieces across categories, e.g. a "Timkat Edit".</p>
+                                </div>
+                            ) : (
+                                <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                                    {collections.map((collection, index) => (
+                                        <div key={collection.id} className="flex items-center gap-3 p-3 border-b border-stone-100 last:border-0 hover:bg-stone-50">
+                                            <div className="w-12 h-12 bg-stone-100 rounded overflow-hidden flex-shrink-0">
+                                                {collection.bannerUrl && <ImageWithFallback src={collection.bannerUrl} alt="" className="w-full h-full object-cover" />}
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-bold text-stone-900 truncate">{collection.name.en}</p>
+                                                <p className="text-xs text-stone-500 truncate">
+                                                    /collections/{collection.slug} · {getCollectionProducts(collection, products, categories).length} products · {collection.membership === 'manual' ? 'Hand-picked' : describeRules(collection.rules, categories)}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => run(() => backend.updateCollection(collection.id, { active: !collection.active }), 'Failed to update collection.')}
+                                                className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded ${collection.active ? 'bg-emerald-50 text-emerald-800 border-emerald-200' : 'bg-stone-100 text-stone-500 border-stone-200'}`}
+                                            >
+                                                {collection.active ? 'Live' : 'Hidden'}
+                                            </button>
+                                            <div className="flex gap-1">
+                                                <button title="Move up" disabled={index === 0} onClick={() => moveCollection(collection, -1)} className={iconButton}><ArrowUp size={16}/></button>
+                                                <button title="Move down" disabled={index === collections.length - 1} onClick={() => moveCollection(collection, 1)} className={iconButton}><ArrowDown size={16}/></button>
+                                                <button title="Edit" onClick={() => setEditingCollection({ ...collection })} className={iconButton}><Edit size={16}/></button>
+                                                <button title="Delete" onClick={() => handleDeleteCollection(collection)} className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"><Trash2 size={16}/></button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </section>
+                    </>
+                )}
+            </div>
+
+            {/* CATEGORY EDIT OVERLAY */}
+            {editingCategory && (
+                <div className="absolute inset-0 bg-stone-900/50 backdrop-blur-sm z-50 flex justify-end">
+                    <div className="w-full md:w-[500px] bg-white h-full shadow-2xl flex flex-col animate-fade-in">
+                        <div className="p-4 border-b border-stone-200 flex justify-between items-center bg-stone-50">
+                            <h3 className="font-bold text-lg">{editingCategory.id ? 'Edit Category' : 'New Category'}</h3>
+                            <button onClick={() => setEditingCategory(null)}><X size={20} className="text-stone-500"/></button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6">
+                            <form id="categoryForm" onSubmit={handleSaveCategory} className="space-y-4">
+                                <LocalizedTextFields label="Name" required value={editingCategory.name} onChange={name => setEditingCategory({ ...editingCategory, name })} />
+                                <LocalizedTextFields label="Tagline" multiline placeholder="Handwoven Tibeb & Modern Cuts" value={editingCategory.description} onChange={description => setEditingCategory({ ...editingCategory, description })} />
+                                <div>
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Parent</label>
+                                    <select className="w-full border p-2 rounded" value={editingCategory.parentId || ''} onChange={e => setEditingCategory({ ...editingCategory, parentId: e.target.value || undefined })}>
+                                        <option value="">None (top level)</option>
+                                        {parentOptions.map(({ category, depth }) => (
+                                            <option key={category.id} value={category.id}>{'  '.repeat(depth)}{category.name.en}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-[10px] text-stone-500 mt-1">Top-level categories appear in the menu. Products nested anywhere under Art get the reduced VAT rate for works of art.</p>
+                                </div>
+                                <BannerField value={editingCategory.bannerUrl} onChange={bannerUrl => setEditingCategory({ ...editingCategory, bannerUrl })} />
+                                <p className="text-[10px] text-stone-500">Top-level categories with a banner get a card on the home page.{editingCategory.slug && ` The address stays /shop/${editingCategory.slug} after renaming.`}</p>
+                            </form>
+                        </div>
+                        <div className="p-4 border-t border-stone-200 bg-stone-50 flex justify-end gap-3">
+                            <Button variant="ghost" onClick={() => setEditingCategory(null)} type="button">Cancel</Button>
+                            <Button form="categoryForm" type="submit" disabled={saving}>
+                                {saving ? 'Saving...' : <><Save size={16} className="mr-2"/> Save Category</>}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* COLLECTION EDIT OVERLAY */}
+            {editingCollection && (
+                <div className="absolute inset-0 bg-stone-900/50 backdrop-blur-sm z-50 flex justify-end">
+                    <div className="w-full md:w-[560px] bg-white h-full shadow-2xl flex flex-col animate-fade-in">
+                        <div className="p-4 border-b border-stone-200 flex justify-between items-center bg-stone-50">
+                            <h3 className="font-bold text-lg">{editingCollection.id ? 'Edit Collection' : 'New Collection'}</h3>
+                            <button onClick={() => setEditingCollection(null)}><X size={20} className="text-stone-500"/></button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6">
+                            <form id="collectionForm" onSubmit={handleSaveCollection} className="space-y-4">
+                                <LocalizedTextFields label="Name" required placeholder="Timkat Edit" value={editingCollection.name} onChange={name => updateCollectionDraft({ name })} />
+                                <LocalizedTextFields label="Description" multiline value={editingCollection.description} onChange={description => updateCollectionDraft({ description })} />
+                                <BannerField value={editingCollection.bannerUrl} onChange={bannerUrl => updateCollectionDraft({ bannerUrl })} />
+
+                                <div>
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Products</label>
+                                    <div className="flex gap-4 text-sm text-stone-700">
+                                        <label className="flex items-center gap-2">
+                                            <input type="radio" checked={editingCollection.membership === 'manual'} onChange={() => updateCollectionDraft({ membership: 'manual' })} /> Hand-picked
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            <input type="radio" checked={editingCollection.membership === 'rules'} onChange={() => updateCollectionDraft({ membership: 'rules' })} /> Matching rules
+                                        </label>
+                                    </div>
+                                </div>
+
+                                {editingCollection.membership === 'manual' ? (
+                                    <div className="space-y-2">
+                                        {editingCollection.productIds.map((productId, index) => (
+                                            <div key={productId} className="flex items-center gap-2 border rounded p-2 text-sm">
+                                                <span className="flex-1 truncate">{products.find(p => p.id === productId)?.name || productId}</span>
+                                                <button type="button" disabled={index === 0} onClick={() => moveMember(index, -1)} className={iconButton}><ArrowUp size={14}/></button>
+                                                <button type="button" disabled={index === editingCollection.productIds.length - 1} onClick={() => moveMember(index, 1)} className={iconButton}><ArrowDown size={14}/></button>
+                                                <button type="button" onClick={() => updateCollectionDraft({ productIds: editingCollection.productIds.filter(id => id !== productId) })} className="p-2 text-stone-400 hover:text-red-600"><X size={14}/></button>
+                                            </div>
+                                        ))}
+                                        <select className="w-full border p-2 rounded text-sm" value="" onChange={e => e.target.value && updateCollectionDraft({ productIds: [...editingCollection.productIds, e.target.value] })}>
+                                            <option value="">Add a product…</option>
+                                            {products.filter(p => !editingCollection.productIds.includes(p.id)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                        </select>
+                                    </div>
+                                ) : (
+                                    <div className="space-y-3 bg-stone-50 border border-stone-200 rounded p-4">
+                                        <div>
+                                            <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Category</label>
+                                            <select className="w-full border p-2 rounded text-sm" value={editingCollection.rules.categoryId || ''} onChange={e => updateRules({ categoryId: e.target.value || undefined })}>
+                                                <option value="">Any category</option>
+                                                {tree.map(({ category, depth }) => (
+                                                    <option key={category.id} value={category.id}>{'  '.repeat(depth)}{category.name.en}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {(['region', 'material', 'artisan'] as const).map(field => (
+                                                <div key={field}>
+                                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">{field}</label>
+                                                    <select className="w-full border p-2 rounded text-sm" value={editingCollection.rules[field] || ''} onChange={e => updateRules({ [field]: e.target.value || undefined })}>
+                                                        <option value="">Any</option>
+                                                        {distinctValues(field).map(value => <option key={value} value={value}>{value}</option>)}
+                                                    </select>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Min Price (€, net)</label>
+                                                <input type="number" min="0" step="0.01" className="w-full border p-2 rounded text-sm" value={editingCollection.rules.minPrice ?? ''} onChange={e => updateRules({ minPrice: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Max Price (€, net)</label>
+                                                <input type="number" min="0" step="0.01" className="w-full border p-2 rounded text-sm" value={editingCollection.rules.maxPrice ?? ''} onChange={e => updateRules({ maxPrice: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                                            </div>
+                                        </div>
+                                        <label className="flex items-center gap-2 text-sm text-stone-700">
+                                            <input type="checkbox" checked={!!editingCollection.rules.inStockOnly} onChange={e => updateRules({ inStockOnly: e.target.checked || undefined })} />
+                                            In stock only
+                                        </label>
+                                        <p className="text-xs text-stone-500">
+                                            {previewProducts.length} products match now: {previewProducts.slice(0, 5).map(p => p.name).join(', ')}{previewProducts.length > 5 && '…'}
+                                        </p>
+                                    </div>
+                                )}
+
+                                <label className="flex items-center gap-2 text-sm text-stone-700">
+                                    <input type="checkbox" checked={!!editingCollection.active} onChange={e => updateCollectionDraft({ active: e.target.checked })} />
+                                    Live in the shop (home page card and /collections/{editingCollection.slug || '…'})
+                                </label>
+                            </form>
+                        </div>
+                        <div className="p-4 border-t border-stone-200 bg-stone-50 flex justify-end gap-3">
+                            <Button variant="ghost" onClick={() => setEditingCollection(null)} type="button">Cancel</Button>
+                            <Button form="collectionForm" type="submit" disabled={saving}>
+                                {saving ? 'Saving...' : <><Save size={16} className="mr-2"/> Save Collection</>}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CategoriesTab;
@@ -1,12 +1,28 @@
 
 import React, { useState, useEffect } from 'react';
-import { X, Lock, CheckCircle, CreditCard, ShieldCheck, ArrowRight, ArrowLeft, Building, Copy, Loader2, Mail, Phone, ExternalLink, AlertCircle } from 'lucide-react';
+import { X, Lock, CheckCircle, CreditCard, ShieldCheck, ArrowRight, ArrowLeft, Building, Copy, Loader2, Mail, Phone, ExternalLink, AlertCircle, Timer, Gift, User } from 'lucide-react';
 import Button from './Button';
-import { CartItem, ShippingDetails, Order, PaymentMethod, CardProvider } from '../types';
+import { CartItem, ShippingDetails, Order, PaymentMethod, CardProvider, StockReservation, ShippingService, Promotion, PaymentIntent, PaymentRequest } from '../types';
 import ImageWithFallback from './ImageWithFallback';
 import { saveOrder } from '../services/orderService';
+import { backend } from '../services/backendClient';
+import { BackendError } from '../services/backend';
 import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { useAccount } from '../account';
 import AutoTranslatedText from './AutoTranslatedText';
+import PromoCodeInput from './PromoCodeInput';
+import { describeVariant, getCartLineId } from '../services/variants';
+import { calculatePricing } from '../services/pricing';
+import { getShippingQuotes } from '../services/shipping';
+import { EU_COUNTRIES } from '../constants';
+import { isValidCreditCard, isValidCvc, isValidExpiry } from '../services/cardValidation';
+import { roundMoney } from '../services/money';
+import { SETTLEMENT_CURRENCY } from '../services/currency';
+import { toOrderPayment } from '../services/paymentProvider';
+import { MOCK_3DS_CODE } from '../services/mockPaymentProvider';
+import { getDefaultAddress, isSameAddress } from '../services/accounts';
+import { AddressErrors, AddressField, SHIPPING_REQUIRED_FIELDS, getPhoneExample, getPostalCodeExample, hasAddressErrors, validateAddress } from '../services/addressValidation';
 
 // --- MERCHANT BANK DETAILS ---
 const MERCHANT_BANK_DETAILS = {
@@ -17,43 +33,22 @@ const MERCHANT_BANK_DETAILS = {
     iban: "ET00CBET1000012345678"
 };
 
-const EU_COUNTRIES = [
-    "Austria", "Belgium", "Bulgaria", "Croatia", "Cyprus", "Czech Republic", 
-    "Denmark", "Estonia", "Finland", "France", "Germany", "Greece", "Hungary", 
-    "Ireland", "Italy", "Latvia", "Lithuania", "Luxembourg", "Malta", "Netherlands", 
-    "Poland", "Portugal", "Romania", "Slovakia", "Slovenia", "Spain", "Sweden"
-];
-
 interface CheckoutModalProps {
   isOpen: boolean;
   onClose: () => void;
   cart: CartItem[];
   onComplete: () => void;
+  promotion: Promotion | null;
+  onApplyPromoCode: (code: string) => Promise<void>;
+  onRemovePromotion: () => void;
 }
 
 type CheckoutStep = 'shipping' | 'payment' | 'confirmation';
 
-// Helper: Simple Luhn Algorithm for basic card validation
-const isValidCreditCard = (value: string) => {
-  if (/[^0-9-\s]+/.test(value)) return false;
-  let nCheck = 0, nDigit = 0, bEven = false;
-  const newValue = value.replace(/\D/g, "");
-  if(newValue.length < 13 || newValue.length > 19) return false;
-
-  for (let n = newValue.length - 1; n >= 0; n--) {
-    const cDigit = newValue.charAt(n);
-    nDigit = parseInt(cDigit, 10);
-    if (bEven) {
-      if ((nDigit *= 2) > 9) nDigit -= 9;
-    }
-    nCheck += nDigit;
-    bEven = !bEven;
-  }
-  return (nCheck % 10) === 0;
-};
-
-const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, onComplete }) => {
+const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, onComplete, promotion, onApplyPromoCode, onRemovePromotion }) => {
   const { t, language } = useLanguage();
+  const { currency, rate, formatPrice, formatSettlement, refreshRates } = useCurrency();
+  const { customer, token, setCustomer } = useAccount();
   const [step, setStep] = useState<CheckoutStep>('shipping');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('credit_card');
   const [cardProvider, setCardProvider] = useState<CardProvider>('visa');
@@ -61,38 +56,127 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
   // Processing States
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>(''); // For UX feedback
+  const [pendingPayment, setPendingPayment] = useState<PaymentIntent | null>(null); // Waiting on 3-D Secure or PayPal approval
+  const [paymentError, setPaymentError] = useState('');
+  const [challengeCode, setChallengeCode] = useState('');
   
   const [shippingData, setShippingData] = useState<ShippingDetails | null>(null);
+  const [destination, setDestination] = useState('Germany');
+  const [shippingService, setShippingService] = useState<ShippingService>('standard');
   const [orderRef, setOrderRef] = useState('');
+  const [savedAddressId, setSavedAddressId] = useState<string>('');
+  const [saveAddress, setSaveAddress] = useState(false);
   
   // Validation Error State
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [addressErrors, setAddressErrors] = useState<AddressErrors>({});
+
+  // Stock held for this checkout while on the payment step
+  const [reservation, setReservation] = useState<StockReservation | null>(null);
+  const [isReserving, setIsReserving] = useState(false);
+  const [stockError, setStockError] = useState('');
+  const [giftCard, setGiftCard] = useState<{ code: string; balance: number } | null>(null);
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCardError, setGiftCardError] = useState('');
+  const [isCheckingGiftCard, setIsCheckingGiftCard] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   // Reset state when modal is closed
   useEffect(() => {
     if (!isOpen) {
+      if (reservation) {
+          backend.releaseReservation(reservation.id).catch(err => console.error("Failed to release reservation", err));
+      }
       setStep('shipping');
       setPaymentMethod('credit_card');
       setIsProcessing(false);
       setErrors({});
+      setAddressErrors({});
       setProcessingStatus('');
+      setPendingPayment(null);
+      setPaymentError('');
+      setChallengeCode('');
+      setReservation(null);
+      setStockError('');
+      setGiftCard(null);
+      setGiftCardCode('');
+      setGiftCardError('');
     } else {
         setOrderRef(`ETH-${Math.floor(Math.random() * 100000)}`);
     }
   }, [isOpen]);
 
-  const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const shippingCost = 25.00;
-  const importDuties = 12.50;
-  const total = subtotal + shippingCost + importDuties;
+  // Signed-in customers start from their default address
+  useEffect(() => {
+    if (!isOpen || shippingData) return;
+    const preferred = customer ? getDefaultAddress(customer) : undefined;
+    setSavedAddressId(preferred?.id || '');
+    setSaveAddress(false);
+    if (preferred) setDestination(preferred.country);
+  }, [isOpen, customer]);
+
+  // Reservation countdown; send the customer back to review once it lapses
+  useEffect(() => {
+    if (step !== 'payment' || !reservation) return;
+    const timer = setInterval(() => {
+        const current = Date.now();
+        setNow(current);
+        if (current >= new Date(reservation.expiresAt).getTime() && !isProcessing) {
+            setReservation(null);
+            setPendingPayment(null);
+            setStep('shipping');
+            setStockError(t('reservation_expired'));
+        }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [step, reservation, isProcessing]);
+
+  // Same engine the backend uses to verify the order
+  const shippingQuotes = getShippingQuotes(cart, destination);
+  const pricing = calculatePricing({ lines: cart, country: destination, shippingService, promotions: promotion ? [promotion] : [] });
+  const { subtotal, discount, shippingCost, duties: importDuties, vat, total } = pricing;
+  // The gift card pays first; whatever it does not cover goes to card or PayPal
+  const giftCardAmount = giftCard ? roundMoney(Math.min(giftCard.balance, total)) : 0;
+  const amountDue = roundMoney(total - giftCardAmount);
+  const giftCardCoversTotal = !!giftCard && amountDue === 0;
 
   if (!isOpen) return null;
 
-  const handleShippingSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  // What the shipping form starts with: what was typed before, else the chosen saved address and the profile
+  const savedAddress = customer?.addresses.find(a => a.id === savedAddressId);
+  const prefill: Partial<ShippingDetails> = shippingData || {
+    email: customer?.email,
+    phone: savedAddress?.phone || customer?.phone,
+    firstName: savedAddress?.firstName || customer?.firstName,
+    lastName: savedAddress?.lastName || customer?.lastName,
+    address: savedAddress?.address,
+    city: savedAddress?.city,
+    postalCode: savedAddress?.postalCode,
+  };
+
+  const addressInputClass = (field: AddressField) =>
+    `w-full border rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all ${addressErrors[field] ? 'border-red-500 bg-red-50' : 'border-stone-300'}`;
+
+  const renderAddressError = (field: AddressField) => {
+    const code = addressErrors[field];
+    if (!code) return null;
+    const example = field === 'postalCode' ? getPostalCodeExample(destination) : getPhoneExample(destination);
+    return <p className="text-xs text-red-600 flex items-center gap-1 mt-1"><AlertCircle size={10} /> {t(`address_error_${code}`).replace('{example}', example)}</p>;
+  };
+
+  const handleSavedAddressChange = (addressId: string) => {
+    const address = customer?.addresses.find(a => a.id === addressId);
+    setShippingData(null);
+    setAddressErrors({});
+    setSavedAddressId(addressId);
+    if (address) setDestination(address.country);
+  };
+
+  const handleShippingSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
-    setShippingData({
+    const { address: details, errors: fieldErrors } = validateAddress<ShippingDetails>({
         firstName: formData.get('firstName') as string,
         lastName: formData.get('lastName') as string,
         email: formData.get('email') as string,
@@ -101,28 +185,102 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
         city: formData.get('city') as string,
         postalCode: formData.get('postalCode') as string,
         country: formData.get('country') as string,
-    });
-    
-    setStep('payment');
+    }, SHIPPING_REQUIRED_FIELDS);
+    setAddressErrors(fieldErrors);
+    if (hasAddressErrors(fieldErrors)) return;
+    // Keep the normalized values (postal code format, E.164 phone) so the form and the order show them
+    setShippingData(details);
+
+    const { email, ...address } = details;
+    if (customer && token && saveAddress && !customer.addresses.some(saved => isSameAddress(saved, address))) {
+        try {
+            const updated = await backend.saveCustomerAddress(token, address);
+            setCustomer(updated);
+            setSavedAddressId(updated.addresses[updated.addresses.length - 1].id);
+            setSaveAddress(false);
+        } catch (error) {
+            // The order does not depend on the address book; carry on and let the customer retry later
+            console.error('Failed to save address', error);
+        }
+    }
+
+    // Hold the items before asking for payment so nobody else can buy them meanwhile
+    setIsReserving(true);
+    setStockError('');
+    try {
+        const held = await backend.reserveStock(cart, reservation?.id);
+        setReservation(held);
+        setNow(Date.now());
+        setStep('payment');
+    } catch (error) {
+        setStockError(error instanceof Error ? error.message : 'Some items are no longer available.');
+    } finally {
+        setIsReserving(false);
+    }
   };
 
-  const handlePayPalFlow = async () => {
+  const reservationSecondsLeft = reservation
+    ? Math.max(0, Math.floor((new Date(reservation.expiresAt).getTime() - now) / 1000))
+    : 0;
+
+  // Authorize with the gateway, answer any challenge, then place the order (the backend captures)
+  const startProviderPayment = async (request: PaymentRequest) => {
+      setPaymentError('');
       setIsProcessing(true);
-      setProcessingStatus('Connecting to PayPal Secure Gateway...');
-      
-      // 1. Simulate opening the provider
-      setTimeout(() => {
-          // Open PayPal in new tab
-          window.open('https://www.paypal.com/signin', '_blank');
-          setProcessingStatus('Waiting for payment confirmation...');
-          
-          // 2. Simulate User completing payment in other tab and webhook arriving
-          setTimeout(() => {
-              completeOrder();
-          }, 5000); // 5 seconds "wait" time
-      }, 1500);
+      setProcessingStatus(t('payment_authorizing'));
+      try {
+          handlePaymentResult(await backend.authorizePayment(request));
+      } catch (error) {
+          failPayment(error);
+      }
   };
 
+  const handlePaymentResult = (payment: PaymentIntent) => {
+      if (payment.status === 'authorized') {
+          completeOrder(payment);
+          return;
+      }
+      setIsProcessing(false);
+      setProcessingStatus('');
+      if (payment.status === 'requires_action') {
+          setChallengeCode('');
+          setPendingPayment(payment);
+          return;
+      }
+      setPendingPayment(null);
+      setPaymentError(t(`payment_declined_${payment.declineCode || 'card_declined'}`));
+  };
+
+  const handlePaymentAction = async (response: string) => {
+      if (!pendingPayment) return;
+      setIsProcessing(true);
+      setProcessingStatus(t('payment_verifying'));
+      try {
+          const result = await backend.completePaymentAction(pendingPayment.id, response);
+          setPendingPayment(null);
+          handlePaymentResult(result);
+      } catch (error) {
+          setPendingPayment(null);
+          failPayment(error);
+      }
+  };
+
+  const failPayment = (error: unknown) => {
+      console.error("Payment failed", error);
+      setIsProcessing(false);
+      setProcessingStatus('');
+      setPaymentError(error instanceof BackendError && error.status === 504
+          ? t('payment_timeout')
+          : error instanceof Error ? error.message : t('payment_failed'));
+  };
+
+  const handlePayPalFlow = () => startProviderPayment({
+      method: 'paypal',
+      reference: orderRef,
+      amount: amountDue,
+      currency: SETTLEMENT_CURRENCY
+  });
+
   const handleCreditCardFlow = async (e: React.FormEvent<HTMLFormElement>) => {
       e.preventDefault();
       const formData = new FormData(e.currentTarget);
@@ -140,12 +298,12 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
       }
 
       // 2. Validate Expiry (MM/YY)
-      if (!/^(0[1-9]|1[0-2])\/?([0-9]{2})$/.test(expiry)) {
+      if (!isValidExpiry(expiry)) {
           newErrors.expiry = "Invalid format (MM/YY).";
       }
 
       // 3. Validate CVC
-      if (!/^[0-9]{3,4}$/.test(cvc)) {
+      if (!isValidCvc(cvc)) {
           newErrors.cvc = "Invalid CVC.";
       }
 
@@ -154,47 +312,85 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
           return;
       }
 
-      // 4. Simulate Processing
+      // 4. Hand over to the gateway
+      startProviderPayment({
+          method: 'credit_card',
+          reference: orderRef,
+          amount: amountDue,
+          currency: SETTLEMENT_CURRENCY,
+          card: { number: cardNum, expiry, cvc, holder: formData.get('cardHolder') as string, brand: cardProvider }
+      });
+  };
+
+  const handleApplyGiftCard = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!giftCardCode.trim()) return;
+      setIsCheckingGiftCard(true);
+      setGiftCardError('');
+      try {
+          const card = await backend.getGiftCardBalance(giftCardCode);
+          if (card.balance <= 0) {
+              setGiftCardError(t('gift_card_empty'));
+              return;
+          }
+          setGiftCard(card);
+          setGiftCardCode('');
+          if (paymentMethod === 'bank_transfer') setPaymentMethod('credit_card');
+      } catch {
+          setGiftCardError(t('gift_card_invalid'));
+      } finally {
+          setIsCheckingGiftCard(false);
+      }
+  };
+
+  const handleGiftCardOnlyFlow = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setPaymentError('');
       setIsProcessing(true);
-      setProcessingStatus('Encrypting data...');
-      await new Promise(r => setTimeout(r, 1000));
-      setProcessingStatus('Contacting issuing bank...');
-      await new Promise(r => setTimeout(r, 1500));
-      setProcessingStatus('Verifying transaction...');
-      await new Promise(r => setTimeout(r, 1000));
-      
       completeOrder();
   };
 
-  const completeOrder = async () => {
+  const completeOrder = async (payment?: PaymentIntent) => {
     if (!shippingData) return;
+    setProcessingStatus(t('payment_placing_order'));
 
     const newOrder: Order = {
         id: orderRef,
         date: new Date().toISOString(),
         items: cart,
         subtotal,
+        discount,
+        promotions: pricing.promotions,
         shippingCost,
+        shippingMethod: pricing.shipping,
         duties: importDuties,
+        vat,
         total,
+        displayCurrency: currency,
+        settlementCurrency: SETTLEMENT_CURRENCY,
+        exchangeRate: rate,
         shippingDetails: shippingData,
-        paymentMethod: paymentMethod,
-        cardProvider: paymentMethod === 'credit_card' ? cardProvider : null,
+        paymentMethod: giftCardCoversTotal ? 'gift_card' : paymentMethod,
+        cardProvider: !giftCardCoversTotal && paymentMethod === 'credit_card' ? cardProvider : null,
+        ...(giftCard ? { giftCard: { code: giftCard.code, amount: giftCardAmount } } : {}),
+        ...(payment ? { payment: toOrderPayment(payment) } : {}),
         language: language,
-        status: 'pending'
+        status: 'pending_payment',
+        statusHistory: []
     };
 
     try {
-        await saveOrder(newOrder);
+        const placed = await saveOrder(newOrder, reservation?.id, token || undefined);
+        setOrderRef(placed.id);
+        setReservation(null);
         setIsProcessing(false);
         setProcessingStatus('');
         setStep('confirmation');
         onComplete(); 
     } catch (error) {
-        console.error("Payment failed", error);
-        setIsProcessing(false);
-        setProcessingStatus('');
-        alert("Payment Gateway Error: Unable to process. Please try again.");
+        // The backend voids the authorization when it cannot place the order
+        refreshRates();
+        failPayment(error);
     }
   };
 
@@ -202,10 +398,10 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
   const handleGeneralSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (paymentMethod === 'bank_transfer') {
-          // Bank transfer is manual confirmation
+          // Bank transfer is confirmed manually once the money arrives
+          setPaymentError('');
           setIsProcessing(true);
-          setProcessingStatus('Registering order...');
-          setTimeout(completeOrder, 1500);
+          completeOrder();
       }
       // Credit card is handled by the form onSubmit directly
   };
@@ -241,8 +437,8 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
         <div className="w-full md:w-1/3 bg-stone-100 p-6 md:p-8 border-r border-stone-200 overflow-y-auto">
           <h3 className="font-serif font-bold text-xl text-stone-900 mb-6">{t('cart_title')}</h3>
           <div className="space-y-4 mb-6">
-            {cart.map((item) => (
-              <div key={item.id} className="flex gap-3">
+            {cart.map((item, index) => (
+              <div key={getCartLineId(item)} className="flex gap-3">
                 <div className="relative w-16 h-16 rounded bg-white border border-stone-200 overflow-hidden flex-shrink-0">
                   <ImageWithFallback 
                     src={item.imageUrl} 
@@ -259,29 +455,67 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                     value={item.name}
                     translationKey={`product_${item.id}_name`}
                   />
-                  <p className="text-stone-500 text-sm">€{(item.price * item.quantity).toFixed(2)}</p>
+                  {item.variant && <p className="text-xs text-stone-400">{describeVariant(item.variant)}</p>}
+                  <p className="text-stone-500 text-sm">{formatPrice(pricing.lines[index].gross)}</p>
                 </div>
               </div>
             ))}
           </div>
+          {step !== 'confirmation' && (
+            <div className="mb-4">
+              <PromoCodeInput promotion={promotion} lines={cart} onApply={onApplyPromoCode} onRemove={onRemovePromotion} />
+            </div>
+          )}
           <div className="border-t border-stone-200 pt-4 space-y-2 text-sm">
             <div className="flex justify-between text-stone-600">
-              <span>Subtotal</span>
-              <span>€{subtotal.toFixed(2)}</span>
+              <span>Subtotal <span className="text-xs text-stone-400">({t('incl_vat')})</span></span>
+              <span>{formatPrice(subtotal)}</span>
             </div>
+            {pricing.promotions.filter(p => p.type !== 'free_shipping').map(applied => (
+              <div key={applied.code} className="flex justify-between text-emerald-700">
+                <span>{t('discount')} <span className="font-mono text-xs">{applied.code}</span></span>
+                <span>-{formatPrice(applied.amount)}</span>
+              </div>
+            ))}
             <div className="flex justify-between text-stone-600">
-              <span>Shipping</span>
-              <span>€{shippingCost.toFixed(2)}</span>
+              <span>Shipping{pricing.shipping && <span className="text-xs text-stone-400"> ({t(`shipping_${pricing.shipping.service}`)})</span>}</span>
+              <span>
+                {pricing.promotions.some(p => p.type === 'free_shipping') && pricing.shipping && <span className="line-through text-stone-400 mr-2">{formatPrice(pricing.shipping.price)}</span>}
+                {formatPrice(shippingCost)}
+              </span>
             </div>
             <div className="flex justify-between text-stone-600">
               <span>Duties</span>
-              <span>€{importDuties.toFixed(2)}</span>
+              <span>{formatPrice(importDuties)}</span>
             </div>
           </div>
           <div className="border-t border-stone-200 pt-4 mt-4 flex justify-between items-center">
             <span className="font-serif font-bold text-lg text-stone-900">{t('total')}</span>
-            <span className="font-serif font-bold text-xl text-emerald-900">€{total.toFixed(2)}</span>
+            <span className="font-serif font-bold text-xl text-emerald-900">{formatPrice(total)}</span>
           </div>
+          {vat.lines.map(line => (
+            <div key={line.rate} className="flex justify-between text-xs text-stone-500">
+              <span>{t('incl_vat')} {line.rate}% <span className="text-stone-400">({formatPrice(line.taxable)})</span></span>
+              <span>{formatPrice(line.vat)}</span>
+            </div>
+          ))}
+          {giftCard && (
+            <div className="mt-2 space-y-1 text-sm">
+              <div className="flex justify-between text-emerald-700">
+                <span>{t('gift_card')} <span className="font-mono text-xs">{giftCard.code}</span></span>
+                <span>-{formatPrice(giftCardAmount)}</span>
+              </div>
+              <div className="flex justify-between font-bold text-stone-900">
+                <span>{t('amount_due')}</span>
+                <span>{formatPrice(amountDue)}</span>
+              </div>
+            </div>
+          )}
+          {currency !== SETTLEMENT_CURRENCY && (
+            <p className="mt-1 text-xs text-stone-400 text-right">
+              {t('charged_in').replace('{amount}', formatSettlement(amountDue))}
+            </p>
+          )}
         </div>
 
         {/* Right Panel: Checkout Form */}
@@ -302,16 +536,30 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
            {step === 'shipping' && (
              <div className="animate-fade-in">
                <h2 className="text-2xl font-serif font-bold text-stone-900 mb-6">{t('step_shipping')}</h2>
-               <form className="space-y-4" onSubmit={handleShippingSubmit}>
+               {customer && customer.addresses.length > 0 && (
+                 <div className="space-y-1 mb-4">
+                   <label className="text-xs font-bold text-stone-500 uppercase flex items-center gap-1"><User size={12}/> {t('use_saved_address')}</label>
+                   <select value={savedAddressId} onChange={e => handleSavedAddressChange(e.target.value)} className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none bg-white">
+                     {customer.addresses.map(address => (
+                       <option key={address.id} value={address.id}>{address.label || `${address.address}, ${address.city}`}</option>
+                     ))}
+                     <option value="">{t('new_address')}</option>
+                   </select>
+                 </div>
+               )}
+               {/* Remounted when another saved address is picked so the inputs take its values */}
+               <form key={`${customer?.id || 'guest'}-${savedAddressId}`} className="space-y-4" onSubmit={handleShippingSubmit} noValidate>
                  {/* Contact Info */}
                  <div className="grid grid-cols-2 gap-4">
                    <div className="space-y-1">
                      <label className="text-xs font-bold text-stone-500 uppercase flex items-center gap-1"><Mail size={12}/> {t('form_email')}</label>
-                     <input required name="email" defaultValue={shippingData?.email} type="email" placeholder="you@example.com" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <input required name="email" defaultValue={prefill.email} type="email" placeholder="you@example.com" className={addressInputClass('email')} />
+                     {renderAddressError('email')}
                    </div>
                    <div className="space-y-1">
                      <label className="text-xs font-bold text-stone-500 uppercase flex items-center gap-1"><Phone size={12}/> {t('form_phone')}</label>
-                     <input required name="phone" defaultValue={shippingData?.phone} type="tel" placeholder="+32 ..." className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <input required name="phone" defaultValue={prefill.phone} type="tel" placeholder={getPhoneExample(destination)} className={addressInputClass('phone')} />
+                     {renderAddressError('phone')}
                    </div>
                  </div>
 
@@ -319,40 +567,75 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                  <div className="grid grid-cols-2 gap-4">
                    <div className="space-y-1">
                      <label className="text-xs font-bold text-stone-500 uppercase">{t('form_fname')}</label>
-                     <input required name="firstName" defaultValue={shippingData?.firstName} type="text" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <input required name="firstName" defaultValue={prefill.firstName} type="text" className={addressInputClass('firstName')} />
+                     {renderAddressError('firstName')}
                    </div>
                    <div className="space-y-1">
                      <label className="text-xs font-bold text-stone-500 uppercase">{t('form_lname')}</label>
-                     <input required name="lastName" defaultValue={shippingData?.lastName} type="text" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <input required name="lastName" defaultValue={prefill.lastName} type="text" className={addressInputClass('lastName')} />
+                     {renderAddressError('lastName')}
                    </div>
                  </div>
 
                  {/* Address */}
                  <div className="space-y-1">
                    <label className="text-xs font-bold text-stone-500 uppercase">{t('form_address')}</label>
-                   <input required name="address" defaultValue={shippingData?.address} type="text" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                   <input required name="address" defaultValue={prefill.address} type="text" className={addressInputClass('address')} />
+                   {renderAddressError('address')}
                  </div>
                  <div className="grid grid-cols-2 gap-4">
                    <div className="space-y-1">
                      <label className="text-xs font-bold text-stone-500 uppercase">{t('form_city')}</label>
-                     <input required name="city" defaultValue={shippingData?.city} type="text" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <input required name="city" defaultValue={prefill.city} type="text" className={addressInputClass('city')} />
+                     {renderAddressError('city')}
                    </div>
                    <div className="space-y-1">
-                     <label className="text-xs font-bold text-stone-500 uppercase">Postal Code</label>
-                     <input required name="postalCode" defaultValue={shippingData?.postalCode} type="text" className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all" />
+                     <label className="text-xs font-bold text-stone-500 uppercase">{t('form_postal_code')}</label>
+                     <input required name="postalCode" defaultValue={prefill.postalCode} type="text" placeholder={getPostalCodeExample(destination)} className={addressInputClass('postalCode')} />
+                     {renderAddressError('postalCode')}
                    </div>
                  </div>
                  <div className="space-y-1">
                    <label className="text-xs font-bold text-stone-500 uppercase">{t('form_country')} (EU)</label>
-                   <select name="country" defaultValue={shippingData?.country || 'Germany'} className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none bg-white">
+                   <select name="country" value={destination} onChange={e => setDestination(e.target.value)} className="w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none bg-white">
                      {EU_COUNTRIES.map(country => (
                         <option key={country} value={country}>{country}</option>
                      ))}
                    </select>
                  </div>
+                 {customer && !savedAddress && (
+                   <label className="flex items-center gap-2 text-sm text-stone-600">
+                     <input type="checkbox" checked={saveAddress} onChange={e => setSaveAddress(e.target.checked)} className="accent-emerald-800" />
+                     {t('save_address_to_account')}
+                   </label>
+                 )}
+                 <div className="space-y-2">
+                   <label className="text-xs font-bold text-stone-500 uppercase">{t('shipping_method')}</label>
+                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                     {shippingQuotes.map(quote => (
+                       <button
+                         key={quote.service}
+                         type="button"
+                         onClick={() => setShippingService(quote.service)}
+                         className={`p-3 border rounded text-left transition-colors ${shippingService === quote.service ? 'border-emerald-800 bg-emerald-50 ring-1 ring-emerald-800' : 'border-stone-300 hover:border-stone-400'}`}
+                       >
+                         <span className="flex justify-between font-bold text-stone-900 text-sm">
+                           {t(`shipping_${quote.service}`)}
+                           <span>{formatPrice(quote.price)}</span>
+                         </span>
+                         <span className="block text-xs text-stone-500 mt-1">
+                           {t('delivery_eta').replace('{min}', String(quote.etaDays[0])).replace('{max}', String(quote.etaDays[1]))} · {quote.carrier}
+                         </span>
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 {stockError && (
+                   <p className="text-sm text-red-600 flex items-center gap-2 bg-red-50 p-3 rounded"><AlertCircle size={14} /> {stockError}</p>
+                 )}
                  <div className="pt-6 flex justify-end">
-                   <Button type="submit" className="flex items-center gap-2">
-                     {t('next')} <ArrowRight size={18} />
+                   <Button type="submit" className="flex items-center gap-2" disabled={isReserving}>
+                     {isReserving ? <Loader2 size={18} className="animate-spin" /> : <>{t('next')} <ArrowRight size={18} /></>}
                    </Button>
                  </div>
                </form>
@@ -369,8 +652,117 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                     </div>
                 )}
 
+                {/* --- GATEWAY CHALLENGE (3-D Secure / PayPal approval) --- */}
+                {pendingPayment && !isProcessing && (
+                    <div className="absolute inset-0 bg-white/95 z-40 flex flex-col items-center justify-center text-center px-6">
+                        <ShieldCheck size={40} className="text-emerald-900 mb-4" />
+                        {pendingPayment.nextAction?.type === 'three_d_secure' ? (
+                            <form onSubmit={(e) => { e.preventDefault(); handlePaymentAction(challengeCode); }} className="w-full max-w-xs space-y-4">
+                                <h3 className="font-serif text-xl font-bold text-stone-900">{t('threeds_title')}</h3>
+                                <p className="text-stone-500 text-sm">
+                                    {t('threeds_desc').replace('{amount}', formatSettlement(pendingPayment.amount)).replace('{last4}', pendingPayment.cardLast4 || '')}
+                                </p>
+                                <input
+                                    value={challengeCode}
+                                    onChange={e => setChallengeCode(e.target.value)}
+                                    inputMode="numeric"
+                                    autoFocus
+                                    placeholder="••••••"
+                                    className="w-full border border-stone-300 rounded px-3 py-2 text-center font-mono tracking-widest focus:ring-2 focus:ring-emerald-800 outline-none"
+                                />
+                                {pendingPayment.provider === 'mosaicpay_mock' && <p className="text-xs text-stone-400">Sandbox code: {MOCK_3DS_CODE}</p>}
+                                <div className="flex gap-2">
+                                    <Button type="button" variant="outline" onClick={() => handlePaymentAction('')} className="flex-1">{t('cancel')}</Button>
+                                    <Button type="submit" disabled={!challengeCode.trim()} className="flex-1">{t('threeds_confirm')}</Button>
+                                </div>
+                            </form>
+                        ) : (
+                            <div className="w-full max-w-xs space-y-4">
+                                <h3 className="font-serif text-xl font-bold text-stone-900">Pay<span className="text-sky-600">Pal</span></h3>
+                                <p className="text-stone-500 text-sm">{t('paypal_approve_desc').replace('{amount}', formatSettlement(pendingPayment.amount))}</p>
+                                <div className="flex gap-2">
+                                    <Button type="button" variant="outline" onClick={() => handlePaymentAction('cancel')} className="flex-1">{t('cancel')}</Button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePaymentAction('approve')}
+                                        className="flex-1 bg-[#0070BA] text-white px-4 py-2 rounded-full font-bold hover:bg-[#005ea6] transition-colors"
+                                    >
+                                        {t('paypal_approve')}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 <h2 className="text-2xl font-serif font-bold text-stone-900 mb-6">{t('step_payment')}</h2>
+
+                {reservation && (
+                    <div className="flex items-center gap-2 text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded px-3 py-2 mb-6">
+                        <Timer size={14} />
+                        <span>{t('reserved_for')} <span className="font-mono font-bold">{Math.floor(reservationSecondsLeft / 60)}:{String(reservationSecondsLeft % 60).padStart(2, '0')}</span></span>
+                    </div>
+                )}
                 
+                {paymentError && (
+                    <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded px-3 py-2 mb-6">
+                        <AlertCircle size={14} className="flex-shrink-0" />
+                        <span>{paymentError}</span>
+                    </div>
+                )}
+
+                {/* Gift Card */}
+                <div className="mb-6 text-sm">
+                  {giftCard ? (
+                    <div className="flex items-center justify-between gap-2 px-3 py-2 rounded border border-emerald-200 bg-emerald-50">
+                      <span className="flex items-center gap-2 font-medium text-stone-800">
+                        <Gift size={14} className="text-emerald-700" />
+                        <span className="font-mono">{giftCard.code}</span>
+                        <span className="text-xs text-stone-500">{t('gift_card_balance')}: {formatPrice(giftCard.balance)}</span>
+                      </span>
+                      <button type="button" onClick={() => setGiftCard(null)} className="text-stone-400 hover:text-stone-800" title={t('promo_remove')}>
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ) : (
+                    <form onSubmit={handleApplyGiftCard}>
+                      <div className="flex gap-2">
+                        <input
+                          value={giftCardCode}
+                          onChange={e => setGiftCardCode(e.target.value)}
+                          placeholder={t('gift_card_code')}
+                          className="flex-1 min-w-0 border border-stone-300 rounded px-3 py-2 uppercase font-mono text-xs focus:ring-2 focus:ring-emerald-800 outline-none"
+                        />
+                        <button
+                          type="submit"
+                          disabled={isCheckingGiftCard || !giftCardCode.trim()}
+                          className="px-3 py-2 rounded border border-stone-300 text-stone-700 font-bold text-xs hover:bg-stone-50 disabled:opacity-50 flex items-center gap-1"
+                        >
+                          {isCheckingGiftCard ? <Loader2 size={12} className="animate-spin" /> : <Gift size={12} />}
+                          {t('promo_apply')}
+                        </button>
+                      </div>
+                      {giftCardError && <p className="text-xs text-red-600 mt-1">{giftCardError}</p>}
+                    </form>
+                  )}
+                </div>
+
+                {/* --- GIFT CARD COVERS EVERYTHING --- */}
+                {giftCardCoversTotal && (
+                    <form onSubmit={handleGiftCardOnlyFlow}>
+                        <p className="text-sm text-stone-600 bg-stone-50 border border-stone-200 rounded-lg p-5">{t('gift_card_covers')}</p>
+                        <div className="pt-6 flex justify-between items-center">
+                            <button type="button" onClick={() => setStep('shipping')} className="text-stone-500 hover:text-stone-900 flex items-center gap-1 text-sm font-medium">
+                            <ArrowLeft size={16} /> {t('back')}
+                            </button>
+                            <Button type="submit" disabled={isProcessing} className="w-2/3 flex items-center justify-center gap-2">
+                            {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : t('pay_gift_card')}
+                            </Button>
+                        </div>
+                    </form>
+                )}
+
+                {!giftCardCoversTotal && (<>
                 {/* Method Selection Tabs */}
                 <div className="flex flex-col sm:flex-row gap-4 mb-8">
                   {/* Card Option */}
@@ -391,10 +783,11 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                      <span className={`font-bold text-sm text-center ${paymentMethod === 'paypal' ? "text-emerald-900" : "text-stone-600"}`}>{t('pay_paypal')}</span>
                   </div>
 
-                  {/* Bank Option */}
+                  {/* Bank Option (not combinable with a gift card, the transfer would arrive for the wrong amount) */}
                   <div 
-                    onClick={() => setPaymentMethod('bank_transfer')}
-                    className={`flex-1 border-2 rounded-lg p-3 flex flex-col items-center justify-center gap-2 cursor-pointer transition-all ${paymentMethod === 'bank_transfer' ? 'border-emerald-900 bg-emerald-50' : 'border-stone-200 hover:border-emerald-200'}`}
+                    onClick={() => !giftCard && setPaymentMethod('bank_transfer')}
+                    title={giftCard ? t('gift_card_no_bank') : undefined}
+                    className={`flex-1 border-2 rounded-lg p-3 flex flex-col items-center justify-center gap-2 transition-all ${giftCard ? 'opacity-40 cursor-not-allowed border-stone-200' : 'cursor-pointer'} ${paymentMethod === 'bank_transfer' ? 'border-emerald-900 bg-emerald-50' : 'border-stone-200 hover:border-emerald-200'}`}
                   >
                      <Building size={24} className={paymentMethod === 'bank_transfer' ? "text-emerald-900" : "text-stone-500"} />
                      <span className={`font-bold text-sm text-center ${paymentMethod === 'bank_transfer' ? "text-emerald-900" : "text-stone-600"}`}>{t('pay_bank')}</span>
@@ -449,7 +842,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                             <ArrowLeft size={16} /> {t('back')}
                             </button>
                             <Button type="submit" disabled={isProcessing} className="w-2/3 flex items-center justify-center gap-2">
-                            {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : `${t('pay_order_btn')} €${total.toFixed(2)}`}
+                            {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : `${t('pay_order_btn')} ${formatPrice(amountDue)}`}
                             </Button>
                         </div>
                       </div>
@@ -467,9 +860,6 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                           >
                               Pay with <span className="italic font-extrabold">PayPal</span> <ExternalLink size={16}/>
                           </button>
-                          <div className="text-xs text-stone-400 mt-2">
-                             A new tab will open to complete your secure transaction.
-                          </div>
                           
                           <div className="pt-6 w-full flex justify-start">
                             <button type="button" onClick={() => setStep('shipping')} className="text-stone-500 hover:text-stone-900 flex items-center gap-1 text-sm font-medium">
@@ -508,7 +898,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                             </div>
                             
                             <div className="bg-emerald-50 text-emerald-900 text-xs p-3 rounded mt-2 font-medium">
-                                {t('ref_message')}: <span className="font-mono font-bold select-all">ORDER {orderRef}</span>
+                                {t('transfer_amount')}: <span className="font-mono font-bold select-all">{formatSettlement(amountDue)}</span>
                             </div>
                         </div>
                         
@@ -517,12 +907,14 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                             <ArrowLeft size={16} /> {t('back')}
                             </button>
                             <Button type="submit" disabled={isProcessing} className="w-2/3 flex items-center justify-center gap-2">
-                            {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : `${t('pay_order_btn')} €${total.toFixed(2)}`}
+                            {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : `${t('pay_order_btn')} ${formatPrice(amountDue)}`}
                             </Button>
                         </div>
                       </form>
                   )}
 
+                </>)}
+
                   <div className="bg-stone-50 p-4 rounded text-xs text-stone-500 flex gap-2 items-start mt-4">
                     <ShieldCheck size={16} className="text-emerald-700 flex-shrink-0 mt-0.5" />
                     <p>Payments are securely processed by MosaicPay. Your financial data is encrypted using 256-bit SSL technology and never stored on our servers.</p>
@@ -540,6 +932,9 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ isOpen, onClose, cart, on
                 
                 <div className="bg-stone-50 p-6 rounded-lg max-w-sm w-full mb-8 text-left border border-stone-100">
                   <p className="text-sm text-stone-500 mb-2">{t('order_ref')}: <span className="text-stone-900 font-mono">#{orderRef}</span></p>
+                  {paymentMethod === 'bank_transfer' && (
+                    <p className="text-sm text-stone-500 mb-2">{t('ref_message')}: <span className="text-stone-900 font-mono font-bold select-all">ORDER {orderRef}</span></p>
+                  )}
                   <p className="text-sm text-stone-500">
                     {paymentMethod === 'bank_transfer' 
                         ? "Please complete your bank transfer using the reference number above. We will ship your items as soon as the funds clear."
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Loader2 } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { CurrencyCode, ExchangeRate } from '../types';
+import { CURRENCY_OPTIONS, SETTLEMENT_CURRENCY } from '../services/currency';
+import Button from './Button';
+
+// Admin editor for the display-currency rates; orders are always charged in EUR
+const ExchangeRatesTab: React.FC = () => {
+    const [rates, setRates] = useState<ExchangeRate[]>([]);
+    const [drafts, setDrafts] = useState<Partial<Record<CurrencyCode, string>>>({});
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        const data = await backend.getExchangeRates();
+        setRates(data);
+        setDrafts(Object.fromEntries(data.map(r => [r.currency, String(r.rate)])));
+        setLoading(false);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            const updated = await backend.updateExchangeRates(
+                CURRENCY_OPTIONS
+                    .filter(opt => opt.code !== SETTLEMENT_CURRENCY)
+                    .map(opt => ({ currency: opt.code, rate: Number(drafts[opt.code]) }))
+            );
+            setRates(updated);
+            alert('Exchange rates saved. Shoppers see them on their next visit.');
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to save exchange rates.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="h-full overflow-y-auto p-6">
+            {loading ? (
+                <div className="text-center py-20 text-stone-400">Loading exchange rates...</div>
+            ) : (
+                <form onSubmit={handleSave} className="max-w-2xl">
+                    <p className="text-sm text-stone-500 mb-4">
+                        Units of each currency per 1 {SETTLEMENT_CURRENCY}. Prices are converted for display only; customers are charged in {SETTLEMENT_CURRENCY} and each order keeps the rate it was placed at.
+                    </p>
+                    <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                        <table className="w-full text-left border-collapse">
+                            <thead>
+                                <tr className="bg-stone-50 text-stone-500 text-xs uppercase tracking-wider border-b border-stone-200">
+                                    <th className="p-4">Currency</th>
+                                    <th className="p-4">Rate</th>
+                                    <th className="p-4">Last changed</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-sm text-stone-700">
+                                {CURRENCY_OPTIONS.map(opt => {
+                                    const current = rates.find(r => r.currency === opt.code);
+                                    return (
+                                        <tr key={opt.code} className="border-b border-stone-100 last:border-0">
+                                            <td className="p-4">
+                                                <span className="font-mono font-bold">{opt.code}</span>
+                                                <span className="block text-xs text-stone-400">{opt.label}</span>
+                                            </td>
+                                            <td className="p-4">
+                                                {opt.code === SETTLEMENT_CURRENCY ? (
+                                                    <span className="text-stone-400">1 (settlement)</span>
+                                                ) : (
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="any"
+                                                        required
+                                                        value={drafts[opt.code] ?? ''}
+                                                        onChange={e => setDrafts(prev => ({ ...prev, [opt.code]: e.target.value }))}
+                                                        className="w-32 border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none"
+                                                    />
+                                                )}
+                                            </td>
+                                            <td className="p-4 text-xs text-stone-500">{current ? new Date(current.updatedAt).toLocaleString() : '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex justify-end mt-4">
+                        <Button type="submit" size="sm" disabled={saving} className="flex items-center gap-2">
+                            {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Save Rates
+                        </Button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default ExchangeRatesTab;
@@ -0,0 +1,273 @@
+import React, { useState, useEffect } from 'react';
+import { X, Gift, CreditCard, Loader2, CheckCircle, AlertCircle, Copy, ShieldCheck } from 'lucide-react';
+import Button from './Button';
+import { GiftCard, GiftCardPurchase, PaymentIntent } from '../types';
+import { backend } from '../services/backendClient';
+import { BackendError } from '../services/backend';
+import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { GIFT_CARD_MAX, GIFT_CARD_MIN, GIFT_CARD_PRESETS } from '../services/giftCards';
+import { isValidCreditCard, isValidCvc, isValidExpiry } from '../services/cardValidation';
+import { SETTLEMENT_CURRENCY } from '../services/currency';
+import { MOCK_3DS_CODE } from '../services/mockPaymentProvider';
+
+type PurchaseDetails = Omit<GiftCardPurchase, 'paymentId'>;
+
+interface GiftCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const GiftCardModal: React.FC<GiftCardModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useLanguage();
+  const { formatSettlement } = useCurrency();
+  const [amount, setAmount] = useState<number>(GIFT_CARD_PRESETS[1]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [issued, setIssued] = useState<GiftCard | null>(null);
+  // Card payment waiting on a 3-D Secure code
+  const [pending, setPending] = useState<{ details: PurchaseDetails; payment: PaymentIntent } | null>(null);
+  const [challengeCode, setChallengeCode] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) {
+      setAmount(GIFT_CARD_PRESETS[1]);
+      setErrors({});
+      setIsProcessing(false);
+      setIssued(null);
+      setPending(null);
+      setChallengeCode('');
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const newErrors: Record<string, string> = {};
+
+    if (!(amount >= GIFT_CARD_MIN && amount <= GIFT_CARD_MAX)) {
+      newErrors.amount = t('gift_card_amount_range').replace('{min}', formatSettlement(GIFT_CARD_MIN)).replace('{max}', formatSettlement(GIFT_CARD_MAX));
+    }
+    if (!isValidCreditCard(formData.get('cardNumber') as string)) newErrors.cardNumber = "Invalid card number. Please check digits.";
+    if (!isValidExpiry(formData.get('expiry') as string)) newErrors.expiry = "Invalid format (MM/YY).";
+    if (!isValidCvc(formData.get('cvc') as string)) newErrors.cvc = "Invalid CVC.";
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const details: PurchaseDetails = {
+      reference: `GC-${Math.floor(Math.random() * 100000)}`,
+      initialAmount: amount,
+      purchaserName: formData.get('purchaserName') as string,
+      purchaserEmail: formData.get('purchaserEmail') as string,
+      recipientName: formData.get('recipientName') as string,
+      recipientEmail: formData.get('recipientEmail') as string,
+      message: (formData.get('message') as string) || undefined,
+    };
+
+    setIsProcessing(true);
+    try {
+      const payment = await backend.authorizePayment({
+        method: 'credit_card',
+        reference: details.reference,
+        amount,
+        currency: SETTLEMENT_CURRENCY,
+        card: {
+          number: formData.get('cardNumber') as string,
+          expiry: formData.get('expiry') as string,
+          cvc: formData.get('cvc') as string,
+          holder: details.purchaserName,
+          brand: null
+        }
+      });
+      await handlePaymentResult(details, payment);
+    } catch (error) {
+      failPayment(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Issues the card once the payment is authorized; the backend captures it
+  const handlePaymentResult = async (details: PurchaseDetails, payment: PaymentIntent) => {
+    if (payment.status === 'requires_action') {
+      setChallengeCode('');
+      setPending({ details, payment });
+      return;
+    }
+    setPending(null);
+    if (payment.status !== 'authorized') {
+      setErrors({ form: t(`payment_declined_${payment.declineCode || 'card_declined'}`) });
+      return;
+    }
+    setIssued(await backend.purchaseGiftCard({ ...details, paymentId: payment.id }));
+  };
+
+  const handleChallenge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending) return;
+    setIsProcessing(true);
+    try {
+      await handlePaymentResult(pending.details, await backend.completePaymentAction(pending.payment.id, challengeCode));
+    } catch (error) {
+      setPending(null);
+      failPayment(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const failPayment = (error: unknown) => {
+    setErrors({
+      form: error instanceof BackendError && error.status === 504
+        ? t('payment_timeout')
+        : error instanceof Error ? error.message : t('payment_failed')
+    });
+  };
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm" onClick={() => !isProcessing && onClose()}></div>
+      <div className="relative w-full max-w-lg bg-white rounded-xl shadow-2xl p-8 animate-fade-in max-h-[90vh] overflow-y-auto">
+        {!isProcessing && (
+          <button onClick={onClose} className="absolute top-4 right-4 text-stone-400 hover:text-stone-800 transition-colors">
+            <X size={24} />
+          </button>
+        )}
+
+        <div className="flex items-center gap-3 mb-6 text-emerald-900 border-b border-stone-200 pb-4">
+          <Gift size={28} />
+          <h2 className="text-2xl font-serif font-bold">{t('gift_cards')}</h2>
+        </div>
+
+        {issued ? (
+          <div className="text-center py-4">
+            <div className="w-16 h-16 bg-emerald-100 rounded-full flex items-center justify-center mb-4 mx-auto text-emerald-800">
+              <CheckCircle size={32} />
+            </div>
+            <p className="text-stone-600 mb-6">{t('gift_card_issued').replace('{email}', issued.recipientEmail)}</p>
+            <div className="bg-stone-50 border border-stone-200 rounded-lg p-4 mb-6">
+              <span className="block text-xs font-bold text-stone-400 uppercase mb-1">{t('gift_card_code')}</span>
+              <div className="flex items-center justify-center gap-2">
+                <span className="font-mono text-lg font-bold text-stone-900 select-all">{issued.code}</span>
+                <Copy size={14} className="text-stone-400 cursor-pointer hover:text-emerald-800" onClick={() => navigator.clipboard?.writeText(issued.code)} />
+              </div>
+              <span className="block text-sm text-stone-500 mt-2">{formatSettlement(issued.balance)}</span>
+            </div>
+            <Button onClick={onClose}>{t('return_shop')}</Button>
+          </div>
+        ) : pending ? (
+          <form className="text-center space-y-4 py-4" onSubmit={handleChallenge}>
+            <ShieldCheck size={40} className="text-emerald-900 mx-auto" />
+            <h3 className="font-serif text-xl font-bold text-stone-900">{t('threeds_title')}</h3>
+            <p className="text-stone-500 text-sm">
+              {t('threeds_desc').replace('{amount}', formatSettlement(pending.payment.amount)).replace('{last4}', pending.payment.cardLast4 || '')}
+            </p>
+            <input
+              value={challengeCode}
+              onChange={e => setChallengeCode(e.target.value)}
+              inputMode="numeric"
+              autoFocus
+              placeholder="••••••"
+              className="w-full max-w-xs border border-stone-300 rounded px-3 py-2 text-center font-mono tracking-widest focus:ring-2 focus:ring-emerald-800 outline-none"
+            />
+            {pending.payment.provider === 'mosaicpay_mock' && <p className="text-xs text-stone-400">Sandbox code: {MOCK_3DS_CODE}</p>}
+            <Button type="submit" disabled={isProcessing || !challengeCode.trim()} className="w-full max-w-xs flex items-center justify-center gap-2 mx-auto">
+              {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : t('threeds_confirm')}
+            </Button>
+          </form>
+        ) : (
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <p className="text-sm text-stone-600">{t('gift_card_intro')}</p>
+
+            <div className="space-y-1">
+              <label className={labelClass}>{t('gift_card_amount')}</label>
+              <div className="flex gap-2">
+                {GIFT_CARD_PRESETS.map(preset => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setAmount(preset)}
+                    className={`flex-1 px-3 py-2 border rounded text-sm font-bold transition-colors ${amount === preset ? 'bg-emerald-900 text-white border-emerald-900' : 'bg-white text-stone-600 border-stone-200 hover:border-emerald-200'}`}
+                  >
+                    {formatSettlement(preset)}
+                  </button>
+                ))}
+                <input
+                  type="number"
+                  min={GIFT_CARD_MIN}
+                  max={GIFT_CARD_MAX}
+                  step="1"
+                  value={amount}
+                  onChange={e => setAmount(Number(e.target.value))}
+                  className="w-24 border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                />
+              </div>
+              {errors.amount && <p className="text-xs text-red-600 flex items-center gap-1 mt-1"><AlertCircle size={10} /> {errors.amount}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className={labelClass}>{t('gift_card_from')}</label>
+                <input name="purchaserName" required type="text" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('form_email')}</label>
+                <input name="purchaserEmail" required type="email" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('gift_card_to')}</label>
+                <input name="recipientName" required type="text" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('form_email')}</label>
+                <input name="recipientEmail" required type="email" className={inputClass} />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>{t('gift_card_message')}</label>
+              <textarea name="message" rows={2} maxLength={300} className={inputClass} />
+            </div>
+
+            <div className="border-t border-stone-200 pt-4 space-y-4">
+              <div className="space-y-1">
+                <label className={labelClass}>{t('card_number')}</label>
+                <div className="relative">
+                  <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" size={18} />
+                  <input name="cardNumber" required type="text" placeholder="0000 0000 0000 0000" className={`w-full border rounded px-3 py-2 pl-10 focus:ring-2 focus:ring-emerald-800 outline-none transition-all font-mono ${errors.cardNumber ? 'border-red-500 bg-red-50' : 'border-stone-300'}`} />
+                </div>
+                {errors.cardNumber && <p className="text-xs text-red-600 flex items-center gap-1 mt-1"><AlertCircle size={10} /> {errors.cardNumber}</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('expiry')}</label>
+                  <input name="expiry" required type="text" placeholder="MM/YY" className={`w-full border rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all text-center ${errors.expiry ? 'border-red-500 bg-red-50' : 'border-stone-300'}`} />
+                  {errors.expiry && <p className="text-xs text-red-600 flex items-center gap-1 mt-1"><AlertCircle size={10} /> {errors.expiry}</p>}
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('cvc')}</label>
+                  <input name="cvc" required type="text" placeholder="123" className={`w-full border rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all text-center ${errors.cvc ? 'border-red-500 bg-red-50' : 'border-stone-300'}`} />
+                  {errors.cvc && <p className="text-xs text-red-600 flex items-center gap-1 mt-1"><AlertCircle size={10} /> {errors.cvc}</p>}
+                </div>
+              </div>
+            </div>
+
+            {errors.form && <p className="text-sm text-red-600 flex items-center gap-1"><AlertCircle size={14} /> {errors.form}</p>}
+
+            <Button type="submit" disabled={isProcessing} className="w-full flex items-center justify-center gap-2">
+              {isProcessing ? <><Loader2 size={16} className="animate-spin"/> {t('processing')}</> : `${t('buy_gift_card')} ${formatSettlement(amount || 0)}`}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GiftCardModal;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Gift, Search, ChevronDown, ChevronUp } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { GiftCard } from '../types';
+import { GIFT_CARD_TRANSACTION_LABELS } from '../services/giftCards';
+
+const matchesQuery = (card: GiftCard, query: string) => {
+    const q = query.trim().toLowerCase();
+    if (!q) return true;
+    return [card.code, card.purchaserEmail, card.recipientEmail, card.purchaserName, card.recipientName]
+        .some(value => value.toLowerCase().includes(q))
+        || card.ledger.some(entry => entry.orderId?.toLowerCase().includes(q));
+};
+
+// Admin lookup of issued gift cards, their balances and ledgers
+const GiftCardsTab: React.FC = () => {
+    const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [query, setQuery] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        setGiftCards(await backend.getGiftCards());
+        setLoading(false);
+    };
+
+    const visible = giftCards.filter(card => matchesQuery(card, query));
+    const outstanding = giftCards.reduce((sum, card) => sum + card.balance, 0);
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="p-4 bg-stone-100 border-b border-stone-200 flex items-center justify-between gap-4">
+                <div className="relative flex-1 max-w-sm">
+                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+                    <input
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        placeholder="Code, email or order id"
+                        className="w-full border border-stone-300 rounded px-3 py-2 pl-9 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                    />
+                </div>
+                <span className="text-sm text-stone-600">Outstanding balance: <span className="font-bold text-stone-900">€{outstanding.toFixed(2)}</span></span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+                {loading ? (
+                    <div className="text-center py-20 text-stone-400">Loading gift cards...</div>
+                ) : visible.length === 0 ? (
+                    <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                        <Gift size={48} className="mb-4 opacity-50" />
+                        <p>{giftCards.length === 0 ? 'No gift cards sold yet.' : 'No gift cards match your search.'}</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {visible.map(card => (
+                            <div key={card.id} className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                                <div
+                                    onClick={() => setExpandedId(expandedId === card.id ? null : card.id)}
+                                    className="p-4 flex items-center justify-between gap-4 cursor-pointer hover:bg-stone-50"
+                                >
+                                    <div>
+                                        <span className="font-mono font-bold text-stone-900">{card.code}</span>
+                                        <span className="block text-xs text-stone-500">
+                                            {card.purchaserName} ({card.purchaserEmail}) → {card.recipientName} ({card.recipientEmail})
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center gap-4 text-sm">
+                                        <span className="text-stone-400">{new Date(card.createdAt).toLocaleDateString()}</span>
+                                        <span className={`font-bold ${card.balance > 0 ? 'text-emerald-800' : 'text-stone-400'}`}>
+                                            €{card.balance.toFixed(2)} <span className="text-xs font-normal text-stone-400">/ €{card.initialAmount.toFixed(2)}</span>
+                                        </span>
+                                        {expandedId === card.id ? <ChevronUp size={16} className="text-stone-400" /> : <ChevronDown size={16} className="text-stone-400" />}
+                                    </div>
+                                </div>
+                                {expandedId === card.id && (
+                                    <div className="border-t border-stone-100 bg-stone-50 p-4">
+                                        {card.message && <p className="text-xs italic text-stone-500 mb-3">"{card.message}"</p>}
+                                        <table className="w-full text-left text-sm">
+                                            <thead>
+                                                <tr className="text-stone-500 text-xs uppercase tracking-wider">
+                                                    <th className="pb-2">Date</th>
+                                                    <th className="pb-2">Type</th>
+                                                    <th className="pb-2">Order</th>
+                                                    <th className="pb-2 text-right">Amount</th>
+                                                    <th className="pb-2 text-right">Balance</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="text-stone-700">
+                                                {card.ledger.map(entry => (
+                                                    <tr key={entry.id} className="border-t border-stone-200">
+                                                        <td className="py-2 text-xs text-stone-500">{new Date(entry.date).toLocaleString()}</td>
+                                                        <td className="py-2">{GIFT_CARD_TRANSACTION_LABELS[entry.type]}</td>
+                                                        <td className="py-2 font-mono text-xs">{entry.orderId || entry.note || '—'}</td>
+                                                        <td className={`py-2 text-right ${entry.amount < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                                                            {entry.amount < 0 ? '-' : '+'}€{Math.abs(entry.amount).toFixed(2)}
+                                                        </td>
+                                                        <td className="py-2 text-right">€{entry.balanceAfter.toFixed(2)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GiftCardsTab;
@@ -1,8 +1,9 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { X, Truck, ShieldCheck, RefreshCw, Search } from 'lucide-react';
-import Button from './Button';
 import { useLanguage } from '../i18n';
+import ReturnRequestForm from './ReturnRequestForm';
+import OrderTrackingForm from './OrderTrackingForm';
 
 export type InfoModalType = 'shipping' | 'authenticity' | 'returns' | 'tracking' | null;
 
@@ -10,35 +11,15 @@ interface InfoModalProps {
   isOpen: boolean;
   onClose: () => void;
   type: InfoModalType;
+  trackingRef?: string; // Order number from an /orders/track/<ref> link
+  onTracked?: (orderRef: string) => void;
 }
 
-const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, type }) => {
+const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, type, trackingRef, onTracked }) => {
   const { t } = useLanguage();
-  const [trackingId, setTrackingId] = useState('');
-  const [trackingResult, setTrackingResult] = useState<any>(null);
-  const [isSearching, setIsSearching] = useState(false);
 
   if (!isOpen || !type) return null;
 
-  const handleTrack = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!trackingId.trim()) return;
-    
-    setIsSearching(true);
-    setTrackingResult(null);
-
-    // Simulate API lookup
-    setTimeout(() => {
-        setIsSearching(false);
-        setTrackingResult({
-        status: 'In Transit',
-        location: 'Frankfurt, Germany',
-        carrier: 'Ethiopian Airlines Cargo',
-        estimatedDelivery: '2 days'
-        });
-    }, 1500);
-  };
-
   const renderContent = () => {
     switch (type) {
       case 'shipping':
@@ -101,6 +82,7 @@ const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, type }) => {
                <h3 className="font-bold text-stone-900 text-base mt-4 mb-2">{t('policy_return_process_title')}</h3>
                <p>{t('policy_return_process')}</p>
             </div>
+            <ReturnRequestForm />
           </>
         );
       case 'tracking':
@@ -110,34 +92,7 @@ const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, type }) => {
                <Search size={28} />
                <h2 className="text-2xl font-serif font-bold">{t('track_order')}</h2>
             </div>
-             <div className="bg-stone-50 p-6 rounded-lg border border-stone-200">
-               <form onSubmit={handleTrack} className="flex gap-2 mb-4">
-                 <input 
-                    type="text" 
-                    placeholder="Enter Order # (e.g., ETH-1234)" 
-                    className="flex-1 p-3 border border-stone-300 rounded focus:ring-2 focus:ring-emerald-900 outline-none"
-                    value={trackingId}
-                    onChange={(e) => setTrackingId(e.target.value)}
-                 />
-                 <Button type="submit" disabled={isSearching}>
-                    {isSearching ? '...' : 'Track'}
-                 </Button>
-               </form>
-
-               {trackingResult && (
-                 <div className="mt-6 animate-fade-in bg-white p-4 rounded border border-stone-100 shadow-sm">
-                    <div className="flex items-center gap-2 mb-3">
-                        <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></div>
-                        <span className="font-bold text-stone-900 text-lg">{trackingResult.status}</span>
-                    </div>
-                    <div className="space-y-1 text-sm text-stone-600">
-                        <p><span className="font-bold text-stone-800">Carrier:</span> {trackingResult.carrier}</p>
-                        <p><span className="font-bold text-stone-800">Current Location:</span> {trackingResult.location}</p>
-                        <p><span className="font-bold text-stone-800">Est. Delivery:</span> {trackingResult.estimatedDelivery}</p>
-                    </div>
-                 </div>
-               )}
-             </div>
+            <OrderTrackingForm initialOrderId={trackingRef} onTracked={onTracked} />
           </>
         );
       default:
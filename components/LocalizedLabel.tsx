@@ -0,0 +1,21 @@
+import React from 'react';
+import AutoTranslatedText from './AutoTranslatedText';
+import { useLanguage } from '../i18n';
+import { LocalizedText } from '../types';
+
+interface LocalizedLabelProps {
+  text: LocalizedText;
+  highlightTerms?: string[];
+  className?: string;
+  as?: 'span' | 'p' | 'h1' | 'h2' | 'h3' | 'div';
+}
+
+// Admin-entered text (category and collection names) in the reader's language;
+// languages the admin left blank get the English, translated on the fly
+const LocalizedLabel: React.FC<LocalizedLabelProps> = ({ text, ...props }) => {
+  const { language } = useLanguage();
+  const own = text[language];
+  return <AutoTranslatedText {...props} value={own || text.en} sourceLanguage={own ? language : 'en'} />;
+};
+
+export default LocalizedLabel;
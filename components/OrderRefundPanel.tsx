@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { RotateCcw, Loader2 } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { Order, PaymentMethod, RefundScope } from '../types';
+import { REFUND_SCOPE_LABELS, getRefundableAmount, getRefundedQuantity, quoteRefund } from '../services/refunds';
+import { getCartLineId } from '../services/variants';
+import Button from './Button';
+
+const ALLOCATION_LABELS: Record<PaymentMethod, string> = {
+    credit_card: 'to card',
+    paypal: 'to PayPal',
+    bank_transfer: 'by bank transfer (pay out manually)',
+    gift_card: 'to gift card',
+};
+
+// Statuses where money has been taken and not yet fully returned
+const REFUNDABLE_STATUSES = ['paid', 'processing', 'shipped', 'delivered', 'returned'];
+
+interface OrderRefundPanelProps {
+    order: Order;
+    onRefunded: (order: Order) => void;
+}
+
+// Refund history for an order, plus the form to refund it whole, by line or shipping only
+const OrderRefundPanel: React.FC<OrderRefundPanelProps> = ({ order, onRefunded }) => {
+    const [scope, setScope] = useState<RefundScope>('lines');
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [reason, setReason] = useState('');
+    const [issuedBy, setIssuedBy] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const refundable = getRefundableAmount(order);
+    const canRefund = REFUNDABLE_STATUSES.includes(order.status) && refundable > 0;
+    const lines = order.items
+        .map(item => ({ lineId: getCartLineId(item), quantity: quantities[getCartLineId(item)] || 0 }))
+        .filter(line => line.quantity > 0);
+
+    let preview: number | null = null;
+    let previewError = '';
+    try {
+        preview = quoteRefund(order, { scope, lines }).amount;
+    } catch (error) {
+        previewError = error instanceof Error ? error.message : '';
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (preview === null || !window.confirm(`Refund €${preview.toFixed(2)} on order ${order.id}?`)) return;
+
+        setSubmitting(true);
+        try {
+            const updated = await backend.refundOrder(order.id, { scope, lines, reason, issuedBy });
+            setQuantities({});
+            setReason('');
+            onRefunded(updated);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to issue refund.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!canRefund && !order.refunds?.length) return null;
+
+    return (
+        <div className="md:col-span-2">
+            <h4 className="flex items-center gap-2 text-sm font-bold text-stone-900 uppercase tracking-wider mb-4">
+                <RotateCcw size={16} /> Refunds
+            </h4>
+            <div className="bg-white p-4 rounded border border-stone-200 text-sm flex flex-col md:flex-row gap-6">
+                <div className="flex-1 space-y-3">
+                    {!order.refunds?.length ? (
+                        <p className="text-xs text-stone-400">No refunds issued.</p>
+                    ) : order.refunds.map(refund => (
+                        <div key={refund.id} className="border-b border-stone-100 last:border-0 pb-3 last:pb-0">
+                            <div className="flex justify-between">
+                                <span className="font-bold text-stone-800">€{refund.amount.toFixed(2)} · {REFUND_SCOPE_LABELS[refund.scope]}</span>
+                                <span className="text-xs text-stone-400">{new Date(refund.date).toLocaleString()}</span>
+                            </div>
+                            <p className="text-xs text-stone-500">{refund.reason} — {refund.issuedBy}</p>
+                            {refund.lines.length > 0 && (
+                                <p className="text-xs text-stone-500">{refund.lines.map(l => `${l.quantity}x ${l.name}`).join(', ')}</p>
+                            )}
+                            <p className="text-xs text-stone-400">
+                                {refund.allocations.map(a => `€${a.amount.toFixed(2)} ${ALLOCATION_LABELS[a.method]}`).join(' · ')}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+
+                {canRefund && (
+                    <form onSubmit={handleSubmit} className="md:w-1/2 space-y-3">
+                        <div className="flex gap-2">
+                            {(Object.keys(REFUND_SCOPE_LABELS) as RefundScope[]).map(option => (
+                                <button
+                                    key={option}
+                                    type="button"
+                                    onClick={() => setScope(option)}
+                                    className={`px-3 py-1 rounded border text-xs font-bold transition-colors ${scope === option ? 'bg-emerald-900 text-white border-emerald-900' : 'border-stone-300 text-stone-600 hover:border-stone-500'}`}
+                                >
+                                    {REFUND_SCOPE_LABELS[option]}
+                                </button>
+                            ))}
+                        </div>
+
+                        {scope === 'lines' && (
+                            <div className="space-y-2">
+                                {order.items.map(item => {
+                                    const lineId = getCartLineId(item);
+                                    const remaining = item.quantity - getRefundedQuantity(order, lineId);
+                                    return (
+                                        <label key={lineId} className="flex items-center justify-between gap-2 text-xs text-stone-600">
+                                            <span className={remaining === 0 ? 'line-through text-stone-400' : ''}>{item.name}</span>
+                                            <span className="flex items-center gap-1">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    max={remaining}
+                                                    disabled={remaining === 0}
+                                                    value={quantities[lineId] ?? 0}
+                                                    onChange={e => setQuantities(prev => ({ ...prev, [lineId]: Math.min(remaining, Math.max(0, Number(e.target.value))) }))}
+                                                    className="w-14 border border-stone-300 rounded px-2 py-1 text-right"
+                                                />
+                                                <span className="text-stone-400">/ {remaining}</span>
+                                            </span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        <input
+                            required
+                            placeholder="Reason"
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                            className="w-full border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                        />
+                        <input
+                            required
+                            placeholder="Issued by"
+                            value={issuedBy}
+                            onChange={e => setIssuedBy(e.target.value)}
+                            className="w-full border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                        />
+
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-stone-500">
+                                {preview !== null ? <>Refund <span className="font-bold text-stone-900">€{preview.toFixed(2)}</span> of €{refundable.toFixed(2)} left</> : previewError}
+                            </span>
+                            <Button type="submit" size="sm" variant="outline" disabled={submitting || preview === null} className="flex items-center gap-2">
+                                {submitting ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Refund
+                            </Button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default OrderRefundPanel;
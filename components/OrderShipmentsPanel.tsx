@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Truck, Plus, Loader2 } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { Order, Shipment, ShipmentEventStatus } from '../types';
+import { SHIPMENT_EVENT_LABELS, SHIPMENT_EVENT_STATUSES, SHIPMENT_EVENT_STYLES, getShipmentStatus } from '../services/shipments';
+import { CARRIER_RATES } from '../services/shipping';
+import Button from './Button';
+
+const CARRIERS = Array.from(new Set(CARRIER_RATES.map(table => table.carrier)));
+
+// Orders that have been paid for and not closed can get parcels
+const SHIPPABLE_STATUSES = ['paid', 'processing', 'shipped'];
+
+interface EventDraft {
+    status: ShipmentEventStatus;
+    date: string; // datetime-local value; empty means now
+    location: string;
+    description: string;
+}
+
+const EMPTY_EVENT: EventDraft = { status: 'in_transit', date: '', location: '', description: '' };
+
+interface OrderShipmentsPanelProps {
+    order: Order;
+    onUpdated: (order: Order) => void;
+}
+
+// Parcels for an order with their carrier timelines, plus forms to add parcels and scans by hand
+const OrderShipmentsPanel: React.FC<OrderShipmentsPanelProps> = ({ order, onUpdated }) => {
+    const [carrier, setCarrier] = useState(order.shippingMethod?.carrier || CARRIERS[0]);
+    const [trackingNumber, setTrackingNumber] = useState('');
+    const [eventDrafts, setEventDrafts] = useState<Record<string, EventDraft>>({});
+    const [submitting, setSubmitting] = useState<string | null>(null);
+
+    const shipments = order.shipments || [];
+    const canShip = SHIPPABLE_STATUSES.includes(order.status);
+
+    const run = async (key: string, action: () => Promise<Order>, fallback: string) => {
+        setSubmitting(key);
+        try {
+            onUpdated(await action());
+            return true;
+        } catch (error) {
+            alert(error instanceof Error ? error.message : fallback);
+            return false;
+        } finally {
+            setSubmitting(null);
+        }
+    };
+
+    const handleAddShipment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await run('new', () => backend.addShipment(order.id, { carrier, trackingNumber }), 'Failed to add shipment.')) {
+            setTrackingNumber('');
+        }
+    };
+
+    const handleAddEvent = async (e: React.FormEvent, shipment: Shipment) => {
+        e.preventDefault();
+        const draft = eventDrafts[shipment.id] || EMPTY_EVENT;
+        const event = {
+            status: draft.status,
+            date: draft.date ? new Date(draft.date).toISOString() : new Date().toISOString(),
+            location: draft.location,
+            description: draft.description,
+        };
+        if (await run(shipment.id, () => backend.addShipmentEvent(order.id, shipment.id, event), 'Failed to add event.')) {
+            setEventDrafts(prev => ({ ...prev, [shipment.id]: EMPTY_EVENT }));
+        }
+    };
+
+    const updateDraft = (shipmentId: string, changes: Partial<EventDraft>) =>
+        setEventDrafts(prev => ({ ...prev, [shipmentId]: { ...EMPTY_EVENT, ...prev[shipmentId], ...changes } }));
+
+    if (!canShip && shipments.length === 0) return null;
+
+    const inputClass = "border border-stone-300 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-emerald-800 outline-none";
+
+    return (
+        <div className="md:col-span-2">
+            <h4 className="flex items-center gap-2 text-sm font-bold text-stone-900 uppercase tracking-wider mb-4">
+                <Truck size={16} /> Shipments
+            </h4>
+            <div className="space-y-3">
+                {shipments.map(shipment => {
+                    const status = getShipmentStatus(shipment);
+                    const draft = eventDrafts[shipment.id] || EMPTY_EVENT;
+                    return (
+                        <div key={shipment.id} className="bg-white p-4 rounded border border-stone-200 text-sm flex flex-col md:flex-row gap-6">
+                            <div className="flex-1">
+                                <div className="flex items-center justify-between gap-2 mb-3">
+                                    <span>
+                                        <span className="font-bold text-stone-800">{shipment.carrier}</span>
+                                        <span className="font-mono text-stone-600 ml-2 select-all">{shipment.trackingNumber}</span>
+                                    </span>
+                                    {status && (
+                                        <span className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded ${SHIPMENT_EVENT_STYLES[status]}`}>
+                                            {SHIPMENT_EVENT_LABELS[status]}
+                                        </span>
+                                    )}
+                                </div>
+                                <ol className="space-y-2 border-l-2 border-stone-100 pl-4">
+                                    {[...shipment.events].reverse().map(event => (
+                                        <li key={event.id}>
+                                            <span className="font-bold text-stone-800">{SHIPMENT_EVENT_LABELS[event.status]}</span>
+                                            <span className="text-xs text-stone-400 ml-2">{new Date(event.date).toLocaleString()}</span>
+                                            {event.location && <span className="text-xs text-stone-500 ml-2">{event.location}</span>}
+                                            {event.description && <p className="text-xs text-stone-500">{event.description}</p>}
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            <form onSubmit={e => handleAddEvent(e, shipment)} className="md:w-1/3 space-y-2">
+                                <select
+                                    value={draft.status}
+                                    onChange={e => updateDraft(shipment.id, { status: e.target.value as ShipmentEventStatus })}
+                                    className={`${inputClass} w-full`}
+                                >
+                                    {SHIPMENT_EVENT_STATUSES.map(option => <option key={option} value={option}>{SHIPMENT_EVENT_LABELS[option]}</option>)}
+                                </select>
+                                <input
+                                    type="datetime-local"
+                                    value={draft.date}
+                                    onChange={e => updateDraft(shipment.id, { date: e.target.value })}
+                                    className={`${inputClass} w-full`}
+                                    title="Leave empty for now"
+                                />
+                                <input
+                                    placeholder="Location"
+                                    value={draft.location}
+                                    onChange={e => updateDraft(shipment.id, { location: e.target.value })}
+                                    className={`${inputClass} w-full`}
+                                />
+                                <input
+                                    placeholder="Description (optional)"
+                                    value={draft.description}
+                                    onChange={e => updateDraft(shipment.id, { description: e.target.value })}
+                                    className={`${inputClass} w-full`}
+                                />
+                                <Button type="submit" size="sm" variant="outline" disabled={submitting === shipment.id} className="w-full flex items-center justify-center gap-2">
+                                    {submitting === shipment.id ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Add Event
+                                </Button>
+                            </form>
+                        </div>
+                    );
+                })}
+
+                {canShip && (
+                    <form onSubmit={handleAddShipment} className="bg-white p-4 rounded border border-dashed border-stone-300 flex flex-col md:flex-row gap-2 md:items-center">
+                        <input
+                            list="shipment-carriers"
+                            required
+                            placeholder="Carrier"
+                            value={carrier}
+                            onChange={e => setCarrier(e.target.value)}
+                            className={`${inputClass} md:w-48`}
+                        />
+                        <datalist id="shipment-carriers">
+                            {CARRIERS.map(name => <option key={name} value={name} />)}
+                        </datalist>
+                        <input
+                            required
+                            placeholder="Tracking number"
+                            value={trackingNumber}
+                            onChange={e => setTrackingNumber(e.target.value)}
+                            className={`${inputClass} flex-1 font-mono`}
+                        />
+                        <Button type="submit" size="sm" disabled={submitting === 'new'} className="flex items-center gap-2">
+                            {submitting === 'new' ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Add Shipment
+                        </Button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default OrderShipmentsPanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, MapPin, Package } from 'lucide-react';
+import Button from './Button';
+import { useLanguage } from '../i18n';
+import { backend } from '../services/backendClient';
+import { OrderTracking } from '../types';
+import { getShipmentStatus } from '../services/shipments';
+
+interface OrderTrackingFormProps {
+  initialOrderId?: string;
+  onTracked?: (orderId: string) => void; // Lets the address bar point at the order that was found
+}
+
+// Customer tracking: find the order by number + email, then show each parcel's carrier timeline
+const OrderTrackingForm: React.FC<OrderTrackingFormProps> = ({ initialOrderId = '', onTracked }) => {
+  const { t, language } = useLanguage();
+  const [orderId, setOrderId] = useState(initialOrderId);
+  const [email, setEmail] = useState('');
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [error, setError] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+
+  const handleTrack = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    setError('');
+    try {
+      const found = await backend.trackOrder(orderId, email);
+      setTracking(found);
+      onTracked?.(found.orderId);
+    } catch (err) {
+      setTracking(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(language);
+  const formatDateTime = (iso: string) =>
+    new Date(iso).toLocaleString(language, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-stone-50 p-6 rounded-lg border border-stone-200">
+      <p className="text-sm text-stone-500 mb-4">{t('track_lookup_desc')}</p>
+      <form onSubmit={handleTrack} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end mb-4">
+        <div className="space-y-1">
+          <label className={labelClass}>{t('order_ref')}</label>
+          <input required value={orderId} onChange={e => setOrderId(e.target.value)} placeholder="ETH-12345" className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('form_email')}</label>
+          <input required type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+        </div>
+        <Button type="submit" disabled={isSearching} className="flex items-center justify-center gap-2">
+          {isSearching ? <Loader2 size={16} className="animate-spin" /> : null} {t('track')}
+        </Button>
+      </form>
+
+      {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>}
+
+      {tracking && (
+        <div className="space-y-4 animate-fade-in">
+          <div className="flex items-center justify-between bg-white p-4 rounded border border-stone-100 shadow-sm">
+            <span>
+              <span className="font-mono font-bold text-stone-900">{tracking.orderId}</span>
+              <span className="block text-xs text-stone-400">{t('tracking_ordered_on').replace('{date}', formatDate(tracking.date))}</span>
+            </span>
+            <span className="font-bold text-emerald-900">{t(`order_status_${tracking.status}`)}</span>
+          </div>
+
+          {tracking.shipments.length === 0 ? (
+            <p className="text-sm text-stone-500 flex items-start gap-2"><Package size={16} className="shrink-0 mt-0.5" /> {t('tracking_not_shipped')}</p>
+          ) : tracking.shipments.map((shipment, idx) => {
+            const status = getShipmentStatus(shipment);
+            return (
+              <div key={shipment.id} className="bg-white p-4 rounded border border-stone-100 shadow-sm text-sm">
+                {tracking.shipments.length > 1 && (
+                  <p className={`${labelClass} mb-2`}>
+                    {t('tracking_parcel').replace('{n}', String(idx + 1)).replace('{total}', String(tracking.shipments.length))}
+                  </p>
+                )}
+                <div className="flex items-center gap-2 mb-3">
+                  <div className={`w-3 h-3 rounded-full ${status === 'delivered' ? 'bg-emerald-600' : status === 'exception' ? 'bg-red-500' : 'bg-green-500 animate-pulse'}`}></div>
+                  <span className="font-bold text-stone-900 text-lg">{status ? t(`shipment_status_${status}`) : ''}</span>
+                </div>
+                <div className="space-y-1 text-stone-600 mb-4">
+                  <p><span className="font-bold text-stone-800">{t('tracking_carrier')}:</span> {shipment.carrier}</p>
+                  <p><span className="font-bold text-stone-800">{t('tracking_number')}:</span> <span className="font-mono select-all">{shipment.trackingNumber}</span></p>
+                </div>
+                <ol className="space-y-3 border-l-2 border-stone-100 pl-4">
+                  {[...shipment.events].reverse().map((event, eventIdx) => (
+                    <li key={event.id} className="relative">
+                      <span className={`absolute -left-[21px] top-1.5 w-2 h-2 rounded-full ${eventIdx === 0 ? 'bg-emerald-700' : 'bg-stone-300'}`}></span>
+                      <span className={eventIdx === 0 ? 'font-bold text-stone-900' : 'text-stone-700'}>{t(`shipment_status_${event.status}`)}</span>
+                      <span className="block text-xs text-stone-400">
+                        {formatDateTime(event.date)}
+                        {event.location && <span className="inline-flex items-center gap-1 ml-2"><MapPin size={10} /> {event.location}</span>}
+                      </span>
+                      {event.description && <span className="block text-xs text-stone-500">{event.description}</span>}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderTrackingForm;
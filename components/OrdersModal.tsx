@@ -1,9 +1,27 @@
 
 import React, { useEffect, useState } from 'react';
-import { X, RefreshCw, Archive, MapPin, ShoppingBag, Package, Lock, Mail, Phone, Globe, LayoutGrid, Plus, Edit, Trash2, Save, Loader2, Image as ImageIcon, Users } from 'lucide-react';
-import { backend } from '../services/backend';
-import { Order, Product, Category } from '../types';
+import { X, RefreshCw, Archive, MapPin, ShoppingBag, Package, Lock, Mail, Phone, Globe, LayoutGrid, Plus, Edit, Trash2, Save, Loader2, Image as ImageIcon, Users, AlertTriangle, History, Landmark, Download, Tag, Gift, Coins, FileSpreadsheet, Undo2, Truck, Star, FolderTree } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { BackendError } from '../services/backend';
+import { Order, OrderStatus, Product, ProductVariant, Category } from '../types';
+import { fileUnderCategory, flattenCategoryTree, getProductCategoryId } from '../services/categories';
+import { ORDER_STATUS_LABELS, ORDER_STATUS_STYLES, getAvailableTransitions } from '../services/orderStatus';
+import { describeVariant } from '../services/variants';
+import { buildVatReport, vatReportToCsv } from '../services/vat';
+import { DEFAULT_PARCEL } from '../services/shipping';
+import { getBankTransferDue } from '../services/bankStatements';
 import Button from './Button';
+import PromotionsTab from './PromotionsTab';
+import GiftCardsTab from './GiftCardsTab';
+import ExchangeRatesTab from './ExchangeRatesTab';
+import BankReconciliationTab from './BankReconciliationTab';
+import OrderRefundPanel from './OrderRefundPanel';
+import OrderShipmentsPanel from './OrderShipmentsPanel';
+import CarrierEventsTab from './CarrierEventsTab';
+import ReturnsTab from './ReturnsTab';
+import ReviewsTab from './ReviewsTab';
+import CategoriesTab from './CategoriesTab';
+import { SETTLEMENT_CURRENCY, convertAmount, formatMoney } from '../services/currency';
 import ImageWithFallback from './ImageWithFallback';
 
 interface OrdersModalProps {
@@ -11,7 +29,7 @@ interface OrdersModalProps {
   onClose: () => void;
 }
 
-type Tab = 'orders' | 'inventory' | 'subscribers';
+type Tab = 'orders' | 'returns' | 'reviews' | 'inventory' | 'categories' | 'subscribers' | 'vat' | 'promotions' | 'giftcards' | 'currencies' | 'reconciliation' | 'carriers';
 
 const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
   const [activeTab, setActiveTab] = useState<Tab>('orders');
@@ -19,21 +37,27 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
   // Data
   const [orders, setOrders] = useState<Order[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [subscribers, setSubscribers] = useState<string[]>([]);
   
   const [loading, setLoading] = useState(false);
   const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
   
   // Authorization State
   const [isAuthorized, setIsAuthorized] = useState(false);
   const [pin, setPin] = useState('');
-  const [authError, setAuthError] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
   const [checkingAuth, setCheckingAuth] = useState(false);
 
   // Edit/Add Product State
   const [isEditingProduct, setIsEditingProduct] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Partial<Product>>({});
   const [savingProduct, setSavingProduct] = useState(false);
+  const [optionNamesDraft, setOptionNamesDraft] = useState('');
+
+  // Data integrity warnings from the schema migration runner
+  const [migrationErrors, setMigrationErrors] = useState<string[]>([]);
 
   useEffect(() => {
     if (isOpen && isAuthorized) {
@@ -41,14 +65,21 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
     }
   }, [isOpen, isAuthorized, activeTab]);
 
+  useEffect(() => {
+    if (isOpen && isAuthorized) {
+      backend.getMigrationReport().then(report => setMigrationErrors(report.errors));
+    }
+  }, [isOpen, isAuthorized]);
+
   const refreshData = async () => {
     setLoading(true);
-    if (activeTab === 'orders') {
+    if (activeTab === 'orders' || activeTab === 'vat') {
         const data = await backend.getOrders();
         setOrders(data);
     } else if (activeTab === 'inventory') {
-        const data = await backend.getProducts();
+        const [data, categoryList] = await Promise.all([backend.getProducts(), backend.getCategories()]);
         setProducts(data);
+        setCategories(categoryList);
     } else if (activeTab === 'subscribers') {
         const data = await backend.getSubscribers();
         setSubscribers(data);
@@ -59,21 +90,27 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
   const handleAuth = async (e: React.FormEvent) => {
       e.preventDefault();
       setCheckingAuth(true);
-      const valid = await backend.verifyAdminPin(pin);
-      setCheckingAuth(false);
-      
-      if (valid) {
-          setIsAuthorized(true);
-          setAuthError(false);
-      } else {
-          setAuthError(true);
+      try {
+          if (await backend.verifyAdminPin(pin)) {
+              setIsAuthorized(true);
+              setAuthError(null);
+          } else {
+              setAuthError('Incorrect PIN');
+              setPin('');
+          }
+      } catch (error) {
+          // e.g. the REST backend locking out repeated wrong PINs (429)
+          setAuthError(error instanceof BackendError ? error.message : 'Could not check the PIN');
           setPin('');
+      } finally {
+          setCheckingAuth(false);
       }
   };
 
   // --- INVENTORY HANDLERS ---
   const handleEditProduct = (p: Product) => {
       setEditingProduct({ ...p });
+      setOptionNamesDraft((p.variantOptions || []).map(o => o.name).join(', '));
       setIsEditingProduct(true);
   };
 
@@ -82,15 +119,65 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
           name: '',
           price: 0,
           currency: '€',
-          category: Category.CLOTHES,
+          category: flattenCategoryTree(categories)[0]?.category.id || '',
           description: '',
           detailedHistory: '',
           imageUrl: '',
-          inStock: true
+          inStock: true,
+          stockQuantity: 1,
+          weightKg: DEFAULT_PARCEL.weightKg,
+          dimensionsCm: { ...DEFAULT_PARCEL.dimensionsCm }
       });
+      setOptionNamesDraft('');
       setIsEditingProduct(true);
   };
 
+  // --- VAT REPORT ---
+  const vatReport = buildVatReport(orders);
+
+  const handleExportVatReport = () => {
+      const blob = new Blob([vatReportToCsv(vatReport)], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vat-report-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  // --- VARIANT EDITOR ---
+  const variantOptionNames = (editingProduct.variantOptions || []).map(o => o.name);
+
+  const handleOptionNamesCommit = () => {
+      const names = optionNamesDraft.split(',').map(n => n.trim().toLowerCase()).filter(Boolean);
+      setEditingProduct({
+          ...editingProduct,
+          variantOptions: names.map(name => ({ name, values: editingProduct.variantOptions?.find(o => o.name === name)?.values || [] })),
+          variants: editingProduct.variants?.map(v => ({ ...v, options: Object.fromEntries(names.map(n => [n, v.options[n] || ''])) }))
+      });
+  };
+
+  const handleAddVariant = () => {
+      const variant: ProductVariant = {
+          id: `${editingProduct.id || 'prod'}-v${Date.now()}`,
+          sku: '',
+          options: Object.fromEntries(variantOptionNames.map(n => [n, ''])),
+          priceDelta: 0,
+          stockQuantity: 0
+      };
+      setEditingProduct({ ...editingProduct, variants: [...(editingProduct.variants || []), variant] });
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+      const variants = [...(editingProduct.variants || [])];
+      variants[index] = { ...variants[index], ...changes };
+      setEditingProduct({ ...editingProduct, variants });
+  };
+
+  const handleRemoveVariant = (index: number) => {
+      setEditingProduct({ ...editingProduct, variants: (editingProduct.variants || []).filter((_, i) => i !== index) });
+  };
+
   const handleDeleteProduct = async (id: string) => {
       if(window.confirm('Delete this product? This action cannot be undone.')) {
           setLoading(true);
@@ -124,9 +211,21 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
       
       try {
           // Process the image URL to fix GitHub links automatically
+          // Option values shown in the storefront picker follow the order variants were entered in
+          const variants = (editingProduct.variants || []).map(v => ({ ...v, imageUrl: v.imageUrl ? processImageUrl(v.imageUrl) : undefined }));
+          const variantOptions = variantOptionNames.map(name => ({
+              name,
+              values: Array.from(new Set(variants.map(v => v.options[name]).filter(Boolean)))
+          }));
+
           const finalProductData = {
               ...editingProduct,
-              imageUrl: processImageUrl(editingProduct.imageUrl)
+              imageUrl: processImageUrl(editingProduct.imageUrl),
+              region: editingProduct.region?.trim(),
+              material: editingProduct.material?.trim(),
+              artisan: editingProduct.artisan?.trim(),
+              variants,
+              variantOptions
           };
 
           if (finalProductData.id) {
@@ -145,6 +244,23 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
       }
   };
 
+  // --- ORDER HANDLERS ---
+  const handleStatusChange = async (order: Order, status: OrderStatus) => {
+      const isDestructive = status === 'cancelled' || status === 'refunded';
+      if (isDestructive && !window.confirm(`Mark order ${order.id} as ${ORDER_STATUS_LABELS[status]}?`)) return;
+
+      setUpdatingOrderId(order.id);
+      try {
+          const updated = await backend.updateOrderStatus(order.id, status);
+          setOrders(prev => prev.map(o => o.id === updated.id ? updated : o));
+      } catch (error) {
+          console.error(error);
+          alert(error instanceof Error ? error.message : "Failed to update order status.");
+      } finally {
+          setUpdatingOrderId(null);
+      }
+  };
+
   const handleClearOrders = async () => {
       if(window.confirm('Are you sure you want to delete all order history?')) {
           await backend.clearOrders();
@@ -176,7 +292,7 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                         disabled={checkingAuth}
                         className="w-full text-center tracking-[0.5em] text-2xl p-3 border border-stone-300 rounded focus:ring-2 focus:ring-emerald-900 outline-none"
                     />
-                    {authError && <p className="text-red-600 text-xs text-center font-bold">Incorrect PIN</p>}
+                    {authError && <p className="text-red-600 text-xs text-center font-bold">{authError}</p>}
                     <Button type="submit" className="w-full" disabled={checkingAuth}>
                         {checkingAuth ? <Loader2 className="animate-spin"/> : "Unlock Dashboard"}
                     </Button>
@@ -214,6 +330,18 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
             </div>
         </div>
 
+        {migrationErrors.length > 0 && (
+            <div className="bg-amber-50 border-b border-amber-200 px-6 py-3 text-sm text-amber-900 flex gap-3 items-start">
+                <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                <div>
+                    <p className="font-bold">Stored data could not be fully upgraded</p>
+                    <ul className="list-disc pl-5 text-xs mt-1 space-y-0.5">
+                        {migrationErrors.map((error, idx) => <li key={idx}>{error}</li>)}
+                    </ul>
+                </div>
+            </div>
+        )}
+
         {/* Tabs */}
         <div className="bg-white px-6 flex gap-6 border-b border-stone-200 overflow-x-auto">
             <button 
@@ -222,18 +350,72 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
             >
                 <ShoppingBag size={18}/> Orders
             </button>
+            <button 
+                onClick={() => setActiveTab('returns')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'returns' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Undo2 size={18}/> Returns
+            </button>
+            <button 
+                onClick={() => setActiveTab('reviews')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'reviews' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Star size={18}/> Reviews
+            </button>
             <button 
                 onClick={() => setActiveTab('inventory')}
                 className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'inventory' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
             >
                 <LayoutGrid size={18}/> Inventory
             </button>
+            <button 
+                onClick={() => setActiveTab('categories')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'categories' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <FolderTree size={18}/> Categories
+            </button>
             <button 
                 onClick={() => setActiveTab('subscribers')}
                 className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'subscribers' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
             >
                 <Users size={18}/> Subscribers
             </button>
+            <button 
+                onClick={() => setActiveTab('vat')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'vat' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Landmark size={18}/> VAT Report
+            </button>
+            <button 
+                onClick={() => setActiveTab('promotions')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'promotions' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Tag size={18}/> Promotions
+            </button>
+            <button 
+                onClick={() => setActiveTab('giftcards')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'giftcards' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Gift size={18}/> Gift Cards
+            </button>
+            <button 
+                onClick={() => setActiveTab('currencies')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'currencies' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Coins size={18}/> Currencies
+            </button>
+            <button 
+                onClick={() => setActiveTab('reconciliation')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'reconciliation' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <FileSpreadsheet size={18}/> Bank Statements
+            </button>
+            <button 
+                onClick={() => setActiveTab('carriers')}
+                className={`py-3 text-sm font-bold border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'carriers' ? 'border-emerald-900 text-emerald-900' : 'border-transparent text-stone-500 hover:text-stone-900'}`}
+            >
+                <Truck size={18}/> Carrier Events
+            </button>
         </div>
 
         {/* Content Area */}
@@ -272,6 +454,9 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                                             </div>
                                         </div>
                                         <div className="flex items-center gap-6">
+                                            <span className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded ${ORDER_STATUS_STYLES[order.status]}`}>
+                                                {ORDER_STATUS_LABELS[order.status]}
+                                            </span>
                                             <span className="font-serif font-bold text-lg">€{order.total.toFixed(2)}</span>
                                             <span className="text-stone-400 text-sm">{expandedOrderId === order.id ? 'Collapse' : 'Details'}</span>
                                         </div>
@@ -302,17 +487,133 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                                                         <div key={idx} className="flex justify-between items-center border-b border-stone-100 last:border-0 pb-2 last:pb-0">
                                                             <div className="flex gap-2 items-center">
                                                                 <span className="font-bold text-stone-400">{item.quantity}x</span>
-                                                                <span className="text-stone-700">{item.name}</span>
+                                                                <span className="text-stone-700">
+                                                                    {item.name}
+                                                                    {item.variant && <span className="block text-xs text-stone-400">{describeVariant(item.variant)} · SKU {item.variant.sku}</span>}
+                                                                </span>
                                                             </div>
                                                             <span className="text-stone-900 font-medium">€{(item.price * item.quantity).toFixed(2)}</span>
                                                         </div>
                                                     ))}
+                                                    <div className="pt-2 space-y-1 text-xs text-stone-500">
+                                                        <div className="flex justify-between"><span>Subtotal{order.vat && (order.vat.included ? ' (incl. VAT)' : ' (excl. VAT)')}</span><span>€{order.subtotal.toFixed(2)}</span></div>
+                                                        {order.promotions?.map(applied => (
+                                                            <div key={applied.code} className="flex justify-between text-emerald-700">
+                                                                <span>{applied.label} <span className="font-mono">({applied.code})</span></span>
+                                                                <span>-€{applied.amount.toFixed(2)}</span>
+                                                            </div>
+                                                        ))}
+                                                        {!!order.discount && !order.promotions?.length && <div className="flex justify-between text-emerald-700"><span>Discount</span><span>-€{order.discount.toFixed(2)}</span></div>}
+                                                        <div className="flex justify-between">
+                                                            <span>Shipping{order.shippingMethod && ` · ${order.shippingMethod.carrier} (${order.shippingMethod.service}, ${order.shippingMethod.weightKg} kg)`}</span>
+                                                            <span>€{order.shippingCost.toFixed(2)}</span>
+                                                        </div>
+                                                        <div className="flex justify-between"><span>Duties</span><span>€{order.duties.toFixed(2)}</span></div>
+                                                        {/* Orders from when VAT was added on top of net prices */}
+                                                        {order.vat && !order.vat.included && order.vat.lines.map(line => (
+                                                            <div key={line.rate} className="flex justify-between">
+                                                                <span>VAT {line.rate}% ({order.vat!.country}) on €{line.taxable.toFixed(2)}</span>
+                                                                <span>€{line.vat.toFixed(2)}</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
                                                     <div className="pt-2 flex justify-between font-bold text-stone-900">
                                                         <span>Total Paid</span>
                                                         <span>€{order.total.toFixed(2)}</span>
                                                     </div>
+                                                    {order.vat?.included && order.vat.lines.map(line => (
+                                                        <div key={line.rate} className="text-xs text-stone-500 flex justify-between">
+                                                            <span>incl. VAT {line.rate}% ({order.vat!.country}) on €{line.taxable.toFixed(2)}</span>
+                                                            <span>€{line.vat.toFixed(2)}</span>
+                                                        </div>
+                                                    ))}
+                                                    {order.displayCurrency && order.displayCurrency !== (order.settlementCurrency || SETTLEMENT_CURRENCY) && (
+                                                        <div className="text-xs text-stone-500 flex justify-between">
+                                                            <span>Shown to customer in {order.displayCurrency} @ {order.exchangeRate}</span>
+                                                            <span>{formatMoney(convertAmount(order.total, order.exchangeRate || 1), order.displayCurrency, 'en')}</span>
+                                                        </div>
+                                                    )}
+                                                    {order.payment && (
+                                                        <div className="text-xs text-stone-500 flex justify-between">
+                                                            <span>Payment <span className="font-mono">{order.payment.id}</span>{order.payment.cardLast4 && ` · card •••• ${order.payment.cardLast4}`}</span>
+                                                            <span className="uppercase font-bold tracking-wider">{order.payment.status.replace('_', ' ')}</span>
+                                                        </div>
+                                                    )}
+                                                    {order.bankPayments && order.bankPayments.length > 0 && (
+                                                        <div className="text-xs text-stone-500 space-y-1">
+                                                            {order.bankPayments.map(payment => (
+                                                                <div key={payment.entryId} className="flex justify-between">
+                                                                    <span>Bank transfer {payment.date}{payment.counterparty && ` · ${payment.counterparty}`}</span>
+                                                                    <span>€{payment.amount.toFixed(2)}</span>
+                                                                </div>
+                                                            ))}
+                                                            {getBankTransferDue(order) > 0 && (
+                                                                <div className="flex justify-between font-bold text-amber-700">
+                                                                    <span>Outstanding</span>
+                                                                    <span>€{getBankTransferDue(order).toFixed(2)}</span>
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    {order.giftCard && (
+                                                        <div className="text-xs text-stone-500 space-y-1">
+                                                            <div className="flex justify-between text-emerald-700">
+                                                                <span>Gift card <span className="font-mono">{order.giftCard.code}</span></span>
+                                                                <span>€{order.giftCard.amount.toFixed(2)}</span>
+                                                            </div>
+                                                            {order.total > order.giftCard.amount && (
+                                                                <div className="flex justify-between">
+                                                                    <span>Charged via {order.paymentMethod === 'paypal' ? 'PayPal' : 'card'}</span>
+                                                                    <span>€{(order.total - order.giftCard.amount).toFixed(2)}</span>
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
+                                            <div className="md:col-span-2">
+                                                <h4 className="flex items-center gap-2 text-sm font-bold text-stone-900 uppercase tracking-wider mb-4">
+                                                    <History size={16} /> Status
+                                                </h4>
+                                                <div className="bg-white p-4 rounded border border-stone-200 text-sm flex flex-col md:flex-row gap-6">
+                                                    <ol className="flex-1 space-y-2 border-l-2 border-stone-100 pl-4">
+                                                        {(order.statusHistory || []).map((change, idx) => (
+                                                            <li key={idx} className="relative">
+                                                                <span className="absolute -left-[21px] top-1.5 w-2 h-2 rounded-full bg-emerald-700"></span>
+                                                                <span className="font-bold text-stone-800">{ORDER_STATUS_LABELS[change.status]}</span>
+                                                                <span className="text-xs text-stone-400 ml-2">{new Date(change.date).toLocaleString()}</span>
+                                                                {change.note && <p className="text-xs text-stone-500">{change.note}</p>}
+                                                            </li>
+                                                        ))}
+                                                    </ol>
+                                                    <div className="flex flex-wrap gap-2 items-start md:w-1/3 md:justify-end">
+                                                        {getAvailableTransitions(order.status).length === 0 ? (
+                                                            <span className="text-xs text-stone-400">No further actions</span>
+                                                        ) : getAvailableTransitions(order.status).map(next => (
+                                                            <Button
+                                                                key={next}
+                                                                size="sm"
+                                                                variant={next === 'cancelled' || next === 'refunded' ? 'ghost' : 'outline'}
+                                                                disabled={updatingOrderId === order.id}
+                                                                onClick={() => handleStatusChange(order, next)}
+                                                            >
+                                                                {ORDER_STATUS_LABELS[next]}
+                                                            </Button>
+                                                        ))}
+                                                        {(order.status === 'paid' || order.status === 'processing') && (
+                                                            <p className="w-full text-xs text-stone-400 md:text-right">To cancel, refund the whole order below.</p>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            </div>
+                                            <OrderShipmentsPanel
+                                                order={order}
+                                                onUpdated={updated => setOrders(prev => prev.map(o => o.id === updated.id ? updated : o))}
+                                            />
+                                            <OrderRefundPanel
+                                                order={order}
+                                                onRefunded={updated => setOrders(prev => prev.map(o => o.id === updated.id ? updated : o))}
+                                            />
                                         </div>
                                     )}
                                 </div>
@@ -347,10 +648,15 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                                         <div className="flex-1 min-w-0">
                                             <div className="flex items-center gap-2">
                                                 <h3 className="font-bold text-stone-900 truncate">{p.name}</h3>
-                                                <span className="text-[10px] uppercase bg-stone-100 text-stone-500 px-2 py-0.5 rounded">{p.category}</span>
+                                                <span className="text-[10px] uppercase bg-stone-100 text-stone-500 px-2 py-0.5 rounded">{categories.find(c => c.id === getProductCategoryId(p))?.name.en || p.category}</span>
                                             </div>
                                             <p className="text-xs text-stone-500 truncate">{p.description}</p>
-                                            <p className="text-sm font-medium text-emerald-800 mt-1">€{p.price}</p>
+                                            <p className="text-sm font-medium text-emerald-800 mt-1">
+                                                €{p.price}
+                                                <span className={`ml-3 text-xs ${p.stockQuantity > 0 ? 'text-stone-500' : 'text-red-600 font-bold'}`}>
+                                                    {p.stockQuantity > 0 ? `${p.stockQuantity} in stock` : 'Sold out'}
+                                                </span>
+                                            </p>
                                         </div>
                                         <div className="flex gap-2">
                                             <button onClick={() => handleEditProduct(p)} className="p-2 text-stone-400 hover:text-emerald-800 hover:bg-emerald-50 rounded transition-colors"><Edit size={18}/></button>
@@ -402,6 +708,64 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                 </div>
             )}
 
+            {/* VAT REPORT TAB */}
+            {activeTab === 'vat' && (
+                <div className="h-full overflow-y-auto p-6">
+                    {loading ? (
+                        <div className="text-center py-20 text-stone-400">Loading orders...</div>
+                    ) : vatReport.length === 0 ? (
+                        <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                             <Landmark size={48} className="mb-4 opacity-50" />
+                             <p>No VAT collected yet.</p>
+                        </div>
+                    ) : (
+                        <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                            <div className="p-4 border-b border-stone-200 flex justify-between items-center">
+                                <p className="text-xs text-stone-500">VAT collected per destination per month (IOSS). Excludes unpaid and cancelled orders; refunds are deducted in the month they were paid back.</p>
+                                <Button size="sm" variant="outline" onClick={handleExportVatReport} className="flex items-center gap-2">
+                                    <Download size={14}/> CSV
+                                </Button>
+                            </div>
+                            <table className="w-full text-left border-collapse">
+                                <thead>
+                                    <tr className="bg-stone-50 text-stone-500 text-xs uppercase tracking-wider border-b border-stone-200">
+                                        <th className="p-4">Month</th>
+                                        <th className="p-4">Country</th>
+                                        <th className="p-4 text-right">Orders</th>
+                                        <th className="p-4 text-right">Taxable</th>
+                                        <th className="p-4 text-right">VAT</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-sm text-stone-700">
+                                    {vatReport.map(row => (
+                                        <tr key={`${row.month}-${row.country}`} className="border-b border-stone-100 last:border-0 hover:bg-stone-50">
+                                            <td className="p-4 font-mono text-stone-500">{row.month}</td>
+                                            <td className="p-4 font-medium">{row.country}</td>
+                                            <td className="p-4 text-right">{row.orders}</td>
+                                            <td className="p-4 text-right">€{row.taxable.toFixed(2)}</td>
+                                            <td className="p-4 text-right font-bold">€{row.vat.toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="p-4 bg-stone-50 border-t border-stone-200 text-xs text-stone-500 text-right">
+                                Total VAT: €{vatReport.reduce((sum, row) => sum + row.vat, 0).toFixed(2)}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* PROMOTIONS TAB */}
+            {activeTab === 'returns' && <ReturnsTab />}
+            {activeTab === 'reviews' && <ReviewsTab />}
+            {activeTab === 'categories' && <CategoriesTab />}
+            {activeTab === 'promotions' && <PromotionsTab />}
+            {activeTab === 'giftcards' && <GiftCardsTab />}
+            {activeTab === 'currencies' && <ExchangeRatesTab />}
+            {activeTab === 'reconciliation' && <BankReconciliationTab />}
+            {activeTab === 'carriers' && <CarrierEventsTab />}
+
             {/* PRODUCT EDIT OVERLAY */}
             {isEditingProduct && (
                 <div className="absolute inset-0 bg-stone-900/50 backdrop-blur-sm z-50 flex justify-end">
@@ -423,11 +787,26 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                                     </div>
                                     <div>
                                         <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Category</label>
-                                        <select className="w-full border p-2 rounded" value={editingProduct.category} onChange={e => setEditingProduct({...editingProduct, category: e.target.value as Category})}>
-                                            {Object.values(Category).map(c => <option key={c} value={c}>{c}</option>)}
+                                        <select className="w-full border p-2 rounded" value={editingProduct.subcategoryId || editingProduct.category} onChange={e => setEditingProduct({...editingProduct, ...fileUnderCategory(categories, e.target.value)})}>
+                                            {flattenCategoryTree(categories).map(({ category, depth }) => (
+                                                <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name.en}</option>
+                                            ))}
                                         </select>
                                     </div>
                                 </div>
+                                <div className="grid grid-cols-3 gap-4">
+                                    {(['region', 'material', 'artisan'] as const).map(field => (
+                                        <div key={field}>
+                                            <label className="block text-xs font-bold uppercase text-stone-500 mb-1">{field}</label>
+                                            <input
+                                                className="w-full border p-2 rounded text-sm"
+                                                value={editingProduct[field] || ''}
+                                                onChange={e => setEditingProduct({...editingProduct, [field]: e.target.value})}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-stone-500 -mt-2">Shown as shop filters. Use the same spelling across products, e.g. "Amhara", "Cotton".</p>
                                 <div>
                                     <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Description (Short)</label>
                                     <textarea required className="w-full border p-2 rounded" rows={2} value={editingProduct.description} onChange={e => setEditingProduct({...editingProduct, description: e.target.value})} />
@@ -451,9 +830,83 @@ const OrdersModal: React.FC<OrdersModalProps> = ({ isOpen, onClose }) => {
                                         ✨ Auto-fixes GitHub 'blob' links to 'raw' automatically!
                                     </p>
                                 </div>
-                                <div className="flex items-center gap-2">
-                                    <input type="checkbox" checked={editingProduct.inStock} onChange={e => setEditingProduct({...editingProduct, inStock: e.target.checked})} />
-                                    <label className="text-sm">In Stock</label>
+                                <div>
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Packed Weight & Size</label>
+                                    <div className="grid grid-cols-4 gap-2">
+                                        <input required type="number" min="0.01" step="0.01" className="border p-2 rounded text-sm" title="Weight (kg)" value={editingProduct.weightKg ?? ''} onChange={e => setEditingProduct({...editingProduct, weightKg: parseFloat(e.target.value) || 0})} />
+                                        {(['length', 'width', 'height'] as const).map(side => (
+                                            <input
+                                                key={side}
+                                                required
+                                                type="number"
+                                                min="1"
+                                                step="1"
+                                                className="border p-2 rounded text-sm"
+                                                title={`${side} (cm)`}
+                                                value={editingProduct.dimensionsCm?.[side] ?? ''}
+                                                onChange={e => setEditingProduct({
+                                                    ...editingProduct,
+                                                    dimensionsCm: { ...(editingProduct.dimensionsCm || DEFAULT_PARCEL.dimensionsCm), [side]: parseFloat(e.target.value) || 0 }
+                                                })}
+                                            />
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-stone-500 mt-1">Weight in kg, then length × width × height in cm. Used for shipping rates.</p>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Stock Quantity</label>
+                                    <input
+                                        required
+                                        type="number"
+                                        min="0"
+                                        step="1"
+                                        className="w-full border p-2 rounded disabled:bg-stone-100"
+                                        disabled={(editingProduct.variants || []).length > 0}
+                                        value={(editingProduct.variants || []).length > 0 ? editingProduct.variants!.reduce((sum, v) => sum + v.stockQuantity, 0) : editingProduct.stockQuantity}
+                                        onChange={e => setEditingProduct({...editingProduct, stockQuantity: Math.max(0, parseInt(e.target.value, 10) || 0)})}
+                                    />
+                                    <p className="text-[10px] text-stone-500 mt-1">Shown as sold out automatically at 0. Products with variants use the variant totals.</p>
+                                </div>
+                                <div className="border-t border-stone-200 pt-4">
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Variant Options</label>
+                                    <input
+                                        className="w-full border p-2 rounded text-sm"
+                                        placeholder="e.g. size, thread"
+                                        value={optionNamesDraft}
+                                        onChange={e => setOptionNamesDraft(e.target.value)}
+                                        onBlur={handleOptionNamesCommit}
+                                    />
+                                    {variantOptionNames.length > 0 && (
+                                        <div className="mt-3 space-y-2">
+                                            {(editingProduct.variants || []).map((variant, idx) => (
+                                                <div key={variant.id} className="bg-stone-50 border border-stone-200 rounded p-2 space-y-2">
+                                                    <div className="flex gap-2">
+                                                        {variantOptionNames.map(name => (
+                                                            <input
+                                                                key={name}
+                                                                required
+                                                                className="flex-1 min-w-0 border p-1 rounded text-xs"
+                                                                placeholder={name}
+                                                                value={variant.options[name] || ''}
+                                                                onChange={e => updateVariant(idx, { options: { ...variant.options, [name]: e.target.value } })}
+                                                            />
+                                                        ))}
+                                                        <button type="button" onClick={() => handleRemoveVariant(idx)} className="p-1 text-stone-400 hover:text-red-600"><Trash2 size={14}/></button>
+                                                    </div>
+                                                    <div className="grid grid-cols-3 gap-2">
+                                                        <input required className="border p-1 rounded text-xs font-mono" placeholder="SKU" value={variant.sku} onChange={e => updateVariant(idx, { sku: e.target.value })} />
+                                                        <input type="number" step="0.01" className="border p-1 rounded text-xs" title="Price difference (€)" value={variant.priceDelta} onChange={e => updateVariant(idx, { priceDelta: parseFloat(e.target.value) || 0 })} />
+                                                        <input type="number" min="0" step="1" className="border p-1 rounded text-xs" title="Stock" value={variant.stockQuantity} onChange={e => updateVariant(idx, { stockQuantity: Math.max(0, parseInt(e.target.value, 10) || 0) })} />
+                                                    </div>
+                                                    <input className="w-full border p-1 rounded text-xs" placeholder="Variant image URL (optional)" value={variant.imageUrl || ''} onChange={e => updateVariant(idx, { imageUrl: e.target.value })} />
+                                                </div>
+                                            ))}
+                                            <button type="button" onClick={handleAddVariant} className="text-xs font-bold text-emerald-800 flex items-center gap-1 hover:underline">
+                                                <Plus size={12}/> Add Variant
+                                            </button>
+                                            <p className="text-[10px] text-stone-500">Per variant: SKU, price difference (€) and stock.</p>
+                                        </div>
+                                    )}
                                 </div>
                             </form>
                         </div>
@@ -1,27 +1,33 @@
 import React from 'react';
-import { Product } from '../types';
+import { Category, Product, RatingSummary } from '../types';
 import Button from './Button';
 import ImageWithFallback from './ImageWithFallback';
 import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
 import AutoTranslatedText from './AutoTranslatedText';
+import LocalizedLabel from './LocalizedLabel';
+import WishlistButton from './WishlistButton';
+import StarRating from './StarRating';
+import { hasVariants } from '../services/variants';
+import { VAT_NOTE_KEY, displayPrice } from '../services/vat';
+import { getProductCategoryId } from '../services/categories';
 
 interface ProductListProps {
   products: Product[];
   onProductClick: (product: Product) => void;
   onAddToCart: (product: Product) => void;
+  cartQuantities?: Record<string, number>; // Used to stop adding beyond available stock
+  ratings?: Record<string, RatingSummary>; // Published review averages by product id
+  highlights?: Record<string, string[]>; // Search terms each product matched, by product id
+  categories?: Category[]; // For the category label; products in unknown categories show the stored id
 }
 
-const ProductList: React.FC<ProductListProps> = ({ products, onProductClick, onAddToCart }) => {
+const ProductList: React.FC<ProductListProps> = ({ products, onProductClick, onAddToCart, cartQuantities = {}, ratings = {}, highlights = {}, categories = [] }) => {
   const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
 
-  const getCategoryKey = (category: string) => {
-    // Helper to generate consistent keys for categories
-    if (category === 'Clothes') return 'nav_clothes';
-    if (category === 'Art') return 'nav_art';
-    if (category === 'Accessories') return 'nav_accessories';
-    if (category.includes('Misc')) return 'nav_misc';
-    return `nav_${category.toLowerCase().replace(' ', '_')}`;
-  };
+  const getCategoryName = (product: Product) =>
+    categories.find(c => c.id === getProductCategoryId(product))?.name || { en: product.category };
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
@@ -48,6 +54,7 @@ const ProductList: React.FC<ProductListProps> = ({ products, onProductClick, onA
                 <span className="bg-stone-900 text-white px-4 py-2 text-sm font-medium uppercase tracking-widest border border-stone-900">{t('sold_out')}</span>
               </div>
             )}
+            <WishlistButton productId={product.id} className="absolute top-3 right-3 z-10 bg-white/90 rounded-full p-2 shadow-sm" />
             <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-stone-900/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                <span className="text-white text-xs font-bold uppercase tracking-widest border-b border-eth-yellow pb-1">{t('view_details')}</span>
             </div>
@@ -55,36 +62,47 @@ const ProductList: React.FC<ProductListProps> = ({ products, onProductClick, onA
           
           <div className="p-6 flex-1 flex flex-col">
             <div onClick={() => onProductClick(product)} className="cursor-pointer mb-3">
-               <AutoTranslatedText 
+               <LocalizedLabel 
                  as="div"
                  className="text-[10px] uppercase tracking-widest text-emerald-800 font-bold mb-1"
-                 value={product.category}
-                 translationKey={getCategoryKey(product.category)}
+                 text={getCategoryName(product)}
+                 highlightTerms={highlights[product.id]}
                />
                <AutoTranslatedText 
                  as="h3" 
                  className="font-serif text-xl font-bold text-stone-900 group-hover:text-emerald-800 transition-colors"
                  value={product.name}
                  translationKey={`product_${product.id}_name`}
+                 highlightTerms={highlights[product.id]}
                />
+               {ratings[product.id] && (
+                 <div className="flex items-center gap-2 mt-1 text-xs text-stone-500">
+                   <StarRating rating={ratings[product.id].average} size={12} />
+                   <span>{ratings[product.id].average.toFixed(1)} ({ratings[product.id].count})</span>
+                 </div>
+               )}
                <AutoTranslatedText 
                  as="p"
                  className="text-stone-500 text-sm line-clamp-2 mt-2 font-light leading-relaxed"
                  value={product.description}
                  translationKey={`product_${product.id}_desc`}
+                 highlightTerms={highlights[product.id]}
                />
             </div>
             
             <div className="mt-auto flex items-center justify-between pt-5 border-t border-stone-100">
-              <span className="font-serif text-lg text-stone-900 font-medium">{product.currency}{product.price}</span>
+              <span className="font-serif text-lg text-stone-900 font-medium">
+                {formatPrice(displayPrice(product.price, product.category))}
+                <span className="block text-[10px] font-sans text-stone-400 font-normal">{t(VAT_NOTE_KEY)}</span>
+              </span>
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={() => onAddToCart(product)}
-                disabled={!product.inStock}
+                disabled={!product.inStock || (cartQuantities[product.id] || 0) >= product.stockQuantity}
                 className="hover:bg-emerald-900 hover:text-white hover:border-emerald-900 transition-colors"
               >
-                {t('add_to_cart')}
+                {hasVariants(product) ? t('choose_options') : t('add_to_cart')}
               </Button>
             </div>
           </div>
@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, BadgeCheck, Camera, CheckCircle, Loader2, MessageSquare, X } from 'lucide-react';
+import { Product, RatingSummary, Review } from '../types';
+import Button from './Button';
+import StarRating from './StarRating';
+import AutoTranslatedText from './AutoTranslatedText';
+import { backend } from '../services/backendClient';
+import { useLanguage } from '../i18n';
+import { useAccount } from '../account';
+import { REVIEW_MAX_PHOTOS, REVIEW_PHOTO_MAX_SIZE, REVIEW_TEXT_MAX_LENGTH, REVIEW_TEXT_MIN_LENGTH } from '../services/reviews';
+import { downscaleImage } from '../services/images';
+
+interface ProductReviewsProps {
+  product: Product;
+  summary?: RatingSummary;
+}
+
+// Published reviews for the detail view, plus the verified-purchase form (order number + email)
+const ProductReviews: React.FC<ProductReviewsProps> = ({ product, summary }) => {
+  const { t, language } = useLanguage();
+  const { customer } = useAccount();
+  const [reviews, setReviews] = useState<Review[] | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [enlargedPhoto, setEnlargedPhoto] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setReviews(null);
+    setIsWriting(false);
+    setSubmitted(false);
+    backend.getProductReviews(product.id)
+      .then(setReviews)
+      .catch(err => {
+        console.error('Failed to load reviews', err);
+        setReviews([]);
+      });
+  }, [product.id]);
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+
+  const resetForm = () => {
+    setIsWriting(false);
+    setRating(0);
+    setPhotos([]);
+    setError('');
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).slice(0, REVIEW_MAX_PHOTOS - photos.length);
+    e.target.value = '';
+    try {
+      const added = await Promise.all(files.map(file => downscaleImage(file, REVIEW_PHOTO_MAX_SIZE)));
+      setPhotos(prev => [...prev, ...added].slice(0, REVIEW_MAX_PHOTOS));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const text = (formData.get('text') as string).trim();
+    if (!rating) {
+      setError(t('review_rating_required'));
+      return;
+    }
+    if (text.length < REVIEW_TEXT_MIN_LENGTH) {
+      setError(t('review_text_too_short').replace('{min}', String(REVIEW_TEXT_MIN_LENGTH)));
+      return;
+    }
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await backend.submitReview({
+        productId: product.id,
+        orderId: formData.get('orderId') as string,
+        email: formData.get('email') as string,
+        rating,
+        text,
+        language,
+        photos,
+      });
+      resetForm();
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="mt-20 border-t border-stone-200 pt-12">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-8">
+        <div>
+          <h2 className="text-3xl font-serif font-bold text-stone-900 mb-2">{t('reviews')}</h2>
+          {summary ? (
+            <p className="flex items-center gap-3 text-stone-600">
+              <StarRating rating={summary.average} size={18} />
+              <span className="font-bold text-stone-900">{summary.average.toFixed(1)}</span>
+              <span className="text-sm">{t('reviews_count').replace('{count}', String(summary.count))}</span>
+            </p>
+          ) : (
+            <p className="text-stone-500 text-sm">{t('no_reviews_yet')}</p>
+          )}
+        </div>
+        {!isWriting && (
+          <Button variant="outline" onClick={() => { setIsWriting(true); setSubmitted(false); }} className="flex items-center gap-2">
+            <MessageSquare size={16} /> {t('write_review')}
+          </Button>
+        )}
+      </div>
+
+      {submitted && (
+        <p className="mb-8 text-sm text-emerald-800 bg-emerald-50 border border-emerald-100 rounded p-4 flex items-center gap-2">
+          <CheckCircle size={16} /> {t('review_thanks')}
+        </p>
+      )}
+
+      {isWriting && (
+        <form onSubmit={handleSubmit} className="mb-10 bg-white border border-stone-200 rounded-lg p-6 space-y-4 animate-fade-in">
+          <p className="text-sm text-stone-500">{t('review_order_hint')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className={labelClass}>{t('order_ref')}</label>
+              <input required name="orderId" placeholder="ETH-12345" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className={labelClass}>{t('form_email')}</label>
+              <input required name="email" type="email" defaultValue={customer?.email} className={inputClass} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className={`${labelClass} block`}>{t('review_rating')}</label>
+            <StarRating rating={rating} size={28} onChange={setRating} label={t('review_rating')} />
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>{t('review_text')}</label>
+            <textarea required name="text" rows={4} maxLength={REVIEW_TEXT_MAX_LENGTH} className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={`${labelClass} block`}>{t('review_photos').replace('{max}', String(REVIEW_MAX_PHOTOS))}</label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, idx) => (
+                <span key={idx} className="relative">
+                  <img src={photo} alt="" className="w-20 h-20 object-cover rounded border border-stone-200" />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== idx))}
+                    className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5 text-stone-500 hover:text-red-600"
+                    title={t('remove')}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              {photos.length < REVIEW_MAX_PHOTOS && (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-20 h-20 border-2 border-dashed border-stone-300 rounded flex items-center justify-center text-stone-400 hover:text-emerald-800 hover:border-emerald-800 transition-colors"
+                >
+                  <Camera size={20} />
+                </button>
+              )}
+              <input ref={fileInputRef} type="file" accept="image/jpeg,image/png,image/webp" multiple className="hidden" onChange={handlePhotos} />
+            </div>
+          </div>
+          {error && <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={resetForm}>{t('cancel')}</Button>
+            <Button type="submit" disabled={isSubmitting} className="flex items-center gap-2">
+              {isSubmitting && <Loader2 size={16} className="animate-spin" />} {t('review_submit')}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {reviews === null ? (
+        <div className="flex justify-center py-8 text-stone-400"><Loader2 size={24} className="animate-spin" /></div>
+      ) : (
+        <div className="space-y-6">
+          {reviews.map(review => (
+            <article key={review.id} className="bg-white border border-stone-100 shadow-sm p-6">
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <StarRating rating={review.rating} />
+                <span className="font-bold text-stone-900 text-sm">{review.authorName}</span>
+                <span className="text-xs text-stone-400">{new Date(review.createdAt).toLocaleDateString(language)}</span>
+                <span className="text-xs text-emerald-800 flex items-center gap-1"><BadgeCheck size={14} /> {t('review_verified')}</span>
+              </div>
+              <AutoTranslatedText as="p" className="text-stone-700 leading-relaxed whitespace-pre-line" value={review.text} sourceLanguage={review.language} />
+              {review.photos.length > 0 && (
+                <div className="flex gap-2 mt-4">
+                  {review.photos.map((photo, idx) => (
+                    <button key={idx} onClick={() => setEnlargedPhoto(photo)}>
+                      <img src={photo} alt="" className="w-20 h-20 object-cover rounded border border-stone-200 hover:opacity-80 transition-opacity" />
+                    </button>
+                  ))}
+                </div>
+              )}
+              {review.reply && (
+                <div className="mt-4 bg-stone-50 border-l-4 border-emerald-900 p-4">
+                  <p className="text-xs font-bold uppercase text-emerald-900 mb-1">{t('review_reply')}</p>
+                  <AutoTranslatedText as="p" className="text-sm text-stone-600" value={review.reply.text} />
+                </div>
+              )}
+            </article>
+          ))}
+        </div>
+      )}
+
+      {enlargedPhoto && (
+        <div className="fixed inset-0 z-[80] bg-stone-900/80 flex items-center justify-center p-4" onClick={() => setEnlargedPhoto(null)}>
+          <img src={enlargedPhoto} alt="" className="max-w-full max-h-full rounded shadow-2xl" />
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Tag, X, Loader2 } from 'lucide-react';
+import { CartItem, Promotion } from '../types';
+import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { getPromotionIssue } from '../services/promotions';
+
+interface PromoCodeInputProps {
+  promotion: Promotion | null;
+  lines: CartItem[];
+  onApply: (code: string) => Promise<void>;
+  onRemove: () => void;
+}
+
+// Shared by the cart and checkout so a code entered in one shows in the other
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({ promotion, lines, onApply, onRemove }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const [code, setCode] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setIsApplying(true);
+    setError('');
+    try {
+      await onApply(code);
+      setCode('');
+    } catch {
+      setError(t('promo_inactive'));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (promotion) {
+    const issue = getPromotionIssue(promotion, lines);
+    return (
+      <div className="text-sm">
+        <div className={`flex items-center justify-between gap-2 px-3 py-2 rounded border ${issue ? 'border-amber-200 bg-amber-50' : 'border-emerald-200 bg-emerald-50'}`}>
+          <span className="flex items-center gap-2 font-medium text-stone-800">
+            <Tag size={14} className="text-emerald-700" />
+            <span className="font-mono">{promotion.code}</span>
+            <span className="text-xs text-stone-500">{promotion.label}</span>
+          </span>
+          <button type="button" onClick={onRemove} className="text-stone-400 hover:text-stone-800" title={t('promo_remove')}>
+            <X size={14} />
+          </button>
+        </div>
+        {issue && (
+          <p className="text-xs text-amber-700 mt-1">
+            {t(`promo_${issue}`).replace('{amount}', formatPrice(promotion.minSpend || 0))}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="text-sm">
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder={t('promo_code')}
+          className="flex-1 min-w-0 border border-stone-300 rounded px-3 py-2 uppercase font-mono text-xs focus:ring-2 focus:ring-emerald-800 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isApplying || !code.trim()}
+          className="px-3 py-2 rounded border border-stone-300 text-stone-700 font-bold text-xs hover:bg-stone-50 disabled:opacity-50 flex items-center gap-1"
+        >
+          {isApplying && <Loader2 size={12} className="animate-spin" />}
+          {t('promo_apply')}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </form>
+  );
+};
+
+export default PromoCodeInput;
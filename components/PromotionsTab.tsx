@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, Tag } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { Category, Promotion, PromotionType } from '../types';
+import { PROMOTION_TYPE_LABELS, describePromotion } from '../services/promotions';
+import { getChildCategories } from '../services/categories';
+import Button from './Button';
+
+type PromotionDraft = Partial<Promotion>;
+
+const EMPTY_PROMOTION: PromotionDraft = {
+    code: '',
+    label: '',
+    type: 'percentage',
+    value: 10,
+    active: true
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInput = (iso?: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+const getWindowLabel = (promotion: Promotion) => {
+    if (!promotion.startsAt && !promotion.endsAt) return 'Always';
+    const format = (iso?: string) => iso ? new Date(iso).toLocaleDateString() : '…';
+    return `${format(promotion.startsAt)} – ${format(promotion.endsAt)}`;
+};
+
+// Admin tab for promo codes (Timkat, Enkutatash sales etc.)
+const PromotionsTab: React.FC = () => {
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [editing, setEditing] = useState<PromotionDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        const [promotionList, categoryList] = await Promise.all([backend.getPromotions(), backend.getCategories()]);
+        setPromotions(promotionList);
+        setCategories(categoryList);
+        setLoading(false);
+    };
+
+    const update = (changes: PromotionDraft) => setEditing(prev => ({ ...prev, ...changes }));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        setSaving(true);
+        try {
+            // Rule fields that do not belong to the chosen type are dropped
+            const draft: PromotionDraft = {
+                ...editing,
+                value: editing.type === 'percentage' || editing.type === 'fixed' ? editing.value || 0 : 0,
+                buyQuantity: editing.type === 'buy_x_get_y' ? editing.buyQuantity || 1 : undefined,
+                getQuantity: editing.type === 'buy_x_get_y' ? editing.getQuantity || 1 : undefined,
+            };
+            if (draft.id) {
+                await backend.updatePromotion(draft.id, draft);
+            } else {
+                await backend.addPromotion(draft as Omit<Promotion, 'id' | 'usageCount'>);
+            }
+            setEditing(null);
+            refresh();
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to save promotion.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggle = async (promotion: Promotion) => {
+        await backend.updatePromotion(promotion.id, { active: !promotion.active });
+        refresh();
+    };
+
+    const handleDelete = async (promotion: Promotion) => {
+        if (window.confirm(`Delete promo code ${promotion.code}? Orders that used it keep their discount.`)) {
+            await backend.deletePromotion(promotion.id);
+            refresh();
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="p-4 bg-stone-100 border-b border-stone-200 flex justify-end">
+                <Button size="sm" onClick={() => setEditing({ ...EMPTY_PROMOTION })} className="flex items-center gap-2">
+                    <Plus size={16}/> New Promo Code
+                </Button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+                {loading ? (
+                    <div className="text-center py-20 text-stone-400">Loading promotions...</div>
+                ) : promotions.length === 0 ? (
+                    <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                        <Tag size={48} className="mb-4 opacity-50" />
+                        <p>No promo codes yet.</p>
+                    </div>
+                ) : (
+                    <div className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                        <table className="w-full text-left border-collapse">
+                            <thead>
+                                <tr className="bg-stone-50 text-stone-500 text-xs uppercase tracking-wider border-b border-stone-200">
+                                    <th className="p-4">Code</th>
+                                    <th className="p-4">Rule</th>
+                                    <th className="p-4">Valid</th>
+                                    <th className="p-4">Used</th>
+                                    <th className="p-4">Active</th>
+                                    <th className="p-4"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-sm text-stone-700">
+                                {promotions.map(promotion => (
+                                    <tr key={promotion.id} className="border-b border-stone-100 last:border-0 hover:bg-stone-50">
+                                        <td className="p-4">
+                                            <span className="font-mono font-bold">{promotion.code}</span>
+                                            <span className="block text-xs text-stone-400">{promotion.label}</span>
+                                        </td>
+                                        <td className="p-4">{describePromotion(promotion, categories.find(c => c.id === promotion.category)?.name.en)}</td>
+                                        <td className="p-4 text-xs text-stone-500">{getWindowLabel(promotion)}</td>
+                                        <td className="p-4">{promotion.usageCount}{promotion.usageLimit !== undefined && ` / ${promotion.usageLimit}`}</td>
+                                        <td className="p-4">
+                                            <button
+                                                onClick={() => handleToggle(promotion)}
+                                                className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded ${promotion.active ? 'bg-emerald-50 text-emerald-800 border-emerald-200' : 'bg-stone-100 text-stone-500 border-stone-200'}`}
+                                            >
+                                                {promotion.active ? 'Active' : 'Paused'}
+                                            </button>
+                                        </td>
+                                        <td className="p-4">
+                                            <div className="flex gap-2 justify-end">
+                                                <button onClick={() => setEditing({ ...promotion })} className="p-2 text-stone-400 hover:text-emerald-800 hover:bg-emerald-50 rounded transition-colors"><Edit size={16}/></button>
+                                                <button onClick={() => handleDelete(promotion)} className="p-2 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"><Trash2 size={16}/></button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* PROMOTION EDIT OVERLAY */}
+            {editing && (
+                <div className="absolute inset-0 bg-stone-900/50 backdrop-blur-sm z-50 flex justify-end">
+                    <div className="w-full md:w-[500px] bg-white h-full shadow-2xl flex flex-col animate-fade-in">
+                        <div className="p-4 border-b border-stone-200 flex justify-between items-center bg-stone-50">
+                            <h3 className="font-bold text-lg">{editing.id ? 'Edit Promo Code' : 'New Promo Code'}</h3>
+                            <button onClick={() => setEditing(null)}><X size={20} className="text-stone-500"/></button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto p-6">
+                            <form id="promotionForm" onSubmit={handleSave} className="space-y-4">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Code</label>
+                                        <input required className="w-full border p-2 rounded font-mono uppercase" placeholder="TIMKAT20" value={editing.code} onChange={e => update({ code: e.target.value.toUpperCase() })} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Label</label>
+                                        <input required className="w-full border p-2 rounded" placeholder="Timkat Sale" value={editing.label} onChange={e => update({ label: e.target.value })} />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Type</label>
+                                        <select className="w-full border p-2 rounded" value={editing.type} onChange={e => update({ type: e.target.value as PromotionType })}>
+                                            {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => <option key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</option>)}
+                                        </select>
+                                    </div>
+                                    {(editing.type === 'percentage' || editing.type === 'fixed') && (
+                                        <div>
+                                            <label className="block text-xs font-bold uppercase text-stone-500 mb-1">{editing.type === 'percentage' ? 'Percent Off' : 'Amount Off (€)'}</label>
+                                            <input required type="number" min="0" max={editing.type === 'percentage' ? 100 : undefined} step="0.01" className="w-full border p-2 rounded" value={editing.value ?? ''} onChange={e => update({ value: parseFloat(e.target.value) || 0 })} />
+                                        </div>
+                                    )}
+                                    {editing.type === 'buy_x_get_y' && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div>
+                                                <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Buy</label>
+                                                <input required type="number" min="1" step="1" className="w-full border p-2 rounded" value={editing.buyQuantity ?? 1} onChange={e => update({ buyQuantity: parseInt(e.target.value, 10) || 1 })} />
+                                            </div>
+                                            <div>
+                                                <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Get Free</label>
+                                                <input required type="number" min="1" step="1" className="w-full border p-2 rounded" value={editing.getQuantity ?? 1} onChange={e => update({ getQuantity: parseInt(e.target.value, 10) || 1 })} />
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Category</label>
+                                        <select className="w-full border p-2 rounded" value={editing.category || ''} onChange={e => update({ category: e.target.value || undefined })}>
+                                            <option value="">All products</option>
+                                            {getChildCategories(categories).map(c => <option key={c.id} value={c.id}>{c.name.en}</option>)}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Minimum Spend (€)</label>
+                                        <input type="number" min="0" step="0.01" className="w-full border p-2 rounded" value={editing.minSpend ?? ''} onChange={e => update({ minSpend: e.target.value ? parseFloat(e.target.value) : undefined })} />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Starts</label>
+                                        <input type="datetime-local" className="w-full border p-2 rounded text-sm" value={toLocalInput(editing.startsAt)} onChange={e => update({ startsAt: fromLocalInput(e.target.value) })} />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Ends</label>
+                                        <input type="datetime-local" className="w-full border p-2 rounded text-sm" value={toLocalInput(editing.endsAt)} onChange={e => update({ endsAt: fromLocalInput(e.target.value) })} />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-bold uppercase text-stone-500 mb-1">Usage Limit</label>
+                                    <input type="number" min="1" step="1" className="w-full border p-2 rounded" placeholder="Unlimited" value={editing.usageLimit ?? ''} onChange={e => update({ usageLimit: e.target.value ? parseInt(e.target.value, 10) : undefined })} />
+                                    {editing.id && <p className="text-[10px] text-stone-500 mt-1">Used {editing.usageCount} times so far.</p>}
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-stone-700">
+                                    <input type="checkbox" checked={!!editing.active} onChange={e => update({ active: e.target.checked })} />
+                                    Active
+                                </label>
+                            </form>
+                        </div>
+                        <div className="p-4 border-t border-stone-200 bg-stone-50 flex justify-end gap-3">
+                            <Button variant="ghost" onClick={() => setEditing(null)} type="button">Cancel</Button>
+                            <Button form="promotionForm" type="submit" disabled={saving}>
+                                {saving ? 'Saving...' : <><Save size={16} className="mr-2"/> Save Code</>}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PromotionsTab;
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import Button from './Button';
+import { useLanguage } from '../i18n';
+import { backend } from '../services/backendClient';
+import { ReturnAuthorization, ReturnReason, ReturnResolution, ReturnableOrder } from '../types';
+import { RETURN_REASONS } from '../services/returns';
+
+interface LineSelection {
+  quantity: number;
+  reason: ReturnReason;
+  exchangeVariantId?: string;
+}
+
+// Self-service RMA: find the order by number + email, pick lines, get an RMA number
+const ReturnRequestForm: React.FC = () => {
+  const { t, language } = useLanguage();
+  const [orderId, setOrderId] = useState('');
+  const [email, setEmail] = useState('');
+  const [order, setOrder] = useState<ReturnableOrder | null>(null);
+  const [selection, setSelection] = useState<Record<string, LineSelection>>({});
+  const [resolution, setResolution] = useState<ReturnResolution>('refund');
+  const [comment, setComment] = useState('');
+  const [created, setCreated] = useState<ReturnAuthorization | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const inputClass = "w-full border border-stone-300 rounded px-3 py-2 focus:ring-2 focus:ring-emerald-800 outline-none transition-all";
+  const labelClass = "text-xs font-bold text-stone-500 uppercase";
+
+  const loadOrder = async () => {
+    setOrder(await backend.getReturnableOrder(orderId, email));
+    setSelection({});
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setCreated(null);
+    try {
+      await loadOrder();
+    } catch (err) {
+      setOrder(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateLine = (lineId: string, changes: Partial<LineSelection>) =>
+    setSelection(prev => ({ ...prev, [lineId]: { quantity: 0, reason: 'wrong_size', ...prev[lineId], ...changes } }));
+
+  const chosen = (order?.lines || [])
+    .filter(line => selection[line.lineId]?.quantity > 0)
+    .map(line => ({ lineId: line.lineId, ...selection[line.lineId] }));
+  const isComplete = chosen.length > 0 && (resolution === 'refund' || chosen.every(line => line.exchangeVariantId));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    try {
+      const rma = await backend.requestReturn({
+        orderId,
+        email,
+        resolution,
+        lines: chosen.map(({ lineId, quantity, reason, exchangeVariantId }) => ({
+          lineId,
+          quantity,
+          reason,
+          ...(resolution === 'exchange' ? { exchangeVariantId } : {}),
+        })),
+        comment,
+      });
+      setCreated(rma);
+      setComment('');
+      await loadOrder();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(language);
+  const isWindowOpen = !!order?.returnBy && new Date(order.returnBy).getTime() > Date.now();
+  const hasReturnable = !!order?.lines.some(line => line.returnable > 0);
+
+  return (
+    <div className="bg-stone-50 p-6 rounded-lg border border-stone-200 mt-6 not-prose">
+      <h3 className="font-bold text-stone-900 text-base mb-1">{t('start_return')}</h3>
+      <p className="text-sm text-stone-500 mb-4">{t('return_lookup_desc')}</p>
+
+      <form onSubmit={handleLookup} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end mb-4">
+        <div className="space-y-1">
+          <label className={labelClass}>{t('order_ref')}</label>
+          <input required value={orderId} onChange={e => setOrderId(e.target.value)} placeholder="ETH-12345" className={inputClass} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>{t('form_email')}</label>
+          <input required type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+        </div>
+        <Button type="submit" variant="outline" disabled={isLoading}>{t('find_order')}</Button>
+      </form>
+
+      {error && <p className="text-xs text-red-600 flex items-center gap-1 mb-4"><AlertCircle size={12} /> {error}</p>}
+
+      {created && (
+        <div className="bg-white border border-emerald-200 rounded p-4 mb-4 text-sm animate-fade-in">
+          <p className="flex items-center gap-2 font-bold text-emerald-900 mb-1"><CheckCircle size={16} /> {t('return_requested')}</p>
+          <p className="font-mono text-lg font-bold text-stone-900 select-all">{created.id}</p>
+          <p className="text-stone-500 mt-1">{t('rma_instructions')}</p>
+        </div>
+      )}
+
+      {order && (
+        <div className="space-y-4 animate-fade-in">
+          {order.returns.length > 0 && (
+            <div className="bg-white border border-stone-200 rounded p-4 text-sm">
+              <h4 className={`${labelClass} mb-2`}>{t('your_returns')}</h4>
+              <ul className="space-y-2">
+                {order.returns.map(rma => (
+                  <li key={rma.id} className="flex justify-between gap-4 border-b border-stone-100 last:border-0 pb-2 last:pb-0">
+                    <span>
+                      <span className="font-mono font-bold text-stone-900">{rma.id}</span>
+                      <span className="block text-xs text-stone-500">{rma.lines.map(line => `${line.quantity}x ${line.name}`).join(', ')}</span>
+                    </span>
+                    <span className="text-right">
+                      <span className="block font-bold text-emerald-900">{t(`return_status_${rma.status}`)}</span>
+                      <span className="block text-xs text-stone-400">{formatDate(rma.statusHistory[rma.statusHistory.length - 1].date)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {!order.returnBy ? (
+            <p className="text-sm text-stone-500">{t('return_after_delivery')}</p>
+          ) : !isWindowOpen ? (
+            <p className="text-sm text-stone-500">{t('return_window_closed')}</p>
+          ) : !hasReturnable ? (
+            <p className="text-sm text-stone-500">{t('return_nothing_left')}</p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="flex justify-between items-center">
+                <span className={labelClass}>{t('return_items')}</span>
+                <span className="text-xs text-stone-500">{t('return_by').replace('{date}', formatDate(order.returnBy))}</span>
+              </div>
+
+              <div className="flex gap-2">
+                {(['refund', 'exchange'] as ReturnResolution[]).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => { setResolution(option); setSelection({}); }}
+                    className={`flex-1 px-3 py-2 border rounded text-sm font-bold transition-colors ${resolution === option ? 'bg-emerald-900 text-white border-emerald-900' : 'bg-white text-stone-600 border-stone-200 hover:border-emerald-200'}`}
+                  >
+                    {t(`return_resolution_${option}`)}
+                  </button>
+                ))}
+              </div>
+
+              {order.lines.filter(line => line.returnable > 0).map(line => {
+                const selected = selection[line.lineId];
+                const canExchange = line.exchangeOptions.length > 0;
+                return (
+                  <div key={line.lineId} className="bg-white border border-stone-200 rounded p-3 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <img src={line.imageUrl} alt="" className="w-12 h-12 object-cover rounded" />
+                      <span className="flex-1 text-sm text-stone-800">
+                        {line.name}
+                        {line.variantLabel && <span className="block text-xs text-stone-400">{line.variantLabel}</span>}
+                      </span>
+                      <select
+                        value={selected?.quantity || 0}
+                        disabled={resolution === 'exchange' && !canExchange}
+                        onChange={e => updateLine(line.lineId, { quantity: Number(e.target.value) })}
+                        className="border border-stone-300 rounded px-2 py-1 text-sm"
+                      >
+                        {Array.from({ length: line.returnable + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                      </select>
+                    </div>
+                    {resolution === 'exchange' && !canExchange && <p className="text-xs text-stone-400">{t('no_exchange_options')}</p>}
+                    {!!selected?.quantity && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          value={selected.reason}
+                          onChange={e => updateLine(line.lineId, { reason: e.target.value as ReturnReason })}
+                          className="border border-stone-300 rounded px-2 py-1 text-sm"
+                          aria-label={t('return_reason')}
+                        >
+                          {RETURN_REASONS.map(reason => <option key={reason} value={reason}>{t(`reason_${reason}`)}</option>)}
+                        </select>
+                        {resolution === 'exchange' && (
+                          <select
+                            required
+                            value={selected.exchangeVariantId || ''}
+                            onChange={e => updateLine(line.lineId, { exchangeVariantId: e.target.value })}
+                            className="border border-stone-300 rounded px-2 py-1 text-sm"
+                          >
+                            <option value="" disabled>{t('exchange_for')}</option>
+                            {line.exchangeOptions.map(option => <option key={option.variantId} value={option.variantId}>{option.label}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <textarea
+                value={comment}
+                onChange={e => setComment(e.target.value)}
+                placeholder={t('return_comment')}
+                rows={2}
+                className={inputClass}
+              />
+              <Button type="submit" disabled={isLoading || !isComplete} className="w-full flex items-center justify-center gap-2">
+                {isLoading ? <Loader2 size={16} className="animate-spin" /> : null} {t('submit_return')}
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReturnRequestForm;
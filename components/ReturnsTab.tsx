@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, ChevronDown, ChevronUp, Undo2 } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { ReturnAuthorization, ReturnStatus } from '../types';
+import { RETURN_REASON_LABELS, RETURN_STATUS_LABELS, RETURN_STATUS_STYLES, RETURN_TRANSITIONS } from '../services/returns';
+import Button from './Button';
+
+const CLOSED_STATUSES: ReturnStatus[] = ['rejected', 'refunded', 'exchanged'];
+
+// Admin RMA queue: approve, receive, then refund or exchange customer returns
+const ReturnsTab: React.FC = () => {
+    const [returns, setReturns] = useState<ReturnAuthorization[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [showClosed, setShowClosed] = useState(false);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [note, setNote] = useState('');
+    const [issuedBy, setIssuedBy] = useState('');
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        setReturns(await backend.getReturns());
+        setLoading(false);
+    };
+
+    const handleStatusChange = async (rma: ReturnAuthorization, status: ReturnStatus) => {
+        if (status === 'refunded' && !issuedBy.trim()) {
+            alert('Enter who is issuing the refund.');
+            return;
+        }
+        const confirmations: Partial<Record<ReturnStatus, string>> = {
+            rejected: `Reject return ${rma.id}?`,
+            refunded: `Refund the returned items on order ${rma.orderId}?`,
+            exchanged: `Ship the exchange for ${rma.id} as a new order?`,
+        };
+        if (confirmations[status] && !window.confirm(confirmations[status])) return;
+
+        setUpdatingId(rma.id);
+        try {
+            const updated = await backend.updateReturnStatus(rma.id, status, { note, issuedBy });
+            setReturns(prev => prev.map(r => r.id === updated.id ? updated : r));
+            setNote('');
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to update return.');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const visible = returns.filter(r => showClosed || !CLOSED_STATUSES.includes(r.status));
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="p-4 bg-stone-100 border-b border-stone-200 flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm text-stone-600">
+                    <input type="checkbox" checked={showClosed} onChange={e => setShowClosed(e.target.checked)} />
+                    Show closed returns
+                </label>
+                <button onClick={refresh} className="p-2 text-stone-500 hover:text-stone-900" title="Refresh">
+                    <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-3">
+                {loading ? (
+                    <div className="text-center py-20 text-stone-400">Loading returns...</div>
+                ) : visible.length === 0 ? (
+                    <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                        <Undo2 size={48} className="mb-4 opacity-20" />
+                        <p>No {showClosed ? '' : 'open '}returns.</p>
+                    </div>
+                ) : visible.map(rma => (
+                    <div key={rma.id} className="bg-white rounded-lg shadow-sm border border-stone-200 overflow-hidden">
+                        <div
+                            className="p-4 flex items-center justify-between cursor-pointer hover:bg-stone-50 transition-colors"
+                            onClick={() => { setExpandedId(expandedId === rma.id ? null : rma.id); setNote(''); }}
+                        >
+                            <div>
+                                <span className="font-mono font-bold text-stone-900">{rma.id}</span>
+                                <span className="text-xs text-stone-500 ml-3">Order <span className="font-mono">{rma.orderId}</span> · {rma.email}</span>
+                                <span className="block text-xs text-stone-400">{new Date(rma.createdAt).toLocaleString()} · {rma.resolution === 'refund' ? 'Refund' : 'Exchange'}</span>
+                            </div>
+                            <div className="flex items-center gap-4">
+                                <span className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded ${RETURN_STATUS_STYLES[rma.status]}`}>
+                                    {RETURN_STATUS_LABELS[rma.status]}
+                                </span>
+                                {expandedId === rma.id ? <ChevronUp size={16} className="text-stone-400" /> : <ChevronDown size={16} className="text-stone-400" />}
+                            </div>
+                        </div>
+
+                        {expandedId === rma.id && (
+                            <div className="p-4 border-t border-stone-100 bg-stone-50 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                                <div className="space-y-2">
+                                    {rma.lines.map(line => (
+                                        <div key={line.lineId} className="bg-white p-3 rounded border border-stone-200">
+                                            <span className="font-bold text-stone-400 mr-2">{line.quantity}x</span>
+                                            <span className="text-stone-800">{line.name}</span>
+                                            <span className="block text-xs text-stone-500">{RETURN_REASON_LABELS[line.reason]}</span>
+                                            {line.exchangeLabel && <span className="block text-xs text-emerald-700">Exchange for {line.exchangeLabel}</span>}
+                                        </div>
+                                    ))}
+                                    {rma.comment && <p className="text-xs text-stone-500 italic">"{rma.comment}"</p>}
+                                    {rma.exchangeOrderId && <p className="text-xs text-stone-500">Replacement order <span className="font-mono">{rma.exchangeOrderId}</span></p>}
+                                </div>
+                                <div className="space-y-4">
+                                    <ol className="space-y-2 border-l-2 border-stone-100 pl-4">
+                                        {rma.statusHistory.map((change, idx) => (
+                                            <li key={idx}>
+                                                <span className="font-bold text-stone-800">{RETURN_STATUS_LABELS[change.status]}</span>
+                                                <span className="text-xs text-stone-400 ml-2">{new Date(change.date).toLocaleString()}</span>
+                                                {change.note && <p className="text-xs text-stone-500">{change.note}</p>}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                    {RETURN_TRANSITIONS[rma.status].length > 0 && (
+                                        <div className="space-y-2">
+                                            <input
+                                                placeholder="Note for the history (optional)"
+                                                value={note}
+                                                onChange={e => setNote(e.target.value)}
+                                                className="w-full border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                                            />
+                                            {rma.status === 'received' && rma.resolution === 'refund' && (
+                                                <input
+                                                    placeholder="Refund issued by"
+                                                    value={issuedBy}
+                                                    onChange={e => setIssuedBy(e.target.value)}
+                                                    className="w-full border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                                                />
+                                            )}
+                                            <div className="flex flex-wrap gap-2 justify-end">
+                                                {RETURN_TRANSITIONS[rma.status]
+                                                    .filter(next => next !== (rma.resolution === 'refund' ? 'exchanged' : 'refunded'))
+                                                    .map(next => (
+                                                        <Button
+                                                            key={next}
+                                                            size="sm"
+                                                            variant={next === 'rejected' ? 'ghost' : 'outline'}
+                                                            disabled={updatingId === rma.id}
+                                                            onClick={() => handleStatusChange(rma, next)}
+                                                        >
+                                                            {RETURN_STATUS_LABELS[next]}
+                                                        </Button>
+                                                    ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ReturnsTab;
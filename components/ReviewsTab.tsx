@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Star, MessageSquare } from 'lucide-react';
+import { backend } from '../services/backendClient';
+import { Product, Review, ReviewStatus } from '../types';
+import { REVIEW_STATUS_LABELS, REVIEW_STATUS_STYLES } from '../services/reviews';
+import Button from './Button';
+import StarRating from './StarRating';
+
+type ReviewFilter = ReviewStatus | 'all';
+
+// Admin moderation queue: nothing customers write is shown on the storefront until approved here
+const ReviewsTab: React.FC = () => {
+    const [reviews, setReviews] = useState<Review[]>([]);
+    const [products, setProducts] = useState<Product[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [filter, setFilter] = useState<ReviewFilter>('pending');
+    const [updatingId, setUpdatingId] = useState<string | null>(null);
+    const [replies, setReplies] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const refresh = async () => {
+        setLoading(true);
+        const [loadedReviews, loadedProducts] = await Promise.all([backend.getReviews(), backend.getProducts()]);
+        setReviews(loadedReviews);
+        setProducts(loadedProducts);
+        setLoading(false);
+    };
+
+    const moderate = async (review: Review, decision: { status?: ReviewStatus; reply?: string }) => {
+        if (decision.status === 'rejected' && !window.confirm(`Reject the review by ${review.authorName}? It will not be published.`)) return;
+        setUpdatingId(review.id);
+        try {
+            const updated = await backend.moderateReview(review.id, decision);
+            setReviews(prev => prev.map(r => r.id === updated.id ? updated : r));
+            if (decision.reply !== undefined) setReplies(prev => ({ ...prev, [review.id]: '' }));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to update review.');
+        } finally {
+            setUpdatingId(null);
+        }
+    };
+
+    const visible = reviews.filter(r => filter === 'all' || r.status === filter);
+    const productName = (productId: string) => products.find(p => p.id === productId)?.name || productId;
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="p-4 bg-stone-100 border-b border-stone-200 flex items-center justify-between gap-4">
+                <div className="flex gap-2">
+                    {(['pending', 'approved', 'rejected', 'all'] as ReviewFilter[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setFilter(option)}
+                            className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${filter === option ? 'bg-emerald-900 text-white border-emerald-900' : 'bg-white text-stone-600 border-stone-200 hover:border-stone-400'}`}
+                        >
+                            {option === 'all' ? 'All' : REVIEW_STATUS_LABELS[option]}
+                            <span className="ml-1 opacity-70">{reviews.filter(r => option === 'all' || r.status === option).length}</span>
+                        </button>
+                    ))}
+                </div>
+                <button onClick={refresh} className="p-2 text-stone-500 hover:text-stone-900" title="Refresh">
+                    <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-3">
+                {loading ? (
+                    <div className="text-center py-20 text-stone-400">Loading reviews...</div>
+                ) : visible.length === 0 ? (
+                    <div className="text-center py-20 text-stone-400 flex flex-col items-center">
+                        <Star size={48} className="mb-4 opacity-20" />
+                        <p>No {filter === 'all' ? '' : REVIEW_STATUS_LABELS[filter].toLowerCase() + ' '}reviews.</p>
+                    </div>
+                ) : visible.map(review => (
+                    <div key={review.id} className="bg-white rounded-lg shadow-sm border border-stone-200 p-4 text-sm">
+                        <div className="flex items-start justify-between gap-4 mb-3">
+                            <div>
+                                <span className="font-bold text-stone-900">{productName(review.productId)}</span>
+                                <span className="block text-xs text-stone-500">
+                                    {review.authorName} · Order <span className="font-mono">{review.orderId}</span> · {new Date(review.createdAt).toLocaleString()} · written in {review.language.toUpperCase()}
+                                </span>
+                            </div>
+                            <span className={`text-[10px] uppercase font-bold tracking-wider border px-2 py-1 rounded whitespace-nowrap ${REVIEW_STATUS_STYLES[review.status]}`}>
+                                {REVIEW_STATUS_LABELS[review.status]}
+                            </span>
+                        </div>
+                        <StarRating rating={review.rating} />
+                        <p className="text-stone-700 mt-2 whitespace-pre-line">{review.text}</p>
+                        {review.photos.length > 0 && (
+                            <div className="flex gap-2 mt-3">
+                                {review.photos.map((photo, idx) => (
+                                    <img key={idx} src={photo} alt="" className="w-24 h-24 object-cover rounded border border-stone-200" />
+                                ))}
+                            </div>
+                        )}
+                        {review.reply && (
+                            <div className="mt-3 bg-stone-50 border-l-4 border-emerald-900 p-3">
+                                <span className="text-xs font-bold text-emerald-900">Our reply · {new Date(review.reply.date).toLocaleDateString()}</span>
+                                <p className="text-stone-600">{review.reply.text}</p>
+                            </div>
+                        )}
+
+                        <div className="mt-4 pt-4 border-t border-stone-100 flex flex-col md:flex-row gap-2">
+                            <input
+                                placeholder={review.reply ? 'Replace the reply (leave empty and save to remove it)' : 'Public reply (optional)'}
+                                value={replies[review.id] || ''}
+                                onChange={e => setReplies(prev => ({ ...prev, [review.id]: e.target.value }))}
+                                className="flex-1 border border-stone-300 rounded px-3 py-2 text-sm focus:ring-2 focus:ring-emerald-800 outline-none"
+                            />
+                            <div className="flex gap-2 justify-end">
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={updatingId === review.id || (!replies[review.id]?.trim() && !review.reply)}
+                                    onClick={() => moderate(review, { reply: replies[review.id] || '' })}
+                                    className="flex items-center gap-1"
+                                >
+                                    <MessageSquare size={14} /> {review.reply && !replies[review.id]?.trim() ? 'Remove reply' : 'Reply'}
+                                </Button>
+                                {review.status !== 'approved' && (
+                                    <Button size="sm" disabled={updatingId === review.id} onClick={() => moderate(review, { status: 'approved' })}>
+                                        Approve
+                                    </Button>
+                                )}
+                                {review.status !== 'rejected' && (
+                                    <Button size="sm" variant="ghost" disabled={updatingId === review.id} onClick={() => moderate(review, { status: 'rejected' })}>
+                                        Reject
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ReviewsTab;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import AutoTranslatedText from './AutoTranslatedText';
+import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { EMPTY_FILTERS, FacetOption, ListFacet, ProductFacets, ProductFilters, countActiveFilters, getPriceBucketRange } from '../services/catalogFilters';
+
+interface ShopFiltersProps {
+  facets: ProductFacets;
+  filters: ProductFilters;
+  onChange: (filters: ProductFilters) => void;
+}
+
+// Sidebar on large screens, a collapsible panel on small ones
+const ShopFilters: React.FC<ShopFiltersProps> = ({ facets, filters, onChange }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const toggleValue = (facet: ListFacet, value: string) => {
+    const selected = filters[facet];
+    onChange({ ...filters, [facet]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value] });
+  };
+
+  const getPriceLabel = (id: string) => {
+    const bucket = getPriceBucketRange(id)!;
+    if (bucket.max === undefined) return t('price_and_up').replace('{min}', formatPrice(bucket.min));
+    if (bucket.min === 0) return t('price_under').replace('{max}', formatPrice(bucket.max));
+    return `${formatPrice(bucket.min)} – ${formatPrice(bucket.max)}`;
+  };
+
+  const renderOption = (key: string, label: React.ReactNode, checked: boolean, count: number, onToggle: () => void) => (
+    <label key={key} className={`flex items-center gap-2 text-sm cursor-pointer ${count === 0 && !checked ? 'text-stone-300' : 'text-stone-600 hover:text-stone-900'}`}>
+      <input type="checkbox" checked={checked} onChange={onToggle} disabled={count === 0 && !checked} className="accent-emerald-900" />
+      <span className="flex-1">{label}</span>
+      <span className="text-xs text-stone-400">{count}</span>
+    </label>
+  );
+
+  const renderFacet = (facet: ListFacet, titleKey: string, options: FacetOption[], getLabel: (value: string) => React.ReactNode) => {
+    if (options.length === 0) return null;
+    return (
+      <fieldset className="space-y-2">
+        <legend className="text-xs font-bold uppercase tracking-widest text-stone-500 mb-2">{t(titleKey)}</legend>
+        {options.map(option => renderOption(option.value, getLabel(option.value), filters[facet].includes(option.value), option.count, () => toggleValue(facet, option.value)))}
+      </fieldset>
+    );
+  };
+
+  return (
+    <aside className="lg:w-60 shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="lg:hidden flex items-center gap-2 text-sm font-medium text-stone-700 border border-stone-200 bg-white rounded-full px-4 py-2 mb-4"
+      >
+        <SlidersHorizontal size={16} /> {t('filters')}{activeCount > 0 && ` (${activeCount})`}
+      </button>
+      <div className={`${isOpen ? 'block' : 'hidden'} lg:block space-y-8 bg-white lg:bg-transparent border border-stone-100 lg:border-0 p-6 lg:p-0 mb-8 lg:mb-0`}>
+        <h2 className="hidden lg:flex font-serif text-lg font-bold text-stone-900 items-center gap-2"><SlidersHorizontal size={16} /> {t('filters')}</h2>
+        {renderFacet('price', 'filter_price', facets.price, getPriceLabel)}
+        <fieldset className="space-y-2">
+          <legend className="text-xs font-bold uppercase tracking-widest text-stone-500 mb-2">{t('filter_availability')}</legend>
+          {renderOption('in-stock', t('filter_in_stock'), filters.inStockOnly, facets.inStock, () => onChange({ ...filters, inStockOnly: !filters.inStockOnly }))}
+        </fieldset>
+        {renderFacet('region', 'filter_region', facets.region, value => value)}
+        {renderFacet('material', 'filter_material', facets.material, value => <AutoTranslatedText value={value} />)}
+        {renderFacet('artisan', 'filter_artisan', facets.artisan, value => value)}
+        {activeCount > 0 && (
+          <button
+            onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })}
+            className="text-sm text-emerald-800 underline hover:text-emerald-950"
+          >
+            {t('clear_filters')}
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ShopFilters;
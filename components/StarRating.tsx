@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number;
+  size?: number;
+  onChange?: (rating: number) => void; // Makes the stars a picker
+  label?: string; // Accessible name for the picker
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ rating, size = 14, onChange, label }) => {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || rating;
+
+  if (!onChange) {
+    return (
+      <span className="inline-flex items-center gap-0.5 text-gold-accent" aria-label={`${rating} / 5`}>
+        {[1, 2, 3, 4, 5].map(star => (
+          // Half stars round to the nearest whole one
+          <Star key={star} size={size} fill={star <= Math.round(rating) ? 'currentColor' : 'none'} className={star <= Math.round(rating) ? '' : 'text-stone-300'} />
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1" role="radiogroup" aria-label={label} onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={rating === star}
+          aria-label={`${star} / 5`}
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          className={`transition-colors ${star <= shown ? 'text-gold-accent' : 'text-stone-300 hover:text-gold-accent'}`}
+        >
+          <Star size={size} fill={star <= shown ? 'currentColor' : 'none'} />
+        </button>
+      ))}
+    </span>
+  );
+};
+
+export default StarRating;
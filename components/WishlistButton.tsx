@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Heart } from 'lucide-react';
+import { useLanguage } from '../i18n';
+import { useWishlist } from '../wishlist';
+
+interface WishlistButtonProps {
+  productId: string;
+  className?: string;
+  size?: number;
+}
+
+const WishlistButton: React.FC<WishlistButtonProps> = ({ productId, className = '', size = 18 }) => {
+  const { t } = useLanguage();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const [isSaving, setIsSaving] = useState(false);
+  const active = isWishlisted(productId);
+  const label = t(active ? 'remove_from_wishlist' : 'add_to_wishlist');
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.stopPropagation(); // Cards open the product when clicked
+    setIsSaving(true);
+    try {
+      await toggleWishlist(productId);
+    } catch (error) {
+      // The heart has already flipped back; nothing else to undo
+      console.error('Failed to update wishlist', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isSaving}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      className={`transition-colors ${active ? 'text-eth-earth' : 'text-stone-500 hover:text-eth-earth'} ${className}`}
+    >
+      <Heart size={size} fill={active ? 'currentColor' : 'none'} />
+    </button>
+  );
+};
+
+export default WishlistButton;
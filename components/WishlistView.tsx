@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Heart, Share2, Copy, CheckCircle, Trash2 } from 'lucide-react';
+import { Product, SharedWishlist } from '../types';
+import Button from './Button';
+import ImageWithFallback from './ImageWithFallback';
+import AutoTranslatedText from './AutoTranslatedText';
+import { useLanguage } from '../i18n';
+import { useCurrency } from '../currency';
+import { useWishlist } from '../wishlist';
+import { hasVariants } from '../services/variants';
+import { VAT_NOTE_KEY, displayPrice } from '../services/vat';
+import { getWishlistShareUrl } from '../services/wishlists';
+
+interface WishlistViewProps {
+  catalog: Product[];
+  shared?: SharedWishlist | null; // Someone else's list opened from a link; shown read-only
+  onProductClick: (product: Product) => void;
+  onAddToCart: (product: Product) => void;
+  onBrowse: () => void;
+  cartQuantities?: Record<string, number>;
+}
+
+const WishlistView: React.FC<WishlistViewProps> = ({ catalog, shared, onProductClick, onAddToCart, onBrowse, cartQuantities = {} }) => {
+  const { t } = useLanguage();
+  const { formatPrice } = useCurrency();
+  const { productIds, shareId, removeFromWishlist } = useWishlist();
+  const [copied, setCopied] = useState(false);
+
+  const products = shared
+    ? shared.products
+    : productIds.map(id => catalog.find(p => p.id === id)).filter((p): p is Product => !!p);
+  const shareUrl = shareId ? getWishlistShareUrl(shareId) : '';
+
+  const title = shared
+    ? (shared.ownerName ? t('shared_wishlist_title').replace('{name}', shared.ownerName) : t('shared_wishlist'))
+    : t('wishlist');
+
+  // Sized products need their options picked first, so those go to the detail view and stay on the list
+  const handleMoveToCart = (product: Product) => {
+    if (hasVariants(product)) {
+      onProductClick(product);
+      return;
+    }
+    onAddToCart(product);
+    if (!shared) removeFromWishlist(product.id).catch(error => console.error('Failed to update wishlist', error));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link', error);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <div className="mb-10">
+        <h1 className="text-4xl font-serif font-bold mb-2 flex items-center gap-3">
+          <Heart className="text-eth-earth" size={32} /> {title}
+        </h1>
+        <p className="text-stone-500">{t('wishlist_count').replace('{count}', String(products.length))}</p>
+      </div>
+
+      {products.length === 0 ? (
+        <div className="text-center py-20 bg-white border border-stone-100 rounded-lg">
+          <Heart className="mx-auto h-12 w-12 text-stone-300 mb-4" />
+          <p className="text-stone-500">{t(shared ? 'shared_wishlist_empty' : 'wishlist_empty')}</p>
+          <Button className="mt-6" onClick={onBrowse}>{t('full_collection')}</Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {products.map(product => {
+            const isAtLimit = (cartQuantities[product.id] || 0) >= product.stockQuantity;
+            return (
+              <div key={product.id} className="bg-white border border-stone-100 shadow-sm flex gap-4 p-4 items-center">
+                <button onClick={() => onProductClick(product)} className="shrink-0">
+                  <ImageWithFallback src={product.imageUrl} alt={product.name} className="w-24 h-28 object-cover" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <button onClick={() => onProductClick(product)} className="text-left">
+                    <AutoTranslatedText
+                      as="h3"
+                      className="font-serif text-lg font-bold text-stone-900 hover:text-emerald-800 transition-colors"
+                      value={product.name}
+                      translationKey={`product_${product.id}_name`}
+                    />
+                  </button>
+                  <p className="font-serif text-stone-900">
+                    {formatPrice(displayPrice(product.price, product.category))}
+                    <span className="ml-2 text-[10px] font-sans text-stone-400">{t(VAT_NOTE_KEY)}</span>
+                  </p>
+                  {!product.inStock && <p className="text-xs font-bold uppercase text-stone-400 mt-1">{t('sold_out')}</p>}
+                </div>
+                <div className="flex flex-col sm:flex-row items-end sm:items-center gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleMoveToCart(product)}
+                    disabled={!product.inStock || isAtLimit}
+                  >
+                    {hasVariants(product) ? t('choose_options') : t(shared ? 'add_to_cart' : 'move_to_cart')}
+                  </Button>
+                  {!shared && (
+                    <button
+                      onClick={() => removeFromWishlist(product.id).catch(error => console.error('Failed to update wishlist', error))}
+                      className="p-2 text-stone-400 hover:text-red-600 transition-colors"
+                      title={t('remove')}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!shared && shareUrl && products.length > 0 && (
+        <div className="mt-10 bg-stone-50 border border-stone-200 rounded-lg p-6">
+          <h2 className="font-serif text-lg font-bold text-stone-900 flex items-center gap-2 mb-1"><Share2 size={18} /> {t('share_wishlist')}</h2>
+          <p className="text-sm text-stone-500 mb-4">{t('share_wishlist_desc')}</p>
+          <div className="flex gap-2">
+            <input readOnly value={shareUrl} onFocus={e => e.target.select()} className="flex-1 border border-stone-300 rounded px-3 py-2 text-sm font-mono bg-white text-stone-600" />
+            <Button variant="outline" size="sm" onClick={handleCopy} className="flex items-center gap-2">
+              {copied ? <CheckCircle size={14} /> : <Copy size={14} />} {t(copied ? 'link_copied' : 'copy_link')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WishlistView;
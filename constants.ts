@@ -14,221 +14,491 @@ import { Category, Product } from './types';
  * File extensions must be .png (or update the strings below).
  */
 
+// Destinations we ship to (all EU member states)
+export const EU_COUNTRIES = [
+    "Austria", "Belgium", "Bulgaria", "Croatia", "Cyprus", "Czech Republic", 
+    "Denmark", "Estonia", "Finland", "France", "Germany", "Greece", "Hungary", 
+    "Ireland", "Italy", "Latvia", "Lithuania", "Luxembourg", "Malta", "Netherlands", 
+    "Poland", "Portugal", "Romania", "Slovakia", "Slovenia", "Spain", "Sweden"
+];
+
+// Ids of the categories the shop started with; they were once fixed names, so stored records use them as is
+export const SEED_CATEGORY_IDS = {
+  CLOTHES: 'Clothes',
+  ART: 'Art',
+  ACCESSORIES: 'Accessories',
+  MISC: 'Miscellaneous Products',
+} as const;
+
+// Starting categories; admins rename, reorder and nest them from the admin panel
+export const MOCK_CATEGORIES: Category[] = [
+  {
+    id: SEED_CATEGORY_IDS.CLOTHES,
+    slug: 'clothes',
+    name: { en: 'Clothes', am: 'ልብስ', om: 'Uffata', ti: 'ክዳውንቲ', fr: 'Vêtements', de: 'Kleidung', it: 'Abbigliamento', nl: 'Kleding', es: 'Ropa' },
+    description: {
+      en: 'Handwoven Tibeb & Modern Cuts',
+      am: 'የእጅ ጥበብ እና ዘመናዊ ዲዛይን',
+      om: 'Xibebii Harkaan Hojjetame & Ammayyaa',
+      ti: 'ባህላዊን ዘመናዊን ክዳውንቲ',
+      fr: 'Tibeb tissé main & Coupes Modernes',
+      de: 'Handgewebtes Tibeb & Moderne Schnitte',
+      it: 'Tibeb a Mano & Tagli Moderni',
+      nl: 'Handgeweven Tibeb & Moderne Snitten',
+      es: 'Tibeb tejido a mano y cortes modernos',
+    },
+    bannerUrl: '/images/banners/fashion.png',
+    position: 0,
+  },
+  {
+    id: SEED_CATEGORY_IDS.ART,
+    slug: 'art',
+    name: { en: 'Art', am: 'ጥበብ', om: 'Aartii', ti: 'ስነ-ጥበብ', fr: 'Art', de: 'Kunst', it: 'Arte', nl: 'Kunst', es: 'Arte' },
+    description: {
+      en: 'Coptic Art & Contemporary Canvas',
+      am: 'የኮፕቲክ ጥበብ እና ዘመናዊ ስዕሎች',
+      om: 'Aartii Koptik & Kan Yeroo Ammaa',
+      ti: 'ናይ ቤተ-ክርስቲያን ስነ-ጥበብ',
+      fr: 'Art Copte & Toiles Contemporaines',
+      de: 'Koptische Kunst & Zeitgenössische Leinwand',
+      it: 'Arte Copta & Tele Contemporanee',
+      nl: 'Koptische Kunst & Hedendaags Canvas',
+      es: 'Arte copto y lienzos contemporáneos',
+    },
+    bannerUrl: '/images/banners/art.png',
+    position: 1,
+  },
+  {
+    id: SEED_CATEGORY_IDS.ACCESSORIES,
+    slug: 'accessories',
+    name: { en: 'Accessories', am: 'ጌጣጌጥ', om: 'Faaya', ti: 'ስልማት', fr: 'Accessoires', de: 'Accessoires', it: 'Accessori', nl: 'Accessoires', es: 'Accesorios' },
+    position: 2,
+  },
+  {
+    id: SEED_CATEGORY_IDS.MISC,
+    slug: 'miscellaneous',
+    name: { en: 'Miscellaneous', am: 'የተለያዩ', om: 'Makaa', ti: 'ተፈላለዩ', fr: 'Divers', de: 'Verschiedenes', it: 'Misto', nl: 'Diversen', es: 'Varios' },
+    description: {
+      en: 'Coffee, Spices & Home Decor',
+      am: 'ቡና፣ ቅመማ ቅመም እና የቤት ማስዋቢያ',
+      om: 'Buna, Qimmaammee & Faaya Manaa',
+      ti: 'ቡን፣ ቀመማትን ናይ ገዛ ኣቅሑትን',
+      fr: 'Café, Épices & Décoration',
+      de: 'Kaffee, Gewürze & Dekor',
+      it: 'Caffè, Spezie & Arredamento',
+      nl: 'Koffie, Kruiden & Decor',
+      es: 'Café, Especias y Decoración',
+    },
+    bannerUrl: '/images/banners/coffee.png',
+    position: 3,
+  },
+];
+
 export const MOCK_PRODUCTS: Product[] = [
   // --- CLOTHES (Formerly Fashion) ---
   {
     id: 'f1',
+    slug: 'royal-habesha-kemis',
     name: 'Royal Habesha Kemis',
     price: 280,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Exquisite handwoven cotton dress with gold-thread Tibeb embroidery.',
     detailedHistory: 'Worn for weddings and Timkat festivals, this Kemis represents the pinnacle of Ethiopian weaving (Shemma). The gold threads are woven into the cotton using a technique passed down for centuries.',
     imageUrl: '/images/fashion/royal-habesha-kemis.png',
     inStock: true,
+    stockQuantity: 7,
+    weightKg: 1.2,
+    dimensionsCm: { length: 40, width: 30, height: 8 },
+    region: 'Amhara',
+    material: 'Cotton',
+    artisan: 'Shiro Meda Weavers',
+    createdAt: '2024-03-02T09:00:00.000Z',
+    variantOptions: [
+      { name: 'size', values: ['S', 'M', 'L', 'XL'] },
+      { name: 'thread', values: ['Gold', 'Silver'] },
+    ],
+    variants: [
+      { id: 'f1-s-gold', sku: 'EM-F1-S-GOL', options: { size: 'S', thread: 'Gold' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f1-m-gold', sku: 'EM-F1-M-GOL', options: { size: 'M', thread: 'Gold' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f1-l-gold', sku: 'EM-F1-L-GOL', options: { size: 'L', thread: 'Gold' }, priceDelta: 0, stockQuantity: 2 },
+      { id: 'f1-xl-gold', sku: 'EM-F1-XL-GOL', options: { size: 'XL', thread: 'Gold' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f1-s-silver', sku: 'EM-F1-S-SIL', options: { size: 'S', thread: 'Silver' }, priceDelta: -30, stockQuantity: 0 },
+      { id: 'f1-m-silver', sku: 'EM-F1-M-SIL', options: { size: 'M', thread: 'Silver' }, priceDelta: -30, stockQuantity: 1 },
+      { id: 'f1-l-silver', sku: 'EM-F1-L-SIL', options: { size: 'L', thread: 'Silver' }, priceDelta: -30, stockQuantity: 1 },
+      { id: 'f1-xl-silver', sku: 'EM-F1-XL-SIL', options: { size: 'XL', thread: 'Silver' }, priceDelta: -30, stockQuantity: 0 },
+    ],
   },
   {
     id: 'f2',
+    slug: 'mens-traditional-telet-suit',
     name: 'Men’s Traditional Telet Suit',
     price: 150,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Crisp white cotton tunic and trousers with national tricolor trim.',
     detailedHistory: 'A staple for Ethiopian men during holidays. The pure white cotton symbolizes purity, while the clean lines offer timeless elegance suitable for both church services and modern gatherings.',
     imageUrl: '/images/fashion/mens-telet-suit.png',
     inStock: true,
+    stockQuantity: 8,
+    weightKg: 1.6,
+    dimensionsCm: { length: 45, width: 35, height: 10 },
+    region: 'Addis Ababa',
+    material: 'Cotton',
+    artisan: 'Shiro Meda Weavers',
+    createdAt: '2024-03-02T09:00:00.000Z',
+    variantOptions: [
+      { name: 'size', values: ['S', 'M', 'L', 'XL', 'XXL'] },
+    ],
+    variants: [
+      { id: 'f2-s', sku: 'EM-F2-S', options: { size: 'S' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f2-m', sku: 'EM-F2-M', options: { size: 'M' }, priceDelta: 0, stockQuantity: 2 },
+      { id: 'f2-l', sku: 'EM-F2-L', options: { size: 'L' }, priceDelta: 0, stockQuantity: 3 },
+      { id: 'f2-xl', sku: 'EM-F2-XL', options: { size: 'XL' }, priceDelta: 0, stockQuantity: 2 },
+      { id: 'f2-xxl', sku: 'EM-F2-XXL', options: { size: 'XXL' }, priceDelta: 10, stockQuantity: 0 },
+    ],
   },
   {
     id: 'f3',
+    slug: 'handwoven-netela-scarf',
     name: 'Handwoven Netela Scarf',
     price: 45,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Lightweight, gauze-like cotton scarf with colorful border.',
     detailedHistory: 'The Netela is worn daily by Ethiopian women. It is incredibly versatile, used as a headwrap, a shawl, or a sash. The intricate border pattern (Tibeb) indicates the wearer’s region.',
     imageUrl: '/images/fashion/netela-scarf.png',
     inStock: true,
+    stockQuantity: 25,
+    weightKg: 0.3,
+    dimensionsCm: { length: 25, width: 20, height: 4 },
+    region: 'Amhara',
+    material: 'Cotton',
+    artisan: 'Gondar Women Weavers',
+    createdAt: '2024-03-02T09:00:00.000Z',
   },
   {
     id: 'f4',
+    slug: 'heavy-cotton-gabi',
     name: 'Heavy Cotton Gabi',
     price: 85,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Thick, four-layer cotton blanket wrap for cold evenings.',
     detailedHistory: 'While the Netela is for the day, the Gabi is for the cold highland nights. It is essentially a wearable blanket, woven with thicker cotton threads to trap heat.',
     imageUrl: '/images/fashion/cotton-gabi.png',
     inStock: true,
+    stockQuantity: 12,
+    weightKg: 2.4,
+    dimensionsCm: { length: 50, width: 40, height: 15 },
+    region: 'Amhara',
+    material: 'Cotton',
+    artisan: 'Gondar Women Weavers',
+    createdAt: '2024-05-18T09:00:00.000Z',
   },
   {
     id: 'f5',
+    slug: 'modern-tibeb-bomber-jacket',
     name: 'Modern Tibeb Bomber Jacket',
     price: 120,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Urban streetwear fused with traditional weaving patterns.',
     detailedHistory: 'Designed by young Addis Ababa creatives, this jacket features authentic Tibeb strips sewn onto high-quality modern fabrics, bridging the gap between heritage and hip-hop culture.',
     imageUrl: '/images/fashion/tibeb-bomber.png',
     inStock: true,
+    stockQuantity: 10,
+    weightKg: 1.1,
+    dimensionsCm: { length: 40, width: 30, height: 10 },
+    region: 'Addis Ababa',
+    material: 'Cotton',
+    artisan: 'Yefikir Design Studio',
+    createdAt: '2025-02-11T09:00:00.000Z',
+    variantOptions: [
+      { name: 'color', values: ['Black', 'Olive'] },
+      { name: 'size', values: ['S', 'M', 'L', 'XL'] },
+    ],
+    variants: [
+      { id: 'f5-black-s', sku: 'EM-F5-BLA-S', options: { color: 'Black', size: 'S' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f5-black-m', sku: 'EM-F5-BLA-M', options: { color: 'Black', size: 'M' }, priceDelta: 0, stockQuantity: 2 },
+      { id: 'f5-black-l', sku: 'EM-F5-BLA-L', options: { color: 'Black', size: 'L' }, priceDelta: 0, stockQuantity: 2 },
+      { id: 'f5-black-xl', sku: 'EM-F5-BLA-XL', options: { color: 'Black', size: 'XL' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f5-olive-s', sku: 'EM-F5-OLI-S', options: { color: 'Olive', size: 'S' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f5-olive-m', sku: 'EM-F5-OLI-M', options: { color: 'Olive', size: 'M' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f5-olive-l', sku: 'EM-F5-OLI-L', options: { color: 'Olive', size: 'L' }, priceDelta: 0, stockQuantity: 1 },
+      { id: 'f5-olive-xl', sku: 'EM-F5-OLI-XL', options: { color: 'Olive', size: 'XL' }, priceDelta: 0, stockQuantity: 1 },
+    ],
   },
   {
     id: 'f6',
+    slug: 'wollo-raya-dress',
     name: 'Wollo Raya Dress',
     price: 220,
-    currency: '€',
-    category: Category.CLOTHES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.CLOTHES,
     description: 'Distinctive black and gold dress style from the Wollo region.',
     detailedHistory: 'Unlike the typical white Shemma, the Raya style is bold and colorful, often accessorized with heavy jewelry. It reflects the vibrant culture of Northern Ethiopia.',
     imageUrl: '/images/fashion/wollo-raya-dress.png',
     inStock: false,
+    stockQuantity: 0,
+    weightKg: 1.0,
+    dimensionsCm: { length: 40, width: 30, height: 8 },
+    region: 'Amhara',
+    material: 'Cotton',
+    artisan: 'Woldia Dress Makers',
+    createdAt: '2024-09-27T09:00:00.000Z',
   },
 
   // --- ACCESSORIES ---
   {
     id: 'a1',
+    slug: 'axumite-silver-cross-pendant',
     name: 'Axumite Silver Cross Pendant',
     price: 95,
-    currency: '€',
-    category: Category.ACCESSORIES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ACCESSORIES,
     description: 'Intricate filigree silver cross inspired by the Axum empire.',
     detailedHistory: 'Lost-wax casting creates these delicate masterpieces. Each region in Ethiopia has a distinct cross style; this one features the flared arms typical of the Tigray region.',
     imageUrl: '/images/accessories/axumite-cross.png',
     inStock: true,
+    stockQuantity: 15,
+    weightKg: 0.1,
+    dimensionsCm: { length: 12, width: 10, height: 4 },
+    region: 'Tigray',
+    material: 'Silver',
+    artisan: 'Axum Silversmiths',
+    createdAt: '2024-03-02T09:00:00.000Z',
   },
   {
     id: 'a2',
+    slug: 'lalibela-processional-cross-replica',
     name: 'Lalibela Processional Cross (Replica)',
     price: 180,
-    currency: '€',
-    category: Category.ACCESSORIES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ACCESSORIES,
     description: 'Large, hand-held brass cross with complex lattice patterns.',
     detailedHistory: 'Used by priests during processions, these crosses symbolize the order of the universe. The "Birds of Peace" motif is often hidden within the geometric lattice.',
     imageUrl: '/images/accessories/lalibela-cross.png',
     inStock: true,
+    stockQuantity: 4,
+    weightKg: 0.9,
+    dimensionsCm: { length: 45, width: 20, height: 8 },
+    region: 'Amhara',
+    material: 'Brass',
+    artisan: 'Lalibela Metalworks',
+    createdAt: '2024-06-09T09:00:00.000Z',
   },
   {
     id: 'a3',
+    slug: 'omo-valley-beaded-necklace',
     name: 'Omo Valley Beaded Necklace',
     price: 55,
-    currency: '€',
-    category: Category.ACCESSORIES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ACCESSORIES,
     description: 'Vibrant, multi-strand glass bead necklace.',
     detailedHistory: 'Crafted by the women of the Omo Valley tribes. The colors and patterns often signify marital status, age, and social standing within the community.',
     imageUrl: '/images/accessories/omo-beads.png',
     inStock: true,
+    stockQuantity: 20,
+    weightKg: 0.2,
+    dimensionsCm: { length: 15, width: 15, height: 5 },
+    region: 'South Ethiopia',
+    material: 'Glass beads',
+    artisan: 'Jinka Bead Collective',
+    createdAt: '2025-01-20T09:00:00.000Z',
   },
   {
     id: 'a4',
+    slug: 'addis-leather-tote',
     name: 'Addis Leather Tote',
     price: 140,
-    currency: '€',
-    category: Category.ACCESSORIES,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ACCESSORIES,
     description: 'Premium Ethiopian highland sheepskin leather bag.',
     detailedHistory: 'Ethiopian leather is prized globally for its softness and durability. This bag is tanned using vegetable dyes in a sustainable facility near Addis Ababa.',
     imageUrl: '/images/accessories/leather-tote.png',
     inStock: true,
+    stockQuantity: 7,
+    weightKg: 0.8,
+    dimensionsCm: { length: 40, width: 35, height: 10 },
+    region: 'Addis Ababa',
+    material: 'Leather',
+    artisan: 'Merkato Leather Works',
+    createdAt: '2024-11-04T09:00:00.000Z',
   },
 
   // --- MISCELLANEOUS PRODUCTS (Formerly Home & Coffee) ---
   {
     id: 'h1',
+    slug: 'traditional-jebena-pot',
     name: 'Traditional Jebena Pot',
     price: 45,
-    currency: '€',
-    category: Category.MISC,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.MISC,
     description: 'Black clay pottery used for brewing traditional coffee.',
     detailedHistory: 'The Jebena is the centerpiece of the coffee ceremony. Its spherical bottom allows grounds to settle, while the long neck pours clear, strong coffee.',
     imageUrl: '/images/home/jebena-pot.png',
     inStock: true,
+    stockQuantity: 18,
+    weightKg: 1.5,
+    dimensionsCm: { length: 30, width: 25, height: 25 },
+    region: 'Oromia',
+    material: 'Clay',
+    artisan: 'Sululta Potters',
+    createdAt: '2024-03-02T09:00:00.000Z',
   },
   {
     id: 'h2',
+    slug: 'sini-coffee-cups-set-of-6',
     name: 'Sini Coffee Cups (Set of 6)',
     price: 35,
-    currency: '€',
-    category: Category.MISC,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.MISC,
     description: 'Small, handleless porcelain cups with traditional motifs.',
     detailedHistory: 'Coffee (Buna) is always drunk in company. These small cups ensure that the coffee is consumed quickly while hot, usually in three rounds: Abol, Tona, and Baraka.',
     imageUrl: '/images/home/sini-cups.png',
     inStock: true,
+    stockQuantity: 30,
+    weightKg: 1.2,
+    dimensionsCm: { length: 30, width: 20, height: 15 },
+    region: 'Addis Ababa',
+    material: 'Porcelain',
+    artisan: 'Merkato Traders',
+    createdAt: '2024-07-15T09:00:00.000Z',
   },
   {
     id: 'h3',
+    slug: 'harar-mesob-basket',
     name: 'Harar Mesob Basket',
     price: 110,
-    currency: '€',
-    category: Category.MISC,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.MISC,
     description: 'Large, colorful woven basket table with lid.',
     detailedHistory: 'The Mesob serves as a dining table. Friends and family gather around it to share a meal from a single platter, symbolizing unity and brotherhood.',
     imageUrl: '/images/home/harar-mesob.png',
     inStock: true,
+    stockQuantity: 5,
+    weightKg: 1.8,
+    dimensionsCm: { length: 45, width: 45, height: 50 },
+    region: 'Harari',
+    material: 'Grass',
+    artisan: 'Harar Basket Weavers',
+    createdAt: '2024-10-12T09:00:00.000Z',
   },
   {
     id: 'h4',
+    slug: 'yirgacheffe-coffee-beans-1kg',
     name: 'Yirgacheffe Coffee Beans (1kg)',
     price: 38,
-    currency: '€',
-    category: Category.MISC,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.MISC,
     description: 'Premium single-origin beans, floral and citrus notes.',
     detailedHistory: 'Yirgacheffe is considered the birthplace of coffee. These beans are washed and sun-dried, offering a light, tea-like body with distinct jasmine aromas.',
     imageUrl: '/images/home/yirgacheffe-beans.png',
     inStock: true,
+    stockQuantity: 40,
+    weightKg: 1.0,
+    dimensionsCm: { length: 25, width: 15, height: 10 },
+    region: 'Sidama',
+    material: 'Coffee',
+    artisan: 'Yirgacheffe Farmers Cooperative',
+    createdAt: '2025-03-08T09:00:00.000Z',
   },
   {
     id: 'h5',
+    slug: 'frankincense-myrrh-gift-set',
     name: 'Frankincense & Myrrh Gift Set',
     price: 28,
-    currency: '€',
-    category: Category.MISC,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.MISC,
     description: 'High-grade resin incense from the Tigray region.',
     detailedHistory: 'Incense is burned during coffee ceremonies to purify the air. This set includes a traditional clay burner and resin harvested from Boswellia trees.',
     imageUrl: '/images/home/incense-set.png',
     inStock: true,
+    stockQuantity: 35,
+    weightKg: 0.6,
+    dimensionsCm: { length: 25, width: 20, height: 10 },
+    region: 'Tigray',
+    material: 'Resin',
+    artisan: 'Axum Silversmiths',
+    createdAt: '2024-12-01T09:00:00.000Z',
   },
 
   // --- ART ---
   {
     id: 'ar1',
+    slug: 'st-george-slaying-the-dragon',
     name: 'St. George Slaying the Dragon',
     price: 450,
-    currency: '€',
-    category: Category.ART,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ART,
     description: 'Hand-painted icon on goatskin vellum.',
     detailedHistory: 'St. George is the patron saint of Ethiopia. This piece follows the Second Gondarine style, characterized by bold lines and expressive eyes.',
     imageUrl: '/images/art/st-george-icon.png',
     inStock: true,
+    stockQuantity: 1,
+    weightKg: 3.5,
+    dimensionsCm: { length: 70, width: 55, height: 6 },
+    region: 'Amhara',
+    material: 'Goatskin vellum',
+    artisan: 'Gondar Icon Painters',
+    createdAt: '2024-04-22T09:00:00.000Z',
   },
   {
     id: 'ar2',
+    slug: 'solomon-sheba-triptych',
     name: 'Solomon & Sheba Triptych',
     price: 380,
-    currency: '€',
-    category: Category.ART,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ART,
     description: 'Three-panel wooden icon telling the Kebra Nagast story.',
     detailedHistory: 'Depicts the legendary meeting of King Solomon and the Queen of Sheba, the foundational myth of the Solomonic dynasty in Ethiopia.',
     imageUrl: '/images/art/solomon-sheba.png',
     inStock: true,
+    stockQuantity: 1,
+    weightKg: 4.0,
+    dimensionsCm: { length: 80, width: 60, height: 6 },
+    region: 'Amhara',
+    material: 'Wood',
+    artisan: 'Gondar Icon Painters',
+    createdAt: '2024-08-30T09:00:00.000Z',
   },
   {
     id: 'ar3',
+    slug: 'ethiopian-angel-heads',
     name: 'Ethiopian Angel Heads',
     price: 180,
-    currency: '€',
-    category: Category.ART,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ART,
     description: 'Canvas painting of the famous ceiling angels of Debre Berhan Selassie.',
     detailedHistory: 'One of the most recognizable images in Ethiopian art. The winged heads represent the omnipresence of God, watching from the heavens.',
     imageUrl: '/images/art/angel-heads.png',
     inStock: true,
+    stockQuantity: 3,
+    weightKg: 2.0,
+    dimensionsCm: { length: 50, width: 40, height: 5 },
+    region: 'Amhara',
+    material: 'Canvas',
+    artisan: 'Gondar Icon Painters',
+    createdAt: '2025-01-05T09:00:00.000Z',
   },
   {
     id: 'ar4',
+    slug: 'abstract-addis-jazz',
     name: 'Abstract Addis Jazz',
     price: 550,
-    currency: '€',
-    category: Category.ART,
+    currency: 'EUR',
+    category: SEED_CATEGORY_IDS.ART,
     description: 'Contemporary acrylic painting by emerging Addis artist.',
     detailedHistory: 'Inspired by the Ethio-Jazz movement of the 1970s (Mulatu Astatke), this piece uses vibrant colors to capture the chaotic energy of Addis Ababa nightlife.',
     imageUrl: '/images/art/addis-jazz-art.png',
     inStock: true,
+    stockQuantity: 1,
+    weightKg: 3.0,
+    dimensionsCm: { length: 65, width: 50, height: 6 },
+    region: 'Addis Ababa',
+    material: 'Acrylic on canvas',
+    artisan: 'Yefikir Design Studio',
+    createdAt: '2025-04-14T09:00:00.000Z',
   },
 ];
\ No newline at end of file
@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { CurrencyCode, ExchangeRate } from './types';
+import { useLanguage } from './i18n';
+import { backend } from './services/backendClient';
+import { DEFAULT_EXCHANGE_RATES, SETTLEMENT_CURRENCY, convertAmount, formatMoney, getRate } from './services/currency';
+
+interface CurrencyContextType {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  rate: number; // currency units per settlement unit
+  formatPrice: (settlementAmount: number) => string; // Converts from EUR, then formats
+  formatSettlement: (settlementAmount: number) => string; // Formats in EUR without converting
+  refreshRates: () => Promise<void>;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+// Must sit inside LanguageProvider: number formatting follows the selected language
+export const CurrencyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { language } = useLanguage();
+  const [currency, setCurrency] = useState<CurrencyCode>(SETTLEMENT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>(DEFAULT_EXCHANGE_RATES);
+
+  const refreshRates = async () => {
+    try {
+      setRates(await backend.getExchangeRates());
+    } catch (error) {
+      console.error('Failed to load exchange rates', error);
+    }
+  };
+
+  useEffect(() => {
+    refreshRates();
+  }, []);
+
+  // A currency the admin removed falls back to the settlement currency
+  const rate = getRate(rates, currency) ?? 1;
+  const activeCurrency = getRate(rates, currency) === undefined ? SETTLEMENT_CURRENCY : currency;
+
+  const formatPrice = (settlementAmount: number) =>
+    formatMoney(convertAmount(settlementAmount, rate), activeCurrency, language);
+
+  const formatSettlement = (settlementAmount: number) =>
+    formatMoney(settlementAmount, SETTLEMENT_CURRENCY, language);
+
+  return (
+    <CurrencyContext.Provider value={{ currency: activeCurrency, setCurrency, rate, formatPrice, formatSettlement, refreshRates }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
@@ -88,6 +88,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Order Reference',
     return_shop: 'Return to Shop',
     install_app: 'Install App',
+    only_left: 'Only {count} left',
+    max_in_cart: 'All Available Pieces in Cart',
+    reserved_for: 'Your items are reserved for',
+    reservation_expired: 'Your reservation expired. Please review your order and continue again.',
+    choose_options: 'Choose Options',
+    option_size: 'Size',
+    option_color: 'Color',
+    option_thread: 'Thread',
+    incl_vat: 'incl. VAT',
+    excl_vat: 'excl. VAT',
+    shipping_method: 'Shipping Method',
+    shipping_standard: 'Standard',
+    shipping_express: 'Express Air',
+    delivery_eta: '{min}-{max} business days',
+    discount: 'Discount',
+    promo_code: 'Promo code',
+    promo_apply: 'Apply',
+    promo_remove: 'Remove code',
+    promo_inactive: 'This code is not valid',
+    promo_not_started: 'This code is not valid yet',
+    promo_expired: 'This code has expired',
+    promo_used_up: 'This code has reached its usage limit',
+    promo_no_items: 'No items in your cart qualify for this code',
+    promo_min_spend: 'Spend at least {amount} on qualifying items to use this code',
+    gift_card: 'Gift card',
+    gift_cards: 'Gift Cards',
+    gift_card_intro: 'Send a digital gift card for handcrafted Ethiopian art. The code arrives by email and can be spent on any order.',
+    gift_card_amount: 'Amount',
+    gift_card_amount_range: 'Choose an amount between {min} and {max}',
+    gift_card_from: 'Your name',
+    gift_card_to: 'Recipient name',
+    gift_card_message: 'Personal message',
+    buy_gift_card: 'Buy gift card',
+    gift_card_issued: 'Your gift card is ready and has been sent to {email}.',
+    gift_card_code: 'Gift card code',
+    gift_card_balance: 'Balance',
+    gift_card_invalid: 'This gift card code is not valid',
+    gift_card_empty: 'This gift card has no balance left',
+    gift_card_no_bank: 'Bank transfer cannot be combined with a gift card',
+    gift_card_covers: 'Your gift card covers the full order. No further payment is needed.',
+    pay_gift_card: 'Pay with gift card',
+    amount_due: 'Amount due',
+    currency: 'Currency',
+    charged_in: 'You will be charged {amount}',
+    transfer_amount: 'Amount to transfer',
+    cancel: 'Cancel',
+    payment_authorizing: 'Contacting your bank...',
+    payment_verifying: 'Verifying...',
+    payment_placing_order: 'Placing your order...',
+    payment_timeout: 'The payment gateway did not respond. You have not been charged; please try again.',
+    payment_failed: 'The payment could not be processed. Please try again.',
+    payment_declined_card_declined: 'Your card was declined. Please use another card.',
+    payment_declined_insufficient_funds: 'Your card has insufficient funds.',
+    payment_declined_expired_card: 'Your card has expired.',
+    payment_declined_authentication_failed: 'Card verification failed. You have not been charged.',
+    payment_declined_canceled_by_customer: 'The payment was cancelled. You have not been charged.',
+    threeds_title: 'Verify your payment',
+    threeds_desc: 'Your bank sent a code to confirm {amount} on the card ending {last4}.',
+    threeds_confirm: 'Confirm',
+    paypal_approve: 'Approve',
+    paypal_approve_desc: 'Approve the payment of {amount} in your PayPal account.',
+    start_return: 'Start a Return',
+    return_lookup_desc: 'Enter your order number and the email address you used at checkout.',
+    find_order: 'Find Order',
+    your_returns: 'Your Returns',
+    return_by: 'Return by {date}',
+    return_after_delivery: 'Returns can be requested once your order has been delivered.',
+    return_window_closed: 'The return window for this order has closed.',
+    return_nothing_left: 'Every item on this order is already being returned.',
+    return_items: 'Items to return',
+    return_reason: 'Reason',
+    reason_wrong_size: 'Wrong size',
+    reason_damaged: 'Arrived damaged',
+    reason_not_as_described: 'Not as described',
+    reason_changed_mind: 'Changed my mind',
+    reason_other: 'Other',
+    return_resolution_refund: 'Refund',
+    return_resolution_exchange: 'Exchange',
+    exchange_for: 'Exchange for',
+    no_exchange_options: 'No other option available',
+    return_comment: 'Anything we should know? (optional)',
+    submit_return: 'Request Return',
+    return_requested: 'Return requested',
+    rma_instructions: 'Write this RMA number on the parcel. We will email you the return address once the return is approved.',
+    return_status_requested: 'Requested',
+    return_status_approved: 'Approved – please send it back',
+    return_status_rejected: 'Rejected',
+    return_status_received: 'Received',
+    return_status_refunded: 'Refunded',
+    return_status_exchanged: 'Exchanged – replacement on its way',
+    track_lookup_desc: 'Enter your order number and the email address you ordered with.',
+    track: 'Track',
+    tracking_carrier: 'Carrier',
+    tracking_number: 'Tracking number',
+    tracking_not_shipped: 'Your order has not shipped yet. Tracking appears here as soon as the parcel leaves our workshop.',
+    tracking_parcel: 'Parcel {n} of {total}',
+    tracking_ordered_on: 'Ordered {date}',
+    order_status_pending_payment: 'Awaiting payment',
+    order_status_paid: 'Paid',
+    order_status_processing: 'Being prepared',
+    order_status_shipped: 'Shipped',
+    order_status_delivered: 'Delivered',
+    order_status_cancelled: 'Cancelled',
+    order_status_refunded: 'Refunded',
+    order_status_returned: 'Returned',
+    shipment_status_label_created: 'Shipping label created',
+    shipment_status_picked_up: 'Picked up by carrier',
+    shipment_status_in_transit: 'In transit',
+    shipment_status_customs: 'In customs',
+    shipment_status_out_for_delivery: 'Out for delivery',
+    shipment_status_delivered: 'Delivered',
+    shipment_status_exception: 'Delivery problem',
+    account: 'Account',
+    sign_in: 'Sign in',
+    sign_out: 'Sign out',
+    create_account: 'Create account',
+    form_password: 'Password',
+    password_hint: 'At least 8 characters',
+    no_account_yet: 'New here? Create an account',
+    have_account: 'Already have an account? Sign in',
+    account_greeting: 'Hello, {name}',
+    my_orders: 'My Orders',
+    no_orders_yet: 'You have not placed any orders with this account yet.',
+    saved_addresses: 'Saved addresses',
+    no_saved_addresses: 'No saved addresses yet.',
+    add_address: 'Add address',
+    address_label: 'Label (e.g. Home)',
+    form_postal_code: 'Postal code',
+    save: 'Save',
+    remove: 'Remove',
+    profile: 'Profile',
+    profile_saved: 'Profile saved',
+    order_items_count: '{count} items',
+    use_saved_address: 'Use a saved address',
+    new_address: 'New address',
+    save_address_to_account: 'Save this address to my account',
+    signed_in_as: 'Signed in as {email}',
+    address_error_required: 'This field is required',
+    address_error_postal_code: 'Enter a valid postal code, e.g. {example}',
+    address_error_phone: 'Enter a valid phone number, e.g. {example}',
+    address_error_email: 'Enter a valid email address',
+    address_error_country: 'We do not ship to this country',
+    default_address: 'Default',
+    make_default: 'Make default',
+    wishlist: 'Wishlist',
+    add_to_wishlist: 'Save to wishlist',
+    remove_from_wishlist: 'Remove from wishlist',
+    wishlist_count: '{count} saved pieces',
+    wishlist_empty: 'Nothing saved yet. Tap the heart on any piece to keep it here.',
+    shared_wishlist: 'A shared wishlist',
+    shared_wishlist_title: "{name}'s wishlist",
+    shared_wishlist_empty: 'This list is empty for now.',
+    move_to_cart: 'Move to cart',
+    share_wishlist: 'Share this list',
+    share_wishlist_desc: 'Anyone with the link can see your list, but only you can change it.',
+    copy_link: 'Copy link',
+    link_copied: 'Copied',
+    wishlist_not_found: 'This wishlist link is no longer available.',
+    reviews: 'Reviews',
+    reviews_count: '{count} reviews',
+    no_reviews_yet: 'No reviews yet. Bought this piece? Tell others about it.',
+    write_review: 'Write a review',
+    review_order_hint: 'Reviews are for verified purchases: enter the order number and email from your confirmation.',
+    review_rating: 'Your rating',
+    review_text: 'Your review',
+    review_photos: 'Photos (optional, up to {max})',
+    review_submit: 'Submit review',
+    review_thanks: 'Thank you! Your review will appear once our team has checked it.',
+    review_verified: 'Verified purchase',
+    review_reply: 'Reply from Ethio Mosaic',
+    review_rating_required: 'Choose a star rating',
+    review_text_too_short: 'Please write at least {min} characters',
+    filters: 'Filters',
+    filter_price: 'Price',
+    filter_availability: 'Availability',
+    filter_in_stock: 'In stock',
+    filter_region: 'Region',
+    filter_material: 'Material',
+    filter_artisan: 'Artisan',
+    clear_filters: 'Clear filters',
+    price_under: 'Under {max}',
+    price_and_up: '{min} and up',
+    sort_by: 'Sort by',
+    sort_relevance: 'Featured',
+    sort_price_asc: 'Price: low to high',
+    sort_price_desc: 'Price: high to low',
+    sort_newest: 'Newest',
+    sort_bestselling: 'Bestselling',
+    sort_rating: 'Top rated',
+    page_not_found: 'Page not found',
+    page_not_found_desc: 'This page does not exist or the piece is no longer in our collection.',
+    collection_label: 'Collection',
     policy_shipping_intro: "We partner exclusively with Ethiopian Airlines Cargo to ensure swift and secure delivery from Addis Ababa Bole International Airport directly to major European hubs.",
     policy_shipping_times_title: "Delivery Times",
     policy_shipping_express: "Express Air: 3-5 business days.",
@@ -231,6 +423,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'የትዕዛዝ ቁጥር',
     return_shop: 'ወደ ሱቅ ተመለስ',
     install_app: 'መተግበሪያውን ይጫኑ',
+    only_left: '{count} ብቻ ቀርተዋል',
+    max_in_cart: 'ያሉት ሁሉ በጋሪዎ ውስጥ ናቸው',
+    reserved_for: 'እቃዎችዎ የተያዙት ለ',
+    reservation_expired: 'የያዙት ጊዜ አልፏል። እባክዎ ትዕዛዝዎን ገምግመው እንደገና ይቀጥሉ።',
+    choose_options: 'አማራጮችን ይምረጡ',
+    option_size: 'መጠን',
+    option_color: 'ቀለም',
+    option_thread: 'ክር',
+    incl_vat: 'ተ.እ.ታ ጨምሮ',
+    excl_vat: 'ተ.እ.ታ ሳይጨምር',
+    shipping_method: 'የማጓጓዣ ዘዴ',
+    shipping_standard: 'መደበኛ',
+    shipping_express: 'ፈጣን አየር',
+    delivery_eta: '{min}-{max} የሥራ ቀናት',
+    discount: 'ቅናሽ',
+    promo_code: 'የቅናሽ ኮድ',
+    promo_apply: 'ተግብር',
+    promo_remove: 'ኮዱን አስወግድ',
+    promo_inactive: 'ይህ ኮድ ትክክል አይደለም',
+    promo_not_started: 'ይህ ኮድ ገና አልጀመረም',
+    promo_expired: 'ይህ ኮድ ጊዜው አልፏል',
+    promo_used_up: 'ይህ ኮድ የአጠቃቀም ገደቡ ደርሷል',
+    promo_no_items: 'በጋሪዎ ውስጥ ለዚህ ኮድ ብቁ የሆነ ዕቃ የለም',
+    promo_min_spend: 'ይህን ኮድ ለመጠቀም ቢያንስ {amount} ይግዙ',
+    gift_card: 'የስጦታ ካርድ',
+    gift_cards: 'የስጦታ ካርዶች',
+    gift_card_intro: 'ለእጅ ጥበብ የኢትዮጵያ ስራዎች ዲጂታል የስጦታ ካርድ ይላኩ። ኮዱ በኢሜይል ይደርሳል እና በማንኛውም ትዕዛዝ ላይ መጠቀም ይቻላል።',
+    gift_card_amount: 'መጠን',
+    gift_card_amount_range: 'ከ{min} እስከ {max} ያለ መጠን ይምረጡ',
+    gift_card_from: 'የእርስዎ ስም',
+    gift_card_to: 'የተቀባይ ስም',
+    gift_card_message: 'የግል መልእክት',
+    buy_gift_card: 'የስጦታ ካርድ ይግዙ',
+    gift_card_issued: 'የስጦታ ካርድዎ ዝግጁ ነው፤ ወደ {email} ተልኳል።',
+    gift_card_code: 'የስጦታ ካርድ ኮድ',
+    gift_card_balance: 'ቀሪ ሂሳብ',
+    gift_card_invalid: 'ይህ የስጦታ ካርድ ኮድ ትክክል አይደለም',
+    gift_card_empty: 'ይህ የስጦታ ካርድ ቀሪ ሂሳብ የለውም',
+    gift_card_no_bank: 'የባንክ ዝውውር ከስጦታ ካርድ ጋር መጣመር አይችልም',
+    gift_card_covers: 'የስጦታ ካርድዎ ሙሉ ትዕዛዙን ይሸፍናል። ተጨማሪ ክፍያ አያስፈልግም።',
+    pay_gift_card: 'በስጦታ ካርድ ይክፈሉ',
+    amount_due: 'የሚከፈል መጠን',
+    currency: 'ምንዛሬ',
+    charged_in: 'የሚከፈልዎት {amount} ነው',
+    transfer_amount: 'የሚተላለፍ መጠን',
+    cancel: 'ሰርዝ',
+    payment_authorizing: 'ባንክዎን በማነጋገር ላይ...',
+    payment_verifying: 'በማረጋገጥ ላይ...',
+    payment_placing_order: 'ትዕዛዝዎን በማስገባት ላይ...',
+    payment_timeout: 'የክፍያ መግቢያው ምላሽ አልሰጠም። ምንም አልተከፈለም፤ እባክዎ እንደገና ይሞክሩ።',
+    payment_failed: 'ክፍያው ሊከናወን አልቻለም። እባክዎ እንደገና ይሞክሩ።',
+    payment_declined_card_declined: 'ካርድዎ ተቀባይነት አላገኘም። ሌላ ካርድ ይጠቀሙ።',
+    payment_declined_insufficient_funds: 'ካርድዎ በቂ ገንዘብ የለውም።',
+    payment_declined_expired_card: 'ካርድዎ ጊዜው አልፎበታል።',
+    payment_declined_authentication_failed: 'የካርድ ማረጋገጫ አልተሳካም። ምንም አልተከፈለም።',
+    payment_declined_canceled_by_customer: 'ክፍያው ተሰርዟል። ምንም አልተከፈለም።',
+    threeds_title: 'ክፍያዎን ያረጋግጡ',
+    threeds_desc: 'ባንክዎ በ{last4} የሚያልቀው ካርድ ላይ {amount} ለማረጋገጥ ኮድ ልኳል።',
+    threeds_confirm: 'አረጋግጥ',
+    paypal_approve: 'ፍቀድ',
+    paypal_approve_desc: 'የ{amount} ክፍያን በPayPal መለያዎ ይፍቀዱ።',
+    start_return: 'መመለስ ይጀምሩ',
+    return_lookup_desc: 'የትዕዛዝ ቁጥርዎን እና ሲገዙ የተጠቀሙበትን ኢሜይል ያስገቡ።',
+    find_order: 'ትዕዛዝ ፈልግ',
+    your_returns: 'የእርስዎ መመለሻዎች',
+    return_by: 'እስከ {date} ይመልሱ',
+    return_after_delivery: 'ትዕዛዝዎ ከደረሰ በኋላ መመለስ መጠየቅ ይችላሉ።',
+    return_window_closed: 'የዚህ ትዕዛዝ የመመለሻ ጊዜ አልፏል።',
+    return_nothing_left: 'በዚህ ትዕዛዝ ላይ ያሉ ሁሉም እቃዎች በመመለስ ላይ ናቸው።',
+    return_items: 'የሚመለሱ እቃዎች',
+    return_reason: 'ምክንያት',
+    reason_wrong_size: 'የተሳሳተ መጠን',
+    reason_damaged: 'ተጎድቶ ደርሷል',
+    reason_not_as_described: 'እንደተገለጸው አይደለም',
+    reason_changed_mind: 'ሃሳቤን ቀይሬያለሁ',
+    reason_other: 'ሌላ',
+    return_resolution_refund: 'ገንዘብ ተመላሽ',
+    return_resolution_exchange: 'መለወጥ',
+    exchange_for: 'በዚህ ይለወጥ',
+    no_exchange_options: 'ሌላ አማራጭ የለም',
+    return_comment: 'ማወቅ ያለብን ነገር አለ? (አማራጭ)',
+    submit_return: 'መመለስ ጠይቅ',
+    return_requested: 'መመለስ ተጠይቋል',
+    rma_instructions: 'ይህን የRMA ቁጥር በጥቅሉ ላይ ይጻፉ። መመለሱ ሲፀድቅ የመመለሻ አድራሻውን በኢሜይል እንልካለን።',
+    return_status_requested: 'ተጠይቋል',
+    return_status_approved: 'ጸድቋል – እባክዎ ይላኩት',
+    return_status_rejected: 'ውድቅ ተደርጓል',
+    return_status_received: 'ደርሷል',
+    return_status_refunded: 'ገንዘብ ተመልሷል',
+    return_status_exchanged: 'ተለውጧል – ምትኩ በመንገድ ላይ ነው',
+    track_lookup_desc: 'የትዕዛዝ ቁጥርዎን እና ያዘዙበትን ኢሜይል ያስገቡ።',
+    track: 'ተከታተል',
+    tracking_carrier: 'አጓጓዥ',
+    tracking_number: 'የመከታተያ ቁጥር',
+    tracking_not_shipped: 'ትዕዛዝዎ ገና አልተላከም። ጥቅሉ ከአውደ ጥናታችን እንደወጣ መከታተያው እዚህ ይታያል።',
+    tracking_parcel: 'ጥቅል {n} ከ {total}',
+    tracking_ordered_on: 'የታዘዘው {date}',
+    order_status_pending_payment: 'ክፍያ በመጠባበቅ ላይ',
+    order_status_paid: 'ተከፍሏል',
+    order_status_processing: 'በመዘጋጀት ላይ',
+    order_status_shipped: 'ተልኳል',
+    order_status_delivered: 'ደርሷል',
+    order_status_cancelled: 'ተሰርዟል',
+    order_status_refunded: 'ገንዘብ ተመልሷል',
+    order_status_returned: 'ተመልሷል',
+    shipment_status_label_created: 'የመላኪያ መለያ ተፈጥሯል',
+    shipment_status_picked_up: 'በአጓጓዡ ተወስዷል',
+    shipment_status_in_transit: 'በመጓጓዝ ላይ',
+    shipment_status_customs: 'በጉምሩክ ላይ',
+    shipment_status_out_for_delivery: 'ለማድረስ ወጥቷል',
+    shipment_status_delivered: 'ደርሷል',
+    shipment_status_exception: 'የማድረስ ችግር',
+    account: 'መለያ',
+    sign_in: 'ግባ',
+    sign_out: 'ውጣ',
+    create_account: 'መለያ ፍጠር',
+    form_password: 'የይለፍ ቃል',
+    password_hint: 'ቢያንስ 8 ቁምፊዎች',
+    no_account_yet: 'አዲስ ነዎት? መለያ ይፍጠሩ',
+    have_account: 'መለያ አለዎት? ይግቡ',
+    account_greeting: 'ሰላም፣ {name}',
+    my_orders: 'የእኔ ትዕዛዞች',
+    no_orders_yet: 'በዚህ መለያ እስካሁን ምንም ትዕዛዝ አላስገቡም።',
+    saved_addresses: 'የተቀመጡ አድራሻዎች',
+    no_saved_addresses: 'እስካሁን የተቀመጠ አድራሻ የለም።',
+    add_address: 'አድራሻ ጨምር',
+    address_label: 'መለያ ስም (ለምሳሌ ቤት)',
+    form_postal_code: 'የፖስታ ኮድ',
+    save: 'አስቀምጥ',
+    remove: 'አስወግድ',
+    profile: 'መገለጫ',
+    profile_saved: 'መገለጫው ተቀምጧል',
+    order_items_count: '{count} እቃዎች',
+    use_saved_address: 'የተቀመጠ አድራሻ ተጠቀም',
+    new_address: 'አዲስ አድራሻ',
+    save_address_to_account: 'ይህን አድራሻ በመለያዬ አስቀምጥ',
+    signed_in_as: 'እንደ {email} ገብተዋል',
+    address_error_required: 'ይህ መስክ ያስፈልጋል',
+    address_error_postal_code: 'ትክክለኛ የፖስታ ኮድ ያስገቡ፣ ለምሳሌ {example}',
+    address_error_phone: 'ትክክለኛ ስልክ ቁጥር ያስገቡ፣ ለምሳሌ {example}',
+    address_error_email: 'ትክክለኛ ኢሜይል አድራሻ ያስገቡ',
+    address_error_country: 'ወደዚህ ሀገር አንልክም',
+    default_address: 'ዋና',
+    make_default: 'ዋና አድርግ',
+    wishlist: 'የምኞት ዝርዝር',
+    add_to_wishlist: 'ወደ ምኞት ዝርዝር አስቀምጥ',
+    remove_from_wishlist: 'ከምኞት ዝርዝር አስወግድ',
+    wishlist_count: '{count} የተቀመጡ ዕቃዎች',
+    wishlist_empty: 'እስካሁን ምንም አልተቀመጠም። ለማስቀመጥ በማንኛውም ዕቃ ላይ ያለውን ልብ ይንኩ።',
+    shared_wishlist: 'የተጋራ የምኞት ዝርዝር',
+    shared_wishlist_title: 'የ{name} የምኞት ዝርዝር',
+    shared_wishlist_empty: 'ይህ ዝርዝር ለጊዜው ባዶ ነው።',
+    move_to_cart: 'ወደ ቅርጫት አዛውር',
+    share_wishlist: 'ይህን ዝርዝር አጋራ',
+    share_wishlist_desc: 'ሊንኩ ያለው ማንኛውም ሰው ዝርዝርዎን ማየት ይችላል፣ መቀየር የሚችሉት ግን እርስዎ ብቻ ነዎት።',
+    copy_link: 'ሊንኩን ቅዳ',
+    link_copied: 'ተቀድቷል',
+    wishlist_not_found: 'ይህ የምኞት ዝርዝር ሊንክ ከእንግዲህ አይገኝም።',
+    reviews: 'ግምገማዎች',
+    reviews_count: '{count} ግምገማዎች',
+    no_reviews_yet: 'እስካሁን ግምገማ የለም። ይህን ዕቃ ገዝተዋል? ለሌሎች ያጋሩ።',
+    write_review: 'ግምገማ ይጻፉ',
+    review_order_hint: 'ግምገማዎች ለተረጋገጡ ግዢዎች ብቻ ናቸው፦ ከማረጋገጫዎ የትዕዛዝ ቁጥሩን እና ኢሜይሉን ያስገቡ።',
+    review_rating: 'የእርስዎ ደረጃ',
+    review_text: 'የእርስዎ ግምገማ',
+    review_photos: 'ፎቶዎች (አማራጭ፣ እስከ {max})',
+    review_submit: 'ግምገማ ላክ',
+    review_thanks: 'እናመሰግናለን! ቡድናችን ካረጋገጠው በኋላ ግምገማዎ ይታያል።',
+    review_verified: 'የተረጋገጠ ግዢ',
+    review_reply: 'ከኢትዮ ሞዛይክ የተሰጠ ምላሽ',
+    review_rating_required: 'የኮከብ ደረጃ ይምረጡ',
+    review_text_too_short: 'እባክዎ ቢያንስ {min} ፊደላት ይጻፉ',
+    filters: 'ማጣሪያዎች',
+    filter_price: 'ዋጋ',
+    filter_availability: 'መገኘት',
+    filter_in_stock: 'በክምችት ያለ',
+    filter_region: 'ክልል',
+    filter_material: 'ቁሳቁስ',
+    filter_artisan: 'ባለሙያ',
+    clear_filters: 'ማጣሪያዎችን አጽዳ',
+    price_under: 'ከ{max} በታች',
+    price_and_up: '{min} እና ከዚያ በላይ',
+    sort_by: 'ደርድር በ',
+    sort_relevance: 'ተመራጭ',
+    sort_price_asc: 'ዋጋ፦ ከዝቅተኛ ወደ ከፍተኛ',
+    sort_price_desc: 'ዋጋ፦ ከከፍተኛ ወደ ዝቅተኛ',
+    sort_newest: 'አዲስ',
+    sort_bestselling: 'በብዛት የተሸጠ',
+    sort_rating: 'ከፍተኛ ደረጃ',
+    page_not_found: 'ገጹ አልተገኘም',
+    page_not_found_desc: 'ይህ ገጽ የለም ወይም እቃው ከስብስባችን ውስጥ የለም።',
+    collection_label: 'ስብስብ',
     // Products
     product_f1_name: "ሮያል ሀበሻ ቀሚስ",
     product_f1_desc: "በወርቅ ክር ጥበብ የተጠለፈ ድንቅ የእጅ ስራ የጥጥ ቀሚስ።",
@@ -359,6 +743,10 @@ const translations: Record<string, Record<string, string>> = {
     policy_shipping_times_title: "Yeroo Gahuumsaa",
     policy_shipping_express: "Saffisaa: Guyyoota hojii 3-5.",
     policy_shipping_standard: "Idilee: Guyyoota hojii 7-10.",
+    shipping_method: 'Mala Ergaa',
+    shipping_standard: 'Idilee',
+    shipping_express: 'Saffisaa',
+    delivery_eta: 'Guyyoota hojii {min}-{max}',
     policy_shipping_customs_title: "Gumrukii & Gibira",
     policy_shipping_customs: "Maamiltoota Awurooppaa keessa jiraniif DDP dhiheessina.",
     policy_auth_intro: "Mi'i hundi mirkanaa'aadha.",
@@ -619,6 +1007,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Référence Commande',
     return_shop: 'Retour à la Boutique',
     install_app: "Installer l'app",
+    only_left: 'Plus que {count} en stock',
+    max_in_cart: 'Toutes les pièces disponibles sont dans le panier',
+    reserved_for: 'Vos articles sont réservés pendant',
+    reservation_expired: 'Votre réservation a expiré. Veuillez vérifier votre commande et continuer.',
+    choose_options: 'Choisir les options',
+    option_size: 'Taille',
+    option_color: 'Couleur',
+    option_thread: 'Fil',
+    incl_vat: 'TVA incluse',
+    excl_vat: 'hors TVA',
+    shipping_method: 'Mode de livraison',
+    shipping_standard: 'Standard',
+    shipping_express: 'Express',
+    delivery_eta: '{min}-{max} jours ouvrés',
+    discount: 'Remise',
+    promo_code: 'Code promo',
+    promo_apply: 'Appliquer',
+    promo_remove: 'Retirer le code',
+    promo_inactive: "Ce code n'est pas valide",
+    promo_not_started: "Ce code n'est pas encore valide",
+    promo_expired: 'Ce code a expiré',
+    promo_used_up: "Ce code a atteint sa limite d'utilisation",
+    promo_no_items: "Aucun article de votre panier n'est éligible",
+    promo_min_spend: 'Dépensez au moins {amount} en articles éligibles pour utiliser ce code',
+    gift_card: 'Carte cadeau',
+    gift_cards: 'Cartes cadeaux',
+    gift_card_intro: "Offrez une carte cadeau numérique pour l'artisanat éthiopien. Le code arrive par e-mail et s'utilise sur n'importe quelle commande.",
+    gift_card_amount: 'Montant',
+    gift_card_amount_range: 'Choisissez un montant entre {min} et {max}',
+    gift_card_from: 'Votre nom',
+    gift_card_to: 'Nom du destinataire',
+    gift_card_message: 'Message personnel',
+    buy_gift_card: 'Acheter la carte',
+    gift_card_issued: 'Votre carte cadeau est prête et a été envoyée à {email}.',
+    gift_card_code: 'Code de la carte cadeau',
+    gift_card_balance: 'Solde',
+    gift_card_invalid: "Ce code de carte cadeau n'est pas valide",
+    gift_card_empty: "Cette carte cadeau n'a plus de solde",
+    gift_card_no_bank: 'Le virement ne peut pas être combiné avec une carte cadeau',
+    gift_card_covers: "Votre carte cadeau couvre toute la commande. Aucun autre paiement n'est nécessaire.",
+    pay_gift_card: 'Payer avec la carte cadeau',
+    amount_due: 'Montant dû',
+    currency: 'Devise',
+    charged_in: 'Vous serez débité de {amount}',
+    transfer_amount: 'Montant à virer',
+    cancel: 'Annuler',
+    payment_authorizing: 'Contact de votre banque...',
+    payment_verifying: 'Vérification...',
+    payment_placing_order: 'Enregistrement de votre commande...',
+    payment_timeout: "La passerelle de paiement n'a pas répondu. Vous n'avez pas été débité ; veuillez réessayer.",
+    payment_failed: "Le paiement n'a pas pu être traité. Veuillez réessayer.",
+    payment_declined_card_declined: 'Votre carte a été refusée. Veuillez utiliser une autre carte.',
+    payment_declined_insufficient_funds: 'Fonds insuffisants sur votre carte.',
+    payment_declined_expired_card: 'Votre carte a expiré.',
+    payment_declined_authentication_failed: "La vérification de la carte a échoué. Vous n'avez pas été débité.",
+    payment_declined_canceled_by_customer: "Le paiement a été annulé. Vous n'avez pas été débité.",
+    threeds_title: 'Vérifiez votre paiement',
+    threeds_desc: 'Votre banque a envoyé un code pour confirmer {amount} sur la carte se terminant par {last4}.',
+    threeds_confirm: 'Confirmer',
+    paypal_approve: 'Approuver',
+    paypal_approve_desc: 'Approuvez le paiement de {amount} dans votre compte PayPal.',
+    start_return: 'Demander un retour',
+    return_lookup_desc: "Saisissez votre numéro de commande et l'adresse e-mail utilisée lors de l'achat.",
+    find_order: 'Trouver la commande',
+    your_returns: 'Vos retours',
+    return_by: 'À retourner avant le {date}',
+    return_after_delivery: 'Vous pourrez demander un retour une fois votre commande livrée.',
+    return_window_closed: 'Le délai de retour pour cette commande est dépassé.',
+    return_nothing_left: 'Tous les articles de cette commande sont déjà en cours de retour.',
+    return_items: 'Articles à retourner',
+    return_reason: 'Motif',
+    reason_wrong_size: 'Mauvaise taille',
+    reason_damaged: 'Arrivé endommagé',
+    reason_not_as_described: 'Non conforme à la description',
+    reason_changed_mind: "J'ai changé d'avis",
+    reason_other: 'Autre',
+    return_resolution_refund: 'Remboursement',
+    return_resolution_exchange: 'Échange',
+    exchange_for: 'Échanger contre',
+    no_exchange_options: 'Aucune autre option disponible',
+    return_comment: 'Quelque chose à nous signaler ? (facultatif)',
+    submit_return: 'Demander le retour',
+    return_requested: 'Retour demandé',
+    rma_instructions: "Inscrivez ce numéro RMA sur le colis. Nous vous enverrons l'adresse de retour par e-mail dès que le retour sera approuvé.",
+    return_status_requested: 'Demandé',
+    return_status_approved: 'Approuvé – merci de le renvoyer',
+    return_status_rejected: 'Refusé',
+    return_status_received: 'Reçu',
+    return_status_refunded: 'Remboursé',
+    return_status_exchanged: 'Échangé – remplacement en route',
+    track_lookup_desc: "Saisissez votre numéro de commande et l'adresse e-mail utilisée lors de la commande.",
+    track: 'Suivre',
+    tracking_carrier: 'Transporteur',
+    tracking_number: 'Numéro de suivi',
+    tracking_not_shipped: "Votre commande n'a pas encore été expédiée. Le suivi apparaîtra ici dès que le colis quittera notre atelier.",
+    tracking_parcel: 'Colis {n} sur {total}',
+    tracking_ordered_on: 'Commandé le {date}',
+    order_status_pending_payment: 'En attente de paiement',
+    order_status_paid: 'Payée',
+    order_status_processing: 'En préparation',
+    order_status_shipped: 'Expédiée',
+    order_status_delivered: 'Livrée',
+    order_status_cancelled: 'Annulée',
+    order_status_refunded: 'Remboursée',
+    order_status_returned: 'Retournée',
+    shipment_status_label_created: 'Étiquette créée',
+    shipment_status_picked_up: 'Pris en charge par le transporteur',
+    shipment_status_in_transit: 'En transit',
+    shipment_status_customs: 'En douane',
+    shipment_status_out_for_delivery: 'En cours de livraison',
+    shipment_status_delivered: 'Livré',
+    shipment_status_exception: 'Problème de livraison',
+    account: 'Compte',
+    sign_in: 'Se connecter',
+    sign_out: 'Se déconnecter',
+    create_account: 'Créer un compte',
+    form_password: 'Mot de passe',
+    password_hint: 'Au moins 8 caractères',
+    no_account_yet: 'Nouveau ici ? Créez un compte',
+    have_account: 'Déjà un compte ? Connectez-vous',
+    account_greeting: 'Bonjour, {name}',
+    my_orders: 'Mes commandes',
+    no_orders_yet: "Vous n'avez encore passé aucune commande avec ce compte.",
+    saved_addresses: 'Adresses enregistrées',
+    no_saved_addresses: 'Aucune adresse enregistrée.',
+    add_address: 'Ajouter une adresse',
+    address_label: 'Libellé (ex. Maison)',
+    form_postal_code: 'Code postal',
+    save: 'Enregistrer',
+    remove: 'Supprimer',
+    profile: 'Profil',
+    profile_saved: 'Profil enregistré',
+    order_items_count: '{count} articles',
+    use_saved_address: 'Utiliser une adresse enregistrée',
+    new_address: 'Nouvelle adresse',
+    save_address_to_account: 'Enregistrer cette adresse dans mon compte',
+    signed_in_as: 'Connecté en tant que {email}',
+    address_error_required: 'Ce champ est obligatoire',
+    address_error_postal_code: 'Saisissez un code postal valide, p. ex. {example}',
+    address_error_phone: 'Saisissez un numéro de téléphone valide, p. ex. {example}',
+    address_error_email: 'Saisissez une adresse e-mail valide',
+    address_error_country: 'Nous ne livrons pas dans ce pays',
+    default_address: 'Par défaut',
+    make_default: 'Définir par défaut',
+    wishlist: "Liste d'envies",
+    add_to_wishlist: "Ajouter à la liste d'envies",
+    remove_from_wishlist: "Retirer de la liste d'envies",
+    wishlist_count: '{count} pièces enregistrées',
+    wishlist_empty: "Rien pour l'instant. Touchez le cœur d'une pièce pour la garder ici.",
+    shared_wishlist: "Une liste d'envies partagée",
+    shared_wishlist_title: "Liste d'envies de {name}",
+    shared_wishlist_empty: 'Cette liste est vide pour le moment.',
+    move_to_cart: 'Déplacer dans le panier',
+    share_wishlist: 'Partager cette liste',
+    share_wishlist_desc: 'Toute personne disposant du lien peut voir votre liste, mais vous seul pouvez la modifier.',
+    copy_link: 'Copier le lien',
+    link_copied: 'Copié',
+    wishlist_not_found: "Ce lien de liste d'envies n'est plus disponible.",
+    reviews: 'Avis',
+    reviews_count: '{count} avis',
+    no_reviews_yet: "Pas encore d'avis. Vous avez acheté cette pièce ? Partagez votre expérience.",
+    write_review: 'Écrire un avis',
+    review_order_hint: "Les avis sont réservés aux achats vérifiés : saisissez le numéro de commande et l'e-mail de votre confirmation.",
+    review_rating: 'Votre note',
+    review_text: 'Votre avis',
+    review_photos: "Photos (facultatif, jusqu'à {max})",
+    review_submit: "Publier l'avis",
+    review_thanks: 'Merci ! Votre avis apparaîtra après vérification par notre équipe.',
+    review_verified: 'Achat vérifié',
+    review_reply: "Réponse d'Ethio Mosaic",
+    review_rating_required: 'Choisissez une note',
+    review_text_too_short: 'Veuillez écrire au moins {min} caractères',
+    filters: 'Filtres',
+    filter_price: 'Prix',
+    filter_availability: 'Disponibilité',
+    filter_in_stock: 'En stock',
+    filter_region: 'Région',
+    filter_material: 'Matière',
+    filter_artisan: 'Artisan',
+    clear_filters: 'Effacer les filtres',
+    price_under: 'Moins de {max}',
+    price_and_up: '{min} et plus',
+    sort_by: 'Trier par',
+    sort_relevance: 'Sélection',
+    sort_price_asc: 'Prix croissant',
+    sort_price_desc: 'Prix décroissant',
+    sort_newest: 'Nouveautés',
+    sort_bestselling: 'Meilleures ventes',
+    sort_rating: 'Mieux notés',
+    page_not_found: 'Page introuvable',
+    page_not_found_desc: "Cette page n'existe pas ou la pièce ne fait plus partie de notre collection.",
+    collection_label: 'Collection',
     policy_shipping_intro: "Nous travaillons exclusivement avec Ethiopian Airlines Cargo.",
     policy_shipping_times_title: "Délais de Livraison",
     policy_shipping_express: "Express : 3-5 jours ouvrés.",
@@ -761,6 +1341,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Bestellnummer',
     return_shop: 'Zurück zum Shop',
     install_app: 'App installieren',
+    only_left: 'Nur noch {count} verfügbar',
+    max_in_cart: 'Alle verfügbaren Stücke im Warenkorb',
+    reserved_for: 'Ihre Artikel sind reserviert für',
+    reservation_expired: 'Ihre Reservierung ist abgelaufen. Bitte prüfen Sie Ihre Bestellung und fahren Sie erneut fort.',
+    choose_options: 'Optionen wählen',
+    option_size: 'Größe',
+    option_color: 'Farbe',
+    option_thread: 'Faden',
+    incl_vat: 'inkl. MwSt.',
+    excl_vat: 'zzgl. MwSt.',
+    shipping_method: 'Versandart',
+    shipping_standard: 'Standard',
+    shipping_express: 'Express',
+    delivery_eta: '{min}-{max} Werktage',
+    discount: 'Rabatt',
+    promo_code: 'Gutscheincode',
+    promo_apply: 'Einlösen',
+    promo_remove: 'Code entfernen',
+    promo_inactive: 'Dieser Code ist ungültig',
+    promo_not_started: 'Dieser Code ist noch nicht gültig',
+    promo_expired: 'Dieser Code ist abgelaufen',
+    promo_used_up: 'Dieser Code wurde zu oft verwendet',
+    promo_no_items: 'Kein Artikel im Warenkorb ist für diesen Code berechtigt',
+    promo_min_spend: 'Mindestbestellwert von {amount} für berechtigte Artikel nicht erreicht',
+    gift_card: 'Geschenkkarte',
+    gift_cards: 'Geschenkkarten',
+    gift_card_intro: 'Verschenken Sie eine digitale Geschenkkarte für äthiopisches Kunsthandwerk. Der Code kommt per E-Mail und gilt für jede Bestellung.',
+    gift_card_amount: 'Betrag',
+    gift_card_amount_range: 'Wählen Sie einen Betrag zwischen {min} und {max}',
+    gift_card_from: 'Ihr Name',
+    gift_card_to: 'Name des Empfängers',
+    gift_card_message: 'Persönliche Nachricht',
+    buy_gift_card: 'Geschenkkarte kaufen',
+    gift_card_issued: 'Ihre Geschenkkarte ist fertig und wurde an {email} gesendet.',
+    gift_card_code: 'Geschenkkarten-Code',
+    gift_card_balance: 'Guthaben',
+    gift_card_invalid: 'Dieser Geschenkkarten-Code ist ungültig',
+    gift_card_empty: 'Diese Geschenkkarte hat kein Guthaben mehr',
+    gift_card_no_bank: 'Banküberweisung ist mit einer Geschenkkarte nicht kombinierbar',
+    gift_card_covers: 'Ihre Geschenkkarte deckt die gesamte Bestellung. Keine weitere Zahlung nötig.',
+    pay_gift_card: 'Mit Geschenkkarte bezahlen',
+    amount_due: 'Fälliger Betrag',
+    currency: 'Währung',
+    charged_in: 'Belastet werden {amount}',
+    transfer_amount: 'Zu überweisender Betrag',
+    cancel: 'Abbrechen',
+    payment_authorizing: 'Ihre Bank wird kontaktiert...',
+    payment_verifying: 'Wird geprüft...',
+    payment_placing_order: 'Bestellung wird aufgegeben...',
+    payment_timeout: 'Der Zahlungsdienst hat nicht geantwortet. Es wurde nichts abgebucht; bitte erneut versuchen.',
+    payment_failed: 'Die Zahlung konnte nicht verarbeitet werden. Bitte erneut versuchen.',
+    payment_declined_card_declined: 'Ihre Karte wurde abgelehnt. Bitte verwenden Sie eine andere Karte.',
+    payment_declined_insufficient_funds: 'Ihre Karte ist nicht ausreichend gedeckt.',
+    payment_declined_expired_card: 'Ihre Karte ist abgelaufen.',
+    payment_declined_authentication_failed: 'Die Kartenprüfung ist fehlgeschlagen. Es wurde nichts abgebucht.',
+    payment_declined_canceled_by_customer: 'Die Zahlung wurde abgebrochen. Es wurde nichts abgebucht.',
+    threeds_title: 'Zahlung bestätigen',
+    threeds_desc: 'Ihre Bank hat einen Code gesendet, um {amount} auf der Karte mit Endung {last4} zu bestätigen.',
+    threeds_confirm: 'Bestätigen',
+    paypal_approve: 'Genehmigen',
+    paypal_approve_desc: 'Genehmigen Sie die Zahlung von {amount} in Ihrem PayPal-Konto.',
+    start_return: 'Rücksendung starten',
+    return_lookup_desc: 'Geben Sie Ihre Bestellnummer und die beim Kauf verwendete E-Mail-Adresse ein.',
+    find_order: 'Bestellung suchen',
+    your_returns: 'Ihre Rücksendungen',
+    return_by: 'Rücksendung bis {date}',
+    return_after_delivery: 'Rücksendungen sind möglich, sobald Ihre Bestellung zugestellt wurde.',
+    return_window_closed: 'Die Rückgabefrist für diese Bestellung ist abgelaufen.',
+    return_nothing_left: 'Alle Artikel dieser Bestellung werden bereits zurückgesendet.',
+    return_items: 'Zurückzusendende Artikel',
+    return_reason: 'Grund',
+    reason_wrong_size: 'Falsche Größe',
+    reason_damaged: 'Beschädigt angekommen',
+    reason_not_as_described: 'Nicht wie beschrieben',
+    reason_changed_mind: 'Meinung geändert',
+    reason_other: 'Sonstiges',
+    return_resolution_refund: 'Erstattung',
+    return_resolution_exchange: 'Umtausch',
+    exchange_for: 'Umtauschen gegen',
+    no_exchange_options: 'Keine andere Option verfügbar',
+    return_comment: 'Möchten Sie uns etwas mitteilen? (optional)',
+    submit_return: 'Rücksendung anfordern',
+    return_requested: 'Rücksendung angefordert',
+    rma_instructions: 'Notieren Sie diese RMA-Nummer auf dem Paket. Sobald die Rücksendung genehmigt ist, senden wir Ihnen die Rücksendeadresse per E-Mail.',
+    return_status_requested: 'Angefordert',
+    return_status_approved: 'Genehmigt – bitte zurücksenden',
+    return_status_rejected: 'Abgelehnt',
+    return_status_received: 'Eingegangen',
+    return_status_refunded: 'Erstattet',
+    return_status_exchanged: 'Umgetauscht – Ersatz ist unterwegs',
+    track_lookup_desc: 'Geben Sie Ihre Bestellnummer und die E-Mail-Adresse Ihrer Bestellung ein.',
+    track: 'Verfolgen',
+    tracking_carrier: 'Versanddienstleister',
+    tracking_number: 'Sendungsnummer',
+    tracking_not_shipped: 'Ihre Bestellung wurde noch nicht versendet. Die Sendungsverfolgung erscheint hier, sobald das Paket unsere Werkstatt verlässt.',
+    tracking_parcel: 'Paket {n} von {total}',
+    tracking_ordered_on: 'Bestellt am {date}',
+    order_status_pending_payment: 'Zahlung ausstehend',
+    order_status_paid: 'Bezahlt',
+    order_status_processing: 'In Vorbereitung',
+    order_status_shipped: 'Versendet',
+    order_status_delivered: 'Zugestellt',
+    order_status_cancelled: 'Storniert',
+    order_status_refunded: 'Erstattet',
+    order_status_returned: 'Zurückgesendet',
+    shipment_status_label_created: 'Versandetikett erstellt',
+    shipment_status_picked_up: 'Vom Versanddienstleister abgeholt',
+    shipment_status_in_transit: 'Unterwegs',
+    shipment_status_customs: 'Beim Zoll',
+    shipment_status_out_for_delivery: 'In Zustellung',
+    shipment_status_delivered: 'Zugestellt',
+    shipment_status_exception: 'Zustellproblem',
+    account: 'Konto',
+    sign_in: 'Anmelden',
+    sign_out: 'Abmelden',
+    create_account: 'Konto erstellen',
+    form_password: 'Passwort',
+    password_hint: 'Mindestens 8 Zeichen',
+    no_account_yet: 'Neu hier? Konto erstellen',
+    have_account: 'Schon ein Konto? Anmelden',
+    account_greeting: 'Hallo, {name}',
+    my_orders: 'Meine Bestellungen',
+    no_orders_yet: 'Sie haben mit diesem Konto noch keine Bestellung aufgegeben.',
+    saved_addresses: 'Gespeicherte Adressen',
+    no_saved_addresses: 'Noch keine gespeicherten Adressen.',
+    add_address: 'Adresse hinzufügen',
+    address_label: 'Bezeichnung (z. B. Zuhause)',
+    form_postal_code: 'Postleitzahl',
+    save: 'Speichern',
+    remove: 'Entfernen',
+    profile: 'Profil',
+    profile_saved: 'Profil gespeichert',
+    order_items_count: '{count} Artikel',
+    use_saved_address: 'Gespeicherte Adresse verwenden',
+    new_address: 'Neue Adresse',
+    save_address_to_account: 'Diese Adresse in meinem Konto speichern',
+    signed_in_as: 'Angemeldet als {email}',
+    address_error_required: 'Dieses Feld ist erforderlich',
+    address_error_postal_code: 'Gültige Postleitzahl eingeben, z. B. {example}',
+    address_error_phone: 'Gültige Telefonnummer eingeben, z. B. {example}',
+    address_error_email: 'Gültige E-Mail-Adresse eingeben',
+    address_error_country: 'In dieses Land liefern wir nicht',
+    default_address: 'Standard',
+    make_default: 'Als Standard festlegen',
+    wishlist: 'Wunschliste',
+    add_to_wishlist: 'Auf die Wunschliste',
+    remove_from_wishlist: 'Von der Wunschliste entfernen',
+    wishlist_count: '{count} gemerkte Stücke',
+    wishlist_empty: 'Noch nichts gemerkt. Tippen Sie auf das Herz eines Stücks, um es hier zu sammeln.',
+    shared_wishlist: 'Eine geteilte Wunschliste',
+    shared_wishlist_title: 'Wunschliste von {name}',
+    shared_wishlist_empty: 'Diese Liste ist derzeit leer.',
+    move_to_cart: 'In den Warenkorb verschieben',
+    share_wishlist: 'Liste teilen',
+    share_wishlist_desc: 'Wer den Link hat, kann Ihre Liste ansehen, ändern können nur Sie.',
+    copy_link: 'Link kopieren',
+    link_copied: 'Kopiert',
+    wishlist_not_found: 'Dieser Wunschlisten-Link ist nicht mehr verfügbar.',
+    reviews: 'Bewertungen',
+    reviews_count: '{count} Bewertungen',
+    no_reviews_yet: 'Noch keine Bewertungen. Sie haben dieses Stück gekauft? Erzählen Sie anderen davon.',
+    write_review: 'Bewertung schreiben',
+    review_order_hint: 'Bewertungen gibt es nur für verifizierte Käufe: Geben Sie Bestellnummer und E-Mail aus Ihrer Bestätigung ein.',
+    review_rating: 'Ihre Bewertung',
+    review_text: 'Ihr Text',
+    review_photos: 'Fotos (optional, bis zu {max})',
+    review_submit: 'Bewertung senden',
+    review_thanks: 'Danke! Ihre Bewertung erscheint, sobald unser Team sie geprüft hat.',
+    review_verified: 'Verifizierter Kauf',
+    review_reply: 'Antwort von Ethio Mosaic',
+    review_rating_required: 'Bitte Sterne vergeben',
+    review_text_too_short: 'Bitte mindestens {min} Zeichen schreiben',
+    filters: 'Filter',
+    filter_price: 'Preis',
+    filter_availability: 'Verfügbarkeit',
+    filter_in_stock: 'Auf Lager',
+    filter_region: 'Region',
+    filter_material: 'Material',
+    filter_artisan: 'Kunsthandwerker',
+    clear_filters: 'Filter zurücksetzen',
+    price_under: 'Unter {max}',
+    price_and_up: 'Ab {min}',
+    sort_by: 'Sortieren nach',
+    sort_relevance: 'Empfohlen',
+    sort_price_asc: 'Preis: aufsteigend',
+    sort_price_desc: 'Preis: absteigend',
+    sort_newest: 'Neueste',
+    sort_bestselling: 'Bestseller',
+    sort_rating: 'Beste Bewertung',
+    page_not_found: 'Seite nicht gefunden',
+    page_not_found_desc: 'Diese Seite existiert nicht oder das Stück ist nicht mehr in unserer Kollektion.',
+    collection_label: 'Kollektion',
     policy_shipping_intro: "Wir versenden exklusiv mit Ethiopian Airlines Cargo.",
     policy_shipping_times_title: "Lieferzeiten",
     policy_shipping_express: "Express: 3-5 Werktage.",
@@ -903,6 +1675,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Riferimento Ordine',
     return_shop: 'Torna al Negozio',
     install_app: 'Installa App',
+    only_left: 'Solo {count} disponibili',
+    max_in_cart: 'Tutti i pezzi disponibili sono nel carrello',
+    reserved_for: 'I tuoi articoli sono riservati per',
+    reservation_expired: 'La prenotazione è scaduta. Controlla il tuo ordine e continua di nuovo.',
+    choose_options: 'Scegli le opzioni',
+    option_size: 'Taglia',
+    option_color: 'Colore',
+    option_thread: 'Filo',
+    incl_vat: 'IVA inclusa',
+    excl_vat: 'IVA esclusa',
+    shipping_method: 'Metodo di spedizione',
+    shipping_standard: 'Standard',
+    shipping_express: 'Express',
+    delivery_eta: '{min}-{max} giorni lavorativi',
+    discount: 'Sconto',
+    promo_code: 'Codice promo',
+    promo_apply: 'Applica',
+    promo_remove: 'Rimuovi codice',
+    promo_inactive: 'Questo codice non è valido',
+    promo_not_started: 'Questo codice non è ancora valido',
+    promo_expired: 'Questo codice è scaduto',
+    promo_used_up: 'Questo codice ha raggiunto il limite di utilizzo',
+    promo_no_items: 'Nessun articolo nel carrello è idoneo',
+    promo_min_spend: 'Spendi almeno {amount} in articoli idonei per usare questo codice',
+    gift_card: 'Carta regalo',
+    gift_cards: 'Carte regalo',
+    gift_card_intro: "Regala una carta regalo digitale per l'artigianato etiope. Il codice arriva via e-mail e vale su qualsiasi ordine.",
+    gift_card_amount: 'Importo',
+    gift_card_amount_range: 'Scegli un importo tra {min} e {max}',
+    gift_card_from: 'Il tuo nome',
+    gift_card_to: 'Nome del destinatario',
+    gift_card_message: 'Messaggio personale',
+    buy_gift_card: 'Acquista carta regalo',
+    gift_card_issued: 'La tua carta regalo è pronta ed è stata inviata a {email}.',
+    gift_card_code: 'Codice carta regalo',
+    gift_card_balance: 'Saldo',
+    gift_card_invalid: 'Questo codice carta regalo non è valido',
+    gift_card_empty: 'Questa carta regalo non ha più saldo',
+    gift_card_no_bank: 'Il bonifico non può essere combinato con una carta regalo',
+    gift_card_covers: "La carta regalo copre l'intero ordine. Non serve altro pagamento.",
+    pay_gift_card: 'Paga con carta regalo',
+    amount_due: 'Importo dovuto',
+    currency: 'Valuta',
+    charged_in: 'Ti verranno addebitati {amount}',
+    transfer_amount: 'Importo da bonificare',
+    cancel: 'Annulla',
+    payment_authorizing: 'Contatto con la tua banca...',
+    payment_verifying: 'Verifica in corso...',
+    payment_placing_order: "Invio dell'ordine...",
+    payment_timeout: 'Il gateway di pagamento non ha risposto. Non ti è stato addebitato nulla; riprova.',
+    payment_failed: 'Impossibile elaborare il pagamento. Riprova.',
+    payment_declined_card_declined: "La tua carta è stata rifiutata. Usa un'altra carta.",
+    payment_declined_insufficient_funds: 'Fondi insufficienti sulla carta.',
+    payment_declined_expired_card: 'La tua carta è scaduta.',
+    payment_declined_authentication_failed: 'Verifica della carta non riuscita. Non ti è stato addebitato nulla.',
+    payment_declined_canceled_by_customer: 'Il pagamento è stato annullato. Non ti è stato addebitato nulla.',
+    threeds_title: 'Verifica il pagamento',
+    threeds_desc: 'La tua banca ha inviato un codice per confermare {amount} sulla carta che termina con {last4}.',
+    threeds_confirm: 'Conferma',
+    paypal_approve: 'Approva',
+    paypal_approve_desc: 'Approva il pagamento di {amount} nel tuo account PayPal.',
+    start_return: 'Avvia un reso',
+    return_lookup_desc: "Inserisci il numero d'ordine e l'indirizzo email usato al momento dell'acquisto.",
+    find_order: 'Trova ordine',
+    your_returns: 'I tuoi resi',
+    return_by: 'Reso entro il {date}',
+    return_after_delivery: "Potrai richiedere un reso dopo la consegna dell'ordine.",
+    return_window_closed: 'Il periodo di reso per questo ordine è scaduto.',
+    return_nothing_left: 'Tutti gli articoli di questo ordine sono già in reso.',
+    return_items: 'Articoli da restituire',
+    return_reason: 'Motivo',
+    reason_wrong_size: 'Taglia sbagliata',
+    reason_damaged: 'Arrivato danneggiato',
+    reason_not_as_described: 'Non conforme alla descrizione',
+    reason_changed_mind: 'Ho cambiato idea',
+    reason_other: 'Altro',
+    return_resolution_refund: 'Rimborso',
+    return_resolution_exchange: 'Cambio',
+    exchange_for: 'Cambia con',
+    no_exchange_options: "Nessun'altra opzione disponibile",
+    return_comment: 'Qualcosa da segnalarci? (facoltativo)',
+    submit_return: 'Richiedi reso',
+    return_requested: 'Reso richiesto',
+    rma_instructions: "Scrivi questo numero RMA sul pacco. Ti invieremo l'indirizzo di reso via email appena il reso sarà approvato.",
+    return_status_requested: 'Richiesto',
+    return_status_approved: 'Approvato – rispediscilo',
+    return_status_rejected: 'Rifiutato',
+    return_status_received: 'Ricevuto',
+    return_status_refunded: 'Rimborsato',
+    return_status_exchanged: 'Cambiato – sostituzione in arrivo',
+    track_lookup_desc: "Inserisci il numero d'ordine e l'indirizzo email usato per l'ordine.",
+    track: 'Traccia',
+    tracking_carrier: 'Corriere',
+    tracking_number: 'Numero di tracking',
+    tracking_not_shipped: 'Il tuo ordine non è ancora stato spedito. Il tracking comparirà qui appena il pacco lascerà il nostro laboratorio.',
+    tracking_parcel: 'Pacco {n} di {total}',
+    tracking_ordered_on: 'Ordinato il {date}',
+    order_status_pending_payment: 'In attesa di pagamento',
+    order_status_paid: 'Pagato',
+    order_status_processing: 'In preparazione',
+    order_status_shipped: 'Spedito',
+    order_status_delivered: 'Consegnato',
+    order_status_cancelled: 'Annullato',
+    order_status_refunded: 'Rimborsato',
+    order_status_returned: 'Reso',
+    shipment_status_label_created: 'Etichetta creata',
+    shipment_status_picked_up: 'Ritirato dal corriere',
+    shipment_status_in_transit: 'In transito',
+    shipment_status_customs: 'In dogana',
+    shipment_status_out_for_delivery: 'In consegna',
+    shipment_status_delivered: 'Consegnato',
+    shipment_status_exception: 'Problema di consegna',
+    account: 'Account',
+    sign_in: 'Accedi',
+    sign_out: 'Esci',
+    create_account: 'Crea account',
+    form_password: 'Password',
+    password_hint: 'Almeno 8 caratteri',
+    no_account_yet: 'Nuovo qui? Crea un account',
+    have_account: 'Hai già un account? Accedi',
+    account_greeting: 'Ciao, {name}',
+    my_orders: 'I miei ordini',
+    no_orders_yet: 'Non hai ancora effettuato ordini con questo account.',
+    saved_addresses: 'Indirizzi salvati',
+    no_saved_addresses: 'Nessun indirizzo salvato.',
+    add_address: 'Aggiungi indirizzo',
+    address_label: 'Etichetta (es. Casa)',
+    form_postal_code: 'CAP',
+    save: 'Salva',
+    remove: 'Rimuovi',
+    profile: 'Profilo',
+    profile_saved: 'Profilo salvato',
+    order_items_count: '{count} articoli',
+    use_saved_address: 'Usa un indirizzo salvato',
+    new_address: 'Nuovo indirizzo',
+    save_address_to_account: 'Salva questo indirizzo nel mio account',
+    signed_in_as: 'Accesso effettuato come {email}',
+    address_error_required: 'Questo campo è obbligatorio',
+    address_error_postal_code: 'Inserisci un CAP valido, ad es. {example}',
+    address_error_phone: 'Inserisci un numero di telefono valido, ad es. {example}',
+    address_error_email: 'Inserisci un indirizzo email valido',
+    address_error_country: 'Non spediamo in questo paese',
+    default_address: 'Predefinito',
+    make_default: 'Imposta come predefinito',
+    wishlist: 'Lista dei desideri',
+    add_to_wishlist: 'Salva nella lista dei desideri',
+    remove_from_wishlist: 'Rimuovi dalla lista dei desideri',
+    wishlist_count: '{count} pezzi salvati',
+    wishlist_empty: 'Ancora niente. Tocca il cuore su un pezzo per salvarlo qui.',
+    shared_wishlist: 'Una lista dei desideri condivisa',
+    shared_wishlist_title: 'Lista dei desideri di {name}',
+    shared_wishlist_empty: 'Questa lista per ora è vuota.',
+    move_to_cart: 'Sposta nel carrello',
+    share_wishlist: 'Condividi questa lista',
+    share_wishlist_desc: 'Chi ha il link può vedere la tua lista, ma solo tu puoi modificarla.',
+    copy_link: 'Copia link',
+    link_copied: 'Copiato',
+    wishlist_not_found: 'Questo link alla lista dei desideri non è più disponibile.',
+    reviews: 'Recensioni',
+    reviews_count: '{count} recensioni',
+    no_reviews_yet: 'Ancora nessuna recensione. Hai acquistato questo pezzo? Raccontalo agli altri.',
+    write_review: 'Scrivi una recensione',
+    review_order_hint: "Le recensioni sono riservate agli acquisti verificati: inserisci numero d'ordine ed email della conferma.",
+    review_rating: 'Il tuo voto',
+    review_text: 'La tua recensione',
+    review_photos: 'Foto (facoltative, fino a {max})',
+    review_submit: 'Invia recensione',
+    review_thanks: 'Grazie! La tua recensione apparirà dopo il controllo del nostro team.',
+    review_verified: 'Acquisto verificato',
+    review_reply: 'Risposta di Ethio Mosaic',
+    review_rating_required: 'Scegli un voto in stelle',
+    review_text_too_short: 'Scrivi almeno {min} caratteri',
+    filters: 'Filtri',
+    filter_price: 'Prezzo',
+    filter_availability: 'Disponibilità',
+    filter_in_stock: 'Disponibile',
+    filter_region: 'Regione',
+    filter_material: 'Materiale',
+    filter_artisan: 'Artigiano',
+    clear_filters: 'Azzera filtri',
+    price_under: 'Sotto {max}',
+    price_and_up: 'Da {min} in su',
+    sort_by: 'Ordina per',
+    sort_relevance: 'In evidenza',
+    sort_price_asc: 'Prezzo crescente',
+    sort_price_desc: 'Prezzo decrescente',
+    sort_newest: 'Novità',
+    sort_bestselling: 'Più venduti',
+    sort_rating: 'Più votati',
+    page_not_found: 'Pagina non trovata',
+    page_not_found_desc: 'Questa pagina non esiste o il pezzo non è più nella nostra collezione.',
+    collection_label: 'Collezione',
     policy_shipping_intro: "Spediamo esclusivamente con Ethiopian Airlines Cargo.",
     policy_shipping_times_title: "Tempi di Consegna",
     policy_shipping_express: "Express: 3-5 giorni lavorativi.",
@@ -1045,6 +2009,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Bestelnummer',
     return_shop: 'Terug naar Winkel',
     install_app: 'App installeren',
+    only_left: 'Nog maar {count} beschikbaar',
+    max_in_cart: 'Alle beschikbare stukken in winkelwagen',
+    reserved_for: 'Uw artikelen zijn gereserveerd voor',
+    reservation_expired: 'Uw reservering is verlopen. Controleer uw bestelling en ga opnieuw verder.',
+    choose_options: 'Kies opties',
+    option_size: 'Maat',
+    option_color: 'Kleur',
+    option_thread: 'Draad',
+    incl_vat: 'incl. btw',
+    excl_vat: 'excl. btw',
+    shipping_method: 'Verzendmethode',
+    shipping_standard: 'Standaard',
+    shipping_express: 'Express',
+    delivery_eta: '{min}-{max} werkdagen',
+    discount: 'Korting',
+    promo_code: 'Kortingscode',
+    promo_apply: 'Toepassen',
+    promo_remove: 'Code verwijderen',
+    promo_inactive: 'Deze code is ongeldig',
+    promo_not_started: 'Deze code is nog niet geldig',
+    promo_expired: 'Deze code is verlopen',
+    promo_used_up: 'Deze code is niet meer beschikbaar',
+    promo_no_items: 'Geen artikelen in uw winkelwagen komen in aanmerking',
+    promo_min_spend: 'Besteed minimaal {amount} aan geldige artikelen om deze code te gebruiken',
+    gift_card: 'Cadeaukaart',
+    gift_cards: 'Cadeaukaarten',
+    gift_card_intro: 'Geef een digitale cadeaukaart voor Ethiopisch handwerk. De code komt per e-mail en geldt voor elke bestelling.',
+    gift_card_amount: 'Bedrag',
+    gift_card_amount_range: 'Kies een bedrag tussen {min} en {max}',
+    gift_card_from: 'Uw naam',
+    gift_card_to: 'Naam ontvanger',
+    gift_card_message: 'Persoonlijk bericht',
+    buy_gift_card: 'Cadeaukaart kopen',
+    gift_card_issued: 'Uw cadeaukaart is klaar en verzonden naar {email}.',
+    gift_card_code: 'Cadeaukaartcode',
+    gift_card_balance: 'Saldo',
+    gift_card_invalid: 'Deze cadeaukaartcode is ongeldig',
+    gift_card_empty: 'Deze cadeaukaart heeft geen saldo meer',
+    gift_card_no_bank: 'Bankoverschrijving kan niet worden gecombineerd met een cadeaukaart',
+    gift_card_covers: 'Uw cadeaukaart dekt de hele bestelling. Verdere betaling is niet nodig.',
+    pay_gift_card: 'Betalen met cadeaukaart',
+    amount_due: 'Te betalen',
+    currency: 'Valuta',
+    charged_in: 'Er wordt {amount} in rekening gebracht',
+    transfer_amount: 'Over te maken bedrag',
+    cancel: 'Annuleren',
+    payment_authorizing: 'Contact met uw bank...',
+    payment_verifying: 'Controleren...',
+    payment_placing_order: 'Bestelling plaatsen...',
+    payment_timeout: 'De betaaldienst reageerde niet. Er is niets afgeschreven; probeer het opnieuw.',
+    payment_failed: 'De betaling kon niet worden verwerkt. Probeer het opnieuw.',
+    payment_declined_card_declined: 'Uw kaart is geweigerd. Gebruik een andere kaart.',
+    payment_declined_insufficient_funds: 'Onvoldoende saldo op uw kaart.',
+    payment_declined_expired_card: 'Uw kaart is verlopen.',
+    payment_declined_authentication_failed: 'Kaartverificatie mislukt. Er is niets afgeschreven.',
+    payment_declined_canceled_by_customer: 'De betaling is geannuleerd. Er is niets afgeschreven.',
+    threeds_title: 'Bevestig uw betaling',
+    threeds_desc: 'Uw bank heeft een code gestuurd om {amount} op de kaart eindigend op {last4} te bevestigen.',
+    threeds_confirm: 'Bevestigen',
+    paypal_approve: 'Goedkeuren',
+    paypal_approve_desc: 'Keur de betaling van {amount} goed in uw PayPal-account.',
+    start_return: 'Retour aanmelden',
+    return_lookup_desc: 'Vul je bestelnummer in en het e-mailadres waarmee je hebt besteld.',
+    find_order: 'Bestelling zoeken',
+    your_returns: 'Jouw retouren',
+    return_by: 'Retourneren vóór {date}',
+    return_after_delivery: 'Je kunt een retour aanmelden zodra je bestelling is bezorgd.',
+    return_window_closed: 'De retourtermijn voor deze bestelling is verlopen.',
+    return_nothing_left: 'Alle artikelen van deze bestelling worden al geretourneerd.',
+    return_items: 'Te retourneren artikelen',
+    return_reason: 'Reden',
+    reason_wrong_size: 'Verkeerde maat',
+    reason_damaged: 'Beschadigd aangekomen',
+    reason_not_as_described: 'Niet zoals beschreven',
+    reason_changed_mind: 'Toch niet nodig',
+    reason_other: 'Anders',
+    return_resolution_refund: 'Terugbetaling',
+    return_resolution_exchange: 'Ruilen',
+    exchange_for: 'Ruilen voor',
+    no_exchange_options: 'Geen andere optie beschikbaar',
+    return_comment: 'Wil je nog iets kwijt? (optioneel)',
+    submit_return: 'Retour aanvragen',
+    return_requested: 'Retour aangevraagd',
+    rma_instructions: 'Schrijf dit RMA-nummer op het pakket. Zodra de retour is goedgekeurd, mailen we je het retouradres.',
+    return_status_requested: 'Aangevraagd',
+    return_status_approved: 'Goedgekeurd – stuur het terug',
+    return_status_rejected: 'Afgewezen',
+    return_status_received: 'Ontvangen',
+    return_status_refunded: 'Terugbetaald',
+    return_status_exchanged: 'Geruild – vervanging is onderweg',
+    track_lookup_desc: 'Vul je bestelnummer in en het e-mailadres waarmee je hebt besteld.',
+    track: 'Volgen',
+    tracking_carrier: 'Vervoerder',
+    tracking_number: 'Trackingnummer',
+    tracking_not_shipped: 'Je bestelling is nog niet verzonden. De track & trace verschijnt hier zodra het pakket onze werkplaats verlaat.',
+    tracking_parcel: 'Pakket {n} van {total}',
+    tracking_ordered_on: 'Besteld op {date}',
+    order_status_pending_payment: 'Wacht op betaling',
+    order_status_paid: 'Betaald',
+    order_status_processing: 'Wordt voorbereid',
+    order_status_shipped: 'Verzonden',
+    order_status_delivered: 'Bezorgd',
+    order_status_cancelled: 'Geannuleerd',
+    order_status_refunded: 'Terugbetaald',
+    order_status_returned: 'Geretourneerd',
+    shipment_status_label_created: 'Verzendlabel aangemaakt',
+    shipment_status_picked_up: 'Opgehaald door vervoerder',
+    shipment_status_in_transit: 'Onderweg',
+    shipment_status_customs: 'Bij de douane',
+    shipment_status_out_for_delivery: 'Wordt vandaag bezorgd',
+    shipment_status_delivered: 'Bezorgd',
+    shipment_status_exception: 'Probleem met bezorging',
+    account: 'Account',
+    sign_in: 'Inloggen',
+    sign_out: 'Uitloggen',
+    create_account: 'Account aanmaken',
+    form_password: 'Wachtwoord',
+    password_hint: 'Minimaal 8 tekens',
+    no_account_yet: 'Nieuw hier? Maak een account aan',
+    have_account: 'Al een account? Log in',
+    account_greeting: 'Hallo, {name}',
+    my_orders: 'Mijn bestellingen',
+    no_orders_yet: 'Je hebt met dit account nog geen bestellingen geplaatst.',
+    saved_addresses: 'Opgeslagen adressen',
+    no_saved_addresses: 'Nog geen opgeslagen adressen.',
+    add_address: 'Adres toevoegen',
+    address_label: 'Naam (bijv. Thuis)',
+    form_postal_code: 'Postcode',
+    save: 'Opslaan',
+    remove: 'Verwijderen',
+    profile: 'Profiel',
+    profile_saved: 'Profiel opgeslagen',
+    order_items_count: '{count} artikelen',
+    use_saved_address: 'Gebruik een opgeslagen adres',
+    new_address: 'Nieuw adres',
+    save_address_to_account: 'Bewaar dit adres in mijn account',
+    signed_in_as: 'Ingelogd als {email}',
+    address_error_required: 'Dit veld is verplicht',
+    address_error_postal_code: 'Voer een geldige postcode in, bijv. {example}',
+    address_error_phone: 'Voer een geldig telefoonnummer in, bijv. {example}',
+    address_error_email: 'Voer een geldig e-mailadres in',
+    address_error_country: 'Wij verzenden niet naar dit land',
+    default_address: 'Standaard',
+    make_default: 'Als standaard instellen',
+    wishlist: 'Verlanglijst',
+    add_to_wishlist: 'Bewaren op verlanglijst',
+    remove_from_wishlist: 'Van verlanglijst verwijderen',
+    wishlist_count: '{count} bewaarde stukken',
+    wishlist_empty: 'Nog niets bewaard. Tik op het hartje bij een stuk om het hier te bewaren.',
+    shared_wishlist: 'Een gedeelde verlanglijst',
+    shared_wishlist_title: 'Verlanglijst van {name}',
+    shared_wishlist_empty: 'Deze lijst is voorlopig leeg.',
+    move_to_cart: 'Naar winkelwagen',
+    share_wishlist: 'Deel deze lijst',
+    share_wishlist_desc: 'Iedereen met de link kan je lijst bekijken, maar alleen jij kunt hem wijzigen.',
+    copy_link: 'Link kopiëren',
+    link_copied: 'Gekopieerd',
+    wishlist_not_found: 'Deze verlanglijstlink is niet meer beschikbaar.',
+    reviews: 'Beoordelingen',
+    reviews_count: '{count} beoordelingen',
+    no_reviews_yet: 'Nog geen beoordelingen. Heb je dit stuk gekocht? Vertel anderen erover.',
+    write_review: 'Schrijf een beoordeling',
+    review_order_hint: 'Beoordelingen zijn voor geverifieerde aankopen: vul het ordernummer en e-mailadres uit je bevestiging in.',
+    review_rating: 'Jouw score',
+    review_text: 'Jouw beoordeling',
+    review_photos: "Foto's (optioneel, maximaal {max})",
+    review_submit: 'Beoordeling versturen',
+    review_thanks: 'Bedankt! Je beoordeling verschijnt zodra ons team hem heeft gecontroleerd.',
+    review_verified: 'Geverifieerde aankoop',
+    review_reply: 'Reactie van Ethio Mosaic',
+    review_rating_required: 'Kies een aantal sterren',
+    review_text_too_short: 'Schrijf minstens {min} tekens',
+    filters: 'Filters',
+    filter_price: 'Prijs',
+    filter_availability: 'Beschikbaarheid',
+    filter_in_stock: 'Op voorraad',
+    filter_region: 'Regio',
+    filter_material: 'Materiaal',
+    filter_artisan: 'Ambachtsman',
+    clear_filters: 'Filters wissen',
+    price_under: 'Onder {max}',
+    price_and_up: '{min} en hoger',
+    sort_by: 'Sorteren op',
+    sort_relevance: 'Aanbevolen',
+    sort_price_asc: 'Prijs: laag naar hoog',
+    sort_price_desc: 'Prijs: hoog naar laag',
+    sort_newest: 'Nieuwste',
+    sort_bestselling: 'Bestverkocht',
+    sort_rating: 'Best beoordeeld',
+    page_not_found: 'Pagina niet gevonden',
+    page_not_found_desc: 'Deze pagina bestaat niet of het stuk zit niet meer in onze collectie.',
+    collection_label: 'Collectie',
     policy_shipping_intro: "Wij werken exclusief met Ethiopian Airlines Cargo.",
     policy_shipping_times_title: "Levertijden",
     policy_shipping_express: "Express: 3-5 werkdagen.",
@@ -1186,6 +2342,198 @@ const translations: Record<string, Record<string, string>> = {
     order_ref: 'Referencia del Pedido',
     return_shop: 'Volver a la Tienda',
     install_app: 'Instalar App',
+    only_left: 'Solo quedan {count}',
+    max_in_cart: 'Todas las piezas disponibles en el carrito',
+    reserved_for: 'Sus artículos están reservados durante',
+    reservation_expired: 'Su reserva ha caducado. Revise su pedido y continúe de nuevo.',
+    choose_options: 'Elegir opciones',
+    option_size: 'Talla',
+    option_color: 'Color',
+    option_thread: 'Hilo',
+    incl_vat: 'IVA incluido',
+    excl_vat: 'IVA no incluido',
+    shipping_method: 'Método de envío',
+    shipping_standard: 'Estándar',
+    shipping_express: 'Express',
+    delivery_eta: '{min}-{max} días hábiles',
+    discount: 'Descuento',
+    promo_code: 'Código promocional',
+    promo_apply: 'Aplicar',
+    promo_remove: 'Quitar código',
+    promo_inactive: 'Este código no es válido',
+    promo_not_started: 'Este código aún no es válido',
+    promo_expired: 'Este código ha caducado',
+    promo_used_up: 'Este código ha alcanzado su límite de uso',
+    promo_no_items: 'Ningún artículo de su carrito cumple los requisitos',
+    promo_min_spend: 'Gaste al menos {amount} en artículos válidos para usar este código',
+    gift_card: 'Tarjeta regalo',
+    gift_cards: 'Tarjetas regalo',
+    gift_card_intro: 'Regala una tarjeta regalo digital para artesanía etíope. El código llega por correo y sirve para cualquier pedido.',
+    gift_card_amount: 'Importe',
+    gift_card_amount_range: 'Elige un importe entre {min} y {max}',
+    gift_card_from: 'Tu nombre',
+    gift_card_to: 'Nombre del destinatario',
+    gift_card_message: 'Mensaje personal',
+    buy_gift_card: 'Comprar tarjeta regalo',
+    gift_card_issued: 'Tu tarjeta regalo está lista y se ha enviado a {email}.',
+    gift_card_code: 'Código de tarjeta regalo',
+    gift_card_balance: 'Saldo',
+    gift_card_invalid: 'Este código de tarjeta regalo no es válido',
+    gift_card_empty: 'Esta tarjeta regalo no tiene saldo',
+    gift_card_no_bank: 'La transferencia no se puede combinar con una tarjeta regalo',
+    gift_card_covers: 'Tu tarjeta regalo cubre todo el pedido. No hace falta otro pago.',
+    pay_gift_card: 'Pagar con tarjeta regalo',
+    amount_due: 'Importe pendiente',
+    currency: 'Moneda',
+    charged_in: 'Se te cobrarán {amount}',
+    transfer_amount: 'Importe a transferir',
+    cancel: 'Cancelar',
+    payment_authorizing: 'Contactando con tu banco...',
+    payment_verifying: 'Verificando...',
+    payment_placing_order: 'Realizando tu pedido...',
+    payment_timeout: 'La pasarela de pago no respondió. No se te ha cobrado; inténtalo de nuevo.',
+    payment_failed: 'No se pudo procesar el pago. Inténtalo de nuevo.',
+    payment_declined_card_declined: 'Tu tarjeta fue rechazada. Usa otra tarjeta.',
+    payment_declined_insufficient_funds: 'Tu tarjeta no tiene fondos suficientes.',
+    payment_declined_expired_card: 'Tu tarjeta ha caducado.',
+    payment_declined_authentication_failed: 'La verificación de la tarjeta falló. No se te ha cobrado.',
+    payment_declined_canceled_by_customer: 'El pago se canceló. No se te ha cobrado.',
+    threeds_title: 'Verifica tu pago',
+    threeds_desc: 'Tu banco envió un código para confirmar {amount} en la tarjeta que termina en {last4}.',
+    threeds_confirm: 'Confirmar',
+    paypal_approve: 'Aprobar',
+    paypal_approve_desc: 'Aprueba el pago de {amount} en tu cuenta de PayPal.',
+    start_return: 'Iniciar una devolución',
+    return_lookup_desc: 'Introduce tu número de pedido y el correo electrónico que usaste al comprar.',
+    find_order: 'Buscar pedido',
+    your_returns: 'Tus devoluciones',
+    return_by: 'Devolver antes del {date}',
+    return_after_delivery: 'Podrás solicitar una devolución cuando tu pedido haya sido entregado.',
+    return_window_closed: 'El plazo de devolución de este pedido ha terminado.',
+    return_nothing_left: 'Todos los artículos de este pedido ya están en devolución.',
+    return_items: 'Artículos a devolver',
+    return_reason: 'Motivo',
+    reason_wrong_size: 'Talla incorrecta',
+    reason_damaged: 'Llegó dañado',
+    reason_not_as_described: 'No coincide con la descripción',
+    reason_changed_mind: 'He cambiado de opinión',
+    reason_other: 'Otro',
+    return_resolution_refund: 'Reembolso',
+    return_resolution_exchange: 'Cambio',
+    exchange_for: 'Cambiar por',
+    no_exchange_options: 'No hay otra opción disponible',
+    return_comment: '¿Algo que debamos saber? (opcional)',
+    submit_return: 'Solicitar devolución',
+    return_requested: 'Devolución solicitada',
+    rma_instructions: 'Escribe este número RMA en el paquete. Te enviaremos por correo la dirección de devolución cuando se apruebe.',
+    return_status_requested: 'Solicitada',
+    return_status_approved: 'Aprobada – envíalo de vuelta',
+    return_status_rejected: 'Rechazada',
+    return_status_received: 'Recibida',
+    return_status_refunded: 'Reembolsada',
+    return_status_exchanged: 'Cambiada – el reemplazo está en camino',
+    track_lookup_desc: 'Introduce tu número de pedido y el correo electrónico con el que hiciste el pedido.',
+    track: 'Rastrear',
+    tracking_carrier: 'Transportista',
+    tracking_number: 'Número de seguimiento',
+    tracking_not_shipped: 'Tu pedido aún no se ha enviado. El seguimiento aparecerá aquí en cuanto el paquete salga de nuestro taller.',
+    tracking_parcel: 'Paquete {n} de {total}',
+    tracking_ordered_on: 'Pedido el {date}',
+    order_status_pending_payment: 'Pendiente de pago',
+    order_status_paid: 'Pagado',
+    order_status_processing: 'En preparación',
+    order_status_shipped: 'Enviado',
+    order_status_delivered: 'Entregado',
+    order_status_cancelled: 'Cancelado',
+    order_status_refunded: 'Reembolsado',
+    order_status_returned: 'Devuelto',
+    shipment_status_label_created: 'Etiqueta de envío creada',
+    shipment_status_picked_up: 'Recogido por el transportista',
+    shipment_status_in_transit: 'En tránsito',
+    shipment_status_customs: 'En aduanas',
+    shipment_status_out_for_delivery: 'En reparto',
+    shipment_status_delivered: 'Entregado',
+    shipment_status_exception: 'Problema con la entrega',
+    account: 'Cuenta',
+    sign_in: 'Iniciar sesión',
+    sign_out: 'Cerrar sesión',
+    create_account: 'Crear cuenta',
+    form_password: 'Contraseña',
+    password_hint: 'Al menos 8 caracteres',
+    no_account_yet: '¿Eres nuevo? Crea una cuenta',
+    have_account: '¿Ya tienes cuenta? Inicia sesión',
+    account_greeting: 'Hola, {name}',
+    my_orders: 'Mis pedidos',
+    no_orders_yet: 'Aún no has realizado pedidos con esta cuenta.',
+    saved_addresses: 'Direcciones guardadas',
+    no_saved_addresses: 'Aún no hay direcciones guardadas.',
+    add_address: 'Añadir dirección',
+    address_label: 'Etiqueta (p. ej. Casa)',
+    form_postal_code: 'Código postal',
+    save: 'Guardar',
+    remove: 'Eliminar',
+    profile: 'Perfil',
+    profile_saved: 'Perfil guardado',
+    order_items_count: '{count} artículos',
+    use_saved_address: 'Usar una dirección guardada',
+    new_address: 'Nueva dirección',
+    save_address_to_account: 'Guardar esta dirección en mi cuenta',
+    signed_in_as: 'Sesión iniciada como {email}',
+    address_error_required: 'Este campo es obligatorio',
+    address_error_postal_code: 'Introduce un código postal válido, p. ej. {example}',
+    address_error_phone: 'Introduce un número de teléfono válido, p. ej. {example}',
+    address_error_email: 'Introduce un correo electrónico válido',
+    address_error_country: 'No enviamos a este país',
+    default_address: 'Predeterminada',
+    make_default: 'Establecer como predeterminada',
+    wishlist: 'Lista de deseos',
+    add_to_wishlist: 'Guardar en la lista de deseos',
+    remove_from_wishlist: 'Quitar de la lista de deseos',
+    wishlist_count: '{count} piezas guardadas',
+    wishlist_empty: 'Aún no has guardado nada. Toca el corazón de una pieza para guardarla aquí.',
+    shared_wishlist: 'Una lista de deseos compartida',
+    shared_wishlist_title: 'Lista de deseos de {name}',
+    shared_wishlist_empty: 'Esta lista está vacía por ahora.',
+    move_to_cart: 'Mover al carrito',
+    share_wishlist: 'Compartir esta lista',
+    share_wishlist_desc: 'Cualquiera con el enlace puede ver tu lista, pero solo tú puedes cambiarla.',
+    copy_link: 'Copiar enlace',
+    link_copied: 'Copiado',
+    wishlist_not_found: 'Este enlace de lista de deseos ya no está disponible.',
+    reviews: 'Reseñas',
+    reviews_count: '{count} reseñas',
+    no_reviews_yet: 'Aún no hay reseñas. ¿Compraste esta pieza? Cuéntaselo a otros.',
+    write_review: 'Escribir una reseña',
+    review_order_hint: 'Las reseñas son para compras verificadas: introduce el número de pedido y el correo de tu confirmación.',
+    review_rating: 'Tu valoración',
+    review_text: 'Tu reseña',
+    review_photos: 'Fotos (opcional, hasta {max})',
+    review_submit: 'Enviar reseña',
+    review_thanks: '¡Gracias! Tu reseña aparecerá cuando nuestro equipo la haya revisado.',
+    review_verified: 'Compra verificada',
+    review_reply: 'Respuesta de Ethio Mosaic',
+    review_rating_required: 'Elige una valoración',
+    review_text_too_short: 'Escribe al menos {min} caracteres',
+    filters: 'Filtros',
+    filter_price: 'Precio',
+    filter_availability: 'Disponibilidad',
+    filter_in_stock: 'En stock',
+    filter_region: 'Región',
+    filter_material: 'Material',
+    filter_artisan: 'Artesano',
+    clear_filters: 'Borrar filtros',
+    price_under: 'Menos de {max}',
+    price_and_up: '{min} o más',
+    sort_by: 'Ordenar por',
+    sort_relevance: 'Destacados',
+    sort_price_asc: 'Precio: de menor a mayor',
+    sort_price_desc: 'Precio: de mayor a menor',
+    sort_newest: 'Novedades',
+    sort_bestselling: 'Más vendidos',
+    sort_rating: 'Mejor valorados',
+    page_not_found: 'Página no encontrada',
+    page_not_found_desc: 'Esta página no existe o la pieza ya no forma parte de nuestra colección.',
+    collection_label: 'Colección',
     policy_shipping_intro: "Enviamos exclusivamente con Ethiopian Airlines Cargo.",
     policy_shipping_times_title: "Tiempos de Entrega",
     policy_shipping_express: "Express: 3-5 días hábiles.",
@@ -1245,6 +2593,10 @@ const translations: Record<string, Record<string, string>> = {
   }
 };
 
+// Every locale's text for a key, for search that should work whatever language the shopper types in
+export const getAllTranslations = (key: string) =>
+  Object.values(translations).map(locale => locale[key]).filter((value): value is string => !!value);
+
 interface LanguageContextType {
   language: LanguageCode;
   setLanguage: (lang: LanguageCode) => void;
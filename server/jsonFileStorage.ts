@@ -0,0 +1,30 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { StorageAdapter } from '../services/storage';
+
+// Persists every backend key into a single JSON document on disk.
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly kind = 'file';
+  private data: Record<string, string>;
+
+  constructor(private filePath: string) {
+    this.data = existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf-8')) : {};
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return key in this.data ? this.data[key] : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.data[key] = value;
+    this.flush();
+  }
+
+  async removeItem(key: string): Promise<void> {
+    delete this.data[key];
+    this.flush();
+  }
+
+  private flush() {
+    writeFileSync(this.filePath, JSON.stringify(this.data, null, 2));
+  }
+}
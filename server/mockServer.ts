@@ -0,0 +1,264 @@
+// Local REST server for the HTTP backend.
+// Wraps the same BackendService the browser uses, persisting to a JSON file:
+//
+//   npm run mock-api            (PORT=4000, DB_FILE=server/db.json)
+//   API_URL=/api npm run dev    (Vite proxies /api to this server)
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { BackendError } from '../services/backend';
+import { ORDER_STATUS_LABELS } from '../services/orderStatus';
+import { RETURN_STATUS_LABELS } from '../services/returns';
+import { REVIEW_STATUS_LABELS } from '../services/reviews';
+import { createServerBackend } from './serverBackend';
+
+const PORT = Number(process.env.PORT) || 4000;
+const DB_FILE = process.env.DB_FILE || path.resolve('server', 'db.json');
+
+const service = createServerBackend(DB_FILE);
+
+// Admin sessions expire like customer sessions do, and can be ended with DELETE /api/auth
+const ADMIN_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+const adminTokens = new Map<string, number>(); // token -> expiresAt
+
+// A 4-digit PIN falls to brute force quickly, so each address gets a few tries before a lockout
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+const pinFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+const isAdminToken = (token: string) => {
+  const expiresAt = adminTokens.get(token);
+  if (expiresAt === undefined) return false;
+  if (expiresAt > Date.now()) return true;
+  adminTokens.delete(token);
+  return false;
+};
+
+const signInAdmin = async (pin: string, clientAddress: string) => {
+  const now = Date.now();
+  const previous = pinFailures.get(clientAddress);
+  if (previous && previous.lockedUntil > now) {
+    throw new BackendError('Too many incorrect PINs. Try again later.', 429);
+  }
+  // Counted before the check, so parallel guesses can't all slip in ahead of the lockout
+  const count = previous && !previous.lockedUntil ? previous.count + 1 : 1;
+  pinFailures.set(clientAddress, { count, lockedUntil: count >= MAX_PIN_ATTEMPTS ? now + PIN_LOCKOUT_MS : 0 });
+  if (!(await service.verifyAdminPin(pin))) {
+    throw new BackendError('Incorrect PIN', 401);
+  }
+  pinFailures.delete(clientAddress);
+  const token = randomUUID();
+  adminTokens.set(token, Date.now() + ADMIN_TOKEN_TTL_MS);
+  return { token };
+};
+
+const bearerToken = (req: IncomingMessage) => (req.headers.authorization || '').replace(/^Bearer /, '');
+
+// Request bodies are untrusted JSON: these narrow them, answering 400 when the shape is wrong
+type Fields = Record<string, unknown>;
+
+const fields = (body: unknown): Fields => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new BackendError('Expected a JSON object');
+  return body as Fields;
+};
+
+const text = (body: unknown, key: string): string => {
+  const value = fields(body)[key];
+  if (typeof value !== 'string') throw new BackendError(`"${key}" must be a string`);
+  return value;
+};
+
+const optionalText = (body: unknown, key: string): string | undefined =>
+  fields(body)[key] == null ? undefined : text(body, key);
+
+const list = (body: unknown, key?: string): unknown[] => {
+  const value = key === undefined ? body : fields(body)[key];
+  if (!Array.isArray(value)) throw new BackendError(key ? `"${key}" must be a list` : 'Expected a JSON list');
+  return value;
+};
+
+const textList = (body: unknown, key: string): string[] => {
+  const values = list(body, key);
+  if (!values.every(value => typeof value === 'string')) throw new BackendError(`"${key}" must be a list of strings`);
+  return values as string[];
+};
+
+const oneOf = <T extends string>(body: unknown, key: string, allowed: Record<T, unknown>): T => {
+  const value = text(body, key);
+  if (!(value in allowed)) throw new BackendError(`Unknown ${key} "${value}"`);
+  return value as T;
+};
+
+const optionalOneOf = <T extends string>(body: unknown, key: string, allowed: Record<T, unknown>): T | undefined =>
+  fields(body)[key] == null ? undefined : oneOf(body, key, allowed);
+
+// Whole records (products, orders, ...) are checked for shape here; BackendService validates their fields
+const record = <T>(body: unknown): T => fields(body) as T;
+const records = <T>(body: unknown, key?: string): T[] => list(body, key).map(item => record<T>(item));
+
+// customerToken is the X-Customer-Token header, empty for guests
+type Handler = (params: Record<string, string>, body: unknown, query: URLSearchParams, customerToken: string, req: IncomingMessage) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  admin?: boolean;
+  handler: Handler;
+}
+
+const routes: Route[] = [
+  // Products
+  { method: 'GET', pattern: /^\/api\/products$/, handler: () => service.getProducts() },
+  { method: 'POST', pattern: /^\/api\/products$/, admin: true, handler: (_, body) => service.addProduct(record(body)) },
+  { method: 'PATCH', pattern: /^\/api\/products\/(?<id>[^/]+)$/, admin: true, handler: ({ id }, body) => service.updateProduct(id, record(body)) },
+  { method: 'DELETE', pattern: /^\/api\/products\/(?<id>[^/]+)$/, admin: true, handler: ({ id }) => service.deleteProduct(id) },
+  { method: 'GET', pattern: /^\/api\/bestsellers$/, handler: () => service.getUnitsSold() },
+
+  // Categories and collections
+  { method: 'GET', pattern: /^\/api\/categories$/, handler: () => service.getCategories() },
+  { method: 'POST', pattern: /^\/api\/categories$/, admin: true, handler: (_, body) => service.addCategory(record(body)) },
+  { method: 'PATCH', pattern: /^\/api\/categories\/(?<id>[^/]+)$/, admin: true, handler: ({ id }, body) => service.updateCategory(id, record(body)) },
+  { method: 'DELETE', pattern: /^\/api\/categories\/(?<id>[^/]+)$/, admin: true, handler: ({ id }) => service.deleteCategory(id) },
+  { method: 'GET', pattern: /^\/api\/collections\/active$/, handler: () => service.getActiveCollections() },
+  { method: 'GET', pattern: /^\/api\/collections$/, admin: true, handler: () => service.getCollections() },
+  { method: 'POST', pattern: /^\/api\/collections$/, admin: true, handler: (_, body) => service.addCollection(record(body)) },
+  { method: 'PATCH', pattern: /^\/api\/collections\/(?<id>[^/]+)$/, admin: true, handler: ({ id }, body) => service.updateCollection(id, record(body)) },
+  { method: 'DELETE', pattern: /^\/api\/collections\/(?<id>[^/]+)$/, admin: true, handler: ({ id }) => service.deleteCollection(id) },
+
+  // Inventory
+  { method: 'POST', pattern: /^\/api\/reservations$/, handler: (_, body) => service.reserveStock(records(body, 'items'), optionalText(body, 'reservationId')) },
+  { method: 'DELETE', pattern: /^\/api\/reservations\/(?<id>[^/]+)$/, handler: ({ id }) => service.releaseReservation(id) },
+
+  // Promotions
+  { method: 'GET', pattern: /^\/api\/promotions\/lookup\/(?<code>[^/]+)$/, handler: ({ code }) => service.lookupPromotion(code) },
+  { method: 'GET', pattern: /^\/api\/promotions$/, admin: true, handler: () => service.getPromotions() },
+  { method: 'POST', pattern: /^\/api\/promotions$/, admin: true, handler: (_, body) => service.addPromotion(record(body)) },
+  { method: 'PATCH', pattern: /^\/api\/promotions\/(?<id>[^/]+)$/, admin: true, handler: ({ id }, body) => service.updatePromotion(id, record(body)) },
+  { method: 'DELETE', pattern: /^\/api\/promotions\/(?<id>[^/]+)$/, admin: true, handler: ({ id }) => service.deletePromotion(id) },
+
+  // Gift cards
+  { method: 'POST', pattern: /^\/api\/gift-cards$/, handler: (_, body) => service.purchaseGiftCard(record(body)) },
+  { method: 'GET', pattern: /^\/api\/gift-cards\/balance\/(?<code>[^/]+)$/, handler: ({ code }) => service.getGiftCardBalance(code) },
+  { method: 'GET', pattern: /^\/api\/gift-cards$/, admin: true, handler: () => service.getGiftCards() },
+
+  // Exchange rates
+  { method: 'GET', pattern: /^\/api\/exchange-rates$/, handler: () => service.getExchangeRates() },
+  { method: 'PUT', pattern: /^\/api\/exchange-rates$/, admin: true, handler: (_, body) => service.updateExchangeRates(records(body)) },
+
+  // Payments (the gateway posts webhooks here; the signature is checked by the provider)
+  { method: 'POST', pattern: /^\/api\/payments$/, handler: (_, body) => service.authorizePayment(record(body)) },
+  { method: 'POST', pattern: /^\/api\/payments\/webhook$/, handler: (_, body) => service.handlePaymentWebhook(text(body, 'payload'), text(body, 'signature')) },
+  { method: 'POST', pattern: /^\/api\/payments\/(?<id>[^/]+)\/action$/, handler: ({ id }, body) => service.completePaymentAction(id, text(body, 'response')) },
+
+  // Orders
+  { method: 'POST', pattern: /^\/api\/orders$/, handler: (_, body, query, customerToken) => service.createOrder(record(body), query.get('reservation') || undefined, customerToken || undefined) },
+  { method: 'GET', pattern: /^\/api\/orders$/, admin: true, handler: () => service.getOrders() },
+  { method: 'PATCH', pattern: /^\/api\/orders\/(?<id>[^/]+)\/status$/, admin: true, handler: ({ id }, body) => service.updateOrderStatus(id, oneOf(body, 'status', ORDER_STATUS_LABELS), optionalText(body, 'note')) },
+  { method: 'DELETE', pattern: /^\/api\/orders$/, admin: true, handler: () => service.clearOrders() },
+  { method: 'POST', pattern: /^\/api\/orders\/(?<id>[^/]+)\/refunds$/, admin: true, handler: ({ id }, body) => service.refundOrder(id, record(body)) },
+  { method: 'POST', pattern: /^\/api\/bank-statements$/, admin: true, handler: (_, body) => service.importBankStatement(text(body, 'content')) },
+  { method: 'POST', pattern: /^\/api\/orders\/(?<id>[^/]+)\/shipments$/, admin: true, handler: ({ id }, body) => service.addShipment(id, record(body)) },
+  { method: 'POST', pattern: /^\/api\/orders\/(?<id>[^/]+)\/shipments\/(?<shipmentId>[^/]+)\/events$/, admin: true, handler: ({ id, shipmentId }, body) => service.addShipmentEvent(id, shipmentId, record(body)) },
+  { method: 'POST', pattern: /^\/api\/carrier-events$/, admin: true, handler: (_, body) => service.importCarrierEvents(text(body, 'content')) },
+  { method: 'POST', pattern: /^\/api\/tracking$/, handler: (_, body) => service.trackOrder(text(body, 'orderId'), text(body, 'email')) },
+
+  // Returns
+  { method: 'POST', pattern: /^\/api\/returns\/lookup$/, handler: (_, body) => service.getReturnableOrder(text(body, 'orderId'), text(body, 'email')) },
+  { method: 'POST', pattern: /^\/api\/returns$/, handler: (_, body) => service.requestReturn(record(body)) },
+  { method: 'GET', pattern: /^\/api\/returns$/, admin: true, handler: () => service.getReturns() },
+  { method: 'PATCH', pattern: /^\/api\/returns\/(?<id>[^/]+)\/status$/, admin: true, handler: ({ id }, body) => service.updateReturnStatus(id, oneOf(body, 'status', RETURN_STATUS_LABELS), { note: optionalText(body, 'note'), issuedBy: optionalText(body, 'issuedBy') }) },
+
+  // Customer accounts
+  { method: 'POST', pattern: /^\/api\/account\/register$/, handler: (_, body) => service.registerCustomer(record(body)) },
+  { method: 'POST', pattern: /^\/api\/account\/login$/, handler: (_, body) => service.loginCustomer(text(body, 'email'), text(body, 'password')) },
+  { method: 'POST', pattern: /^\/api\/account\/logout$/, handler: (_, __, ___, customerToken) => service.logoutCustomer(customerToken) },
+  { method: 'GET', pattern: /^\/api\/account$/, handler: (_, __, ___, customerToken) => service.getCustomer(customerToken) },
+  { method: 'PATCH', pattern: /^\/api\/account$/, handler: (_, body, __, customerToken) => service.updateCustomer(customerToken, record(body)) },
+  { method: 'POST', pattern: /^\/api\/account\/addresses$/, handler: (_, body, __, customerToken) => service.saveCustomerAddress(customerToken, record(body)) },
+  { method: 'DELETE', pattern: /^\/api\/account\/addresses\/(?<id>[^/]+)$/, handler: ({ id }, _, __, customerToken) => service.deleteCustomerAddress(customerToken, id) },
+  { method: 'POST', pattern: /^\/api\/account\/addresses\/(?<id>[^/]+)\/default$/, handler: ({ id }, _, __, customerToken) => service.setDefaultCustomerAddress(customerToken, id) },
+  { method: 'GET', pattern: /^\/api\/account\/orders$/, handler: (_, __, ___, customerToken) => service.getCustomerOrders(customerToken) },
+
+  // Wishlists
+  { method: 'POST', pattern: /^\/api\/wishlists\/current$/, handler: (_, body, __, customerToken) => service.getWishlist(optionalText(body, 'wishlistId') || null, customerToken || undefined) },
+  { method: 'PUT', pattern: /^\/api\/wishlists\/(?<id>[^/]+)$/, handler: ({ id }, body, __, customerToken) => service.updateWishlist(id, textList(body, 'productIds'), customerToken || undefined) },
+  { method: 'GET', pattern: /^\/api\/shared-wishlists\/(?<shareId>[^/]+)$/, handler: ({ shareId }) => service.getSharedWishlist(shareId) },
+
+  // Reviews
+  { method: 'POST', pattern: /^\/api\/reviews$/, handler: (_, body) => service.submitReview(record(body)) },
+  { method: 'GET', pattern: /^\/api\/products\/(?<id>[^/]+)\/reviews$/, handler: ({ id }) => service.getProductReviews(id) },
+  { method: 'GET', pattern: /^\/api\/ratings$/, handler: () => service.getRatingSummaries() },
+  { method: 'GET', pattern: /^\/api\/reviews$/, admin: true, handler: () => service.getReviews() },
+  { method: 'PATCH', pattern: /^\/api\/reviews\/(?<id>[^/]+)$/, admin: true, handler: ({ id }, body) => service.moderateReview(id, { status: optionalOneOf(body, 'status', REVIEW_STATUS_LABELS), reply: optionalText(body, 'reply') }) },
+
+  { method: 'POST', pattern: /^\/api\/subscribers$/, handler: (_, body) => service.addSubscriber(text(body, 'email')) },
+  { method: 'GET', pattern: /^\/api\/subscribers$/, admin: true, handler: () => service.getSubscribers() },
+
+  // Authentication
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth$/,
+    handler: (_, body, __, ___, req) => signInAdmin(text(body, 'pin'), req.socket.remoteAddress || 'unknown')
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/auth$/,
+    handler: async (_, __, ___, ____, req) => { adminTokens.delete(bearerToken(req)); }
+  },
+
+  // Maintenance
+  { method: 'GET', pattern: /^\/api\/migrations$/, admin: true, handler: () => service.getMigrationReport() },
+];
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch {
+      reject(new BackendError('Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Customer-Token',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  const route = routes.find(r => r.method === req.method && r.pattern.test(url.pathname));
+  if (!route) return send(res, 404, { error: 'Not found' });
+
+  if (route.admin) {
+    if (!isAdminToken(bearerToken(req))) return send(res, 401, { error: 'Admin authorization required' });
+  }
+
+  try {
+    const params = url.pathname.match(route.pattern)?.groups || {};
+    const decoded = Object.fromEntries(Object.entries(params).map(([k, v]) => [k, decodeURIComponent(v)]));
+    const customerToken = String(req.headers['x-customer-token'] || '');
+    const result = await route.handler(decoded, await readBody(req), url.searchParams, customerToken, req);
+    send(res, result === undefined ? 204 : 200, result);
+  } catch (error) {
+    const status = error instanceof BackendError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    console.error(`[mock-api] ${req.method} ${url.pathname} -> ${status}: ${message}`);
+    send(res, status, { error: message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-api] Listening on http://localhost:${PORT} (data: ${DB_FILE})`);
+});
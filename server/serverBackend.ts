@@ -0,0 +1,10 @@
+import { BackendService } from '../services/backend';
+import { MockPaymentProvider } from '../services/mockPaymentProvider';
+import { JsonFileStorageAdapter } from './jsonFileStorage';
+
+// The mock server's BackendService: data and payments both persist to the JSON file,
+// never to browser storage.
+export const createServerBackend = (dbFile: string): BackendService => {
+  const storage = new JsonFileStorageAdapter(dbFile);
+  return new BackendService(storage, new MockPaymentProvider(storage));
+};
@@ -0,0 +1,65 @@
+import { Customer, SavedAddress } from '../types';
+import { normalizeEmail } from './returns';
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256; stored per account so it can be raised later
+const PBKDF2_ITERATIONS = 600_000;
+
+// Stored form of an account. Only the Customer part ever leaves the backend.
+export interface StoredCustomer extends Customer {
+  passwordHash: string;
+  passwordSalt: string;
+  passwordIterations: number;
+}
+
+export interface CustomerSessionRecord {
+  token: string;
+  customerId: string;
+  expiresAt: string;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+// WebCrypto is available in browsers (secure contexts) and in Node 20+, so the mock server hashes the same way
+export const hashPassword = async (password: string, salt: Uint8Array = crypto.getRandomValues(new Uint8Array(16)), iterations = PBKDF2_ITERATIONS) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return { passwordHash: toHex(new Uint8Array(bits)), passwordSalt: toHex(salt), passwordIterations: iterations };
+};
+
+export const verifyPassword = async (password: string, account: StoredCustomer) => {
+  const { passwordHash } = await hashPassword(password, fromHex(account.passwordSalt), account.passwordIterations);
+  // Compare every character so the time taken does not reveal how much matched
+  let difference = passwordHash.length ^ account.passwordHash.length;
+  for (let i = 0; i < passwordHash.length; i++) {
+    difference |= passwordHash.charCodeAt(i) ^ account.passwordHash.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+export const getPasswordIssue = (password: string): string | undefined => {
+  if (!password || password.length < PASSWORD_MIN_LENGTH) return `Passwords need at least ${PASSWORD_MIN_LENGTH} characters`;
+  return undefined;
+};
+
+export const generateSessionToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const isSessionActive = (session: CustomerSessionRecord, at = Date.now()) => new Date(session.expiresAt).getTime() > at;
+
+export const toPublicCustomer = ({ passwordHash, passwordSalt, passwordIterations, ...customer }: StoredCustomer): Customer => customer;
+
+export const findCustomerByEmail = <T extends Customer>(customers: T[], email: string) =>
+  customers.find(c => c.email === normalizeEmail(email || ''));
+
+// The address checkout starts from; falls back to the first one for accounts saved before defaults existed
+export const getDefaultAddress = (customer: Customer): SavedAddress | undefined =>
+  customer.addresses.find(a => a.id === customer.defaultAddressId) || customer.addresses[0];
+
+// Two addresses are the same delivery point when street, city, postcode and country match
+export const isSameAddress = (a: Omit<SavedAddress, 'id'>, b: Omit<SavedAddress, 'id'>) =>
+  (['address', 'city', 'postalCode', 'country'] as const).every(field =>
+    a[field].trim().toLowerCase().replace(/\s+/g, ' ') === b[field].trim().toLowerCase().replace(/\s+/g, ' '));
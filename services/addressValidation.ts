@@ -0,0 +1,134 @@
+import { ShippingDetails } from '../types';
+
+export type AddressField = keyof ShippingDetails;
+export type AddressErrorCode = 'required' | 'postal_code' | 'phone' | 'email' | 'country';
+export type AddressErrors = Partial<Record<AddressField, AddressErrorCode>>;
+
+export const SHIPPING_REQUIRED_FIELDS: AddressField[] = ['email', 'phone', 'firstName', 'lastName', 'address', 'city', 'postalCode', 'country'];
+// Saved addresses take the email from the account, and the recipient's phone is optional
+export const SAVED_ADDRESS_REQUIRED_FIELDS: AddressField[] = ['firstName', 'lastName', 'address', 'city', 'postalCode', 'country'];
+
+interface CountryAddressRule {
+  callingCode: string;
+  trunkPrefixes: string[]; // Dialled before national numbers and dropped in international format
+  postalPattern: RegExp; // Tested against the compact form: upper case, no spaces or dashes, prefix removed
+  postalExample: string;
+  postalPrefix?: string; // Country letters some customers type in front, e.g. "LV-"
+  formatPostalCode?: (compact: string) => string;
+}
+
+const splitAt = (index: number, separator = ' ') => (compact: string) => `${compact.slice(0, index)}${separator}${compact.slice(index)}`;
+
+const FOUR_DIGITS = /^\d{4}$/;
+const FIVE_DIGITS = /^\d{5}$/;
+
+// One entry per EU_COUNTRIES destination
+export const ADDRESS_RULES: Record<string, CountryAddressRule> = {
+  'Austria': { callingCode: '43', trunkPrefixes: ['0'], postalPattern: FOUR_DIGITS, postalExample: '1010' },
+  'Belgium': { callingCode: '32', trunkPrefixes: ['0'], postalPattern: FOUR_DIGITS, postalExample: '1000' },
+  'Bulgaria': { callingCode: '359', trunkPrefixes: ['0'], postalPattern: FOUR_DIGITS, postalExample: '1000' },
+  'Croatia': { callingCode: '385', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '10000' },
+  'Cyprus': { callingCode: '357', trunkPrefixes: [], postalPattern: FOUR_DIGITS, postalExample: '1010' },
+  'Czech Republic': { callingCode: '420', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '110 00', formatPostalCode: splitAt(3) },
+  'Denmark': { callingCode: '45', trunkPrefixes: [], postalPattern: FOUR_DIGITS, postalExample: '1050' },
+  'Estonia': { callingCode: '372', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '10111' },
+  'Finland': { callingCode: '358', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '00100' },
+  'France': { callingCode: '33', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '75001' },
+  'Germany': { callingCode: '49', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '10115' },
+  'Greece': { callingCode: '30', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '105 57', formatPostalCode: splitAt(3) },
+  'Hungary': { callingCode: '36', trunkPrefixes: ['06'], postalPattern: FOUR_DIGITS, postalExample: '1011' },
+  'Ireland': { callingCode: '353', trunkPrefixes: ['0'], postalPattern: /^[AC-FHKNPRTV-Y]\d[\dW][\dAC-FHKNPRTV-Y]{4}$/, postalExample: 'D02 X285', formatPostalCode: splitAt(3) },
+  'Italy': { callingCode: '39', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '00118' },
+  'Latvia': { callingCode: '371', trunkPrefixes: [], postalPattern: FOUR_DIGITS, postalExample: 'LV-1050', postalPrefix: 'LV', formatPostalCode: compact => `LV-${compact}` },
+  'Lithuania': { callingCode: '370', trunkPrefixes: ['0', '8'], postalPattern: FIVE_DIGITS, postalExample: 'LT-01100', postalPrefix: 'LT', formatPostalCode: compact => `LT-${compact}` },
+  'Luxembourg': { callingCode: '352', trunkPrefixes: [], postalPattern: FOUR_DIGITS, postalExample: 'L-1009', postalPrefix: 'L', formatPostalCode: compact => `L-${compact}` },
+  'Malta': { callingCode: '356', trunkPrefixes: [], postalPattern: /^[A-Z]{3}\d{4}$/, postalExample: 'VLT 1117', formatPostalCode: splitAt(3) },
+  'Netherlands': { callingCode: '31', trunkPrefixes: ['0'], postalPattern: /^[1-9]\d{3}[A-Z]{2}$/, postalExample: '1234 AB', formatPostalCode: splitAt(4) },
+  'Poland': { callingCode: '48', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '00-950', formatPostalCode: splitAt(2, '-') },
+  'Portugal': { callingCode: '351', trunkPrefixes: [], postalPattern: /^\d{7}$/, postalExample: '1000-001', formatPostalCode: splitAt(4, '-') },
+  'Romania': { callingCode: '40', trunkPrefixes: ['0'], postalPattern: /^\d{6}$/, postalExample: '010011' },
+  'Slovakia': { callingCode: '421', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '811 01', formatPostalCode: splitAt(3) },
+  'Slovenia': { callingCode: '386', trunkPrefixes: ['0'], postalPattern: FOUR_DIGITS, postalExample: '1000' },
+  'Spain': { callingCode: '34', trunkPrefixes: [], postalPattern: FIVE_DIGITS, postalExample: '28001' },
+  'Sweden': { callingCode: '46', trunkPrefixes: ['0'], postalPattern: FIVE_DIGITS, postalExample: '111 22', formatPostalCode: splitAt(3) },
+};
+
+// Canonical postal code for the country ("1234ab" -> "1234 AB"), or undefined when it does not fit the pattern
+export const normalizePostalCode = (raw: string, country: string): string | undefined => {
+  const rule = ADDRESS_RULES[country];
+  if (!rule) return undefined;
+  let compact = (raw || '').toUpperCase().replace(/[\s-]/g, '');
+  if (rule.postalPrefix && compact.startsWith(rule.postalPrefix) && !rule.postalPattern.test(compact)) {
+    compact = compact.slice(rule.postalPrefix.length);
+  }
+  if (!rule.postalPattern.test(compact)) return undefined;
+  return rule.formatPostalCode ? rule.formatPostalCode(compact) : compact;
+};
+
+// E.164 ("+31612345678"). Numbers without an international prefix are read as national numbers of the delivery country.
+export const normalizePhone = (raw: string, country: string): string | undefined => {
+  const trimmed = (raw || '').trim();
+  if (/[^\d\s()./+-]/.test(trimmed)) return undefined;
+  // "+31 (0)6…" marks the trunk 0 that is only dialled nationally
+  let digits = trimmed.replace(/\(0\)/g, '').replace(/[^\d+]/g, '');
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`;
+
+  let e164: string;
+  if (digits.startsWith('+')) {
+    e164 = digits;
+  } else {
+    const rule = ADDRESS_RULES[country];
+    if (!rule) return undefined;
+    const trunk = rule.trunkPrefixes.find(prefix => digits.startsWith(prefix));
+    const national = trunk ? digits.slice(trunk.length) : digits;
+    if (national.length < 6) return undefined;
+    e164 = `+${rule.callingCode}${national}`;
+  }
+  return /^\+[1-9]\d{7,14}$/.test(e164) ? e164 : undefined;
+};
+
+export const isValidEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test((value || '').trim());
+
+// Trims and normalizes what it can; every field that is still wrong gets an error code
+export const validateAddress = <T extends Partial<ShippingDetails>>(details: T, requiredFields: AddressField[]): { address: T; errors: AddressErrors } => {
+  const address = { ...details };
+  const errors: AddressErrors = {};
+  for (const field of Object.keys(address) as AddressField[]) {
+    if (typeof address[field] === 'string') address[field] = (address[field] as string).trim() as T[AddressField];
+  }
+  for (const field of requiredFields) {
+    if (!address[field]) errors[field] = 'required';
+  }
+
+  const country = address.country || '';
+  if (country && !ADDRESS_RULES[country]) errors.country = 'country';
+  if (address.email && !isValidEmail(address.email)) errors.email = 'email';
+
+  if (address.postalCode && ADDRESS_RULES[country]) {
+    const postalCode = normalizePostalCode(address.postalCode, country);
+    if (postalCode) address.postalCode = postalCode;
+    else errors.postalCode = 'postal_code';
+  }
+  if (address.phone) {
+    const phone = normalizePhone(address.phone, country);
+    if (phone) address.phone = phone;
+    else errors.phone = 'phone';
+  }
+  return { address, errors };
+};
+
+export const hasAddressErrors = (errors: AddressErrors) => Object.keys(errors).length > 0;
+
+export const getPostalCodeExample = (country: string) => ADDRESS_RULES[country]?.postalExample || '';
+
+export const getPhoneExample = (country: string) => ADDRESS_RULES[country] ? `+${ADDRESS_RULES[country].callingCode} …` : '+…';
+
+// English summary for API errors; the storefront shows translated messages per field instead
+export const describeAddressErrors = (errors: AddressErrors, country?: string) =>
+  (Object.keys(errors) as AddressField[]).map(field => {
+    const code = errors[field];
+    if (code === 'required') return `${field} is required`;
+    if (code === 'postal_code') return `postal code should look like ${getPostalCodeExample(country || '')}`;
+    if (code === 'country') return `we do not ship to ${country}`;
+    return `${field} is not valid`;
+  }).join('; ');
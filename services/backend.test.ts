@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Order, PaymentIntent, Promotion, ReviewStatus } from '../types';
+import { BackendService } from './backend';
+import { MemoryStorageAdapter } from './storage';
+import { MockPaymentProvider } from './mockPaymentProvider';
+import { PaymentError } from './paymentProvider';
+import { PriceBreakdown, calculatePricing } from './pricing';
+import { toCartItem } from './variants';
+import { SHIPPING_DETAILS } from '../test/fixtures';
+
+const card = { number: '4242424242424242', expiry: '12/30', cvc: '123', holder: 'Anna Berg', brand: 'visa' as const };
+
+// A shop whose gateway answers quickly, with one Netela scarf (f3) left
+const setUp = async (Provider: typeof MockPaymentProvider = MockPaymentProvider) => {
+  const storage = new MemoryStorageAdapter();
+  const payments = new Provider(storage, { latencyMs: 20 });
+  const backend = new BackendService(storage, payments);
+  const scarf = await backend.updateProduct('f3', { stockQuantity: 1 });
+  return { backend, payments, items: [toCartItem(scarf, undefined, 1)] };
+};
+
+// The order the checkout submits for these lines
+const orderFor = (items: CartItem[], reference: string, pricing: PriceBreakdown, overrides: Partial<Order> = {}) => ({
+  id: reference,
+  date: new Date().toISOString(),
+  items,
+  subtotal: pricing.subtotal,
+  discount: pricing.discount,
+  promotions: pricing.promotions,
+  shippingCost: pricing.shippingCost,
+  shippingMethod: pricing.shipping,
+  duties: pricing.duties,
+  vat: pricing.vat,
+  total: pricing.total,
+  shippingDetails: SHIPPING_DETAILS,
+  paymentMethod: 'credit_card',
+  language: 'en',
+  status: 'pending_payment',
+  statusHistory: [],
+  ...overrides,
+}) as Order;
+
+// Authorizes the card, then submits the order the way the checkout does
+const checkout = async ({ backend, items }: Awaited<ReturnType<typeof setUp>>, reference: string, promotions: Promotion[] = []) => {
+  const pricing = calculatePricing({ lines: items, country: 'Germany', promotions });
+  const payment = await backend.authorizePayment({ method: 'credit_card', reference, amount: pricing.total, currency: 'EUR', card });
+  return { payment, placed: backend.createOrder(orderFor(items, reference, pricing, { payment: { id: payment.id } } as Partial<Order>)) };
+};
+
+const stockOf = async (backend: BackendService) => (await backend.getProducts()).find(p => p.id === 'f3')!.stockQuantity;
+
+describe('BackendService.createOrder', () => {
+  it('sells the last unit to only one of two simultaneous checkouts', async () => {
+    const shop = await setUp();
+    const [first, second] = await Promise.all([checkout(shop, 'ETH-00001'), checkout(shop, 'ETH-00002')]);
+    const results = await Promise.allSettled([first.placed, second.placed]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')!;
+    expect(rejected.reason).toMatchObject({ status: 409 });
+    expect(rejected.reason.message).toContain('sold out');
+
+    expect(await stockOf(shop.backend)).toBe(0);
+    const statuses = await Promise.all([first.payment, second.payment].map(p => shop.payments.getPayment(p.id)));
+    expect(statuses.map(p => p!.status).sort()).toEqual(['captured', 'voided']);
+  });
+
+  it('assigns the order id itself', async () => {
+    const shop = await setUp();
+    const placed = await (await checkout(shop, 'ETH-00001')).placed;
+    expect(placed.id).toMatch(/^ETH-\d{5}$/);
+    expect((await shop.backend.getOrders()).map(o => o.id)).toEqual([placed.id]);
+  });
+
+  it('gives the stock back when the capture fails', async () => {
+    class FailingCapture extends MockPaymentProvider {
+      async capture(): Promise<PaymentIntent> {
+        throw new PaymentError('The payment gateway did not respond in time', 'timeout');
+      }
+    }
+    const shop = await setUp(FailingCapture);
+
+    await expect((await checkout(shop, 'ETH-00001')).placed).rejects.toThrow();
+    expect(await stockOf(shop.backend)).toBe(1);
+    expect(await shop.backend.getOrders()).toEqual([]);
+  });
+
+  it('voids the authorization when the prices have changed', async () => {
+    const shop = await setUp();
+    await shop.backend.updateProduct('f3', { price: 1 });
+
+    const { payment, placed } = await checkout(shop, 'ETH-00001');
+    await expect(placed).rejects.toMatchObject({ status: 409 });
+    expect(await shop.payments.getPayment(payment.id)).toMatchObject({ status: 'voided' });
+  });
+
+  it('takes one promo code per order and counts it against its limit', async () => {
+    const shop = await setUp();
+    const half = await shop.backend.addPromotion({ code: 'HALF', label: 'Half off', type: 'percentage', value: 50, usageLimit: 1, active: true });
+
+    const twice = await checkout(shop, 'ETH-00001', [half, { ...half, code: 'half ' }]);
+    await expect(twice.placed).rejects.toMatchObject({ status: 400, message: 'HALF: This code is already applied' });
+    expect(await shop.payments.getPayment(twice.payment.id)).toMatchObject({ status: 'voided' });
+
+    await (await checkout(shop, 'ETH-00002', [half])).placed;
+    expect((await shop.backend.getPromotions()).find(p => p.code === 'HALF')!.usageCount).toBe(1);
+  });
+});
+
+describe('BackendService.updateOrderStatus', () => {
+  it('gives back the stock and promo code use of a cancelled order', async () => {
+    const shop = await setUp();
+    const half = await shop.backend.addPromotion({ code: 'HALF', label: 'Half off', type: 'percentage', value: 50, usageLimit: 1, active: true });
+    const pricing = calculatePricing({ lines: shop.items, country: 'Germany', promotions: [half] });
+    const placed = await shop.backend.createOrder(orderFor(shop.items, 'ETH-00001', pricing, { paymentMethod: 'bank_transfer' }));
+    expect(await stockOf(shop.backend)).toBe(0);
+
+    await shop.backend.updateOrderStatus(placed.id, 'cancelled', 'Never paid');
+    expect(await stockOf(shop.backend)).toBe(1);
+    expect((await shop.backend.getPromotions()).find(p => p.code === 'HALF')!.usageCount).toBe(0);
+    expect((await shop.backend.getOrders())[0].status).toBe('cancelled');
+  });
+
+  it('refuses to cancel a paid order, which is refunded instead', async () => {
+    const shop = await setUp();
+    const { payment, placed } = await checkout(shop, 'ETH-00001');
+    const order = await placed;
+
+    await expect(shop.backend.updateOrderStatus(order.id, 'cancelled')).rejects.toMatchObject({ status: 409 });
+    const refunded = await shop.backend.refundOrder(order.id, { scope: 'order', reason: 'Customer cancelled', issuedBy: 'Admin' });
+    expect(refunded.status).toBe('refunded');
+    expect(await shop.payments.getPayment(payment.id)).toMatchObject({ status: 'refunded', refundedAmount: order.total });
+    expect(await stockOf(shop.backend)).toBe(1);
+  });
+});
+
+describe('BackendService.moderateReview', () => {
+  it('refuses statuses it does not know', async () => {
+    const shop = await setUp();
+    const order = await (await checkout(shop, 'ETH-00001')).placed;
+    for (const status of ['processing', 'shipped', 'delivered'] as const) await shop.backend.updateOrderStatus(order.id, status);
+    const review = await shop.backend.submitReview({
+      orderId: order.id, email: SHIPPING_DETAILS.email, productId: 'f3', rating: 5, text: 'Soft and beautifully woven', language: 'en',
+    });
+
+    await expect(shop.backend.moderateReview(review.id, { status: 'published' as ReviewStatus }))
+      .rejects.toMatchObject({ status: 400, message: 'Unknown review status "published"' });
+    expect((await shop.backend.getReviews())[0].status).toBe('pending');
+  });
+});
@@ -1,129 +1,1715 @@
 
-import { Order, Product, Category } from '../types';
-import { MOCK_PRODUCTS } from '../constants';
+import { BankStatementLine, CarrierEventImportResult, CartItem, Collection, Customer, CustomerRegistration, CustomerSession, ExchangeRate, GiftCard, GiftCardPayment, GiftCardPurchase, Order, OrderStatus, OrderTracking, PaymentIntent, PaymentRequest, Product, Category, LocalizedText, Promotion, ReconciliationResult, Refund, RefundAllocation, RefundRequest, ReturnAuthorization, ReturnRequest, ReturnStatus, ReturnableOrder, RatingSummary, Review, ReviewStatus, ReviewSubmission, SavedAddress, Shipment, ShipmentEvent, SharedWishlist, StockReservation, StockReservationLine, Wishlist } from '../types';
+import { EU_COUNTRIES, MOCK_CATEGORIES, MOCK_PRODUCTS } from '../constants';
+import { StorageAdapter } from './storage';
+import { MigrationReport, PersistedData, SCHEMA_VERSION, runMigrations, syncSeedCatalog } from './migrations';
+import { ORDER_STATUS_LABELS, applyStatusChange, canTransition, generateOrderId, getInitialStatus } from './orderStatus';
+import { PRICE_TOLERANCE, calculatePricing, findPriceMismatches } from './pricing';
+import { describeVariant, getCartLineId, hasVariants, toCartItem } from './variants';
+import { MAX_PROMO_CODES_PER_ORDER, PROMOTION_ISSUE_MESSAGES, getPromotionIssue, normalizePromoCode } from './promotions';
+import { GIFT_CARD_MAX, GIFT_CARD_MIN, generateGiftCardCode, normalizeGiftCardCode, recordGiftCardTransaction } from './giftCards';
+import { roundMoney } from './money';
+import { DEFAULT_EXCHANGE_RATES, SETTLEMENT_CURRENCY, getRate, isCurrencyCode } from './currency';
+import { PaymentError, PaymentErrorCode, PaymentProvider, toOrderPayment } from './paymentProvider';
+import { MockPaymentProvider } from './mockPaymentProvider';
+import { parseBankStatement, reconcileStatement } from './bankStatements';
+import { CarrierEventRow, SHIPMENT_EVENT_STATUSES, addEventToShipment, applyCarrierEvents, createShipmentEvent, hasShipmentEvent, normalizeTrackingNumber, parseCarrierEvents, syncOrderWithShipments } from './shipments';
+import { RETURN_STATUS_LABELS, RETURN_WINDOW_DAYS, applyReturnStatus, canTransitionReturn, generateRmaNumber, getExchangeOptions, getReturnDeadline, getReturnableQuantity, normalizeEmail } from './returns';
+import { RefundQuote, allocateRefund, getAllocated, getRefundableAmount, getRefundedAmount, getRefundedQuantity, quoteRefund, toRestockLines } from './refunds';
+import { createWishlist, mergeWishlistItems } from './wishlists';
+import { countUnitsSold } from './catalogFilters';
+import { createProductSlug, createUniqueSlug } from './routing';
+import { cleanDescription, cleanLocalizedText, fileUnderCategory, getActiveCollections, getCategoryPath, getDescendantIds, getProductCategoryId, placeAtPosition, sortByPosition } from './categories';
+import { REVIEW_PHOTO_STORAGE_LIMIT, REVIEW_STATUS_LABELS, getReviewAuthorName, getReviewIssue, getStoredPhotoLength, hasReviewed, summarizeRatings } from './reviews';
+import { SAVED_ADDRESS_REQUIRED_FIELDS, SHIPPING_REQUIRED_FIELDS, describeAddressErrors, hasAddressErrors, validateAddress } from './addressValidation';
+import { CustomerSessionRecord, SESSION_TTL_MS, StoredCustomer, findCustomerByEmail, generateSessionToken, getPasswordIssue, hashPassword, isSessionActive, toPublicCustomer, verifyPassword } from './accounts';
+import { RESERVATION_TTL_MS, adjustStock, describeShortages, findShortages, isReservationActive, toReservationLines, withStockFlag } from './inventory';
 
 const KEYS = {
   ORDERS: 'ethio_backend_orders',
   PRODUCTS: 'ethio_backend_products',
   AUTH: 'ethio_backend_auth',
-  SUBSCRIBERS: 'ethio_backend_subscribers'
+  SUBSCRIBERS: 'ethio_backend_subscribers',
+  SCHEMA_VERSION: 'ethio_backend_schema_version',
+  CATALOG_SEED: 'ethio_backend_catalog_seed',
+  RESERVATIONS: 'ethio_backend_reservations',
+  PROMOTIONS: 'ethio_backend_promotions',
+  GIFT_CARDS: 'ethio_backend_gift_cards',
+  RETURNS: 'ethio_backend_returns',
+  CUSTOMERS: 'ethio_backend_customers',
+  CUSTOMER_SESSIONS: 'ethio_backend_customer_sessions',
+  WISHLISTS: 'ethio_backend_wishlists',
+  REVIEWS: 'ethio_backend_reviews',
+  EXCHANGE_RATES: 'ethio_backend_exchange_rates',
+  CATEGORIES: 'ethio_backend_categories',
+  COLLECTIONS: 'ethio_backend_collections'
 };
 
 // Simulate network latency for realism
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-class BackendService {
+// What a checkout has taken while its payment is being captured
+interface OrderClaim {
+  orderId: string;
+  lines: StockReservationLine[];
+  reservation?: StockReservation; // The checkout's own hold, given back if the capture fails
+  promoCodes: string[];
+  giftCard?: GiftCardPayment;
+}
+
+// Carries an HTTP-style status so the mock server can map failures to responses
+export class BackendError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BackendError';
+  }
+}
+
+// Public contract shared by the local (browser) and REST implementations
+export interface Backend {
+  getProducts(): Promise<Product[]>;
+  addProduct(product: Omit<Product, 'id' | 'slug'>): Promise<Product>;
+  updateProduct(id: string, updates: Partial<Product>): Promise<Product>;
+  deleteProduct(id: string): Promise<void>;
+  getUnitsSold(): Promise<Record<string, number>>;
+
+  getCategories(): Promise<Category[]>;
+  addCategory(category: Omit<Category, 'id' | 'slug' | 'position'>): Promise<Category>;
+  updateCategory(id: string, updates: Partial<Category>): Promise<Category>;
+  deleteCategory(id: string): Promise<void>;
+  getCollections(): Promise<Collection[]>;
+  getActiveCollections(): Promise<Collection[]>;
+  addCollection(collection: Omit<Collection, 'id' | 'slug' | 'position'>): Promise<Collection>;
+  updateCollection(id: string, updates: Partial<Collection>): Promise<Collection>;
+  deleteCollection(id: string): Promise<void>;
+
+  reserveStock(items: CartItem[], reservationId?: string): Promise<StockReservation>;
+  releaseReservation(reservationId: string): Promise<void>;
+
+  getPromotions(): Promise<Promotion[]>;
+  addPromotion(promotion: Omit<Promotion, 'id' | 'usageCount'>): Promise<Promotion>;
+  updatePromotion(id: string, updates: Partial<Promotion>): Promise<Promotion>;
+  deletePromotion(id: string): Promise<void>;
+  lookupPromotion(code: string): Promise<Promotion>;
+
+  purchaseGiftCard(purchase: GiftCardPurchase): Promise<GiftCard>;
+  getGiftCardBalance(code: string): Promise<{ code: string; balance: number }>;
+  getGiftCards(): Promise<GiftCard[]>;
+
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  updateExchangeRates(rates: Pick<ExchangeRate, 'currency' | 'rate'>[]): Promise<ExchangeRate[]>;
+
+  authorizePayment(request: PaymentRequest): Promise<PaymentIntent>;
+  completePaymentAction(paymentId: string, response: string): Promise<PaymentIntent>;
+  handlePaymentWebhook(payload: string, signature: string): Promise<void>;
+
+  createOrder(order: Order, reservationId?: string, customerToken?: string): Promise<Order>;
+  getOrders(): Promise<Order[]>;
+  updateOrderStatus(id: string, status: OrderStatus, note?: string): Promise<Order>;
+  refundOrder(id: string, request: RefundRequest): Promise<Order>;
+  importBankStatement(content: string): Promise<ReconciliationResult[]>;
+  addShipment(orderId: string, shipment: Pick<Shipment, 'carrier' | 'trackingNumber'>): Promise<Order>;
+  addShipmentEvent(orderId: string, shipmentId: string, event: Omit<ShipmentEvent, 'id'>): Promise<Order>;
+  importCarrierEvents(content: string): Promise<CarrierEventImportResult[]>;
+  trackOrder(orderId: string, email: string): Promise<OrderTracking>;
+
+  getReturnableOrder(orderId: string, email: string): Promise<ReturnableOrder>;
+  requestReturn(request: ReturnRequest): Promise<ReturnAuthorization>;
+  getReturns(): Promise<ReturnAuthorization[]>;
+  updateReturnStatus(id: string, status: ReturnStatus, details?: { note?: string; issuedBy?: string }): Promise<ReturnAuthorization>;
+  clearOrders(): Promise<void>;
+
+  registerCustomer(registration: CustomerRegistration): Promise<CustomerSession>;
+  loginCustomer(email: string, password: string): Promise<CustomerSession>;
+  logoutCustomer(token: string): Promise<void>;
+  getCustomer(token: string): Promise<Customer>;
+  updateCustomer(token: string, updates: Partial<Pick<Customer, 'firstName' | 'lastName' | 'phone'>>): Promise<Customer>;
+  saveCustomerAddress(token: string, address: Omit<SavedAddress, 'id'> & { id?: string }): Promise<Customer>;
+  deleteCustomerAddress(token: string, addressId: string): Promise<Customer>;
+  setDefaultCustomerAddress(token: string, addressId: string): Promise<Customer>;
+  getCustomerOrders(token: string): Promise<Order[]>;
+
+  getWishlist(wishlistId: string | null, customerToken?: string): Promise<Wishlist>;
+  updateWishlist(wishlistId: string, productIds: string[], customerToken?: string): Promise<Wishlist>;
+  getSharedWishlist(shareId: string): Promise<SharedWishlist>;
+
+  submitReview(submission: ReviewSubmission): Promise<Review>;
+  getProductReviews(productId: string): Promise<Review[]>;
+  getRatingSummaries(): Promise<Record<string, RatingSummary>>;
+  getReviews(): Promise<Review[]>;
+  moderateReview(id: string, decision: { status?: ReviewStatus; reply?: string }): Promise<Review>;
+
+  addSubscriber(email: string): Promise<void>;
+  getSubscribers(): Promise<string[]>;
+
+  verifyAdminPin(pin: string): Promise<boolean>;
+
+  getMigrationReport(): Promise<MigrationReport>;
+}
+
+export class BackendService implements Backend {
   private products: Product[] = [];
   private orders: Order[] = [];
   private subscribers: string[] = [];
+  private reservations: StockReservation[] = [];
+  private promotions: Promotion[] = [];
+  private giftCards: GiftCard[] = [];
+  private returns: ReturnAuthorization[] = [];
+  private customers: StoredCustomer[] = [];
+  private customerSessions: CustomerSessionRecord[] = [];
+  private wishlists: Wishlist[] = [];
+  private reviews: Review[] = [];
+  private exchangeRates: ExchangeRate[] = [];
+  private categories: Category[] = [];
+  private collections: Collection[] = [];
+  private orderQueues = new Map<string, Promise<unknown>>();
+  private pendingOrderIds = new Set<string>(); // Assigned to checkouts still waiting on the gateway
+  private ready: Promise<void>;
+  private migrationReport: MigrationReport = { fromVersion: SCHEMA_VERSION, toVersion: SCHEMA_VERSION, applied: [], errors: [] };
 
-  constructor() {
-    this.init();
+  constructor(
+    private storage: StorageAdapter,
+    private paymentProvider: PaymentProvider = new MockPaymentProvider(storage)
+  ) {
+    this.ready = this.init();
+    this.paymentProvider.onWebhook((payload, signature) => {
+      this.handlePaymentWebhook(payload, signature).catch(err => console.error('[Backend] Payment webhook failed', err));
+    });
   }
 
-  private init() {
-    // Load Products
-    const storedProducts = localStorage.getItem(KEYS.PRODUCTS);
-    if (storedProducts) {
-      this.products = JSON.parse(storedProducts);
-    } else {
-      // Seed Database with Mock Data if empty
-      this.products = [...MOCK_PRODUCTS];
-      this.saveProducts();
+  private async init() {
+    const loadErrors: string[] = [];
+    const storedProducts = await this.readCollection<Product>(KEYS.PRODUCTS, loadErrors);
+    const storedOrders = await this.readCollection<Order>(KEYS.ORDERS, loadErrors);
+    const storedSubscribers = await this.readCollection<string>(KEYS.SUBSCRIBERS, loadErrors);
+    const previousSeed = await this.readCollection<Product>(KEYS.CATALOG_SEED, loadErrors);
+    const storedReservations = await this.readCollection<StockReservation>(KEYS.RESERVATIONS, loadErrors);
+    this.reservations = (storedReservations || []).filter(r => isReservationActive(r));
+    this.promotions = await this.readCollection<Promotion>(KEYS.PROMOTIONS, loadErrors) || [];
+    this.giftCards = await this.readCollection<GiftCard>(KEYS.GIFT_CARDS, loadErrors) || [];
+    this.returns = await this.readCollection<ReturnAuthorization>(KEYS.RETURNS, loadErrors) || [];
+    this.customers = await this.readCollection<StoredCustomer>(KEYS.CUSTOMERS, loadErrors) || [];
+    this.customerSessions = (await this.readCollection<CustomerSessionRecord>(KEYS.CUSTOMER_SESSIONS, loadErrors) || []).filter(session => isSessionActive(session));
+    this.wishlists = await this.readCollection<Wishlist>(KEYS.WISHLISTS, loadErrors) || [];
+    this.reviews = await this.readCollection<Review>(KEYS.REVIEWS, loadErrors) || [];
+    this.exchangeRates = await this.readCollection<ExchangeRate>(KEYS.EXCHANGE_RATES, loadErrors) || [...DEFAULT_EXCHANGE_RATES];
+    this.categories = await this.readCollection<Category>(KEYS.CATEGORIES, loadErrors) || [...MOCK_CATEGORIES];
+    this.collections = await this.readCollection<Collection>(KEYS.COLLECTIONS, loadErrors) || [];
+
+    // Seed Database with Mock Data if empty. A fresh store is already at the current schema.
+    const isFresh = !storedProducts && !storedOrders && !storedSubscribers;
+    const storedVersion = isFresh ? SCHEMA_VERSION : Number(await this.storage.getItem(KEYS.SCHEMA_VERSION)) || 0;
+
+    if (storedVersion > SCHEMA_VERSION) {
+      // Written by a newer build; leave it untouched rather than guess.
+      this.migrationReport = {
+        fromVersion: storedVersion,
+        toVersion: storedVersion,
+        applied: [],
+        errors: [...loadErrors, `Stored data is schema v${storedVersion}, this build only understands up to v${SCHEMA_VERSION}.`]
+      };
+      this.products = storedProducts || [...MOCK_PRODUCTS];
+      this.orders = storedOrders || [];
+      this.subscribers = storedSubscribers || [];
+      console.error('[Backend] Migration report', this.migrationReport);
+      return;
     }
 
-    // Load Orders
-    const storedOrders = localStorage.getItem(KEYS.ORDERS);
-    if (storedOrders) {
-      this.orders = JSON.parse(storedOrders);
+    const data: PersistedData = {
+      products: storedProducts || [...MOCK_PRODUCTS],
+      orders: storedOrders || [],
+      subscribers: storedSubscribers || [],
+    };
+    const { data: migrated, report } = runMigrations(data, storedVersion);
+    this.migrationReport = { ...report, errors: [...loadErrors, ...report.errors] };
+
+    // Only merge catalog updates once the store has the current shape
+    const isCurrent = report.toVersion === SCHEMA_VERSION;
+    this.products = isCurrent
+      ? syncSeedCatalog(migrated.products, storedProducts ? previousSeed : MOCK_PRODUCTS, MOCK_PRODUCTS)
+      : migrated.products;
+    this.orders = migrated.orders;
+    this.subscribers = migrated.subscribers;
+
+    await this.saveProducts();
+    await this.saveOrders();
+    await this.saveSubscribers();
+    await this.storage.setItem(KEYS.SCHEMA_VERSION, String(report.toVersion));
+    if (isCurrent) {
+      await this.storage.setItem(KEYS.CATALOG_SEED, JSON.stringify(MOCK_PRODUCTS));
     }
 
-    // Load Subscribers
-    const storedSubscribers = localStorage.getItem(KEYS.SUBSCRIBERS);
-    if (storedSubscribers) {
-      this.subscribers = JSON.parse(storedSubscribers);
+    if (this.migrationReport.errors.length > 0) {
+      console.error('[Backend] Migration report', this.migrationReport);
+    }
+  }
+
+  // Parses a stored collection; unreadable payloads are backed up and reported instead of crashing init
+  private async readCollection<T>(key: string, errors: string[]): Promise<T[] | null> {
+    const raw = await this.storage.getItem(key);
+    if (!raw) return null;
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) throw new Error('expected an array');
+      return parsed;
+    } catch (error) {
+      const backupKey = `${key}_corrupt_${Date.now()}`;
+      await this.storage.setItem(backupKey, raw);
+      errors.push(`Could not read ${key} (${error instanceof Error ? error.message : error}); backed up to ${backupKey} and reset.`);
+      return null;
     }
   }
 
+  async getMigrationReport(): Promise<MigrationReport> {
+    await this.ready;
+    return { ...this.migrationReport };
+  }
+
   // --- PRODUCT MANAGEMENT ---
 
   async getProducts(): Promise<Product[]> {
     await delay(300);
+    await this.ready;
     return [...this.products];
   }
 
-  async addProduct(product: Omit<Product, 'id'>): Promise<Product> {
+  async addProduct(product: Omit<Product, 'id' | 'slug'>): Promise<Product> {
     await delay(600);
-    const newProduct: Product = {
+    await this.ready;
+    const newProduct: Product = withStockFlag({
       ...product,
-      id: `prod_${Date.now()}_${Math.floor(Math.random() * 1000)}`
-    };
+      ...this.fileProduct(getProductCategoryId(product)),
+      id: `prod_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      slug: createProductSlug(product.name, this.products.map(p => p.slug)),
+      createdAt: new Date().toISOString()
+    });
     this.products.unshift(newProduct);
-    this.saveProducts();
+    await this.saveProducts();
     return newProduct;
   }
 
   async updateProduct(id: string, updates: Partial<Product>): Promise<Product> {
     await delay(500);
+    await this.ready;
     const index = this.products.findIndex(p => p.id === id);
-    if (index === -1) throw new Error('Product not found');
+    if (index === -1) throw new BackendError('Product not found', 404);
     
-    this.products[index] = { ...this.products[index], ...updates };
-    this.saveProducts();
+    // A new category comes with its subcategory, if any; a missing one means the top level
+    const filing = updates.category !== undefined ? this.fileProduct(getProductCategoryId(updates as Product)) : {};
+    // The slug stays as created so links to the product keep working
+    this.products[index] = withStockFlag({ ...this.products[index], ...updates, ...filing, slug: this.products[index].slug });
+    await this.saveProducts();
     return this.products[index];
   }
 
   async deleteProduct(id: string): Promise<void> {
     await delay(400);
+    await this.ready;
     this.products = this.products.filter(p => p.id !== id);
-    this.saveProducts();
+    await this.saveProducts();
+    if (this.collections.some(c => c.productIds.includes(id))) {
+      this.collections = this.collections.map(c => ({ ...c, productIds: c.productIds.filter(productId => productId !== id) }));
+      await this.saveCollections();
+    }
+  }
+
+  // Units sold per product id, for the shop's bestseller sort
+  async getUnitsSold(): Promise<Record<string, number>> {
+    await delay(200);
+    await this.ready;
+    return countUnitsSold(this.orders);
+  }
+
+  private async saveProducts() {
+    await this.storage.setItem(KEYS.PRODUCTS, JSON.stringify(this.products));
+  }
+
+  private fileProduct(categoryId: string) {
+    if (!this.categories.some(c => c.id === categoryId)) throw new BackendError('Category not found', 400);
+    return fileUnderCategory(this.categories, categoryId);
+  }
+
+  // --- CATEGORIES ---
+
+  async getCategories(): Promise<Category[]> {
+    await delay(200);
+    await this.ready;
+    return sortByPosition(this.categories);
+  }
+
+  // New categories go last among their siblings
+  async addCategory(category: Omit<Category, 'id' | 'slug' | 'position'>): Promise<Category> {
+    await delay(400);
+    await this.ready;
+    const name = this.checkLocalizedName(category.name, 'Category');
+    const parentId = category.parentId || undefined;
+    this.checkCategoryParent(parentId);
+    const newCategory: Category = {
+      ...category,
+      name,
+      description: cleanDescription(category.description),
+      parentId,
+      id: `cat_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      slug: createUniqueSlug(name.en, this.categories.map(c => c.slug), 'category'),
+      position: this.categories.filter(c => c.parentId === parentId).length
+    };
+    this.categories.push(newCategory);
+    await this.saveCategories();
+    return newCategory;
+  }
+
+  // An empty parentId moves the category to the top level; position is among its (new) siblings
+  async updateCategory(id: string, updates: Partial<Category>): Promise<Category> {
+    await delay(400);
+    await this.ready;
+    const current = this.categories.find(c => c.id === id);
+    if (!current) throw new BackendError('Category not found', 404);
+
+    const parentId = updates.parentId !== undefined ? updates.parentId || undefined : current.parentId;
+    this.checkCategoryParent(parentId, id);
+    const updated: Category = {
+      ...current,
+      ...updates,
+      name: updates.name ? this.checkLocalizedName(updates.name, 'Category') : current.name,
+      description: updates.description ? cleanDescription(updates.description) : current.description,
+      parentId,
+      id,
+      slug: current.slug
+    };
+    const others = this.categories.filter(c => c.id !== id);
+    const siblings = others.filter(c => c.parentId === parentId);
+    const moved = parentId !== current.parentId;
+    const position = updates.position ?? (moved ? siblings.length : current.position);
+    const placed = placeAtPosition(siblings, updated, position);
+    this.categories = [...others.filter(c => c.parentId !== parentId), ...placed];
+    await this.saveCategories();
+    if (moved) await this.refileProducts();
+    return placed.find(c => c.id === id)!;
+  }
+
+  // Products filed under a subcategory move up to its parent; top-level categories have to be emptied first
+  async deleteCategory(id: string): Promise<void> {
+    await delay(400);
+    await this.ready;
+    const category = this.categories.find(c => c.id === id);
+    if (!category) throw new BackendError('Category not found', 404);
+    if (this.categories.some(c => c.parentId === id)) {
+      throw new BackendError('Move or delete its subcategories first', 409);
+    }
+    const filed = this.products.filter(p => getProductCategoryId(p) === id);
+    if (!category.parentId && filed.length > 0) {
+      throw new BackendError(`${filed.length} product(s) are still in this category; move them first`, 409);
+    }
+    const collection = this.collections.find(c => c.rules.categoryId === id);
+    if (collection) throw new BackendError(`The collection "${collection.name.en}" is built from this category`, 409);
+    const promotion = this.promotions.find(p => p.category === id);
+    if (promotion) throw new BackendError(`Promo code ${promotion.code} is limited to this category`, 409);
+
+    const others = this.categories.filter(c => c.id !== id);
+    const siblings = others.filter(c => c.parentId === category.parentId);
+    this.categories = [
+      ...others.filter(c => c.parentId !== category.parentId),
+      ...sortByPosition(siblings).map((c, index) => ({ ...c, position: index }))
+    ];
+    await this.saveCategories();
+    if (filed.length > 0) {
+      this.products = this.products.map(p => filed.includes(p) ? { ...p, ...fileUnderCategory(this.categories, category.parentId!) } : p);
+      await this.saveProducts();
+    }
+  }
+
+  // Keeps each product's top-level category in step after part of the tree moved
+  private async refileProducts() {
+    let changed = false;
+    this.products = this.products.map(product => {
+      const categoryId = getProductCategoryId(product);
+      if (getCategoryPath(this.categories, categoryId).length === 0) return product;
+      const filing = fileUnderCategory(this.categories, categoryId);
+      if (filing.category === product.category && filing.subcategoryId === product.subcategoryId) return product;
+      changed = true;
+      return { ...product, ...filing };
+    });
+    if (changed) await this.saveProducts();
+  }
+
+  // Parents must exist and cannot be the category itself or anything nested under it
+  private checkCategoryParent(parentId: string | undefined, ownId?: string) {
+    if (!parentId) return;
+    if (!this.categories.some(c => c.id === parentId)) throw new BackendError('Parent category not found', 400);
+    if (ownId && getDescendantIds(this.categories, ownId).includes(parentId)) {
+      throw new BackendError('A category cannot be nested under itself or one of its subcategories', 400);
+    }
+  }
+
+  private checkLocalizedName(name: LocalizedText, kind: string) {
+    const cleaned = cleanLocalizedText(name);
+    if (!cleaned.en) throw new BackendError(`${kind} name (English) is required`, 400);
+    return cleaned;
+  }
+
+  private async saveCategories() {
+    await this.storage.setItem(KEYS.CATEGORIES, JSON.stringify(this.categories));
+  }
+
+  // --- COLLECTIONS ---
+
+  async getCollections(): Promise<Collection[]> {
+    await delay(300);
+    await this.ready;
+    return sortByPosition(this.collections);
+  }
+
+  // What the storefront shows; collections being prepared stay hidden
+  async getActiveCollections(): Promise<Collection[]> {
+    await delay(200);
+    await this.ready;
+    return getActiveCollections(this.collections);
+  }
+
+  async addCollection(collection: Omit<Collection, 'id' | 'slug' | 'position'>): Promise<Collection> {
+    await delay(400);
+    await this.ready;
+    const name = this.checkLocalizedName(collection.name, 'Collection');
+    const newCollection: Collection = {
+      ...collection,
+      ...this.checkCollectionMembers(collection),
+      name,
+      description: cleanDescription(collection.description),
+      id: `coll_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      slug: createUniqueSlug(name.en, this.collections.map(c => c.slug), 'collection'),
+      position: this.collections.length
+    };
+    this.collections.push(newCollection);
+    await this.saveCollections();
+    return newCollection;
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    await delay(400);
+    await this.ready;
+    const current = this.collections.find(c => c.id === id);
+    if (!current) throw new BackendError('Collection not found', 404);
+
+    const merged = { ...current, ...updates };
+    const updated: Collection = {
+      ...merged,
+      ...this.checkCollectionMembers(merged),
+      name: updates.name ? this.checkLocalizedName(updates.name, 'Collection') : current.name,
+      description: updates.description ? cleanDescription(updates.description) : current.description,
+      id,
+      slug: current.slug
+    };
+    this.collections = placeAtPosition(this.collections.filter(c => c.id !== id), updated, updates.position ?? current.position);
+    await this.saveCollections();
+    return this.collections.find(c => c.id === id)!;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await delay(300);
+    await this.ready;
+    this.collections = sortByPosition(this.collections.filter(c => c.id !== id)).map((c, index) => ({ ...c, position: index }));
+    await this.saveCollections();
+  }
+
+  // Hand-picked lists only keep products that exist; rules may only name existing categories
+  private checkCollectionMembers(collection: Pick<Collection, 'membership' | 'productIds' | 'rules'>): Pick<Collection, 'productIds' | 'rules'> {
+    const rules = collection.rules || {};
+    if (collection.membership === 'rules' && rules.categoryId && !this.categories.some(c => c.id === rules.categoryId)) {
+      throw new BackendError('Category not found', 400);
+    }
+    const productIds = Array.from(new Set(collection.productIds || [])).filter(id => this.products.some(p => p.id === id));
+    return { productIds, rules };
+  }
+
+  private async saveCollections() {
+    await this.storage.setItem(KEYS.COLLECTIONS, JSON.stringify(this.collections));
+  }
+
+  // --- INVENTORY ---
+
+  async reserveStock(items: CartItem[], reservationId?: string): Promise<StockReservation> {
+    await delay(300);
+    await this.ready;
+    this.pruneReservations();
+
+    const lines = toReservationLines(items);
+    const shortages = findShortages(this.products, lines, this.reservations, reservationId);
+    if (shortages.length > 0) throw new BackendError(describeShortages(shortages), 409);
+
+    // Re-reserving with the same id refreshes the hold instead of stacking a second one
+    const reservation: StockReservation = {
+      id: reservationId || `res_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      lines,
+      expiresAt: new Date(Date.now() + RESERVATION_TTL_MS).toISOString()
+    };
+    this.reservations = [...this.reservations.filter(r => r.id !== reservation.id), reservation];
+    await this.saveReservations();
+    return reservation;
+  }
+
+  async releaseReservation(reservationId: string): Promise<void> {
+    await this.ready;
+    this.reservations = this.reservations.filter(r => r.id !== reservationId);
+    await this.saveReservations();
+  }
+
+  private pruneReservations() {
+    this.reservations = this.reservations.filter(r => isReservationActive(r));
+  }
+
+  private async saveReservations() {
+    await this.storage.setItem(KEYS.RESERVATIONS, JSON.stringify(this.reservations));
+  }
+
+  // --- PROMOTIONS ---
+
+  async getPromotions(): Promise<Promotion[]> {
+    await delay(300);
+    await this.ready;
+    return [...this.promotions];
+  }
+
+  async addPromotion(promotion: Omit<Promotion, 'id' | 'usageCount'>): Promise<Promotion> {
+    await delay(400);
+    await this.ready;
+    const code = this.checkPromoCode(promotion.code);
+    const newPromotion: Promotion = {
+      ...promotion,
+      code,
+      id: `promo_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      usageCount: 0
+    };
+    this.promotions.unshift(newPromotion);
+    await this.savePromotions();
+    return newPromotion;
+  }
+
+  async updatePromotion(id: string, updates: Partial<Promotion>): Promise<Promotion> {
+    await delay(400);
+    await this.ready;
+    const index = this.promotions.findIndex(p => p.id === id);
+    if (index === -1) throw new BackendError('Promotion not found', 404);
+
+    const code = updates.code !== undefined ? this.checkPromoCode(updates.code, id) : this.promotions[index].code;
+    this.promotions[index] = { ...this.promotions[index], ...updates, code, id };
+    await this.savePromotions();
+    return this.promotions[index];
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    await delay(300);
+    await this.ready;
+    this.promotions = this.promotions.filter(p => p.id !== id);
+    await this.savePromotions();
+  }
+
+  // Public lookup for the storefront; whether it applies to a cart is decided by the pricing engine
+  async lookupPromotion(code: string): Promise<Promotion> {
+    await delay(300);
+    await this.ready;
+    const promotion = this.findPromotion(code);
+    if (!promotion) throw new BackendError(PROMOTION_ISSUE_MESSAGES.inactive, 404);
+    return { ...promotion };
+  }
+
+  private findPromotion(code: string) {
+    const normalized = normalizePromoCode(code || '');
+    return this.promotions.find(p => p.active && p.code === normalized);
+  }
+
+  // Codes are unique case-insensitively
+  private checkPromoCode(code: string, ownId?: string): string {
+    const normalized = normalizePromoCode(code || '');
+    if (!normalized) throw new BackendError('Promo code is required', 400);
+    if (this.promotions.some(p => p.code === normalized && p.id !== ownId)) {
+      throw new BackendError(`Promo code ${normalized} already exists`, 409);
+    }
+    return normalized;
+  }
+
+  private async savePromotions() {
+    await this.storage.setItem(KEYS.PROMOTIONS, JSON.stringify(this.promotions));
+  }
+
+  // --- GIFT CARDS ---
+
+  async purchaseGiftCard(purchase: GiftCardPurchase): Promise<GiftCard> {
+    await delay(300);
+    await this.ready;
+    const amount = roundMoney(Number(purchase.initialAmount));
+    if (!(amount >= GIFT_CARD_MIN && amount <= GIFT_CARD_MAX)) {
+      throw new BackendError(`Gift cards are available from €${GIFT_CARD_MIN} to €${GIFT_CARD_MAX}`, 400);
+    }
+    if (!purchase.purchaserEmail || !purchase.recipientEmail) throw new BackendError('Purchaser and recipient email are required', 400);
+
+    const authorized = await this.paymentProvider.getPayment(purchase.paymentId);
+    if (!authorized || authorized.status !== 'authorized') throw new BackendError('Payment has not been authorized', 402);
+    if (authorized.method !== 'credit_card' || authorized.reference !== purchase.reference || Math.abs(authorized.amount - amount) > PRICE_TOLERANCE) {
+      throw new BackendError('Payment does not match this gift card', 409);
+    }
+    const payment = await this.callProvider(() => this.paymentProvider.capture(authorized.id));
+
+    let code = generateGiftCardCode();
+    while (this.giftCards.some(c => c.code === code)) code = generateGiftCardCode();
+
+    const card = recordGiftCardTransaction({
+      id: `gc_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      code,
+      initialAmount: amount,
+      balance: 0,
+      purchaserName: purchase.purchaserName,
+      purchaserEmail: purchase.purchaserEmail,
+      recipientName: purchase.recipientName,
+      recipientEmail: purchase.recipientEmail,
+      ...(purchase.message ? { message: purchase.message } : {}),
+      createdAt: new Date().toISOString(),
+      paymentId: payment.id,
+      ledger: []
+    }, 'issue', amount, { note: `Purchased by ${purchase.purchaserEmail}` });
+    this.giftCards.unshift(card);
+    await this.saveGiftCards();
+    return card;
+  }
+
+  // Public: customers only learn the balance, not who bought the card or where it was spent
+  async getGiftCardBalance(code: string): Promise<{ code: string; balance: number }> {
+    await delay(400);
+    await this.ready;
+    const card = this.findGiftCard(code);
+    if (!card) throw new BackendError('Gift card not found', 404);
+    return { code: card.code, balance: card.balance };
+  }
+
+  async getGiftCards(): Promise<GiftCard[]> {
+    await delay(300);
+    await this.ready;
+    return [...this.giftCards];
   }
 
-  private saveProducts() {
-    localStorage.setItem(KEYS.PRODUCTS, JSON.stringify(this.products));
+  private findGiftCard(code: string) {
+    const normalized = normalizeGiftCardCode(code || '');
+    return this.giftCards.find(c => c.code.replace(/-/g, '') === normalized.replace(/-/g, ''));
+  }
+
+  // Checks how an order splits between a gift card and its payment method
+  private checkGiftCardPayment(order: Order, total: number): GiftCardPayment | undefined {
+    if (!order.giftCard) {
+      if (order.paymentMethod === 'gift_card') throw new BackendError('No gift card given', 400);
+      return undefined;
+    }
+
+    const card = this.findGiftCard(order.giftCard.code);
+    if (!card) throw new BackendError('Gift card not found', 404);
+    const amount = roundMoney(Number(order.giftCard.amount));
+    if (!(amount > 0) || amount > total) throw new BackendError('Invalid gift card amount', 400);
+    if (amount > card.balance) throw new BackendError(`Gift card balance is only €${card.balance.toFixed(2)}`, 409);
+
+    const remainder = roundMoney(total - amount);
+    if (remainder === 0 && order.paymentMethod !== 'gift_card') {
+      throw new BackendError('The gift card covers this order; no other payment is needed', 400);
+    }
+    if (remainder > 0 && order.paymentMethod !== 'credit_card' && order.paymentMethod !== 'paypal') {
+      throw new BackendError('The rest of a gift card order must be paid by card or PayPal', 400);
+    }
+    return { code: card.code, amount };
+  }
+
+  private async saveGiftCards() {
+    await this.storage.setItem(KEYS.GIFT_CARDS, JSON.stringify(this.giftCards));
+  }
+
+  // --- EXCHANGE RATES ---
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    await delay(200);
+    await this.ready;
+    return [...this.exchangeRates];
+  }
+
+  async updateExchangeRates(rates: Pick<ExchangeRate, 'currency' | 'rate'>[]): Promise<ExchangeRate[]> {
+    await delay(400);
+    await this.ready;
+    for (const { currency, rate } of rates) {
+      if (!isCurrencyCode(currency)) throw new BackendError(`Unknown currency ${currency}`, 400);
+      if (!(Number(rate) > 0)) throw new BackendError(`Rate for ${currency} must be a positive number`, 400);
+      if (currency === SETTLEMENT_CURRENCY && Number(rate) !== 1) throw new BackendError(`${SETTLEMENT_CURRENCY} is the settlement currency; its rate is always 1`, 400);
+    }
+
+    const now = new Date().toISOString();
+    const updated = rates.map(({ currency, rate }) => {
+      const current = this.exchangeRates.find(r => r.currency === currency);
+      return current && current.rate === Number(rate) ? current : { currency, rate: Number(rate), updatedAt: now };
+    });
+    this.exchangeRates = [
+      ...this.exchangeRates.filter(r => !updated.some(u => u.currency === r.currency)),
+      ...updated
+    ];
+    await this.saveExchangeRates();
+    return [...this.exchangeRates];
+  }
+
+  private async saveExchangeRates() {
+    await this.storage.setItem(KEYS.EXCHANGE_RATES, JSON.stringify(this.exchangeRates));
+  }
+
+  // --- PAYMENTS ---
+
+  async authorizePayment(request: PaymentRequest): Promise<PaymentIntent> {
+    await this.ready;
+    if (request.currency !== SETTLEMENT_CURRENCY) throw new BackendError(`Payments are taken in ${SETTLEMENT_CURRENCY}`, 400);
+    return this.callProvider(() => this.paymentProvider.authorize(request));
+  }
+
+  async completePaymentAction(paymentId: string, response: string): Promise<PaymentIntent> {
+    await this.ready;
+    return this.callProvider(() => this.paymentProvider.completeAction(paymentId, response));
+  }
+
+  // Keeps the order's copy of the payment in step with the gateway
+  async handlePaymentWebhook(payload: string, signature: string): Promise<void> {
+    await this.ready;
+    const event = await this.callProvider(async () => this.paymentProvider.verifyWebhook(payload, signature));
+    const index = this.orders.findIndex(o => o.payment?.id === event.payment.id);
+    if (index === -1) return; // Authorizations that never became an order
+
+    const current = this.orders[index].payment!;
+    if (current.updatedAt > event.payment.updatedAt) return; // Out-of-order delivery
+    this.orders[index] = { ...this.orders[index], payment: toOrderPayment(event.payment) };
+    await this.saveOrders();
+  }
+
+  private async callProvider<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (!(error instanceof PaymentError)) throw error;
+      const statuses: Record<PaymentErrorCode, number> = {
+        timeout: 504,
+        invalid_request: 400,
+        not_found: 404,
+        invalid_state: 409,
+        invalid_signature: 401,
+      };
+      throw new BackendError(error.message, statuses[error.code]);
+    }
+  }
+
+  // The authorization must be for this checkout (its reference) and exactly what is left after any gift card
+  private async checkProviderPayment(order: Order, amountDue: number): Promise<PaymentIntent | undefined> {
+    if (order.paymentMethod !== 'credit_card' && order.paymentMethod !== 'paypal') return undefined;
+    const payment = order.payment && await this.paymentProvider.getPayment(order.payment.id);
+    if (!payment || payment.status !== 'authorized') throw new BackendError('Payment has not been authorized', 402);
+    if (payment.method !== order.paymentMethod || payment.reference !== order.id) {
+      throw new BackendError('Payment belongs to a different order', 409);
+    }
+    if (payment.currency !== SETTLEMENT_CURRENCY || Math.abs(payment.amount - amountDue) > PRICE_TOLERANCE) {
+      throw new BackendError(`Authorized €${payment.amount.toFixed(2)} but the order needs €${amountDue.toFixed(2)}`, 409);
+    }
+    return payment;
   }
 
   // --- ORDER MANAGEMENT ---
 
-  async createOrder(order: Order): Promise<Order> {
+  async createOrder(order: Order, reservationId?: string, customerToken?: string): Promise<Order> {
     await delay(1500); // Simulate payment gateway processing
-    this.orders.unshift(order);
-    this.saveOrders();
-    return order;
+    await this.ready;
+    try {
+      return await this.placeOrder(order, reservationId, customerToken);
+    } catch (error) {
+      // Whichever check refused the order, release the hold so the customer is not left with blocked funds
+      await this.voidAuthorization(order);
+      throw error;
+    }
+  }
+
+  // Only an authorization made for this checkout is voided; a captured payment is left alone
+  private async voidAuthorization(order: Order) {
+    if (order.paymentMethod !== 'credit_card' && order.paymentMethod !== 'paypal') return;
+    const payment = order.payment && await this.paymentProvider.getPayment(order.payment.id).catch(() => undefined);
+    if (payment?.status === 'authorized' && payment.reference === order.id) {
+      await this.paymentProvider.void(payment.id).catch(() => undefined);
+    }
+  }
+
+  private async placeOrder(order: Order, reservationId?: string, customerToken?: string): Promise<Order> {
+    this.pruneReservations();
+    // Signed-in orders show up under My Orders; the account comes from the session, never from the order
+    const customer = customerToken ? this.requireCustomer(customerToken) : undefined;
+
+    // Prices come from the catalog, never from the submitted order
+    if (!EU_COUNTRIES.includes(order.shippingDetails?.country)) {
+      throw new BackendError(`We do not ship to ${order.shippingDetails?.country || 'this destination'}`, 400);
+    }
+    const { address: shippingDetails, errors: addressErrors } = validateAddress(order.shippingDetails, SHIPPING_REQUIRED_FIELDS);
+    if (hasAddressErrors(addressErrors)) {
+      throw new BackendError(`Please check the shipping details: ${describeAddressErrors(addressErrors, shippingDetails.country)}`, 400);
+    }
+    const items = this.resolveCartItems(order.items);
+    const promotions = this.resolvePromotions(order, items);
+    const pricing = calculatePricing({
+      lines: items,
+      country: order.shippingDetails.country,
+      shippingService: order.shippingMethod?.service,
+      promotions
+    });
+    if (!pricing.shipping) throw new BackendError('No carrier offers this shipping service to your destination', 400);
+    const mismatches = findPriceMismatches(order, pricing);
+    if (mismatches.length > 0) {
+      throw new BackendError(`Prices have changed: ${mismatches.join('; ')}. Please review your order.`, 409);
+    }
+
+    // Totals are always settled in EUR; the display rate must be the one the customer saw
+    const displayCurrency = order.displayCurrency || SETTLEMENT_CURRENCY;
+    const exchangeRate = getRate(this.exchangeRates, displayCurrency);
+    if (exchangeRate === undefined) throw new BackendError(`Unsupported currency ${displayCurrency}`, 400);
+    if (order.exchangeRate !== undefined && order.exchangeRate !== exchangeRate) {
+      throw new BackendError('Exchange rates have changed. Please review your order.', 409);
+    }
+
+    const giftCard = this.checkGiftCardPayment(order, pricing.total);
+    const authorized = await this.checkProviderPayment(order, roundMoney(pricing.total - (giftCard?.amount || 0)));
+
+    // Stock, promo uses and the gift card debit are taken before the capture, so a checkout for the
+    // same piece that is also waiting on the gateway sees them gone
+    const claim = this.claimOrderResources(order, items, pricing.total, pricing.promotions.map(a => a.code), reservationId);
+    let payment: PaymentIntent | undefined;
+    try {
+      if (authorized) payment = await this.callProvider(() => this.paymentProvider.capture(authorized.id));
+    } catch (error) {
+      await this.releaseOrderResources(claim);
+      throw error;
+    }
+
+    // The id and initial status are decided here, never by the client
+    const priced: Order = {
+      ...order,
+      id: claim.orderId,
+      shippingDetails, // Normalized postal code and E.164 phone
+      items,
+      subtotal: pricing.subtotal,
+      discount: pricing.discount,
+      promotions: pricing.promotions,
+      shippingCost: pricing.shippingCost,
+      shippingMethod: pricing.shipping,
+      duties: pricing.duties,
+      vat: pricing.vat,
+      total: pricing.total,
+      displayCurrency,
+      settlementCurrency: SETTLEMENT_CURRENCY,
+      exchangeRate,
+      ...(giftCard ? { giftCard } : {}),
+      payment: payment ? toOrderPayment(payment) : undefined, // Never trust a client-sent payment
+      customerId: customer?.id,
+      statusHistory: []
+    };
+    const newOrder = applyStatusChange(priced, getInitialStatus(order.paymentMethod), 'Order placed');
+    this.orders.unshift(newOrder);
+    this.pendingOrderIds.delete(newOrder.id);
+    await this.saveProducts();
+    await this.saveReservations();
+    await this.savePromotions();
+    await this.saveGiftCards();
+    await this.saveOrders();
+    return newOrder;
+  }
+
+  /**
+   * Re-checks stock, promo limits and the gift card balance and takes them in one synchronous step.
+   * Everything before this may have awaited, so the earlier checks only served to fail fast.
+   */
+  private claimOrderResources(order: Order, items: CartItem[], total: number, promoCodes: string[], reservationId?: string): OrderClaim {
+    this.pruneReservations();
+    const lines = toReservationLines(items);
+    // Check every line before touching stock so the order either takes all items or none.
+    // The order's own reservation (if still active) does not count against it.
+    const shortages = findShortages(this.products, lines, this.reservations, reservationId);
+    if (shortages.length > 0) throw new BackendError(describeShortages(shortages), 409);
+    this.resolvePromotions(order, items);
+    const giftCard = this.checkGiftCardPayment(order, total);
+
+    const orderId = this.assignOrderId();
+    const reservation = this.reservations.find(r => r.id === reservationId);
+    this.products = adjustStock(this.products, lines, -1);
+    this.reservations = this.reservations.filter(r => r !== reservation);
+    this.promotions = this.promotions.map(p => promoCodes.includes(p.code) ? { ...p, usageCount: p.usageCount + 1 } : p);
+    if (giftCard) {
+      this.giftCards = this.giftCards.map(c => c.code === giftCard.code
+        ? recordGiftCardTransaction(c, 'redeem', -giftCard.amount, { orderId })
+        : c);
+    }
+    return { orderId, lines, reservation, promoCodes, giftCard };
+  }
+
+  // Gives back what claimOrderResources took when the payment could not be captured or the order is cancelled
+  private async releaseOrderResources(claim: OrderClaim, note = 'Card payment failed') {
+    this.pendingOrderIds.delete(claim.orderId);
+    this.products = adjustStock(this.products, claim.lines, 1);
+    if (claim.reservation && isReservationActive(claim.reservation)) this.reservations.push(claim.reservation);
+    this.promotions = this.promotions.map(p => claim.promoCodes.includes(p.code) ? { ...p, usageCount: Math.max(0, p.usageCount - 1) } : p);
+    const { giftCard } = claim;
+    if (giftCard) {
+      this.giftCards = this.giftCards.map(c => c.code === giftCard.code
+        ? recordGiftCardTransaction(c, 'refund', giftCard.amount, { orderId: claim.orderId, note })
+        : c);
+    }
+    await this.saveProducts();
+    await this.saveReservations();
+    await this.savePromotions();
+    await this.saveGiftCards();
+  }
+
+  // What a placed order still holds: units and gift card money not already given back by a refund
+  private toOrderClaim(order: Order): OrderClaim {
+    const unrefunded = order.items
+      .map(item => ({ ...item, quantity: item.quantity - getRefundedQuantity(order, getCartLineId(item)) }))
+      .filter(item => item.quantity > 0);
+    const giftCardLeft = order.giftCard ? roundMoney(order.giftCard.amount - getAllocated(order, 'gift_card')) : 0;
+    return {
+      orderId: order.id,
+      lines: toReservationLines(unrefunded),
+      promoCodes: (order.promotions || []).map(a => a.code),
+      giftCard: order.giftCard && giftCardLeft > 0 ? { code: order.giftCard.code, amount: giftCardLeft } : undefined,
+    };
+  }
+
+  // Order references customers quote on bank transfers, returns and reviews; never reused
+  private assignOrderId(): string {
+    let id = generateOrderId();
+    while (this.orders.some(o => o.id === id) || this.pendingOrderIds.has(id)) id = generateOrderId();
+    this.pendingOrderIds.add(id);
+    return id;
+  }
+
+  // Codes the customer entered must still exist and apply; a silently dropped code would change the total
+  // Each code is counted once against its usage limit, so the same code twice is refused rather than merged
+  private resolvePromotions(order: Order, items: CartItem[]): Promotion[] {
+    const codes = (order.promotions || []).map(applied => normalizePromoCode(applied.code || ''));
+    const repeated = codes.find((code, i) => codes.indexOf(code) !== i);
+    if (repeated !== undefined) throw new BackendError(`${repeated}: This code is already applied`, 400);
+    if (codes.length > MAX_PROMO_CODES_PER_ORDER) throw new BackendError('Only one promo code can be used per order', 400);
+    return codes.map(code => {
+      const promotion = this.findPromotion(code);
+      const issue = promotion ? getPromotionIssue(promotion, items) : 'inactive';
+      if (issue) throw new BackendError(`${code}: ${PROMOTION_ISSUE_MESSAGES[issue]}`, 409);
+      return promotion!;
+    });
+  }
+
+  // Rebuilds submitted cart lines from the current catalog (price, variant, stock)
+  private resolveCartItems(submitted: CartItem[]): CartItem[] {
+    if (!Array.isArray(submitted) || submitted.length === 0) throw new BackendError('Order has no items', 400);
+    return submitted.map(item => {
+      const product = this.products.find(p => p.id === item.id);
+      const variant = item.variant ? product?.variants?.find(v => v.id === item.variant!.id) : undefined;
+      if (!product || (item.variant ? !variant : hasVariants(product))) {
+        throw new BackendError(`${item.name || item.id} is no longer available`, 409);
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+        throw new BackendError(`Invalid quantity for ${product.name}`, 400);
+      }
+      return toCartItem(product, variant, item.quantity);
+    });
   }
 
   async getOrders(): Promise<Order[]> {
     await delay(500);
+    await this.ready;
     return [...this.orders];
   }
 
+  async updateOrderStatus(id: string, status: OrderStatus, note?: string): Promise<Order> {
+    await delay(400);
+    await this.ready;
+    // Queued with refunds, so a cancellation never gives back what a refund is also returning
+    return this.queueForOrder(id, () => this.changeOrderStatus(id, status, note));
+  }
+
+  private async changeOrderStatus(id: string, status: OrderStatus, note?: string): Promise<Order> {
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index === -1) throw new BackendError('Order not found', 404);
+
+    const order = this.orders[index];
+    if (!canTransition(order.status, status)) {
+      throw new BackendError(`Cannot move order from ${ORDER_STATUS_LABELS[order.status]} to ${ORDER_STATUS_LABELS[status]}`, 409);
+    }
+    // The money has to go back first; refundOrder moves the order once nothing is left
+    if (status === 'refunded' && getRefundableAmount(order) > PRICE_TOLERANCE) {
+      throw new BackendError(`€${getRefundableAmount(order).toFixed(2)} has not been refunded yet`, 409);
+    }
+
+    const updated = applyStatusChange(order, status, note);
+    this.orders[index] = updated;
+    // A cancelled order gives back its stock, promo code uses and gift card debit
+    if (status === 'cancelled') await this.releaseOrderResources(this.toOrderClaim(order), note || 'Order cancelled');
+    await this.saveOrders();
+    return updated;
+  }
+
+  // Pays money back through the order's payment methods, restocks refunded lines and keeps a refund record
+  async refundOrder(id: string, request: RefundRequest): Promise<Order> {
+    await delay(400);
+    await this.ready;
+    // One refund per order at a time, so each one quotes against the refunds before it
+    return this.queueForOrder(id, () => this.issueRefund(id, request));
+  }
+
+  private async issueRefund(id: string, request: RefundRequest): Promise<Order> {
+    const order = this.orders.find(o => o.id === id);
+    if (!order) throw new BackendError('Order not found', 404);
+    if (['pending_payment', 'cancelled', 'refunded'].includes(order.status)) {
+      throw new BackendError(`${ORDER_STATUS_LABELS[order.status]} orders have nothing to refund`, 409);
+    }
+    if (!request.reason?.trim()) throw new BackendError('A refund needs a reason', 400);
+    if (!request.issuedBy?.trim()) throw new BackendError('Say who is issuing the refund', 400);
+
+    let quote: RefundQuote;
+    let allocations: RefundAllocation[];
+    try {
+      quote = quoteRefund(order, request);
+      if (quote.amount <= 0) throw new Error('Nothing is left to refund on this order');
+      allocations = allocateRefund(order, quote.amount);
+    } catch (error) {
+      throw new BackendError(error instanceof Error ? error.message : 'Invalid refund', 400);
+    }
+
+    // The gateway goes first: if it refuses, nothing else has changed
+    let payment = order.payment;
+    const gatewayShare = allocations.find(a => a.method === 'credit_card' || a.method === 'paypal');
+    if (gatewayShare && payment) {
+      const paymentId = payment.id;
+      payment = toOrderPayment(await this.callProvider(() => this.paymentProvider.refund(paymentId, gatewayShare.amount)));
+    }
+    // Other changes (status, shipments, new orders shifting the list) may have landed during the gateway call
+    const index = this.orders.findIndex(o => o.id === id);
+    if (index === -1) throw new BackendError('Order not found', 404);
+    const current = this.orders[index];
+    const giftCardShare = allocations.find(a => a.method === 'gift_card');
+    if (giftCardShare) {
+      this.giftCards = this.giftCards.map(c => c.code === giftCardShare.reference
+        ? recordGiftCardTransaction(c, 'refund', giftCardShare.amount, { orderId: id, note: request.reason.trim() })
+        : c);
+    }
+
+    const refund: Refund = {
+      id: `ref_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      date: new Date().toISOString(),
+      scope: request.scope,
+      amount: quote.amount,
+      reason: request.reason.trim(),
+      issuedBy: request.issuedBy.trim(),
+      lines: quote.lines,
+      shipping: quote.shipping,
+      allocations,
+    };
+    let updated: Order = { ...current, ...(payment ? { payment } : {}), refunds: [...(current.refunds || []), refund] };
+    this.products = adjustStock(this.products, toRestockLines(current, quote.lines), 1);
+
+    // A fully refunded order frees its promo code uses again
+    if (getRefundableAmount(updated) <= PRICE_TOLERANCE) {
+      this.promotions = this.promotions.map(p =>
+        current.promotions?.some(a => a.code === p.code) ? { ...p, usageCount: Math.max(0, p.usageCount - 1) } : p
+      );
+      if (canTransition(updated.status, 'refunded')) {
+        updated = applyStatusChange(updated, 'refunded', `Refunded €${getRefundedAmount(updated).toFixed(2)}: ${refund.reason}`);
+      }
+    }
+    this.orders[index] = updated;
+
+    await this.saveProducts();
+    await this.savePromotions();
+    await this.saveGiftCards();
+    await this.saveOrders();
+    return updated;
+  }
+
+  // Runs `task` once every earlier task for the same order has settled
+  private queueForOrder<T>(orderId: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.orderQueues.get(orderId) || Promise.resolve()).catch(() => undefined).then(task);
+    this.orderQueues.set(orderId, next);
+    next.catch(() => undefined).then(() => {
+      if (this.orderQueues.get(orderId) === next) this.orderQueues.delete(orderId);
+    });
+    return next;
+  }
+
+  // Accepts a CSV export or camt.053 XML file and applies its credits to bank transfer orders
+  async importBankStatement(content: string): Promise<ReconciliationResult[]> {
+    await delay(600);
+    await this.ready;
+    let lines: BankStatementLine[];
+    try {
+      lines = parseBankStatement(content);
+    } catch (error) {
+      throw new BackendError(error instanceof Error ? error.message : 'Could not read the bank statement', 400);
+    }
+    const { results, orders } = reconcileStatement(lines, this.orders);
+    this.orders = orders;
+    await this.saveOrders();
+    return results;
+  }
+
+  // Hands a parcel to a carrier; the label event starts the tracking timeline
+  async addShipment(orderId: string, shipment: Pick<Shipment, 'carrier' | 'trackingNumber'>): Promise<Order> {
+    await delay(400);
+    await this.ready;
+    const index = this.orders.findIndex(o => o.id === orderId);
+    if (index === -1) throw new BackendError('Order not found', 404);
+    const order = this.orders[index];
+    if (!['paid', 'processing', 'shipped'].includes(order.status)) {
+      throw new BackendError(`${ORDER_STATUS_LABELS[order.status]} orders cannot be shipped`, 409);
+    }
+    const carrier = shipment.carrier?.trim();
+    const trackingNumber = normalizeTrackingNumber(shipment.trackingNumber || '');
+    if (!carrier || !trackingNumber) throw new BackendError('A shipment needs a carrier and a tracking number', 400);
+    if (this.orders.some(o => o.shipments?.some(s => normalizeTrackingNumber(s.trackingNumber) === trackingNumber))) {
+      throw new BackendError(`Tracking number ${trackingNumber} is already in use`, 409);
+    }
+
+    const now = new Date().toISOString();
+    const created: Shipment = {
+      id: `shp_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      carrier,
+      trackingNumber,
+      createdAt: now,
+      events: [createShipmentEvent({ date: now, status: 'label_created' })],
+    };
+    this.orders[index] = syncOrderWithShipments({ ...order, shipments: [...(order.shipments || []), created] });
+    await this.saveOrders();
+    return this.orders[index];
+  }
+
+  async addShipmentEvent(orderId: string, shipmentId: string, event: Omit<ShipmentEvent, 'id'>): Promise<Order> {
+    await delay(400);
+    await this.ready;
+    const index = this.orders.findIndex(o => o.id === orderId);
+    if (index === -1) throw new BackendError('Order not found', 404);
+    const order = this.orders[index];
+    const shipment = order.shipments?.find(s => s.id === shipmentId);
+    if (!shipment) throw new BackendError('Shipment not found', 404);
+    if (!SHIPMENT_EVENT_STATUSES.includes(event.status)) throw new BackendError('Unknown shipment status', 400);
+    const date = event.date ? new Date(event.date) : new Date();
+    if (Number.isNaN(date.getTime())) throw new BackendError('Invalid event date', 400);
+    const input = { ...event, date: date.toISOString() };
+    if (hasShipmentEvent(shipment, input)) throw new BackendError('This event is already on the timeline', 409);
+
+    const updated = addEventToShipment(shipment, createShipmentEvent(input));
+    this.orders[index] = syncOrderWithShipments({ ...order, shipments: order.shipments!.map(s => s.id === shipmentId ? updated : s) });
+    await this.saveOrders();
+    return this.orders[index];
+  }
+
+  // Applies a carrier's scan export to the matching shipments; re-importing the same file adds nothing
+  async importCarrierEvents(content: string): Promise<CarrierEventImportResult[]> {
+    await delay(600);
+    await this.ready;
+    let rows: CarrierEventRow[];
+    try {
+      rows = parseCarrierEvents(content);
+    } catch (error) {
+      throw new BackendError(error instanceof Error ? error.message : 'Could not read the carrier file', 400);
+    }
+    const { results, orders } = applyCarrierEvents(rows, this.orders);
+    this.orders = orders;
+    await this.saveOrders();
+    return results;
+  }
+
+  // Customers identify an order by its number plus the email it was placed with
+  private findCustomerOrder(orderId: string, email: string): Order {
+    const order = this.orders.find(o => o.id === orderId?.trim().toUpperCase());
+    if (!order || normalizeEmail(order.shippingDetails.email || '') !== normalizeEmail(email || '')) {
+      throw new BackendError('No order matches that number and email', 404);
+    }
+    return order;
+  }
+
+  async trackOrder(orderId: string, email: string): Promise<OrderTracking> {
+    await delay(400);
+    await this.ready;
+    const order = this.findCustomerOrder(orderId, email);
+    return { orderId: order.id, status: order.status, date: order.date, shipments: order.shipments || [] };
+  }
+
   async clearOrders(): Promise<void> {
     await delay(300);
+    await this.ready;
     this.orders = [];
-    this.saveOrders();
+    await this.saveOrders();
+  }
+
+  private async saveOrders() {
+    await this.storage.setItem(KEYS.ORDERS, JSON.stringify(this.orders));
+  }
+
+  // --- RETURNS ---
+
+  async getReturnableOrder(orderId: string, email: string): Promise<ReturnableOrder> {
+    await delay(400);
+    await this.ready;
+    const order = this.findCustomerOrder(orderId, email);
+    const returns = this.returns.filter(r => r.orderId === order.id);
+    return {
+      orderId: order.id,
+      ...(getReturnDeadline(order) ? { returnBy: getReturnDeadline(order)!.toISOString() } : {}),
+      lines: order.items.map(item => ({
+        lineId: getCartLineId(item),
+        name: item.name,
+        imageUrl: item.imageUrl,
+        ...(item.variant ? { variantLabel: describeVariant(item.variant) } : {}),
+        returnable: getReturnableQuantity(order, this.returns, item),
+        exchangeOptions: getExchangeOptions(this.products.find(p => p.id === item.id), item),
+      })),
+      returns,
+    };
+  }
+
+  async requestReturn(request: ReturnRequest): Promise<ReturnAuthorization> {
+    await delay(600);
+    await this.ready;
+    const order = this.findCustomerOrder(request.orderId, request.email);
+    const deadline = getReturnDeadline(order);
+    if (order.status !== 'delivered' || !deadline) throw new BackendError('Returns open once your order has been delivered', 409);
+    if (deadline.getTime() < Date.now()) throw new BackendError(`The ${RETURN_WINDOW_DAYS}-day return window for this order has closed`, 409);
+
+    const requested = (request.lines || []).filter(l => l.quantity > 0);
+    if (requested.length === 0) throw new BackendError('Choose at least one item to return', 400);
+    const lines = requested.map(line => {
+      const item = order.items.find(i => getCartLineId(i) === line.lineId);
+      if (!item) throw new BackendError('That item is not on this order', 400);
+      const returnable = getReturnableQuantity(order, this.returns, item);
+      if (!Number.isInteger(line.quantity) || line.quantity > returnable) {
+        throw new BackendError(`Only ${returnable} of ${item.name} can be returned`, 409);
+      }
+      const exchange = request.resolution === 'exchange'
+        ? getExchangeOptions(this.products.find(p => p.id === item.id), item).find(o => o.variantId === line.exchangeVariantId)
+        : undefined;
+      if (request.resolution === 'exchange' && !exchange) {
+        throw new BackendError(`${item.name} cannot be exchanged for that option`, 409);
+      }
+      return {
+        lineId: line.lineId,
+        name: item.name,
+        quantity: line.quantity,
+        reason: line.reason || 'other',
+        ...(exchange ? { exchangeVariantId: exchange.variantId, exchangeLabel: exchange.label } : {}),
+      };
+    });
+
+    const rma: ReturnAuthorization = applyReturnStatus({
+      id: generateRmaNumber(),
+      orderId: order.id,
+      email: normalizeEmail(request.email),
+      createdAt: new Date().toISOString(),
+      status: 'requested',
+      resolution: request.resolution === 'exchange' ? 'exchange' : 'refund',
+      lines,
+      ...(request.comment?.trim() ? { comment: request.comment.trim() } : {}),
+      statusHistory: [],
+    }, 'requested');
+    this.returns.unshift(rma);
+    await this.saveReturns();
+    return rma;
   }
 
-  private saveOrders() {
-    localStorage.setItem(KEYS.ORDERS, JSON.stringify(this.orders));
+  async getReturns(): Promise<ReturnAuthorization[]> {
+    await delay(400);
+    await this.ready;
+    return [...this.returns];
+  }
+
+  // Refunding goes through refundOrder; an exchange restocks the returned units and ships the new variant as a free replacement order
+  async updateReturnStatus(id: string, status: ReturnStatus, details: { note?: string; issuedBy?: string } = {}): Promise<ReturnAuthorization> {
+    await delay(400);
+    await this.ready;
+    let rma = this.returns.find(r => r.id === id);
+    if (!rma) throw new BackendError('Return not found', 404);
+    if (!canTransitionReturn(rma.status, status)) {
+      throw new BackendError(`Cannot move return from ${RETURN_STATUS_LABELS[rma.status]} to ${RETURN_STATUS_LABELS[status]}`, 409);
+    }
+    if ((status === 'refunded' || status === 'exchanged') && rma.resolution !== (status === 'refunded' ? 'refund' : 'exchange')) {
+      throw new BackendError(`The customer asked for ${rma.resolution === 'refund' ? 'a refund' : 'an exchange'}`, 409);
+    }
+    if (status === 'refunded' && !details.issuedBy?.trim()) throw new BackendError('Say who is issuing the refund', 400);
+
+    const startedFrom = rma.status;
+    if (status === 'refunded') {
+      const refunded = await this.refundOrder(rma.orderId, {
+        scope: 'lines',
+        lines: rma.lines.map(l => ({ lineId: l.lineId, quantity: l.quantity })),
+        reason: `Return ${rma.id}`,
+        issuedBy: details.issuedBy!,
+      });
+      rma = { ...rma, refundId: refunded.refunds!.at(-1)!.id };
+    }
+    if (status === 'exchanged') {
+      rma = { ...rma, exchangeOrderId: await this.createExchangeOrder(rma) };
+    }
+
+    // New requests may have shifted the list, or another update moved this return, while the refund or exchange ran
+    const index = this.returns.findIndex(r => r.id === id);
+    if (index === -1) throw new BackendError('Return not found', 404);
+    const current = this.returns[index];
+    if (current.status !== startedFrom) {
+      throw new BackendError(`Return was moved to ${RETURN_STATUS_LABELS[current.status]} in the meantime`, 409);
+    }
+    rma = applyReturnStatus({ ...current, refundId: rma.refundId, exchangeOrderId: rma.exchangeOrderId }, status, details.note?.trim() || undefined);
+    this.returns[index] = rma;
+    await this.saveReturns();
+    return rma;
+  }
+
+  private async createExchangeOrder(rma: ReturnAuthorization): Promise<string> {
+    const order = this.orders.find(o => o.id === rma.orderId);
+    if (!order) throw new BackendError('Order not found', 404);
+
+    const returned = rma.lines.map(line => order.items.find(i => getCartLineId(i) === line.lineId)!);
+    const items = rma.lines.map((line, i) => {
+      const product = this.products.find(p => p.id === returned[i].id);
+      const variant = product?.variants?.find(v => v.id === line.exchangeVariantId);
+      if (!product || !variant) throw new BackendError(`${line.name} ${line.exchangeLabel || ''} is no longer available`, 409);
+      return toCartItem(product, variant, line.quantity);
+    });
+    const lines = toReservationLines(items);
+    const shortages = findShortages(this.products, lines, this.reservations);
+    if (shortages.length > 0) throw new BackendError(describeShortages(shortages), 409);
+
+    this.products = adjustStock(this.products, returned.map((item, i) => ({
+      productId: item.id,
+      ...(item.variant ? { variantId: item.variant.id } : {}),
+      quantity: rma.lines[i].quantity,
+    })), 1);
+    this.products = adjustStock(this.products, lines, -1);
+
+    // Already paid for, so the replacement carries no charges and no VAT of its own
+    const replacement = applyStatusChange({
+      id: `${order.id}-X${this.orders.filter(o => o.id.startsWith(`${order.id}-X`)).length + 1}`,
+      date: new Date().toISOString(),
+      items,
+      subtotal: 0,
+      discount: 0,
+      promotions: [],
+      shippingCost: 0,
+      ...(order.shippingMethod ? { shippingMethod: order.shippingMethod } : {}),
+      duties: 0,
+      total: 0,
+      settlementCurrency: order.settlementCurrency,
+      shippingDetails: order.shippingDetails,
+      paymentMethod: order.paymentMethod,
+      language: order.language,
+      status: 'paid',
+      statusHistory: [],
+    }, 'paid', `Exchange for ${rma.id}`);
+    this.orders.unshift(replacement);
+    await this.saveProducts();
+    await this.saveOrders();
+    return replacement.id;
+  }
+
+  private async saveReturns() {
+    await this.storage.setItem(KEYS.RETURNS, JSON.stringify(this.returns));
+  }
+
+  // --- CUSTOMER ACCOUNTS ---
+
+  async registerCustomer(registration: CustomerRegistration): Promise<CustomerSession> {
+    await delay(500);
+    await this.ready;
+    const email = normalizeEmail(registration.email || '');
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new BackendError('Enter a valid email address', 400);
+    const passwordIssue = getPasswordIssue(registration.password);
+    if (passwordIssue) throw new BackendError(passwordIssue, 400);
+    if (!registration.firstName?.trim() || !registration.lastName?.trim()) throw new BackendError('Enter your first and last name', 400);
+    if (findCustomerByEmail(this.customers, email)) throw new BackendError('An account with this email already exists', 409);
+
+    const account: StoredCustomer = {
+      id: `cus_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      email,
+      firstName: registration.firstName.trim(),
+      lastName: registration.lastName.trim(),
+      createdAt: new Date().toISOString(),
+      addresses: [],
+      ...(await hashPassword(registration.password)),
+    };
+    this.customers.push(account);
+    await this.saveCustomers();
+    return this.startCustomerSession(account);
+  }
+
+  async loginCustomer(email: string, password: string): Promise<CustomerSession> {
+    await delay(500); // Prevent brute force
+    await this.ready;
+    const account = findCustomerByEmail(this.customers, email);
+    // One message for both cases, so the form cannot be used to find out who has an account
+    if (!account || !(await verifyPassword(password || '', account))) {
+      throw new BackendError('Incorrect email or password', 401);
+    }
+    return this.startCustomerSession(account);
+  }
+
+  async logoutCustomer(token: string): Promise<void> {
+    await delay(200);
+    await this.ready;
+    this.customerSessions = this.customerSessions.filter(session => session.token !== token);
+    await this.saveCustomerSessions();
+  }
+
+  async getCustomer(token: string): Promise<Customer> {
+    await delay(200);
+    await this.ready;
+    return toPublicCustomer(this.requireCustomer(token));
+  }
+
+  async updateCustomer(token: string, updates: Partial<Pick<Customer, 'firstName' | 'lastName' | 'phone'>>): Promise<Customer> {
+    await delay(400);
+    await this.ready;
+    const account = this.requireCustomer(token);
+    const firstName = updates.firstName?.trim() ?? account.firstName;
+    const lastName = updates.lastName?.trim() ?? account.lastName;
+    if (!firstName || !lastName) throw new BackendError('Enter your first and last name', 400);
+    const phone = updates.phone?.trim() ?? account.phone;
+    return this.replaceCustomer({ ...account, firstName, lastName, phone: phone || undefined });
+  }
+
+  // Adds an address, or replaces the one with the same id
+  async saveCustomerAddress(token: string, address: Omit<SavedAddress, 'id'> & { id?: string }): Promise<Customer> {
+    await delay(400);
+    await this.ready;
+    const account = this.requireCustomer(token);
+    if (!EU_COUNTRIES.includes(address.country)) throw new BackendError(`We do not ship to ${address.country}`, 400);
+    const { address: checked, errors } = validateAddress(address, SAVED_ADDRESS_REQUIRED_FIELDS);
+    if (hasAddressErrors(errors)) throw new BackendError(`Please check the address: ${describeAddressErrors(errors, address.country)}`, 400);
+    if (address.id && !account.addresses.some(a => a.id === address.id)) throw new BackendError('Address not found', 404);
+
+    const saved: SavedAddress = { ...checked, id: address.id || `adr_${Date.now()}_${Math.floor(Math.random() * 1000)}` };
+    const addresses = address.id
+      ? account.addresses.map(a => a.id === address.id ? saved : a)
+      : [...account.addresses, saved];
+    // The first address saved becomes the default
+    return this.replaceCustomer({ ...account, addresses, defaultAddressId: account.defaultAddressId || saved.id });
+  }
+
+  async deleteCustomerAddress(token: string, addressId: string): Promise<Customer> {
+    await delay(300);
+    await this.ready;
+    const account = this.requireCustomer(token);
+    if (!account.addresses.some(a => a.id === addressId)) throw new BackendError('Address not found', 404);
+    const addresses = account.addresses.filter(a => a.id !== addressId);
+    // Removing the default hands the role to the oldest remaining address
+    const defaultAddressId = account.defaultAddressId === addressId ? addresses[0]?.id : account.defaultAddressId;
+    return this.replaceCustomer({ ...account, addresses, defaultAddressId });
+  }
+
+  async setDefaultCustomerAddress(token: string, addressId: string): Promise<Customer> {
+    await delay(300);
+    await this.ready;
+    const account = this.requireCustomer(token);
+    if (!account.addresses.some(a => a.id === addressId)) throw new BackendError('Address not found', 404);
+    return this.replaceCustomer({ ...account, defaultAddressId: addressId });
+  }
+
+  async getCustomerOrders(token: string): Promise<Order[]> {
+    await delay(400);
+    await this.ready;
+    const account = this.requireCustomer(token);
+    return this.orders
+      .filter(o => o.customerId === account.id)
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }
+
+  private requireCustomer(token: string): StoredCustomer {
+    const session = this.customerSessions.find(s => s.token === token && isSessionActive(s));
+    const account = session && this.customers.find(c => c.id === session.customerId);
+    if (!account) throw new BackendError('Your session has expired. Please sign in again.', 401);
+    return account;
+  }
+
+  private async startCustomerSession(account: StoredCustomer): Promise<CustomerSession> {
+    const session: CustomerSessionRecord = {
+      token: generateSessionToken(),
+      customerId: account.id,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    };
+    this.customerSessions = [...this.customerSessions.filter(s => isSessionActive(s)), session];
+    await this.saveCustomerSessions();
+    return { token: session.token, expiresAt: session.expiresAt, customer: toPublicCustomer(account) };
+  }
+
+  private async replaceCustomer(account: StoredCustomer): Promise<Customer> {
+    this.customers = this.customers.map(c => c.id === account.id ? account : c);
+    await this.saveCustomers();
+    return toPublicCustomer(account);
+  }
+
+  private async saveCustomers() {
+    await this.storage.setItem(KEYS.CUSTOMERS, JSON.stringify(this.customers));
+  }
+
+  private async saveCustomerSessions() {
+    await this.storage.setItem(KEYS.CUSTOMER_SESSIONS, JSON.stringify(this.customerSessions));
+  }
+
+  // --- WISHLISTS ---
+
+  // The signed-in customer's list, else this device's list. Either is created on first use.
+  async getWishlist(wishlistId: string | null, customerToken?: string): Promise<Wishlist> {
+    await delay(200);
+    await this.ready;
+    const customer = customerToken ? this.requireCustomer(customerToken) : undefined;
+    // Only anonymous lists are reachable by id; after signing out the device starts a fresh one
+    const deviceList = wishlistId ? this.wishlists.find(w => w.id === wishlistId && !w.customerId) : undefined;
+    const ownList = customer && this.wishlists.find(w => w.customerId === customer.id);
+
+    if (!customer && deviceList) return deviceList;
+    if (ownList && !deviceList) return ownList;
+
+    let wishlist: Wishlist;
+    if (ownList && deviceList) {
+      // Pieces saved before signing in move into the account's list
+      wishlist = { ...ownList, productIds: mergeWishlistItems(ownList.productIds, deviceList.productIds), updatedAt: new Date().toISOString() };
+    } else if (deviceList) {
+      wishlist = { ...deviceList, customerId: customer!.id, updatedAt: new Date().toISOString() };
+    } else {
+      wishlist = createWishlist([], customer?.id);
+    }
+    this.wishlists = [...this.wishlists.filter(w => w.id !== wishlist.id && w.id !== deviceList?.id), wishlist];
+    await this.saveWishlists();
+    return wishlist;
+  }
+
+  async updateWishlist(wishlistId: string, productIds: string[], customerToken?: string): Promise<Wishlist> {
+    await delay(200);
+    await this.ready;
+    const existing = this.wishlists.find(w => w.id === wishlistId);
+    if (!existing) throw new BackendError('Wishlist not found', 404);
+    if (existing.customerId) {
+      const customer = customerToken ? this.requireCustomer(customerToken) : undefined;
+      if (customer?.id !== existing.customerId) throw new BackendError('Please sign in to change this wishlist', 403);
+    }
+
+    // Products removed from the catalog simply drop out
+    const known = mergeWishlistItems(productIds || []).filter(id => this.products.some(p => p.id === id));
+    const wishlist: Wishlist = { ...existing, productIds: known, updatedAt: new Date().toISOString() };
+    this.wishlists = this.wishlists.map(w => w.id === wishlistId ? wishlist : w);
+    await this.saveWishlists();
+    return wishlist;
+  }
+
+  async getSharedWishlist(shareId: string): Promise<SharedWishlist> {
+    await delay(300);
+    await this.ready;
+    const wishlist = this.wishlists.find(w => w.shareId === shareId);
+    if (!wishlist) throw new BackendError('Wishlist not found', 404);
+    const owner = wishlist.customerId ? this.customers.find(c => c.id === wishlist.customerId) : undefined;
+    return {
+      ownerName: owner?.firstName,
+      products: wishlist.productIds
+        .map(id => this.products.find(p => p.id === id))
+        .filter((p): p is Product => !!p),
+      updatedAt: wishlist.updatedAt,
+    };
+  }
+
+  private async saveWishlists() {
+    await this.storage.setItem(KEYS.WISHLISTS, JSON.stringify(this.wishlists));
+  }
+
+  // --- REVIEWS ---
+
+  async submitReview(submission: ReviewSubmission): Promise<Review> {
+    await delay(600);
+    await this.ready;
+    const order = this.findCustomerOrder(submission.orderId, submission.email);
+    const issue = getReviewIssue(submission, order);
+    if (issue) throw new BackendError(issue, 400);
+    if (hasReviewed(this.reviews, order.id, submission.productId)) {
+      throw new BackendError('You have already reviewed this piece for this order', 409);
+    }
+    // A full store would make the next order fail to save, so photos are refused once the cap is reached
+    if (getStoredPhotoLength(this.reviews) + getStoredPhotoLength([submission]) > REVIEW_PHOTO_STORAGE_LIMIT) {
+      throw new BackendError('There is no room for more review photos at the moment. Please submit your review without photos.', 409);
+    }
+
+    const review: Review = {
+      id: `rev_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      productId: submission.productId,
+      orderId: order.id,
+      authorName: getReviewAuthorName(order),
+      rating: submission.rating,
+      text: submission.text.trim(),
+      language: submission.language,
+      photos: submission.photos || [],
+      createdAt: new Date().toISOString(),
+      status: 'pending', // Nothing is published before a moderator has seen it
+    };
+    this.reviews.unshift(review);
+    await this.saveReviews();
+    return review;
+  }
+
+  async getProductReviews(productId: string): Promise<Review[]> {
+    await delay(300);
+    await this.ready;
+    return this.reviews.filter(r => r.productId === productId && r.status === 'approved');
+  }
+
+  async getRatingSummaries(): Promise<Record<string, RatingSummary>> {
+    await delay(200);
+    await this.ready;
+    return summarizeRatings(this.reviews);
+  }
+
+  async getReviews(): Promise<Review[]> {
+    await delay(300);
+    await this.ready;
+    return [...this.reviews];
+  }
+
+  // Approve, reject and/or reply; an empty reply removes the shop's answer
+  async moderateReview(id: string, decision: { status?: ReviewStatus; reply?: string }): Promise<Review> {
+    await delay(300);
+    await this.ready;
+    const existing = this.reviews.find(r => r.id === id);
+    if (!existing) throw new BackendError('Review not found', 404);
+    if (decision.status !== undefined && !Object.hasOwn(REVIEW_STATUS_LABELS, decision.status)) {
+      throw new BackendError(`Unknown review status "${decision.status}"`, 400);
+    }
+
+    const updated: Review = { ...existing };
+    if (decision.status && decision.status !== existing.status) {
+      updated.status = decision.status;
+      updated.moderatedAt = new Date().toISOString();
+    }
+    if (decision.reply !== undefined) {
+      updated.reply = decision.reply.trim() ? { text: decision.reply.trim(), date: new Date().toISOString() } : undefined;
+    }
+    this.reviews = this.reviews.map(r => r.id === id ? updated : r);
+    await this.saveReviews();
+    return updated;
+  }
+
+  private async saveReviews() {
+    await this.storage.setItem(KEYS.REVIEWS, JSON.stringify(this.reviews));
   }
 
   // --- NEWSLETTER ---
 
   async addSubscriber(email: string): Promise<void> {
       await delay(500);
+      await this.ready;
       if (!this.subscribers.includes(email)) {
           this.subscribers.unshift(email);
-          this.saveSubscribers();
+          await this.saveSubscribers();
       }
   }
 
   async getSubscribers(): Promise<string[]> {
       await delay(300);
+      await this.ready;
       return [...this.subscribers];
   }
 
-  private saveSubscribers() {
-      localStorage.setItem(KEYS.SUBSCRIBERS, JSON.stringify(this.subscribers));
+  private async saveSubscribers() {
+      await this.storage.setItem(KEYS.SUBSCRIBERS, JSON.stringify(this.subscribers));
   }
 
   // --- AUTHENTICATION ---
@@ -133,5 +1719,3 @@ class BackendService {
       return pin === '1234';
   }
 }
-
-export const backend = new BackendService();
@@ -0,0 +1,10 @@
+import { Backend, BackendService } from './backend';
+import { HttpBackendService } from './httpBackend';
+import { createStorageAdapter } from './storage';
+
+// The app's backend, built once in the browser. It lives apart from backend.ts so the
+// mock server can import BackendService without creating a second, browser-side instance.
+// API_URL switches the app to the REST backend (e.g. "/api" with `npm run mock-api`)
+export const backend: Backend = process.env.API_URL
+  ? new HttpBackendService(process.env.API_URL)
+  : new BackendService(createStorageAdapter());
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { BankStatementLine, Order } from '../types';
+import { detectStatementFormat, getBankTransferDue, parseBankStatement, parseCamt053, parseCsvStatement, parseStatementAmount, reconcileStatement } from './bankStatements';
+import { makeOrder } from '../test/fixtures';
+
+// Awaiting a €126.50 bank transfer
+const order = (overrides: Partial<Order> = {}): Order => makeOrder({
+  shippingCost: 14,
+  total: 126.5,
+  paymentMethod: 'bank_transfer',
+  status: 'pending_payment',
+  ...overrides,
+});
+
+const credit = (overrides: Partial<BankStatementLine> = {}): BankStatementLine => ({
+  entryId: 'E1',
+  date: '2026-03-16',
+  amount: 126.5,
+  currency: 'EUR',
+  remittance: 'ORDER ETH-12345',
+  ...overrides,
+});
+
+describe('parseStatementAmount', () => {
+  it('reads English and German number formats', () => {
+    expect(parseStatementAmount('1234.56')).toBe(1234.56);
+    expect(parseStatementAmount('1.234,56')).toBe(1234.56);
+    expect(parseStatementAmount('€ 1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('-45,00')).toBe(-45);
+    expect(parseStatementAmount('1,234')).toBe(1234);
+  });
+});
+
+describe('parseCsvStatement', () => {
+  it('reads a German export with semicolons', () => {
+    const csv = [
+      'Buchungstag;Betrag;Währung;Verwendungszweck;Auftraggeber',
+      '16.03.2026;126,50;EUR;ORDER ETH-12345;Anna Berg',
+    ].join('\n');
+    expect(parseCsvStatement(csv)).toEqual([{
+      entryId: 'csv:2026-03-16:126.50:ORDER ETH-12345',
+      date: '2026-03-16',
+      amount: 126.5,
+      currency: 'EUR',
+      remittance: 'ORDER ETH-12345',
+      counterparty: 'Anna Berg',
+    }]);
+  });
+
+  it('nets credit and debit columns', () => {
+    const csv = 'Date,Credit,Debit,Reference\n2026-03-16,,20.00,Fee';
+    expect(parseCsvStatement(csv)[0].amount).toBe(-20);
+  });
+
+  it('names the row it cannot read', () => {
+    expect(() => parseCsvStatement('Date,Amount,Reference\nyesterday,10,ETH-1')).toThrow('Row 2: Unrecognised date "yesterday"');
+    expect(() => parseCsvStatement('Date,Reference\n2026-03-16,ETH-1')).toThrow('The CSV file needs an amount or credit column');
+  });
+});
+
+describe('parseCamt053', () => {
+  const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+  <Ntry>
+    <Amt Ccy="EUR">126.50</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+    <BookgDt><Dt>2026-03-16</Dt></BookgDt>
+    <AcctSvcrRef>BANK-1</AcctSvcrRef>
+    <NtryDtls><TxDtls>
+      <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+      <RltdPties><Dbtr><Nm>Anna &amp; Co</Nm></Dbtr></RltdPties>
+      <RmtInf><Ustrd>ORDER ETH-12345</Ustrd></RmtInf>
+    </TxDtls></NtryDtls>
+  </Ntry>
+  <Ntry>
+    <Amt Ccy="EUR">20.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+    <BookgDt><Dt>2026-03-17</Dt></BookgDt>
+  </Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+  it('reads credits and debits with their references', () => {
+    expect(detectStatementFormat(camt)).toBe('camt053');
+    expect(parseBankStatement(camt)).toEqual([
+      { entryId: 'BANK-1', date: '2026-03-16', amount: 126.5, currency: 'EUR', remittance: 'ORDER ETH-12345', counterparty: 'Anna & Co' },
+      { entryId: 'camt:2026-03-17:-20.00:', date: '2026-03-17', amount: -20, currency: 'EUR', remittance: '' },
+    ]);
+  });
+
+  it('rejects other XML', () => {
+    expect(() => parseCamt053('<Document></Document>')).toThrow('The XML file is not a camt.053 bank statement');
+  });
+});
+
+describe('reconcileStatement', () => {
+  it('marks an order paid when the transfer covers it', () => {
+    const { results, orders } = reconcileStatement([credit({ remittance: 'order eth 12345' })], [order()]);
+    expect(results[0]).toMatchObject({ status: 'matched', orderId: 'ETH-12345', amountDue: 126.5, difference: 0 });
+    expect(orders[0].status).toBe('paid');
+    expect(orders[0].bankPayments).toHaveLength(1);
+  });
+
+  it('adds up partial payments in one statement', () => {
+    const { results, orders } = reconcileStatement([credit({ amount: 100 }), credit({ entryId: 'E2', amount: 26.5 })], [order()]);
+    expect(results.map(r => r.status)).toEqual(['partial', 'matched']);
+    expect(results[0].note).toBe('€26.50 still outstanding');
+    expect(orders[0].status).toBe('paid');
+  });
+
+  it('flags overpayments for a refund', () => {
+    const { results } = reconcileStatement([credit({ amount: 130 })], [order()]);
+    expect(results[0]).toMatchObject({ status: 'overpaid', note: 'Refund €3.50 to the payer' });
+  });
+
+  it('skips entries it has seen, debits and foreign currencies', () => {
+    const paid = order({ bankPayments: [{ entryId: 'E1', date: '2026-03-16', amount: 126.5, importedAt: '2026-03-16T12:00:00.000Z' }] });
+    const { results } = reconcileStatement([credit(), credit({ entryId: 'E2', amount: -5 }), credit({ entryId: 'E3', currency: 'USD' })], [paid]);
+    expect(results.map(r => r.status)).toEqual(['duplicate', 'ignored', 'ignored']);
+  });
+
+  it('does not match a shorter order number inside a longer one', () => {
+    const { results } = reconcileStatement([credit()], [order({ id: 'ETH-1234' })]);
+    expect(results[0]).toMatchObject({ status: 'unmatched', note: 'No order reference; amount matches ETH-1234' });
+  });
+
+  it('reports transfers for orders that are not waiting for one', () => {
+    const { results, orders } = reconcileStatement([credit()], [order({ status: 'paid' })]);
+    expect(results[0]).toMatchObject({ status: 'not_pending', orderId: 'ETH-12345' });
+    expect(orders[0].bankPayments).toBeUndefined();
+  });
+});
+
+describe('getBankTransferDue', () => {
+  it('subtracts gift cards and transfers already received', () => {
+    const partly = order({ giftCard: { code: 'GIFT-1', amount: 20 }, bankPayments: [{ entryId: 'E1', date: '2026-03-16', amount: 50, importedAt: '' }] });
+    expect(getBankTransferDue(partly)).toBe(56.5);
+  });
+});
@@ -0,0 +1,221 @@
+import { BankStatementLine, Order, ReconciliationResult } from '../types';
+import { applyStatusChange } from './orderStatus';
+import { PRICE_TOLERANCE } from './pricing';
+import { SETTLEMENT_CURRENCY } from './currency';
+import { roundMoney } from './money';
+import { parseCsvDate, readCsv } from './csv';
+
+export type BankStatementFormat = 'csv' | 'camt053';
+
+export const detectStatementFormat = (content: string): BankStatementFormat =>
+  content.trimStart().startsWith('<') ? 'camt053' : 'csv';
+
+export const parseBankStatement = (content: string): BankStatementLine[] =>
+  detectStatementFormat(content) === 'camt053' ? parseCamt053(content) : parseCsvStatement(content);
+
+// --- CSV ---
+
+// Header names used by common bank exports (English, German, Dutch), compared after normalizeCsvHeader
+const CSV_COLUMNS = {
+  entryId: ['id', 'transaction id', 'transactionid', 'entry reference', 'bank reference', 'transaktionsreferenz', 'transactiereferentie'],
+  date: ['date', 'booking date', 'buchungstag', 'buchungsdatum', 'datum', 'boekdatum'],
+  amount: ['amount', 'betrag', 'bedrag'],
+  credit: ['credit', 'haben'],
+  debit: ['debit', 'soll'],
+  currency: ['currency', 'ccy', 'wahrung', 'munt'],
+  remittance: ['reference', 'description', 'remittance information', 'remittance', 'purpose', 'details', 'memo', 'verwendungszweck', 'omschrijving', 'mededelingen'],
+  counterparty: ['name', 'counterparty', 'payer', 'auftraggeber', 'beguenstigterzahlungspflichtiger', 'naam', 'naam tegenpartij'],
+};
+
+// Accepts "1234.56", "1.234,56", "-45,00" and "€ 1,234.56"; the last separator is the decimal one
+export const parseStatementAmount = (raw: string): number => {
+  const cleaned = raw.replace(/[^\d.,-]/g, '');
+  const decimalIndex = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+  const hasDecimals = decimalIndex !== -1 && cleaned.length - decimalIndex - 1 <= 2;
+  const normalized = hasDecimals
+    ? cleaned.slice(0, decimalIndex).replace(/[.,]/g, '') + '.' + cleaned.slice(decimalIndex + 1)
+    : cleaned.replace(/[.,]/g, '');
+  return Number(normalized);
+};
+
+export const parseCsvStatement = (content: string): BankStatementLine[] => {
+  const { rows, columns } = readCsv(content, CSV_COLUMNS);
+  if (columns.date === -1) throw new Error('The CSV file needs a date column');
+  if (columns.amount === -1 && columns.credit === -1) throw new Error('The CSV file needs an amount or credit column');
+  if (columns.remittance === -1) throw new Error('The CSV file needs a reference or description column');
+
+  return rows.map((fields, index) => {
+    const field = (key: keyof typeof CSV_COLUMNS) => columns[key] === -1 ? '' : fields[columns[key]] || '';
+    try {
+      const amount = columns.amount !== -1
+        ? parseStatementAmount(field('amount'))
+        : (parseStatementAmount(field('credit')) || 0) - (parseStatementAmount(field('debit')) || 0);
+      if (Number.isNaN(amount)) throw new Error(`Unrecognised amount "${field('amount') || field('credit')}"`);
+      const { date } = parseCsvDate(field('date'));
+      const remittance = field('remittance');
+      return {
+        // Without a bank reference, the booking itself identifies the entry across re-imports
+        entryId: field('entryId') || `csv:${date}:${amount.toFixed(2)}:${remittance}`,
+        date,
+        amount: roundMoney(amount),
+        currency: field('currency').toUpperCase() || SETTLEMENT_CURRENCY,
+        remittance,
+        ...(field('counterparty') ? { counterparty: field('counterparty') } : {}),
+      };
+    } catch (error) {
+      throw new Error(`Row ${index + 2}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+};
+
+// --- CAMT.053 ---
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Namespace prefixes vary between banks, so elements are matched by local name only.
+// A small tag scanner is enough for the fields we read and also runs on the Node mock server.
+const elements = (xml: string, name: string): string[] =>
+  Array.from(xml.matchAll(new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'g')), m => m[1]);
+
+const text = (xml: string, name: string): string | undefined => {
+  const [first] = elements(xml, name);
+  return first === undefined ? undefined : decodeXml(first.trim());
+};
+
+export const parseCamt053 = (content: string): BankStatementLine[] => {
+  if (!/<(?:[\w-]+:)?BkToCstmrStmt[\s>]/.test(content)) throw new Error('The XML file is not a camt.053 bank statement');
+
+  return elements(content, 'Ntry').map((entry, index) => {
+    const amountMatch = entry.match(/<(?:[\w-]+:)?Amt\b[^>]*Ccy="([A-Z]{3})"[^>]*>([^<]+)</);
+    if (!amountMatch) throw new Error(`Entry ${index + 1}: missing amount`);
+    const sign = text(entry, 'CdtDbtInd') === 'DBIT' ? -1 : 1;
+    const amount = roundMoney(sign * Number(amountMatch[2].trim()));
+
+    const booked = elements(entry, 'BookgDt')[0] ?? elements(entry, 'ValDt')[0] ?? '';
+    const date = (text(booked, 'Dt') || text(booked, 'DtTm') || '').slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new Error(`Entry ${index + 1}: missing booking date`);
+
+    const endToEndId = text(entry, 'EndToEndId');
+    const remittance = [
+      ...elements(entry, 'Ustrd').map(decodeXml),
+      ...elements(entry, 'CdtrRefInf').map(ref => text(ref, 'Ref') || ''),
+      endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : '',
+    ].map(part => part.trim()).filter(Boolean).join(' ');
+
+    const debtor = elements(entry, 'Dbtr')[0];
+    const counterparty = debtor ? text(debtor, 'Nm') : undefined;
+
+    return {
+      entryId: text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef') || `camt:${date}:${amount.toFixed(2)}:${remittance}`,
+      date,
+      amount,
+      currency: amountMatch[1],
+      remittance,
+      ...(counterparty ? { counterparty } : {}),
+    };
+  });
+};
+
+// --- MATCHING ---
+
+// Banks drop or mangle spaces and dashes, so "order eth 12345" and "ETH12345" both count
+const compact = (value: string) => value.toUpperCase().replace(/[\s-]+/g, '');
+
+const isReferencedBy = (remittance: string, orderId: string) => {
+  const id = compact(orderId);
+  const index = compact(remittance).indexOf(id);
+  // Reject ETH-123 matching inside ETH-12345
+  return index !== -1 && !/\d/.test(compact(remittance)[index + id.length] || '');
+};
+
+const receivedAmount = (order: Order) =>
+  roundMoney((order.bankPayments || []).reduce((sum, payment) => sum + payment.amount, 0));
+
+// What a bank transfer order still needs; gift cards cannot be combined with bank transfer but are honoured anyway
+export const getBankTransferDue = (order: Order) =>
+  roundMoney(order.total - (order.giftCard?.amount || 0) - receivedAmount(order));
+
+const isAwaitingTransfer = (order: Order) => order.paymentMethod === 'bank_transfer' && order.status === 'pending_payment';
+
+/**
+ * Applies statement credits to bank transfer orders. Each credit is matched by the order
+ * reference in its remittance text, then by amount: exact and over-payments mark the order paid,
+ * partial payments are recorded and the order keeps waiting. Lines are applied in order,
+ * so two partial payments in one statement add up.
+ */
+export const reconcileStatement = (
+  lines: BankStatementLine[],
+  orders: Order[]
+): { results: ReconciliationResult[]; orders: Order[] } => {
+  let updated = [...orders];
+  const seen = new Set(orders.flatMap(o => (o.bankPayments || []).map(p => p.entryId)));
+  const importedAt = new Date().toISOString();
+
+  const results = lines.map((line): ReconciliationResult => {
+    if (seen.has(line.entryId)) return { line, status: 'duplicate', note: 'Already imported' };
+    seen.add(line.entryId);
+
+    if (line.amount <= 0) return { line, status: 'ignored', note: 'Debit' };
+    if (line.currency !== SETTLEMENT_CURRENCY) {
+      return { line, status: 'ignored', note: `Credit in ${line.currency}, orders are settled in ${SETTLEMENT_CURRENCY}` };
+    }
+
+    const referenced = updated.filter(o => isReferencedBy(line.remittance, o.id));
+    const order = referenced.find(isAwaitingTransfer);
+    if (!order) {
+      if (referenced.length > 0) {
+        const other = referenced[0];
+        return { line, status: 'not_pending', orderId: other.id, note: `Order is ${other.status.replace('_', ' ')} (${other.paymentMethod.replace('_', ' ')})` };
+      }
+      // Never applied on amount alone, but point the admin at a likely candidate
+      const candidates = updated.filter(o => isAwaitingTransfer(o) && Math.abs(getBankTransferDue(o) - line.amount) <= PRICE_TOLERANCE);
+      return {
+        line,
+        status: 'unmatched',
+        note: candidates.length === 1 ? `No order reference; amount matches ${candidates[0].id}` : 'No order reference',
+      };
+    }
+
+    const amountDue = getBankTransferDue(order);
+    const difference = roundMoney(line.amount - amountDue);
+    const status = difference < -PRICE_TOLERANCE ? 'partial' : difference > PRICE_TOLERANCE ? 'overpaid' : 'matched';
+
+    let next: Order = {
+      ...order,
+      bankPayments: [...(order.bankPayments || []), {
+        entryId: line.entryId,
+        date: line.date,
+        amount: line.amount,
+        ...(line.counterparty ? { counterparty: line.counterparty } : {}),
+        importedAt,
+      }],
+    };
+    if (status !== 'partial') {
+      const note = status === 'overpaid'
+        ? `Bank transfer received, overpaid by €${difference.toFixed(2)}`
+        : 'Bank transfer received';
+      next = applyStatusChange(next, 'paid', note);
+    }
+    updated = updated.map(o => o.id === order.id ? next : o);
+
+    return {
+      line,
+      status,
+      orderId: order.id,
+      amountDue,
+      difference,
+      ...(status === 'partial' ? { note: `€${(-difference).toFixed(2)} still outstanding` } : {}),
+      ...(status === 'overpaid' ? { note: `Refund €${difference.toFixed(2)} to the payer` } : {}),
+    };
+  });
+
+  return { results, orders: updated };
+};
@@ -0,0 +1,22 @@
+// Simple Luhn check for basic card number validation before contacting the gateway
+export const isValidCreditCard = (value: string) => {
+  if (/[^0-9-\s]+/.test(value)) return false;
+  let nCheck = 0, nDigit = 0, bEven = false;
+  const newValue = value.replace(/\D/g, "");
+  if(newValue.length < 13 || newValue.length > 19) return false;
+
+  for (let n = newValue.length - 1; n >= 0; n--) {
+    const cDigit = newValue.charAt(n);
+    nDigit = parseInt(cDigit, 10);
+    if (bEven) {
+      if ((nDigit *= 2) > 9) nDigit -= 9;
+    }
+    nCheck += nDigit;
+    bEven = !bEven;
+  }
+  return (nCheck % 10) === 0;
+};
+
+export const isValidExpiry = (value: string) => /^(0[1-9]|1[0-2])\/?([0-9]{2})$/.test(value);
+
+export const isValidCvc = (value: string) => /^[0-9]{3,4}$/.test(value);
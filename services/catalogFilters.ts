@@ -0,0 +1,164 @@
+import { Order, OrderStatus, Product, RatingSummary } from '../types';
+import { displayPrice } from './vat';
+
+// Shop view facets and sort orders. Everything is computed from the product list the view already has,
+// so counts always agree with what filtering would show.
+
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'bestselling' | 'rating';
+
+// Facets a shopper can pick several values of; a product matches if it has any of them
+export type ListFacet = 'price' | 'region' | 'material' | 'artisan';
+
+export interface ProductFilters {
+  price: string[]; // PRICE_BUCKETS ids
+  region: string[];
+  material: string[];
+  artisan: string[];
+  inStockOnly: boolean;
+  sort: ProductSort;
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface ProductFacets {
+  price: FacetOption[];
+  region: FacetOption[];
+  material: FacetOption[];
+  artisan: FacetOption[];
+  inStock: number;
+}
+
+export interface SortStats {
+  ratings: Record<string, RatingSummary>;
+  unitsSold: Record<string, number>;
+}
+
+export interface PriceBucket {
+  id: string;
+  min: number;
+  max?: number; // Exclusive; open-ended when missing
+}
+
+// In the settlement currency, against the price as displayed (VAT included where it is shown that way)
+export const PRICE_BUCKETS: PriceBucket[] = [
+  { id: '0-50', min: 0, max: 50 },
+  { id: '50-100', min: 50, max: 100 },
+  { id: '100-250', min: 100, max: 250 },
+  { id: '250+', min: 250 },
+];
+
+export const PRODUCT_SORTS: ProductSort[] = ['relevance', 'price_asc', 'price_desc', 'newest', 'bestselling', 'rating'];
+
+export const LIST_FACETS: ListFacet[] = ['price', 'region', 'material', 'artisan'];
+
+export const EMPTY_FILTERS: ProductFilters = { price: [], region: [], material: [], artisan: [], inStockOnly: false, sort: 'relevance' };
+
+// Orders that never completed a sale do not make a piece a bestseller
+const UNSOLD_STATUSES: OrderStatus[] = ['pending_payment', 'cancelled', 'refunded'];
+
+const getPriceBucket = (product: Product) => {
+  const price = displayPrice(product.price, product.category);
+  return PRICE_BUCKETS.find(bucket => price >= bucket.min && (bucket.max === undefined || price < bucket.max))!.id;
+};
+
+const getFacetValue = (product: Product, facet: ListFacet) =>
+  facet === 'price' ? getPriceBucket(product) : product[facet];
+
+const matchesFacet = (product: Product, filters: ProductFilters, facet: ListFacet) => {
+  const selected = filters[facet];
+  if (selected.length === 0) return true;
+  const value = getFacetValue(product, facet);
+  return !!value && selected.includes(value);
+};
+
+// `except` leaves one facet out, so its own counts show what choosing another value would add
+export const applyFilters = (products: Product[], filters: ProductFilters, except?: ListFacet | 'inStock') =>
+  products.filter(product =>
+    LIST_FACETS.every(facet => facet === except || matchesFacet(product, filters, facet)) &&
+    (except === 'inStock' || !filters.inStockOnly || product.inStock)
+  );
+
+const countValues = (products: Product[], facet: ListFacet, selected: string[]): FacetOption[] => {
+  const counts: Record<string, number> = {};
+  selected.forEach(value => { counts[value] = 0; }); // Chosen values stay listed even when nothing matches now
+  products.forEach(product => {
+    const value = getFacetValue(product, facet);
+    if (value) counts[value] = (counts[value] || 0) + 1;
+  });
+  const options = Object.entries(counts).map(([value, count]) => ({ value, count }));
+  return facet === 'price'
+    ? options.sort((a, b) => PRICE_BUCKETS.findIndex(bk => bk.id === a.value) - PRICE_BUCKETS.findIndex(bk => bk.id === b.value))
+    : options.sort((a, b) => a.value.localeCompare(b.value));
+};
+
+export const getProductFacets = (products: Product[], filters: ProductFilters): ProductFacets => ({
+  price: countValues(applyFilters(products, filters, 'price'), 'price', filters.price),
+  region: countValues(applyFilters(products, filters, 'region'), 'region', filters.region),
+  material: countValues(applyFilters(products, filters, 'material'), 'material', filters.material),
+  artisan: countValues(applyFilters(products, filters, 'artisan'), 'artisan', filters.artisan),
+  inStock: applyFilters(products, filters, 'inStock').filter(p => p.inStock).length,
+});
+
+// 'relevance' keeps the incoming order: search ranking, or the catalog's own order when not searching
+export const sortProducts = (products: Product[], sort: ProductSort, stats: SortStats): Product[] => {
+  const sorted = [...products];
+  switch (sort) {
+    case 'price_asc': return sorted.sort((a, b) => displayPrice(a.price, a.category) - displayPrice(b.price, b.category));
+    case 'price_desc': return sorted.sort((a, b) => displayPrice(b.price, b.category) - displayPrice(a.price, a.category));
+    case 'newest': return sorted.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+    case 'bestselling': return sorted.sort((a, b) => (stats.unitsSold[b.id] || 0) - (stats.unitsSold[a.id] || 0));
+    case 'rating': return sorted.sort((a, b) =>
+      (stats.ratings[b.id]?.average || 0) - (stats.ratings[a.id]?.average || 0) ||
+      (stats.ratings[b.id]?.count || 0) - (stats.ratings[a.id]?.count || 0));
+    default: return sorted;
+  }
+};
+
+export const countActiveFilters = (filters: ProductFilters) =>
+  LIST_FACETS.reduce((sum, facet) => sum + filters[facet].length, 0) + (filters.inStockOnly ? 1 : 0);
+
+export const getPriceBucketRange = (id: string) => PRICE_BUCKETS.find(bucket => bucket.id === id);
+
+// --- URL ---
+
+// The shop's search and category live in the path (see routing.ts); filters and sort go in the query string
+const STOCK_PARAM = 'stock';
+const SORT_PARAM = 'sort';
+
+// Values are joined with "|" since names such as "Acrylic on canvas" may contain commas
+export const writeFilterParams = (filters: ProductFilters, params: URLSearchParams = new URLSearchParams()) => {
+  LIST_FACETS.forEach(facet => {
+    if (filters[facet].length > 0) params.set(facet, filters[facet].join('|'));
+  });
+  if (filters.inStockOnly) params.set(STOCK_PARAM, 'in');
+  if (filters.sort !== 'relevance') params.set(SORT_PARAM, filters.sort);
+  return params;
+};
+
+// Unknown price ranges and sorts are dropped rather than shown as an empty shop
+export const readFilterParams = (params: URLSearchParams): ProductFilters => {
+  const sort = params.get(SORT_PARAM) as ProductSort;
+  const read = (facet: ListFacet) => (params.get(facet) || '').split('|').filter(Boolean);
+  return {
+    price: read('price').filter(id => !!getPriceBucketRange(id)),
+    region: read('region'),
+    material: read('material'),
+    artisan: read('artisan'),
+    inStockOnly: params.get(STOCK_PARAM) === 'in',
+    sort: PRODUCT_SORTS.includes(sort) ? sort : 'relevance',
+  };
+};
+
+// --- BESTSELLERS ---
+
+export const countUnitsSold = (orders: Order[]): Record<string, number> => {
+  const units: Record<string, number> = {};
+  orders.forEach(order => {
+    if (UNSOLD_STATUSES.includes(order.status)) return;
+    order.items.forEach(item => { units[item.id] = (units[item.id] || 0) + item.quantity; });
+  });
+  return units;
+};
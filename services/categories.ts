@@ -0,0 +1,111 @@
+import { Category, Collection, CollectionRules, LanguageCode, LocalizedText, Product } from '../types';
+
+// The admin-managed category tree and curated collections.
+// Products keep their top-level category in `category` (what VAT and promotions go by) and the
+// nested one they were filed under in `subcategoryId`, so only browsing has to walk the tree.
+
+export interface CategoryTreeEntry {
+  category: Category;
+  depth: number; // 0 for top-level categories
+}
+
+const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+export const sortByPosition = <T extends { position: number }>(items: T[]) => [...items].sort(byPosition);
+
+// --- NAMES ---
+
+// Admin-entered text in the reader's language, or the English it falls back to
+export const getLocalizedText = (text: LocalizedText | undefined, language: LanguageCode) =>
+  text?.[language] || text?.en || '';
+
+// Every language's version, for search
+export const getAllLocalizedTexts = (text: LocalizedText | undefined) =>
+  Object.values(text || {}).filter((value): value is string => !!value);
+
+// Blank translations are dropped so those languages fall back to English instead of showing nothing
+export const cleanLocalizedText = (text: LocalizedText): LocalizedText => {
+  const cleaned: Partial<Record<LanguageCode, string>> = {};
+  (Object.keys(text) as LanguageCode[]).forEach(language => {
+    const value = text[language]?.trim();
+    if (value) cleaned[language] = value;
+  });
+  return { ...cleaned, en: cleaned.en || '' };
+};
+
+// Optional texts such as descriptions are left out entirely when no language has one
+export const cleanDescription = (text: LocalizedText | undefined): LocalizedText | undefined => {
+  if (!text) return undefined;
+  const cleaned = cleanLocalizedText(text);
+  return getAllLocalizedTexts(cleaned).length > 0 ? cleaned : undefined;
+};
+
+// --- TREE ---
+
+export const getChildCategories = (categories: Category[], parentId?: string) =>
+  categories.filter(c => c.parentId === parentId).sort(byPosition);
+
+// Depth first, each category followed by its subcategories; for navigation, pickers and the admin list
+export const flattenCategoryTree = (categories: Category[], parentId?: string, depth = 0): CategoryTreeEntry[] =>
+  getChildCategories(categories, parentId).flatMap(category => [
+    { category, depth },
+    ...flattenCategoryTree(categories, category.id, depth + 1),
+  ]);
+
+// From the top-level category down to `id`; empty for unknown ids
+export const getCategoryPath = (categories: Category[], id?: string): Category[] => {
+  const path: Category[] = [];
+  let current = categories.find(c => c.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId: string | undefined = current.parentId;
+    current = parentId ? categories.find(c => c.id === parentId) : undefined;
+  }
+  return path;
+};
+
+// `id` and everything nested under it
+export const getDescendantIds = (categories: Category[], id: string): string[] =>
+  [id, ...categories.filter(c => c.parentId === id).flatMap(c => getDescendantIds(categories, c.id))];
+
+// The most specific category a product is filed under
+export const getProductCategoryId = (product: Pick<Product, 'category' | 'subcategoryId'>) =>
+  product.subcategoryId || product.category;
+
+// Browsing a category shows everything nested under it as well
+export const isInCategory = (categories: Category[], product: Product, categoryId: string) =>
+  product.category === categoryId ||
+  getCategoryPath(categories, getProductCategoryId(product)).some(c => c.id === categoryId);
+
+// The product fields for filing it under `categoryId`
+export const fileUnderCategory = (categories: Category[], categoryId: string): Pick<Product, 'category' | 'subcategoryId'> => {
+  const topLevelId = getCategoryPath(categories, categoryId)[0]?.id || categoryId;
+  return { category: topLevelId, subcategoryId: topLevelId === categoryId ? undefined : categoryId };
+};
+
+// Puts `item` at `position` among `siblings` (which must not include it) and renumbers them all from 0
+export const placeAtPosition = <T extends { position: number }>(siblings: T[], item: T, position: number): T[] => {
+  const ordered = sortByPosition(siblings);
+  ordered.splice(Math.max(0, Math.min(position, ordered.length)), 0, item);
+  return ordered.map((entry, index) => ({ ...entry, position: index }));
+};
+
+// --- COLLECTIONS ---
+
+export const matchesCollectionRules = (categories: Category[], product: Product, rules: CollectionRules) =>
+  (!rules.categoryId || isInCategory(categories, product, rules.categoryId)) &&
+  (!rules.region || product.region === rules.region) &&
+  (!rules.material || product.material === rules.material) &&
+  (!rules.artisan || product.artisan === rules.artisan) &&
+  (rules.minPrice === undefined || product.price >= rules.minPrice) &&
+  (rules.maxPrice === undefined || product.price <= rules.maxPrice) &&
+  (!rules.inStockOnly || product.inStock);
+
+// Hand-picked pieces in the order they were picked; rule-based ones in catalog order
+export const getCollectionProducts = (collection: Collection, products: Product[], categories: Category[]): Product[] =>
+  collection.membership === 'manual'
+    ? collection.productIds.map(id => products.find(p => p.id === id)).filter((p): p is Product => !!p)
+    : products.filter(product => matchesCollectionRules(categories, product, collection.rules));
+
+export const getActiveCollections = (collections: Collection[]) =>
+  sortByPosition(collections.filter(c => c.active));
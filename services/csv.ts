@@ -0,0 +1,67 @@
+// Minimal CSV reading for admin imports (bank statements, carrier events)
+
+// Splits one CSV record, honouring quoted fields with doubled quotes
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+// Lowercase, accents and punctuation stripped, so "Buchungstag" and "Tracking-No." compare predictably
+export const normalizeCsvHeader = (header: string) =>
+  header.normalize('NFD').replace(/[̀-ͯ]/g, '').toLowerCase().replace(/[^a-z ]/g, '').trim();
+
+export interface CsvTable<K extends string> {
+  rows: string[][];
+  columns: Record<K, number>; // -1 when the file has no such column
+}
+
+/**
+ * Reads a CSV file with a header row. The delimiter (semicolon, tab or comma)
+ * is whichever splits the header most, and each column is found by the first
+ * header matching one of its aliases.
+ */
+export const readCsv = <K extends string>(content: string, aliases: Record<K, string[]>): CsvTable<K> => {
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) throw new Error('The CSV file has no data rows');
+
+  const delimiter = [';', '\t', ','].sort((a, b) => lines[0].split(b).length - lines[0].split(a).length)[0];
+  const headers = splitCsvLine(lines[0], delimiter).map(normalizeCsvHeader);
+  const columns = {} as Record<K, number>;
+  (Object.keys(aliases) as K[]).forEach(key => {
+    columns[key] = headers.findIndex(h => aliases[key].includes(h));
+  });
+  return { rows: lines.slice(1).map(line => splitCsvLine(line, delimiter)), columns };
+};
+
+// ISO dates pass through; DD.MM.YYYY, DD/MM/YYYY and DD-MM-YYYY are reordered. An optional time is kept.
+export const parseCsvDate = (raw: string): { date: string; time?: string } => {
+  const time = raw.match(/[ T](\d{1,2}:\d{2}(?::\d{2})?)/)?.[1];
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return { date: `${iso[1]}-${iso[2]}-${iso[3]}`, ...(time ? { time } : {}) };
+  const dmy = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+  if (dmy) return { date: `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`, ...(time ? { time } : {}) };
+  throw new Error(`Unrecognised date "${raw}"`);
+};
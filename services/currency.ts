@@ -0,0 +1,50 @@
+import { CurrencyCode, ExchangeRate } from '../types';
+import { roundMoney } from './money';
+
+// Catalog prices, order totals and payments are all in this currency
+export const SETTLEMENT_CURRENCY: CurrencyCode = 'EUR';
+
+export const CURRENCY_OPTIONS: { code: CurrencyCode; label: string }[] = [
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'CHF', label: 'Swiss Franc' },
+  { code: 'SEK', label: 'Swedish Krona' },
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'ETB', label: 'Ethiopian Birr' },
+];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  CURRENCY_OPTIONS.some(option => option.code === value);
+
+// Starting table until an admin sets their own rates
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { currency: 'EUR', rate: 1, updatedAt: '2026-10-01T00:00:00.000Z' },
+  { currency: 'GBP', rate: 0.86, updatedAt: '2026-10-01T00:00:00.000Z' },
+  { currency: 'CHF', rate: 0.94, updatedAt: '2026-10-01T00:00:00.000Z' },
+  { currency: 'SEK', rate: 11.25, updatedAt: '2026-10-01T00:00:00.000Z' },
+  { currency: 'USD', rate: 1.09, updatedAt: '2026-10-01T00:00:00.000Z' },
+  { currency: 'ETB', rate: 158.5, updatedAt: '2026-10-01T00:00:00.000Z' },
+];
+
+// Legacy records stored the symbol instead of the ISO code
+const SYMBOL_CODES: Record<string, CurrencyCode> = { '€': 'EUR', '£': 'GBP', '$': 'USD', 'Br': 'ETB', 'kr': 'SEK' };
+
+export const toCurrencyCode = (value: unknown): CurrencyCode =>
+  isCurrencyCode(value) ? value : SYMBOL_CODES[String(value)] || SETTLEMENT_CURRENCY;
+
+export const getRate = (rates: ExchangeRate[], currency: CurrencyCode) =>
+  currency === SETTLEMENT_CURRENCY ? 1 : rates.find(r => r.currency === currency)?.rate;
+
+export const convertAmount = (amount: number, rate: number) => roundMoney(amount * rate);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatMoney = (amount: number, currency: CurrencyCode, locale: string) => {
+  const key = `${locale}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(amount);
+};
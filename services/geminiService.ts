@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Chat, GenerateContentResponse } from "@google/genai";
 import { Product } from '../types';
+import { formatMoney } from './currency';
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -28,7 +29,7 @@ export const createCuratorChat = (contextProduct?: Product): Chat => {
     systemInstruction += `
       \nCURRENT CONTEXT: The user is currently looking at the product: "${contextProduct.name}".
       Product Details: ${contextProduct.detailedHistory}
-      Price: ${contextProduct.currency}${contextProduct.price}.
+      Price: ${formatMoney(contextProduct.price, contextProduct.currency, 'en')}.
       
       If the user asks "tell me about this" or "is it worth it", refer specifically to this item.
     `;
@@ -0,0 +1,49 @@
+import { GiftCard, GiftCardTransaction, GiftCardTransactionType } from '../types';
+import { roundMoney } from './money';
+
+export const GIFT_CARD_PRESETS = [25, 50, 100, 200];
+export const GIFT_CARD_MIN = 10;
+export const GIFT_CARD_MAX = 500;
+
+// No 0/O or 1/I so codes survive being read over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const randomIndex = (max: number) => {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0] % max;
+  }
+  return Math.floor(Math.random() * max);
+};
+
+// e.g. EMGC-7K2P-QX9D-M4TW
+export const generateGiftCardCode = () =>
+  ['EMGC', ...Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomIndex(CODE_ALPHABET.length)]).join('')
+  )].join('-');
+
+export const normalizeGiftCardCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+export const GIFT_CARD_TRANSACTION_LABELS: Record<GiftCardTransactionType, string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refunded to card',
+};
+
+// Returns the card with the movement appended to its ledger. Callers check the balance first.
+export const recordGiftCardTransaction = (
+  card: GiftCard,
+  type: GiftCardTransactionType,
+  amount: number,
+  details: { orderId?: string; note?: string } = {}
+): GiftCard => {
+  const balanceAfter = roundMoney(card.balance + amount);
+  const transaction: GiftCardTransaction = {
+    id: `gct_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    type,
+    amount: roundMoney(amount),
+    balanceAfter,
+    date: new Date().toISOString(),
+    ...details,
+  };
+  return { ...card, balance: balanceAfter, ledger: [...card.ledger, transaction] };
+};
@@ -0,0 +1,330 @@
+import { CarrierEventImportResult, CartItem, Category, Collection, Customer, CustomerRegistration, CustomerSession, ExchangeRate, GiftCard, GiftCardPurchase, Order, OrderStatus, OrderTracking, PaymentIntent, PaymentRequest, Product, Promotion, ReconciliationResult, RefundRequest, ReturnAuthorization, ReturnRequest, ReturnStatus, ReturnableOrder, RatingSummary, Review, ReviewStatus, ReviewSubmission, SavedAddress, Shipment, ShipmentEvent, SharedWishlist, StockReservation, Wishlist } from '../types';
+import { MigrationReport } from './migrations';
+import type { Backend } from './backend';
+import { BackendError } from './backend';
+
+// REST implementation of the Backend contract.
+// Talks to /api/* (see server/mockServer.ts for the reference server).
+export class HttpBackendService implements Backend {
+  private adminToken: string | null = null;
+
+  constructor(private baseUrl: string) {}
+
+  // Customer sessions travel in their own header; Authorization is reserved for the admin token
+  private customerHeaders(token: string): Record<string, string> {
+    return { 'X-Customer-Token': token };
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.adminToken) {
+      headers['Authorization'] = `Bearer ${this.adminToken}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { ...headers, ...(init.headers as Record<string, string>) }
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new BackendError(body.error || `Request failed (${response.status})`, response.status);
+    }
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  }
+
+  // --- PRODUCT MANAGEMENT ---
+
+  async getProducts(): Promise<Product[]> {
+    return this.request('/products');
+  }
+
+  async addProduct(product: Omit<Product, 'id' | 'slug'>): Promise<Product> {
+    return this.request('/products', { method: 'POST', body: JSON.stringify(product) });
+  }
+
+  async updateProduct(id: string, updates: Partial<Product>): Promise<Product> {
+    return this.request(`/products/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    await this.request(`/products/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async getUnitsSold(): Promise<Record<string, number>> {
+    return this.request('/bestsellers');
+  }
+
+  // --- CATEGORIES ---
+
+  async getCategories(): Promise<Category[]> {
+    return this.request('/categories');
+  }
+
+  async addCategory(category: Omit<Category, 'id' | 'slug' | 'position'>): Promise<Category> {
+    return this.request('/categories', { method: 'POST', body: JSON.stringify(category) });
+  }
+
+  async updateCategory(id: string, updates: Partial<Category>): Promise<Category> {
+    return this.request(`/categories/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await this.request(`/categories/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  // --- COLLECTIONS ---
+
+  async getCollections(): Promise<Collection[]> {
+    return this.request('/collections');
+  }
+
+  async getActiveCollections(): Promise<Collection[]> {
+    return this.request('/collections/active');
+  }
+
+  async addCollection(collection: Omit<Collection, 'id' | 'slug' | 'position'>): Promise<Collection> {
+    return this.request('/collections', { method: 'POST', body: JSON.stringify(collection) });
+  }
+
+  async updateCollection(id: string, updates: Partial<Collection>): Promise<Collection> {
+    return this.request(`/collections/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    await this.request(`/collections/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  // --- INVENTORY ---
+
+  async reserveStock(items: CartItem[], reservationId?: string): Promise<StockReservation> {
+    return this.request('/reservations', { method: 'POST', body: JSON.stringify({ items, reservationId }) });
+  }
+
+  async releaseReservation(reservationId: string): Promise<void> {
+    await this.request(`/reservations/${encodeURIComponent(reservationId)}`, { method: 'DELETE' });
+  }
+
+  // --- PROMOTIONS ---
+
+  async getPromotions(): Promise<Promotion[]> {
+    return this.request('/promotions');
+  }
+
+  async addPromotion(promotion: Omit<Promotion, 'id' | 'usageCount'>): Promise<Promotion> {
+    return this.request('/promotions', { method: 'POST', body: JSON.stringify(promotion) });
+  }
+
+  async updatePromotion(id: string, updates: Partial<Promotion>): Promise<Promotion> {
+    return this.request(`/promotions/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(updates) });
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    await this.request(`/promotions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async lookupPromotion(code: string): Promise<Promotion> {
+    return this.request(`/promotions/lookup/${encodeURIComponent(code)}`);
+  }
+
+  // --- GIFT CARDS ---
+
+  async purchaseGiftCard(purchase: GiftCardPurchase): Promise<GiftCard> {
+    return this.request('/gift-cards', { method: 'POST', body: JSON.stringify(purchase) });
+  }
+
+  async getGiftCardBalance(code: string): Promise<{ code: string; balance: number }> {
+    return this.request(`/gift-cards/balance/${encodeURIComponent(code)}`);
+  }
+
+  async getGiftCards(): Promise<GiftCard[]> {
+    return this.request('/gift-cards');
+  }
+
+  // --- EXCHANGE RATES ---
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return this.request('/exchange-rates');
+  }
+
+  async updateExchangeRates(rates: Pick<ExchangeRate, 'currency' | 'rate'>[]): Promise<ExchangeRate[]> {
+    return this.request('/exchange-rates', { method: 'PUT', body: JSON.stringify(rates) });
+  }
+
+  // --- PAYMENTS ---
+
+  async authorizePayment(request: PaymentRequest): Promise<PaymentIntent> {
+    return this.request('/payments', { method: 'POST', body: JSON.stringify(request) });
+  }
+
+  async completePaymentAction(paymentId: string, response: string): Promise<PaymentIntent> {
+    return this.request(`/payments/${encodeURIComponent(paymentId)}/action`, { method: 'POST', body: JSON.stringify({ response }) });
+  }
+
+  async handlePaymentWebhook(payload: string, signature: string): Promise<void> {
+    await this.request('/payments/webhook', { method: 'POST', body: JSON.stringify({ payload, signature }) });
+  }
+
+  // --- ORDER MANAGEMENT ---
+
+  async createOrder(order: Order, reservationId?: string, customerToken?: string): Promise<Order> {
+    const query = reservationId ? `?reservation=${encodeURIComponent(reservationId)}` : '';
+    return this.request(`/orders${query}`, { method: 'POST', body: JSON.stringify(order), headers: customerToken ? this.customerHeaders(customerToken) : {} });
+  }
+
+  async getOrders(): Promise<Order[]> {
+    return this.request('/orders');
+  }
+
+  async updateOrderStatus(id: string, status: OrderStatus, note?: string): Promise<Order> {
+    return this.request(`/orders/${encodeURIComponent(id)}/status`, { method: 'PATCH', body: JSON.stringify({ status, note }) });
+  }
+
+  async refundOrder(id: string, request: RefundRequest): Promise<Order> {
+    return this.request(`/orders/${encodeURIComponent(id)}/refunds`, { method: 'POST', body: JSON.stringify(request) });
+  }
+
+  async importBankStatement(content: string): Promise<ReconciliationResult[]> {
+    return this.request('/bank-statements', { method: 'POST', body: JSON.stringify({ content }) });
+  }
+
+  async addShipment(orderId: string, shipment: Pick<Shipment, 'carrier' | 'trackingNumber'>): Promise<Order> {
+    return this.request(`/orders/${encodeURIComponent(orderId)}/shipments`, { method: 'POST', body: JSON.stringify(shipment) });
+  }
+
+  async addShipmentEvent(orderId: string, shipmentId: string, event: Omit<ShipmentEvent, 'id'>): Promise<Order> {
+    return this.request(`/orders/${encodeURIComponent(orderId)}/shipments/${encodeURIComponent(shipmentId)}/events`, { method: 'POST', body: JSON.stringify(event) });
+  }
+
+  async importCarrierEvents(content: string): Promise<CarrierEventImportResult[]> {
+    return this.request('/carrier-events', { method: 'POST', body: JSON.stringify({ content }) });
+  }
+
+  async trackOrder(orderId: string, email: string): Promise<OrderTracking> {
+    return this.request('/tracking', { method: 'POST', body: JSON.stringify({ orderId, email }) });
+  }
+
+  async clearOrders(): Promise<void> {
+    await this.request('/orders', { method: 'DELETE' });
+  }
+
+  // --- RETURNS ---
+
+  async getReturnableOrder(orderId: string, email: string): Promise<ReturnableOrder> {
+    return this.request('/returns/lookup', { method: 'POST', body: JSON.stringify({ orderId, email }) });
+  }
+
+  async requestReturn(request: ReturnRequest): Promise<ReturnAuthorization> {
+    return this.request('/returns', { method: 'POST', body: JSON.stringify(request) });
+  }
+
+  async getReturns(): Promise<ReturnAuthorization[]> {
+    return this.request('/returns');
+  }
+
+  async updateReturnStatus(id: string, status: ReturnStatus, details: { note?: string; issuedBy?: string } = {}): Promise<ReturnAuthorization> {
+    return this.request(`/returns/${encodeURIComponent(id)}/status`, { method: 'PATCH', body: JSON.stringify({ status, ...details }) });
+  }
+
+  // --- CUSTOMER ACCOUNTS ---
+
+  async registerCustomer(registration: CustomerRegistration): Promise<CustomerSession> {
+    return this.request('/account/register', { method: 'POST', body: JSON.stringify(registration) });
+  }
+
+  async loginCustomer(email: string, password: string): Promise<CustomerSession> {
+    return this.request('/account/login', { method: 'POST', body: JSON.stringify({ email, password }) });
+  }
+
+  async logoutCustomer(token: string): Promise<void> {
+    await this.request('/account/logout', { method: 'POST', headers: this.customerHeaders(token) });
+  }
+
+  async getCustomer(token: string): Promise<Customer> {
+    return this.request('/account', { headers: this.customerHeaders(token) });
+  }
+
+  async updateCustomer(token: string, updates: Partial<Pick<Customer, 'firstName' | 'lastName' | 'phone'>>): Promise<Customer> {
+    return this.request('/account', { method: 'PATCH', body: JSON.stringify(updates), headers: this.customerHeaders(token) });
+  }
+
+  async saveCustomerAddress(token: string, address: Omit<SavedAddress, 'id'> & { id?: string }): Promise<Customer> {
+    return this.request('/account/addresses', { method: 'POST', body: JSON.stringify(address), headers: this.customerHeaders(token) });
+  }
+
+  async deleteCustomerAddress(token: string, addressId: string): Promise<Customer> {
+    return this.request(`/account/addresses/${encodeURIComponent(addressId)}`, { method: 'DELETE', headers: this.customerHeaders(token) });
+  }
+
+  async setDefaultCustomerAddress(token: string, addressId: string): Promise<Customer> {
+    return this.request(`/account/addresses/${encodeURIComponent(addressId)}/default`, { method: 'POST', headers: this.customerHeaders(token) });
+  }
+
+  async getCustomerOrders(token: string): Promise<Order[]> {
+    return this.request('/account/orders', { headers: this.customerHeaders(token) });
+  }
+
+  // --- WISHLISTS ---
+
+  async getWishlist(wishlistId: string | null, customerToken?: string): Promise<Wishlist> {
+    return this.request('/wishlists/current', { method: 'POST', body: JSON.stringify({ wishlistId }), headers: customerToken ? this.customerHeaders(customerToken) : {} });
+  }
+
+  async updateWishlist(wishlistId: string, productIds: string[], customerToken?: string): Promise<Wishlist> {
+    return this.request(`/wishlists/${encodeURIComponent(wishlistId)}`, { method: 'PUT', body: JSON.stringify({ productIds }), headers: customerToken ? this.customerHeaders(customerToken) : {} });
+  }
+
+  async getSharedWishlist(shareId: string): Promise<SharedWishlist> {
+    return this.request(`/shared-wishlists/${encodeURIComponent(shareId)}`);
+  }
+
+  // --- REVIEWS ---
+
+  async submitReview(submission: ReviewSubmission): Promise<Review> {
+    return this.request('/reviews', { method: 'POST', body: JSON.stringify(submission) });
+  }
+
+  async getProductReviews(productId: string): Promise<Review[]> {
+    return this.request(`/products/${encodeURIComponent(productId)}/reviews`);
+  }
+
+  async getRatingSummaries(): Promise<Record<string, RatingSummary>> {
+    return this.request('/ratings');
+  }
+
+  async getReviews(): Promise<Review[]> {
+    return this.request('/reviews');
+  }
+
+  async moderateReview(id: string, decision: { status?: ReviewStatus; reply?: string }): Promise<Review> {
+    return this.request(`/reviews/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(decision) });
+  }
+
+  // --- NEWSLETTER ---
+
+  async addSubscriber(email: string): Promise<void> {
+    await this.request('/subscribers', { method: 'POST', body: JSON.stringify({ email }) });
+  }
+
+  async getSubscribers(): Promise<string[]> {
+    return this.request('/subscribers');
+  }
+
+  // --- AUTHENTICATION ---
+
+  async verifyAdminPin(pin: string): Promise<boolean> {
+    try {
+      const { token } = await this.request<{ token: string }>('/auth', { method: 'POST', body: JSON.stringify({ pin }) });
+      this.adminToken = token;
+      return true;
+    } catch (error) {
+      if (error instanceof BackendError && error.status === 401) return false;
+      throw error;
+    }
+  }
+
+  async getMigrationReport(): Promise<MigrationReport> {
+    return this.request('/migrations');
+  }
+}
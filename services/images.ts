@@ -0,0 +1,14 @@
+// Browser-side downscaling so customer photos stay small enough to store with the review
+export const downscaleImage = async (file: File, maxSize = 1024, quality = 0.8): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image`);
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images cannot be processed in this browser');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', quality);
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { StockReservation } from '../types';
+import { adjustStock, describeShortages, findShortages, getReservedQuantity, isReservationActive, toReservationLines, withStockFlag } from './inventory';
+import { toCartItem } from './variants';
+import { makeProduct } from '../test/fixtures';
+
+const kemis = makeProduct({
+  id: 'kemis',
+  name: 'Kemis',
+  stockQuantity: 3,
+  variants: [
+    { id: 'kemis-s', sku: 'K-S', options: { size: 'S' }, priceDelta: 0, stockQuantity: 1 },
+    { id: 'kemis-m', sku: 'K-M', options: { size: 'M' }, priceDelta: 0, stockQuantity: 2 },
+  ],
+});
+
+const inAnHour = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+const anHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+const reservations: StockReservation[] = [
+  { id: 'other', lines: [{ productId: 'scarf', quantity: 2 }, { productId: 'kemis', variantId: 'kemis-m', quantity: 1 }], expiresAt: inAnHour },
+  { id: 'expired', lines: [{ productId: 'scarf', quantity: 3 }], expiresAt: anHourAgo },
+];
+
+describe('toReservationLines', () => {
+  it('keeps the variant of each cart line', () => {
+    expect(toReservationLines([toCartItem(makeProduct(), undefined, 2), toCartItem(kemis, kemis.variants![0])])).toEqual([
+      { productId: 'scarf', quantity: 2 },
+      { productId: 'kemis', variantId: 'kemis-s', quantity: 1 },
+    ]);
+  });
+});
+
+describe('getReservedQuantity', () => {
+  it('counts only active reservations of other checkouts', () => {
+    expect(isReservationActive(reservations[1])).toBe(false);
+    expect(getReservedQuantity(reservations, 'scarf')).toBe(2);
+    expect(getReservedQuantity(reservations, 'scarf', 'other')).toBe(0);
+    expect(getReservedQuantity(reservations, 'kemis', undefined, 'kemis-s')).toBe(0);
+    expect(getReservedQuantity(reservations, 'kemis', undefined, 'kemis-m')).toBe(1);
+  });
+});
+
+describe('findShortages', () => {
+  const products = [makeProduct(), kemis];
+
+  it('allows what is left after other reservations', () => {
+    expect(findShortages(products, [{ productId: 'scarf', quantity: 1 }], reservations)).toEqual([]);
+  });
+
+  it('reports lines that other checkouts hold', () => {
+    expect(findShortages(products, [{ productId: 'scarf', quantity: 2 }], reservations)).toEqual([
+      { productId: 'scarf', variantId: undefined, name: 'Scarf', requested: 2, available: 1 },
+    ]);
+  });
+
+  it('ignores the checkout’s own reservation', () => {
+    expect(findShortages(products, [{ productId: 'scarf', quantity: 3 }], reservations, 'other')).toEqual([]);
+  });
+
+  it('adds up repeated lines and checks variants on their own', () => {
+    const lines = [
+      { productId: 'kemis', variantId: 'kemis-m', quantity: 1 },
+      { productId: 'kemis', variantId: 'kemis-m', quantity: 1 },
+      { productId: 'kemis', variantId: 'kemis-s', quantity: 1 },
+    ];
+    expect(findShortages(products, lines, reservations)).toEqual([
+      { productId: 'kemis', variantId: 'kemis-m', name: 'Kemis – M', requested: 2, available: 1 },
+    ]);
+  });
+
+  it('treats unknown products as sold out', () => {
+    expect(findShortages(products, [{ productId: 'gone', quantity: 1 }], [])[0]).toMatchObject({ name: 'gone', available: 0 });
+  });
+});
+
+describe('describeShortages', () => {
+  it('says what is sold out and what is limited', () => {
+    expect(describeShortages([
+      { productId: 'scarf', name: 'Scarf', requested: 2, available: 0 },
+      { productId: 'kemis', name: 'Kemis', requested: 3, available: 1 },
+    ])).toBe('Scarf is sold out; Only 1 of Kemis available');
+  });
+});
+
+describe('withStockFlag', () => {
+  it('sums variant stock and flips inStock at zero', () => {
+    expect(withStockFlag({ ...kemis, stockQuantity: 99 }).stockQuantity).toBe(3);
+    expect(withStockFlag(makeProduct({ stockQuantity: 0 })).inStock).toBe(false);
+    expect(withStockFlag({ name: 'Draft' })).toEqual({ name: 'Draft' });
+  });
+});
+
+describe('adjustStock', () => {
+  it('takes and gives back stock per product and variant', () => {
+    const taken = adjustStock([makeProduct(), kemis], [{ productId: 'scarf', quantity: 1 }, { productId: 'kemis', variantId: 'kemis-s', quantity: 1 }], -1);
+    expect(taken[0].stockQuantity).toBe(2);
+    expect(taken[1].variants![0].stockQuantity).toBe(0);
+    expect(taken[1].stockQuantity).toBe(2);
+
+    const restocked = adjustStock(taken, [{ productId: 'kemis', variantId: 'kemis-s', quantity: 1 }], 1);
+    expect(restocked[1].variants![0].stockQuantity).toBe(1);
+    expect(restocked[0]).toBe(taken[0]);
+  });
+
+  it('never goes below zero', () => {
+    const [scarf] = adjustStock([makeProduct({ stockQuantity: 1 })], [{ productId: 'scarf', quantity: 2 }], -1);
+    expect(scarf).toMatchObject({ stockQuantity: 0, inStock: false });
+  });
+});
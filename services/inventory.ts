@@ -0,0 +1,96 @@
+import { CartItem, Product, StockReservation, StockReservationLine } from '../types';
+
+// How long stock stays held while the customer is on the payment step
+export const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+// Stock assumed for pre-inventory products that were marked as in stock
+export const DEFAULT_LEGACY_STOCK = 10;
+
+export interface StockShortage {
+  productId: string;
+  variantId?: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export const toReservationLines = (items: CartItem[]): StockReservationLine[] =>
+  items.map(item => ({ productId: item.id, ...(item.variant ? { variantId: item.variant.id } : {}), quantity: item.quantity }));
+
+export const isReservationActive = (reservation: StockReservation, now: number = Date.now()) =>
+  new Date(reservation.expiresAt).getTime() > now;
+
+// A line without variantId matches every variant of the product
+const matchesLine = (line: StockReservationLine, productId: string, variantId?: string) =>
+  line.productId === productId && (!variantId || line.variantId === variantId);
+
+// Units held by other checkouts
+export const getReservedQuantity = (reservations: StockReservation[], productId: string, excludeReservationId?: string, variantId?: string) =>
+  reservations
+    .filter(r => r.id !== excludeReservationId && isReservationActive(r))
+    .reduce((sum, r) => sum + r.lines.filter(l => matchesLine(l, productId, variantId)).reduce((s, l) => s + l.quantity, 0), 0);
+
+/**
+ * Lists every line that cannot be fulfilled from current stock, taking
+ * other customers' active reservations into account.
+ */
+export const findShortages = (
+  products: Product[],
+  lines: StockReservationLine[],
+  reservations: StockReservation[],
+  excludeReservationId?: string
+): StockShortage[] => {
+  const requested = new Map<string, StockReservationLine>();
+  lines.forEach(l => {
+    const key = `${l.productId}:${l.variantId || ''}`;
+    const existing = requested.get(key);
+    requested.set(key, { ...l, quantity: (existing?.quantity || 0) + l.quantity });
+  });
+
+  const shortages: StockShortage[] = [];
+  requested.forEach(line => {
+    const product = products.find(p => p.id === line.productId);
+    const variant = line.variantId ? product?.variants?.find(v => v.id === line.variantId) : undefined;
+    const onHand = line.variantId ? variant?.stockQuantity || 0 : product?.stockQuantity || 0;
+    const available = product
+      ? Math.max(0, onHand - getReservedQuantity(reservations, line.productId, excludeReservationId, line.variantId))
+      : 0;
+    if (line.quantity > available) {
+      const name = [product?.name || line.productId, variant ? Object.values(variant.options).join(' / ') : ''].filter(Boolean).join(' – ');
+      shortages.push({ productId: line.productId, variantId: line.variantId, name, requested: line.quantity, available });
+    }
+  });
+  return shortages;
+};
+
+export const describeShortages = (shortages: StockShortage[]) =>
+  shortages.map(s => s.available === 0 ? `${s.name} is sold out` : `Only ${s.available} of ${s.name} available`).join('; ');
+
+/**
+ * Keeps derived stock fields consistent: a product with variants carries the
+ * sum of their stock, and inStock flips off at zero.
+ */
+export const withStockFlag = <T extends Partial<Product>>(product: T): T => {
+  const stockQuantity = product.variants && product.variants.length > 0
+    ? product.variants.reduce((sum, v) => sum + v.stockQuantity, 0)
+    : product.stockQuantity;
+  return stockQuantity === undefined ? product : { ...product, stockQuantity, inStock: stockQuantity > 0 };
+};
+
+// Applies a stock movement (negative to take, positive to give back) to the matching products and variants
+export const adjustStock = (products: Product[], lines: StockReservationLine[], direction: 1 | -1): Product[] =>
+  products.map(p => {
+    const productLines = lines.filter(l => l.productId === p.id);
+    if (productLines.length === 0) return p;
+
+    const variants = p.variants?.map(v => {
+      const moved = productLines.filter(l => l.variantId === v.id).reduce((sum, l) => sum + l.quantity, 0);
+      return moved > 0 ? { ...v, stockQuantity: Math.max(0, v.stockQuantity + direction * moved) } : v;
+    });
+    const moved = productLines.filter(l => !l.variantId).reduce((sum, l) => sum + l.quantity, 0);
+    return withStockFlag({
+      ...p,
+      ...(variants ? { variants } : {}),
+      stockQuantity: Math.max(0, p.stockQuantity + direction * moved),
+    });
+  });
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { MOCK_PRODUCTS } from '../constants';
+import { MIGRATIONS, SCHEMA_VERSION, StoredData, runMigrations, syncSeedCatalog } from './migrations';
+import { DEFAULT_LEGACY_STOCK } from './inventory';
+import { DEFAULT_PARCEL } from './shipping';
+
+const migrate = (version: number, data: Partial<StoredData>) =>
+  MIGRATIONS.find(m => m.version === version)!.migrate({ products: [], orders: [], subscribers: [], ...data });
+
+// What the shop stored before it was versioned
+const legacy: StoredData = {
+  products: [
+    { id: 'f1', name: 'Royal Habesha Kemis', price: 280, currency: '€' },
+    { id: 'custom', name: 'Hand-carved Stool', price: 90, currency: '€', inStock: false },
+  ],
+  orders: [
+    { id: 'ORD-1', date: '2024-05-01T10:00:00.000Z', paymentMethod: 'credit_card', items: [{ id: 'f1', currency: '€' }] },
+    { id: 'ORD-2', date: '2024-05-02T10:00:00.000Z', paymentMethod: 'bank_transfer', items: [] },
+  ],
+  subscribers: ['a@example.com', null, 42],
+};
+
+describe('MIGRATIONS', () => {
+  it('are numbered in order without gaps', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(SCHEMA_VERSION).toBe(6);
+  });
+
+  it('v1 fills legacy defaults and drops broken subscribers', () => {
+    const data = migrate(1, legacy);
+    expect(data.products.map(p => p.inStock)).toEqual([true, false]);
+    expect(data.orders[0]).toMatchObject({ language: 'en', status: 'pending' });
+    expect(data.subscribers).toEqual(['a@example.com']);
+  });
+
+  it('v2 moves orders into the lifecycle with a first history entry', () => {
+    const data = migrate(2, { orders: [...legacy.orders, { id: 'ORD-3', date: '2024-05-03', status: 'shipped' }] });
+    expect(data.orders.map(o => o.status)).toEqual(['paid', 'pending_payment', 'shipped']);
+    expect(data.orders[0].statusHistory).toEqual([{ status: 'paid', date: '2024-05-01T10:00:00.000Z', note: 'Migrated from legacy status' }]);
+  });
+
+  it('v3 turns the in-stock flag into a quantity', () => {
+    const data = migrate(3, { products: [...legacy.products, { id: 'other', inStock: true }, { id: 'counted', stockQuantity: 0 }] });
+    const seeded = MOCK_PRODUCTS.find(p => p.id === 'f1')!;
+    expect(data.products.map(p => p.stockQuantity)).toEqual([seeded.stockQuantity, 0, DEFAULT_LEGACY_STOCK, 0]);
+    expect(data.products.map(p => p.inStock)).toEqual([true, false, true, false]);
+  });
+
+  it('v4 adds parcel sizes from the seed or the default parcel', () => {
+    const data = migrate(4, legacy);
+    const seeded = MOCK_PRODUCTS.find(p => p.id === 'f1')!;
+    expect(data.products[0]).toMatchObject({ weightKg: seeded.weightKg, dimensionsCm: seeded.dimensionsCm });
+    expect(data.products[1]).toMatchObject({ weightKg: DEFAULT_PARCEL.weightKg, dimensionsCm: DEFAULT_PARCEL.dimensionsCm });
+  });
+
+  it('v5 stores currency codes and marks old orders as euro orders', () => {
+    const data = migrate(5, legacy);
+    expect(data.products[0].currency).toBe('EUR');
+    expect(data.orders[0]).toMatchObject({ displayCurrency: 'EUR', settlementCurrency: 'EUR', exchangeRate: 1 });
+    expect(data.orders[0].items[0].currency).toBe('EUR');
+  });
+
+  it('v6 keeps seeded slugs and names the rest around them', () => {
+    const data = migrate(6, {
+      products: [
+        { id: 'f1', name: 'Renamed Kemis' },
+        { id: 'copy', name: 'Royal Habesha Kemis' },
+        { id: 'kept', name: 'Stool', slug: 'my-stool' },
+      ],
+    });
+    expect(data.products.map(p => p.slug)).toEqual(['royal-habesha-kemis', 'royal-habesha-kemis-2', 'my-stool']);
+  });
+});
+
+describe('runMigrations', () => {
+  it('brings unversioned data to the current schema', () => {
+    const { data, report } = runMigrations(legacy, 0);
+    expect(report).toMatchObject({ fromVersion: 0, toVersion: SCHEMA_VERSION, errors: [] });
+    expect(report.applied).toHaveLength(6);
+    expect(data.products[1]).toMatchObject({ slug: 'hand-carved-stool', currency: 'EUR', stockQuantity: 0, inStock: false });
+    expect(data.orders[1]).toMatchObject({ status: 'pending_payment', settlementCurrency: 'EUR' });
+  });
+
+  it('only runs the migrations after the stored version', () => {
+    const { report } = runMigrations(legacy, 4);
+    expect(report.applied).toEqual(['v5: Store ISO currency codes and record order currencies', 'v6: Give every product a stable URL slug']);
+    expect(runMigrations(legacy, SCHEMA_VERSION).report.applied).toEqual([]);
+  });
+
+  it('stops at the first failing migration and keeps the last good data', () => {
+    const broken: StoredData = { ...legacy, orders: [{ id: 'ORD-9', date: '2024-05-01', items: 'not a list' }] };
+    const { data, report } = runMigrations(broken, 4);
+    expect(report.toVersion).toBe(4);
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0]).toMatch(/^Migration to v5 failed: /);
+    expect(data).toBe(broken);
+  });
+});
+
+describe('syncSeedCatalog', () => {
+  const seed = [{ id: 'f1', name: 'Kemis', price: 280 }, { id: 'f2', name: 'Telet', price: 150 }] as Product[];
+
+  it('takes seed changes only for fields the admin left alone', () => {
+    const stored = [{ id: 'f1', name: 'Kemis', price: 300 }, { id: 'f2', name: 'Telet', price: 150 }] as Product[];
+    const next = [{ id: 'f1', name: 'Royal Kemis', price: 290 }, { id: 'f2', name: 'Telet Suit', price: 160 }] as Product[];
+    expect(syncSeedCatalog(stored, seed, next)).toEqual([
+      { id: 'f1', name: 'Royal Kemis', price: 300 },
+      { id: 'f2', name: 'Telet Suit', price: 160 },
+    ]);
+  });
+
+  it('adds new seed products but not ones the admin deleted', () => {
+    const next = [...seed, { id: 'f3', name: 'Netela', price: 45 }] as Product[];
+    expect(syncSeedCatalog([seed[0]], seed, next).map(p => p.id)).toEqual(['f1', 'f3']);
+  });
+
+  it('only fills missing fields without a previous seed', () => {
+    const stored = [{ id: 'f1', name: 'Old Kemis' }] as Product[];
+    expect(syncSeedCatalog(stored, null, seed)).toEqual([{ id: 'f1', name: 'Old Kemis', price: 280 }]);
+  });
+});
@@ -0,0 +1,187 @@
+import { Order, Product } from '../types';
+import { MOCK_PRODUCTS } from '../constants';
+import { DEFAULT_LEGACY_STOCK } from './inventory';
+import { DEFAULT_PARCEL } from './shipping';
+import { SETTLEMENT_CURRENCY, toCurrencyCode } from './currency';
+import { createProductSlug } from './routing';
+
+// Everything BackendService persists, as one document the migrations can reshape.
+export interface PersistedData {
+  products: Product[];
+  orders: Order[];
+  subscribers: string[];
+}
+
+// Older versions do not match the current types, so migrations see loose records
+type StoredRecord = Record<string, any>;
+
+export interface StoredData {
+  products: StoredRecord[];
+  orders: StoredRecord[];
+  subscribers: unknown[];
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+  errors: string[];
+}
+
+export class MigrationError extends Error {
+  constructor(public version: number, message: string) {
+    super(`Migration to v${version} failed: ${message}`);
+    this.name = 'MigrationError';
+  }
+}
+
+// Ordered list. Append new entries when a stored shape in types.ts changes;
+// never edit a migration that has already shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalise unversioned legacy records',
+    migrate: (data) => ({
+      products: data.products.map(p => ({ ...p, inStock: p.inStock ?? true })),
+      orders: data.orders.map(o => ({ ...o, language: o.language || 'en', status: o.status || 'pending' })),
+      subscribers: data.subscribers.filter(email => typeof email === 'string'),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Expand order status into the full lifecycle with history',
+    migrate: (data) => ({
+      ...data,
+      orders: data.orders.map(o => {
+        const status = o.status === 'shipped' ? 'shipped' : o.paymentMethod === 'bank_transfer' ? 'pending_payment' : 'paid';
+        return {
+          ...o,
+          status,
+          statusHistory: o.statusHistory || [{ status, date: o.date, note: 'Migrated from legacy status' }],
+        };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Track stock as a quantity instead of an in-stock flag',
+    migrate: (data) => ({
+      ...data,
+      products: data.products.map(p => {
+        const seeded = MOCK_PRODUCTS.find(m => m.id === p.id);
+        const stockQuantity = p.stockQuantity ?? (p.inStock === false ? 0 : seeded?.stockQuantity ?? DEFAULT_LEGACY_STOCK);
+        return { ...p, stockQuantity, inStock: stockQuantity > 0 };
+      }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Add packed weight and dimensions for shipping rates',
+    migrate: (data) => ({
+      ...data,
+      products: data.products.map(p => {
+        const seeded = MOCK_PRODUCTS.find(m => m.id === p.id);
+        return {
+          ...p,
+          weightKg: p.weightKg ?? seeded?.weightKg ?? DEFAULT_PARCEL.weightKg,
+          dimensionsCm: p.dimensionsCm ?? seeded?.dimensionsCm ?? DEFAULT_PARCEL.dimensionsCm,
+        };
+      }),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Store ISO currency codes and record order currencies',
+    migrate: (data) => ({
+      ...data,
+      products: data.products.map(p => ({ ...p, currency: toCurrencyCode(p.currency) })),
+      orders: data.orders.map(o => ({
+        ...o,
+        items: (o.items || []).map((item: Record<string, any>) => ({ ...item, currency: toCurrencyCode(item.currency) })),
+        // Everything before this was shown and charged in euros
+        displayCurrency: o.displayCurrency || SETTLEMENT_CURRENCY,
+        settlementCurrency: o.settlementCurrency || SETTLEMENT_CURRENCY,
+        exchangeRate: o.exchangeRate ?? 1,
+      })),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Give every product a stable URL slug',
+    migrate: (data) => {
+      // Seeded products keep the slug they ship with; the rest are named around them
+      const known = data.products.map(p => p.slug || MOCK_PRODUCTS.find(m => m.id === p.id)?.slug);
+      const taken = known.filter((slug): slug is string => !!slug);
+      return {
+        ...data,
+        products: data.products.map((p, i) => {
+          const slug = known[i] || createProductSlug(p.name || p.id, taken);
+          if (!known[i]) taken.push(slug);
+          return { ...p, slug };
+        }),
+      };
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrades data stored at `fromVersion` to SCHEMA_VERSION. Stops at the first
+ * failing migration and returns the data as of the last successful step.
+ */
+export const runMigrations = (data: StoredData, fromVersion: number): { data: PersistedData; report: MigrationReport } => {
+  const report: MigrationReport = { fromVersion, toVersion: fromVersion, applied: [], errors: [] };
+  let current = data;
+
+  for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+    try {
+      current = migration.migrate(current);
+      report.toVersion = migration.version;
+      report.applied.push(`v${migration.version}: ${migration.description}`);
+    } catch (error) {
+      const failure = new MigrationError(migration.version, error instanceof Error ? error.message : String(error));
+      report.errors.push(failure.message);
+      break;
+    }
+  }
+
+  return { data: current as PersistedData, report };
+};
+
+/**
+ * Three-way merge of the shipped catalog into a stored one. A field is only
+ * overwritten when the store still holds the value from the previous seed,
+ * so admin edits survive while untouched MOCK_PRODUCTS changes reach users.
+ * Products the admin deleted (present in the previous seed) stay deleted.
+ * Without a previous seed (pre-versioning stores) only missing fields are filled.
+ */
+export const syncSeedCatalog = (stored: Product[], previousSeed: Product[] | null, currentSeed: Product[]): Product[] => {
+  const previousById = new Map((previousSeed || []).map(p => [p.id, p]));
+  const storedIds = new Set(stored.map(p => p.id));
+
+  const merged = stored.map(product => {
+    const seed = currentSeed.find(p => p.id === product.id);
+    if (!seed) return product;
+    const before = previousById.get(product.id);
+
+    const next: Record<string, unknown> = { ...product };
+    (Object.keys(seed) as (keyof Product)[]).forEach(key => {
+      const untouched = !!before && JSON.stringify(product[key]) === JSON.stringify(before[key]);
+      if (product[key] === undefined || untouched) {
+        next[key] = seed[key];
+      }
+    });
+    return next as unknown as Product;
+  });
+
+  if (!previousSeed) return merged;
+  const added = currentSeed.filter(p => !storedIds.has(p.id) && !previousById.has(p.id));
+  return [...merged, ...added];
+};
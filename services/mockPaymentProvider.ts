@@ -0,0 +1,218 @@
+import { PaymentDeclineCode, PaymentIntent, PaymentRequest, PaymentStatus, PaymentWebhookEvent, PaymentWebhookType } from '../types';
+import { StorageAdapter } from './storage';
+import { PaymentError, PaymentProvider, WebhookListener } from './paymentProvider';
+import { isValidCreditCard, isValidCvc, isValidExpiry } from './cardValidation';
+import { roundMoney } from './money';
+
+type TestCardOutcome = 'success' | 'three_d_secure' | 'timeout' | PaymentDeclineCode;
+
+/**
+ * Card numbers that force an outcome, in the style of real gateway sandboxes.
+ * Any other Luhn-valid number with a future expiry is approved without a challenge.
+ */
+export const MOCK_TEST_CARDS: Record<string, TestCardOutcome> = {
+  '4242424242424242': 'success',
+  '5555555555554444': 'success',
+  '4000000000003220': 'three_d_secure',
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000000119': 'timeout',
+};
+
+// The code that passes the simulated 3-D Secure challenge; anything else fails authentication
+export const MOCK_3DS_CODE = '123456';
+
+const STORAGE_KEY = 'ethio_mockpay_payments';
+const WEBHOOK_SECRET = 'whsec_mosaicpay_local';
+
+interface MockPaymentProviderOptions {
+  timeoutMs?: number; // How long the 'timeout' test card hangs before failing
+  latencyMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a over secret + payload. Stands in for the HMAC-SHA256 real gateways sign with.
+const sign = (payload: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of WEBHOOK_SECRET + payload) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `v1=${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+const isExpired = (expiry: string, now: Date) => {
+  const [month, year] = expiry.replace('/', '').match(/.{2}/g)!.map(Number);
+  return new Date(2000 + year, month) <= now; // First day after the expiry month
+};
+
+// Local stand-in for MosaicPay: same lifecycle and webhooks, outcomes picked by test card number
+export class MockPaymentProvider implements PaymentProvider {
+  readonly id = 'mosaicpay_mock';
+  private payments: PaymentIntent[] | null = null;
+  private listeners: WebhookListener[] = [];
+  private timeoutMs: number;
+  private latencyMs: number;
+
+  constructor(private storage: StorageAdapter, options: MockPaymentProviderOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 8000;
+    this.latencyMs = options.latencyMs ?? 600;
+  }
+
+  async authorize(request: PaymentRequest): Promise<PaymentIntent> {
+    await sleep(this.latencyMs);
+    if (!(request.amount > 0)) throw new PaymentError('Amount must be positive', 'invalid_request');
+
+    const now = new Date().toISOString();
+    const payment: PaymentIntent = {
+      id: `pay_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      provider: this.id,
+      method: request.method,
+      reference: request.reference,
+      amount: roundMoney(request.amount),
+      currency: request.currency,
+      status: 'authorized',
+      capturedAmount: 0,
+      refundedAmount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (request.method === 'paypal') {
+      payment.status = 'requires_action';
+      payment.nextAction = { type: 'redirect', url: `https://sandbox.mosaicpay.test/paypal/approve/${payment.id}` };
+    } else {
+      const card = request.card;
+      if (!card || !isValidCreditCard(card.number) || !isValidExpiry(card.expiry) || !isValidCvc(card.cvc)) {
+        throw new PaymentError('Card details are incomplete or invalid', 'invalid_request');
+      }
+      const number = card.number.replace(/\D/g, '');
+      payment.cardBrand = card.brand;
+      payment.cardLast4 = number.slice(-4);
+
+      const outcome = MOCK_TEST_CARDS[number] ?? (isExpired(card.expiry, new Date()) ? 'expired_card' : 'success');
+      if (outcome === 'timeout') {
+        await sleep(this.timeoutMs);
+        throw new PaymentError('The payment gateway did not respond in time', 'timeout');
+      }
+      if (outcome === 'three_d_secure') {
+        payment.status = 'requires_action';
+        payment.nextAction = { type: 'three_d_secure' };
+      } else if (outcome !== 'success') {
+        payment.status = 'declined';
+        payment.declineCode = outcome;
+      }
+    }
+
+    await this.save([...(await this.load()), payment]);
+    if (payment.status === 'authorized') this.emit('payment.authorized', payment);
+    if (payment.status === 'declined') this.emit('payment.declined', payment);
+    return payment;
+  }
+
+  async completeAction(paymentId: string, response: string): Promise<PaymentIntent> {
+    await sleep(this.latencyMs);
+    const payment = await this.require(paymentId, ['requires_action']);
+    const passed = payment.nextAction?.type === 'three_d_secure'
+      ? response.trim() === MOCK_3DS_CODE
+      : response === 'approve';
+
+    const updated = passed
+      ? await this.update(payment, { status: 'authorized', nextAction: undefined })
+      : await this.update(payment, {
+          status: 'declined',
+          nextAction: undefined,
+          declineCode: payment.nextAction?.type === 'three_d_secure' ? 'authentication_failed' : 'canceled_by_customer',
+        });
+    this.emit(passed ? 'payment.authorized' : 'payment.declined', updated);
+    return updated;
+  }
+
+  async capture(paymentId: string): Promise<PaymentIntent> {
+    await sleep(this.latencyMs);
+    const payment = await this.require(paymentId, ['authorized']);
+    const updated = await this.update(payment, { status: 'captured', capturedAmount: payment.amount });
+    this.emit('payment.captured', updated);
+    return updated;
+  }
+
+  async refund(paymentId: string, amount: number): Promise<PaymentIntent> {
+    await sleep(this.latencyMs);
+    const payment = await this.require(paymentId, ['captured', 'partially_refunded']);
+    const refundable = roundMoney(payment.capturedAmount - payment.refundedAmount);
+    if (!(amount > 0) || amount > refundable + 0.005) {
+      throw new PaymentError(`Only €${refundable.toFixed(2)} can still be refunded`, 'invalid_request');
+    }
+    const refundedAmount = roundMoney(payment.refundedAmount + amount);
+    const updated = await this.update(payment, {
+      refundedAmount,
+      status: refundedAmount >= payment.capturedAmount ? 'refunded' : 'partially_refunded',
+    });
+    this.emit('payment.refunded', updated);
+    return updated;
+  }
+
+  async void(paymentId: string): Promise<PaymentIntent> {
+    await sleep(this.latencyMs);
+    const payment = await this.require(paymentId, ['authorized', 'requires_action']);
+    const updated = await this.update(payment, { status: 'voided', nextAction: undefined });
+    this.emit('payment.voided', updated);
+    return updated;
+  }
+
+  async getPayment(paymentId: string): Promise<PaymentIntent | undefined> {
+    return (await this.load()).find(p => p.id === paymentId);
+  }
+
+  verifyWebhook(payload: string, signature: string): PaymentWebhookEvent {
+    if (sign(payload) !== signature) throw new PaymentError('Webhook signature does not match', 'invalid_signature');
+    return JSON.parse(payload);
+  }
+
+  onWebhook(listener: WebhookListener) {
+    this.listeners.push(listener);
+  }
+
+  private emit(type: PaymentWebhookType, payment: PaymentIntent) {
+    const event: PaymentWebhookEvent = {
+      id: `evt_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      type,
+      createdAt: new Date().toISOString(),
+      payment,
+    };
+    const payload = JSON.stringify(event);
+    const signature = sign(payload);
+    // Delivered after the current call returns, like a real webhook
+    setTimeout(() => this.listeners.forEach(listener => listener(payload, signature)), 0);
+  }
+
+  private async require(paymentId: string, allowed: PaymentStatus[]) {
+    const payment = await this.getPayment(paymentId);
+    if (!payment) throw new PaymentError('Payment not found', 'not_found');
+    if (!allowed.includes(payment.status)) {
+      throw new PaymentError(`Payment is ${payment.status.replace('_', ' ')}`, 'invalid_state');
+    }
+    return payment;
+  }
+
+  private async update(payment: PaymentIntent, changes: Partial<PaymentIntent>) {
+    const updated = { ...payment, ...changes, updatedAt: new Date().toISOString() };
+    await this.save((await this.load()).map(p => p.id === payment.id ? updated : p));
+    return updated;
+  }
+
+  private async load(): Promise<PaymentIntent[]> {
+    if (!this.payments) {
+      const raw = await this.storage.getItem(STORAGE_KEY);
+      this.payments = raw ? JSON.parse(raw) : [];
+    }
+    return this.payments!;
+  }
+
+  private async save(payments: PaymentIntent[]) {
+    this.payments = payments;
+    await this.storage.setItem(STORAGE_KEY, JSON.stringify(payments));
+  }
+}
@@ -0,0 +1,2 @@
+// Rounds to whole cents
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
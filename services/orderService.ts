@@ -1,9 +1,11 @@
 
-import { backend } from './backend';
+import { backend } from './backendClient';
 import { Order } from '../types';
 
-export const saveOrder = async (order: Order): Promise<void> => {
-    await backend.createOrder(order);
+// Pass the customer's session token to file the order under their account.
+// The placed order carries the id the backend assigned; `order.id` is only the checkout's payment reference.
+export const saveOrder = async (order: Order, reservationId?: string, customerToken?: string): Promise<Order> => {
+    return await backend.createOrder(order, reservationId, customerToken);
 };
 
 export const getOrders = async (): Promise<Order[]> => {
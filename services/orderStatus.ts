@@ -0,0 +1,56 @@
+import { Order, OrderStatus, PaymentMethod } from '../types';
+
+// Order lifecycle state machine. Terminal states have no outgoing transitions.
+// Only unpaid orders can be cancelled; once money is taken the order is refunded instead, which pays it back.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['paid', 'cancelled'],
+  paid: ['processing', 'refunded'],
+  processing: ['shipped', 'refunded'],
+  shipped: ['delivered', 'returned'],
+  delivered: ['returned', 'refunded'],
+  returned: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Pending Payment',
+  paid: 'Paid',
+  processing: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  returned: 'Returned',
+};
+
+// Tailwind classes for status badges in the admin views
+export const ORDER_STATUS_STYLES: Record<OrderStatus, string> = {
+  pending_payment: 'bg-amber-50 text-amber-800 border-amber-200',
+  paid: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+  processing: 'bg-sky-50 text-sky-800 border-sky-200',
+  shipped: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  delivered: 'bg-emerald-100 text-emerald-900 border-emerald-300',
+  cancelled: 'bg-stone-100 text-stone-500 border-stone-200',
+  refunded: 'bg-red-50 text-red-700 border-red-200',
+  returned: 'bg-orange-50 text-orange-800 border-orange-200',
+};
+
+export const getAvailableTransitions = (status: OrderStatus): OrderStatus[] => ORDER_TRANSITIONS[status] || [];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => getAvailableTransitions(from).includes(to);
+
+// e.g. ETH-48213. Digits only, so bank reconciliation can tell ETH-4821 from ETH-48213. Callers check uniqueness.
+export const generateOrderId = () => `ETH-${10000 + Math.floor(Math.random() * 90000)}`;
+
+// Bank transfers wait for funds to clear; the other methods are settled at checkout.
+export const getInitialStatus = (paymentMethod: PaymentMethod): OrderStatus =>
+  paymentMethod === 'bank_transfer' ? 'pending_payment' : 'paid';
+
+// Returns a copy of the order moved to `to`, with the change appended to its history.
+// Callers are expected to check canTransition first.
+export const applyStatusChange = (order: Order, to: OrderStatus, note?: string): Order => ({
+  ...order,
+  status: to,
+  statusHistory: [...(order.statusHistory || []), { status: to, date: new Date().toISOString(), ...(note ? { note } : {}) }],
+});
@@ -0,0 +1,43 @@
+import { OrderPayment, PaymentIntent, PaymentRequest, PaymentWebhookEvent } from '../types';
+
+export type PaymentErrorCode = 'timeout' | 'invalid_request' | 'not_found' | 'invalid_state' | 'invalid_signature';
+
+// Gateway failures that are not a decision about the payment itself (declines come back as a status)
+export class PaymentError extends Error {
+  constructor(message: string, public code: PaymentErrorCode) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export type WebhookListener = (payload: string, signature: string) => void;
+
+/**
+ * A payment gateway. Authorization holds the funds, capture takes them once the
+ * order is placed, void releases an uncaptured hold and refund returns captured money.
+ * The gateway reports changes made outside checkout (e.g. from its dashboard) via signed webhooks.
+ */
+export interface PaymentProvider {
+  readonly id: string;
+  authorize(request: PaymentRequest): Promise<PaymentIntent>;
+  // Answers a pending 3-D Secure challenge (the code) or redirect ('approve' / 'cancel')
+  completeAction(paymentId: string, response: string): Promise<PaymentIntent>;
+  capture(paymentId: string): Promise<PaymentIntent>;
+  refund(paymentId: string, amount: number): Promise<PaymentIntent>;
+  void(paymentId: string): Promise<PaymentIntent>;
+  getPayment(paymentId: string): Promise<PaymentIntent | undefined>;
+  // Parses a webhook body, throwing PaymentError('invalid_signature') if it was not sent by this provider
+  verifyWebhook(payload: string, signature: string): PaymentWebhookEvent;
+  onWebhook(listener: WebhookListener): void;
+}
+
+export const toOrderPayment = (payment: PaymentIntent): OrderPayment => ({
+  id: payment.id,
+  provider: payment.provider,
+  status: payment.status,
+  amount: payment.amount,
+  capturedAmount: payment.capturedAmount,
+  refundedAmount: payment.refundedAmount,
+  ...(payment.cardLast4 ? { cardLast4: payment.cardLast4 } : {}),
+  updatedAt: payment.updatedAt,
+});
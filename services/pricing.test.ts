@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem } from '../types';
+import { FLAT_IMPORT_DUTIES, calculatePricing, findPriceMismatches } from './pricing';
+import { toCartItem } from './variants';
+import { makeProduct, makePromotion } from '../test/fixtures';
+
+// 1 kg each, so two of them ship in the 2 kg bracket (€19 to Germany)
+const cart: CartItem[] = [
+  toCartItem(makeProduct({ id: 'scarf' })),
+  toCartItem(makeProduct({ id: 'painting', name: 'Painting', price: 50, category: 'Art' })),
+];
+
+describe('calculatePricing', () => {
+  it('prices only the goods without a destination', () => {
+    const pricing = calculatePricing({ lines: cart });
+    expect(pricing.subtotal).toBe(150);
+    expect(pricing.shippingCost).toBe(0);
+    expect(pricing.duties).toBe(0);
+    expect(pricing.vat.total).toBe(0);
+    expect(pricing.total).toBe(150);
+  });
+
+  it('adds shipping and duties but not VAT, which is already in the prices', () => {
+    const pricing = calculatePricing({ lines: cart, country: 'Germany' });
+    expect(pricing.shippingCost).toBe(19);
+    expect(pricing.shipping?.carrier).toBe('Ethiopian Post EMS');
+    expect(pricing.duties).toBe(FLAT_IMPORT_DUTIES);
+    expect(pricing.total).toBe(150 + 19 + FLAT_IMPORT_DUTIES);
+  });
+
+  it('extracts VAT per rate, with shipping at the standard rate', () => {
+    const { vat } = calculatePricing({ lines: cart, country: 'Germany' });
+    expect(vat.included).toBe(true);
+    expect(vat.lines).toEqual([
+      { rate: 19, taxable: 100, vat: 19 }, // Scarf 100 + shipping 19
+      { rate: 7, taxable: 46.73, vat: 3.27 },
+    ]);
+    expect(vat.total).toBe(22.27);
+  });
+
+  it('takes discounts off the lines and the VAT in them', () => {
+    const pricing = calculatePricing({ lines: cart, country: 'Germany', promotions: [makePromotion()] });
+    expect(pricing.discount).toBe(15);
+    expect(pricing.lines.map(l => l.net)).toEqual([90, 45]);
+    expect(pricing.promotions).toEqual([{ code: 'TEN', label: 'Ten off', type: 'percentage', amount: 15 }]);
+    expect(pricing.total).toBe(135 + 19 + FLAT_IMPORT_DUTIES);
+    expect(pricing.vat.lines.find(l => l.rate === 7)?.vat).toBe(2.94);
+  });
+
+  it('records what free shipping saved', () => {
+    const pricing = calculatePricing({ lines: cart, country: 'Germany', promotions: [makePromotion({ code: 'SHIP', type: 'free_shipping', value: 0 })] });
+    expect(pricing.shippingCost).toBe(0);
+    expect(pricing.promotions[0].amount).toBe(19);
+    expect(pricing.total).toBe(150 + FLAT_IMPORT_DUTIES);
+  });
+
+  it('skips promotions that do not apply', () => {
+    const pricing = calculatePricing({ lines: cart, country: 'Germany', promotions: [makePromotion({ minSpend: 500 })] });
+    expect(pricing.discount).toBe(0);
+    expect(pricing.promotions).toEqual([]);
+  });
+});
+
+describe('findPriceMismatches', () => {
+  const expected = calculatePricing({ lines: cart, country: 'Germany' });
+  const submitted = { ...expected, items: cart };
+
+  it('accepts a breakdown that matches', () => {
+    expect(findPriceMismatches(submitted, expected)).toEqual([]);
+  });
+
+  it('names tampered prices and totals', () => {
+    const items = [{ ...cart[0], price: 1 }, cart[1]];
+    expect(findPriceMismatches({ ...submitted, items, total: 10 }, expected)).toEqual([
+      'Scarf costs €100.00, not €1.00',
+      'total is €181.50, not €10.00',
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { AppliedPromotion, CartItem, Promotion, ShippingQuote, ShippingService, VatBreakdown } from '../types';
+import { getCartLineId } from './variants';
+import { roundMoney } from './money';
+import { calculateVat } from './vat';
+import { getShippingQuote } from './shipping';
+import { getLineDiscounts, getPromotionIssue } from './promotions';
+
+// Flat customs handling fee per order
+export const FLAT_IMPORT_DUTIES = 12.50;
+
+// Totals may differ by at most this much before an order is rejected
+export const PRICE_TOLERANCE = 0.005;
+
+export interface PricingInput {
+  lines: CartItem[];
+  country?: string; // Without a destination only the goods are priced
+  shippingService?: ShippingService;
+  promotions?: Promotion[];
+  now?: Date; // For promotion date windows
+}
+
+export interface PricedLine {
+  lineId: string;
+  productId: string;
+  variantId?: string;
+  unitPrice: number;
+  quantity: number;
+  gross: number;
+  discount: number;
+  net: number;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  promotions: AppliedPromotion[]; // Only the ones that applied
+  shippingCost: number;
+  shipping?: ShippingQuote; // Carrier and ETA behind shippingCost
+  duties: number;
+  vat: VatBreakdown;
+  total: number;
+}
+
+/**
+ * Prices a cart line by line from VAT-inclusive catalog prices. The same function runs
+ * in the cart, at checkout and in the backend, so whatever the customer saw is
+ * what the server charges.
+ * Promotions apply in order, each on what is left after the previous one;
+ * ones that do not apply to the cart are skipped.
+ */
+export const calculatePricing = ({ lines, country, shippingService = 'standard', promotions = [], now = new Date() }: PricingInput): PriceBreakdown => {
+  const grossAmounts = lines.map(item => roundMoney(item.price * item.quantity));
+  const subtotal = roundMoney(grossAmounts.reduce((sum, g) => sum + g, 0));
+
+  const lineDiscounts = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+  let freeShipping = false;
+  promotions.forEach(promotion => {
+    if (getPromotionIssue(promotion, lines, now)) return;
+    const remaining = grossAmounts.map((gross, index) => roundMoney(gross - lineDiscounts[index]));
+    const discounts = getLineDiscounts(promotion, lines, remaining);
+    discounts.forEach((d, index) => { lineDiscounts[index] = roundMoney(lineDiscounts[index] + d); });
+    if (promotion.type === 'free_shipping') freeShipping = true;
+    applied.push({
+      code: promotion.code,
+      label: promotion.label,
+      type: promotion.type,
+      amount: roundMoney(discounts.reduce((sum, d) => sum + d, 0)),
+    });
+  });
+  const discount = roundMoney(lineDiscounts.reduce((sum, d) => sum + d, 0));
+
+  const pricedLines: PricedLine[] = lines.map((item, index) => ({
+    lineId: getCartLineId(item),
+    productId: item.id,
+    ...(item.variant ? { variantId: item.variant.id } : {}),
+    unitPrice: item.price,
+    quantity: item.quantity,
+    gross: grossAmounts[index],
+    discount: lineDiscounts[index],
+    net: roundMoney(grossAmounts[index] - lineDiscounts[index]),
+  }));
+
+  const shipping = country ? getShippingQuote(lines, country, shippingService) : undefined;
+  const shippingCost = freeShipping ? 0 : shipping?.price || 0;
+
+  // Free shipping is recorded with what it saved
+  const promotionsApplied = applied.map(p => p.type === 'free_shipping' ? { ...p, amount: shipping?.price || 0 } : p);
+  const duties = country && lines.length > 0 ? FLAT_IMPORT_DUTIES : 0;
+
+  // The VAT included in the goods after discounts is at their category's rate, in shipping at the standard rate
+  const vat = calculateVat(country || '', [
+    ...pricedLines.map((line, index) => ({ gross: line.net, category: lines[index].category })),
+    { gross: shippingCost },
+  ]);
+
+  return {
+    lines: pricedLines,
+    subtotal,
+    discount,
+    promotions: promotionsApplied,
+    shippingCost,
+    ...(shipping ? { shipping } : {}),
+    duties,
+    vat,
+    total: roundMoney(subtotal - discount + shippingCost + duties),
+  };
+};
+
+const differs = (a: number, b: number) => Math.abs(a - b) > PRICE_TOLERANCE;
+
+// Human-readable differences between a submitted breakdown and the recomputed one; empty when they agree
+export const findPriceMismatches = (
+  submitted: { subtotal: number; discount?: number; shippingCost: number; duties: number; vat?: VatBreakdown; total: number; items: CartItem[] },
+  expected: PriceBreakdown
+): string[] => {
+  const mismatches: string[] = [];
+  submitted.items.forEach(item => {
+    const line = expected.lines.find(l => l.lineId === getCartLineId(item));
+    if (line && differs(item.price, line.unitPrice)) {
+      mismatches.push(`${item.name} costs €${line.unitPrice.toFixed(2)}, not €${item.price.toFixed(2)}`);
+    }
+  });
+
+  const fields: [string, number, number][] = [
+    ['subtotal', submitted.subtotal, expected.subtotal],
+    ['discount', submitted.discount || 0, expected.discount],
+    ['shipping', submitted.shippingCost, expected.shippingCost],
+    ['duties', submitted.duties, expected.duties],
+    ['VAT', submitted.vat?.total || 0, expected.vat.total],
+    ['total', submitted.total, expected.total],
+  ];
+  fields.forEach(([label, sent, actual]) => {
+    if (differs(sent, actual)) mismatches.push(`${label} is €${actual.toFixed(2)}, not €${sent.toFixed(2)}`);
+  });
+  return mismatches;
+};
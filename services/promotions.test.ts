@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { describePromotion, getLineDiscounts, getPromotionIssue, getQualifyingSubtotal, normalizePromoCode } from './promotions';
+import { makeCartItem, makePromotion } from '../test/fixtures';
+
+const scarf = makeCartItem({ id: 'scarf', price: 40, quantity: 2 });
+const painting = makeCartItem({ id: 'painting', name: 'Painting', price: 120, category: 'Art' });
+const cart = [scarf, painting];
+
+const now = new Date('2026-03-14T10:00:00.000Z');
+
+describe('normalizePromoCode', () => {
+  it('trims and upper-cases codes', () => {
+    expect(normalizePromoCode('  timkat20 ')).toBe('TIMKAT20');
+  });
+});
+
+describe('getPromotionIssue', () => {
+  it('accepts a code that applies', () => {
+    expect(getPromotionIssue(makePromotion(), cart, now)).toBeNull();
+  });
+
+  it('rejects inactive codes and codes outside their dates', () => {
+    expect(getPromotionIssue(makePromotion({ active: false }), cart, now)).toBe('inactive');
+    expect(getPromotionIssue(makePromotion({ startsAt: '2026-04-01T00:00:00.000Z' }), cart, now)).toBe('not_started');
+    expect(getPromotionIssue(makePromotion({ endsAt: '2026-03-01T00:00:00.000Z' }), cart, now)).toBe('expired');
+  });
+
+  it('rejects codes that reached their usage limit', () => {
+    expect(getPromotionIssue(makePromotion({ usageLimit: 1, usageCount: 1 }), cart, now)).toBe('used_up');
+    expect(getPromotionIssue(makePromotion({ usageLimit: 2, usageCount: 1 }), cart, now)).toBeNull();
+  });
+
+  it('needs a qualifying item and the minimum spend on qualifying items', () => {
+    expect(getPromotionIssue(makePromotion({ category: 'Accessories' }), cart, now)).toBe('no_items');
+    expect(getPromotionIssue(makePromotion({ category: 'Clothes', minSpend: 100 }), cart, now)).toBe('min_spend');
+    expect(getPromotionIssue(makePromotion({ minSpend: 200 }), cart, now)).toBeNull();
+  });
+
+  it('reports the most fundamental problem first', () => {
+    expect(getPromotionIssue(makePromotion({ active: false, usageLimit: 0, minSpend: 1000 }), cart, now)).toBe('inactive');
+  });
+});
+
+describe('getQualifyingSubtotal', () => {
+  it('counts only items in the promotion’s category', () => {
+    expect(getQualifyingSubtotal(makePromotion({ category: 'Art' }), cart)).toBe(120);
+    expect(getQualifyingSubtotal(makePromotion(), cart)).toBe(200);
+  });
+});
+
+describe('getLineDiscounts', () => {
+  const remaining = [80, 120];
+
+  it('spreads a percentage over the qualifying lines', () => {
+    expect(getLineDiscounts(makePromotion({ value: 10 }), cart, remaining)).toEqual([8, 12]);
+    expect(getLineDiscounts(makePromotion({ value: 10, category: 'Art' }), cart, remaining)).toEqual([0, 12]);
+    expect(getLineDiscounts(makePromotion({ value: 150 }), cart, remaining)).toEqual([80, 120]);
+  });
+
+  it('caps a fixed amount at what the lines still cost', () => {
+    expect(getLineDiscounts(makePromotion({ type: 'fixed', value: 50 }), cart, remaining)).toEqual([20, 30]);
+    expect(getLineDiscounts(makePromotion({ type: 'fixed', value: 500 }), cart, [10, 20])).toEqual([10, 20]);
+  });
+
+  it('gives the cheapest units of each group away on buy X get Y', () => {
+    const buyTwoGetOne = makePromotion({ type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1 });
+    expect(getLineDiscounts(buyTwoGetOne, cart, remaining)).toEqual([40, 0]);
+    expect(getLineDiscounts(buyTwoGetOne, [scarf], [80])).toEqual([0]);
+  });
+
+  it('never discounts goods for free shipping', () => {
+    expect(getLineDiscounts(makePromotion({ type: 'free_shipping' }), cart, remaining)).toEqual([0, 0]);
+  });
+});
+
+describe('describePromotion', () => {
+  it('summarises the rule for admin lists', () => {
+    expect(describePromotion(makePromotion({ value: 20, category: 'Art', minSpend: 100 }))).toBe('20% off Art · min €100');
+    expect(describePromotion(makePromotion({ type: 'fixed', value: 5 }))).toBe('€5.00 off');
+    expect(describePromotion(makePromotion({ type: 'buy_x_get_y', buyQuantity: 2 }))).toBe('Buy 2 get 1 free');
+  });
+});
@@ -0,0 +1,104 @@
+import { CartItem, Promotion, PromotionType } from '../types';
+import { roundMoney } from './money';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+  free_shipping: 'Free shipping',
+  buy_x_get_y: 'Buy X get Y',
+};
+
+// Why a code does not apply to a cart; each maps to an i18n key `promo_<issue>`
+export type PromotionIssue = 'inactive' | 'not_started' | 'expired' | 'used_up' | 'no_items' | 'min_spend';
+
+export const PROMOTION_ISSUE_MESSAGES: Record<PromotionIssue, string> = {
+  inactive: 'This code is not valid',
+  not_started: 'This code is not valid yet',
+  expired: 'This code has expired',
+  used_up: 'This code has reached its usage limit',
+  no_items: 'No items in your cart qualify for this code',
+  min_spend: 'Your cart does not reach the minimum spend for this code',
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Checkout takes one code per order; the backend refuses anything more
+export const MAX_PROMO_CODES_PER_ORDER = 1;
+
+export const isQualifyingItem = (promotion: Promotion, item: CartItem) =>
+  !promotion.category || item.category === promotion.category;
+
+export const getQualifyingSubtotal = (promotion: Promotion, lines: CartItem[]) =>
+  roundMoney(lines.filter(item => isQualifyingItem(promotion, item)).reduce((sum, item) => sum + item.price * item.quantity, 0));
+
+/**
+ * First reason the promotion cannot apply to these lines, or null when it does.
+ * Checks run cheapest-first so the customer sees the most fundamental problem.
+ */
+export const getPromotionIssue = (promotion: Promotion, lines: CartItem[], now: Date = new Date()): PromotionIssue | null => {
+  if (!promotion.active) return 'inactive';
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) return 'not_started';
+  if (promotion.endsAt && now > new Date(promotion.endsAt)) return 'expired';
+  if (promotion.usageLimit !== undefined && promotion.usageCount >= promotion.usageLimit) return 'used_up';
+  if (!lines.some(item => isQualifyingItem(promotion, item))) return 'no_items';
+  if (promotion.minSpend && getQualifyingSubtotal(promotion, lines) < promotion.minSpend) return 'min_spend';
+  return null;
+};
+
+// Spreads an amount over the given line values; the last line absorbs rounding
+const allocate = (values: number[], amount: number): number[] => {
+  const base = values.reduce((sum, v) => sum + v, 0);
+  if (base <= 0 || amount <= 0) return values.map(() => 0);
+
+  let remaining = roundMoney(amount);
+  return values.map((value, index) => {
+    if (index === values.length - 1) return remaining;
+    const share = roundMoney(amount * value / base);
+    remaining = roundMoney(remaining - share);
+    return share;
+  });
+};
+
+/**
+ * Per-line discount a goods promotion takes off `remaining` (what each line
+ * still costs after earlier promotions). Non-qualifying lines get 0.
+ * free_shipping never touches the goods and always returns zeros.
+ */
+export const getLineDiscounts = (promotion: Promotion, lines: CartItem[], remaining: number[]): number[] => {
+  const qualifying = lines.map(item => isQualifyingItem(promotion, item));
+  const base = remaining.map((value, index) => qualifying[index] ? value : 0);
+  const baseTotal = base.reduce((sum, v) => sum + v, 0);
+
+  switch (promotion.type) {
+    case 'percentage':
+      return allocate(base, baseTotal * Math.min(100, Math.max(0, promotion.value)) / 100);
+    case 'fixed':
+      return allocate(base, Math.min(baseTotal, Math.max(0, promotion.value)));
+    case 'buy_x_get_y': {
+      const buy = Math.max(1, promotion.buyQuantity || 1);
+      const get = Math.max(1, promotion.getQuantity || 1);
+      // Every qualifying unit, most expensive first; the tail of each group is free
+      const units = lines
+        .flatMap((item, index) => qualifying[index] ? Array.from({ length: item.quantity }, () => ({ index, price: item.price })) : [])
+        .sort((a, b) => b.price - a.price);
+      const freeUnits = Math.floor(units.length / (buy + get)) * get;
+      const discounts = lines.map(() => 0);
+      units.slice(units.length - freeUnits).forEach(unit => { discounts[unit.index] += unit.price; });
+      return discounts.map((d, index) => roundMoney(Math.min(d, base[index])));
+    }
+    default:
+      return lines.map(() => 0);
+  }
+};
+
+// One-line summary for admin lists, e.g. "20% off Art · min €100"
+export const describePromotion = (promotion: Promotion, categoryName: string | undefined = promotion.category) => {
+  const rule = promotion.type === 'percentage' ? `${promotion.value}% off`
+    : promotion.type === 'fixed' ? `€${promotion.value.toFixed(2)} off`
+    : promotion.type === 'free_shipping' ? 'Free shipping'
+    : `Buy ${promotion.buyQuantity || 1} get ${promotion.getQuantity || 1} free`;
+  return [
+    categoryName ? `${rule} ${categoryName}` : rule,
+    promotion.minSpend ? `min €${promotion.minSpend}` : '',
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, Order } from '../types';
+import { allocateRefund, getLineRefundAmount, getRefundableAmount, getShippingRefundable, quoteRefund, toRestockLines } from './refunds';
+import { calculateVat } from './vat';
+import { makeCartItem, makeOrder, makeRefund } from '../test/fixtures';
+
+const item = (overrides: Partial<CartItem> = {}): CartItem => makeCartItem({ quantity: 2, ...overrides });
+
+// Two scarves at €100 with €20 off, so each one cost the customer €90
+const order = (overrides: Partial<Order> = {}): Order => makeOrder({
+  items: [item()],
+  subtotal: 200,
+  discount: 20,
+  vat: calculateVat('Germany', [{ gross: 180, category: 'Clothes' }, { gross: 19 }]),
+  total: 211.5,
+  status: 'delivered',
+  ...overrides,
+});
+
+const oneScarfRefunded = order({
+  refunds: [makeRefund({ amount: 90, lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: 90 }], allocations: [{ method: 'credit_card', amount: 90 }] })],
+});
+
+describe('getLineRefundAmount', () => {
+  it('refunds what the customer paid per unit, after the discount', () => {
+    expect(getLineRefundAmount(order(), item(), 1)).toBe(90);
+    expect(getLineRefundAmount(order(), item(), 2)).toBe(180);
+  });
+
+  it('gives the last units whatever is left of the line', () => {
+    const thirds = order({ items: [item({ price: 10, quantity: 3 })], subtotal: 30, discount: 0, total: 61.5 });
+    const first = getLineRefundAmount(thirds, thirds.items[0], 1);
+    const rest = getLineRefundAmount({
+      ...thirds,
+      refunds: [makeRefund({ lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: first }] })],
+    }, thirds.items[0], 2);
+    expect(first + rest).toBe(30);
+  });
+
+  it('adds VAT on orders that were charged it on top of net prices', () => {
+    const legacy = order({ discount: 0, vat: { country: 'Germany', lines: [{ rate: 19, taxable: 219, vat: 41.61 }], total: 41.61 } });
+    expect(getLineRefundAmount(legacy, item(), 1)).toBe(119);
+    expect(getShippingRefundable(legacy)).toBe(22.61);
+  });
+});
+
+describe('quoteRefund', () => {
+  it('returns everything left on a whole-order refund, duties included', () => {
+    expect(quoteRefund(order(), { scope: 'order' })).toEqual({
+      lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 2, amount: 180 }],
+      shipping: 19,
+      amount: 211.5,
+    });
+  });
+
+  it('leaves out what has already been refunded', () => {
+    const quote = quoteRefund(oneScarfRefunded, { scope: 'order' });
+    expect(quote.lines).toEqual([{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: 90 }]);
+    expect(quote.amount).toBe(121.5);
+    expect(getRefundableAmount(oneScarfRefunded)).toBe(121.5);
+  });
+
+  it('refunds chosen lines', () => {
+    expect(quoteRefund(order(), { scope: 'lines', lines: [{ lineId: 'scarf', quantity: 1 }] })).toEqual({
+      lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: 90 }],
+      shipping: 0,
+      amount: 90,
+    });
+  });
+
+  it('refuses more units than are left', () => {
+    expect(() => quoteRefund(oneScarfRefunded, { scope: 'lines', lines: [{ lineId: 'scarf', quantity: 2 }] }))
+      .toThrow('Only 1 of Scarf can still be refunded');
+    expect(() => quoteRefund(order(), { scope: 'lines', lines: [{ lineId: 'nope', quantity: 1 }] })).toThrow('Line nope is not on this order');
+    expect(() => quoteRefund(order(), { scope: 'lines', lines: [] })).toThrow('Choose at least one item to refund');
+  });
+
+  it('refunds shipping once', () => {
+    expect(quoteRefund(order(), { scope: 'shipping' })).toEqual({ lines: [], shipping: 19, amount: 19 });
+    const shippingRefunded = order({ refunds: [makeRefund({ scope: 'shipping', amount: 19, shipping: 19 })] });
+    expect(() => quoteRefund(shippingRefunded, { scope: 'shipping' })).toThrow('Shipping has already been refunded or was free');
+  });
+});
+
+describe('toRestockLines', () => {
+  it('puts refunded units of the right variant back', () => {
+    const variant = { id: 'scarf-red', sku: 'SC-RED', options: { color: 'Red' }, priceDelta: 0, stockQuantity: 0 };
+    const withVariant = order({ items: [item({ variant })] });
+    expect(toRestockLines(withVariant, [{ lineId: 'scarf:scarf-red', name: 'Scarf', quantity: 1, amount: 90 }])).toEqual([
+      { productId: 'scarf', variantId: 'scarf-red', quantity: 1 },
+    ]);
+    expect(toRestockLines(withVariant, [{ lineId: 'gone', name: 'Gone', quantity: 1, amount: 10 }])).toEqual([]);
+  });
+});
+
+describe('allocateRefund', () => {
+  const mixed = order({ giftCard: { code: 'GIFT-1', amount: 50 } });
+
+  it('returns external payments before gift card balance', () => {
+    expect(allocateRefund(mixed, 200)).toEqual([
+      { method: 'credit_card', amount: 161.5 },
+      { method: 'gift_card', amount: 38.5, reference: 'GIFT-1' },
+    ]);
+  });
+
+  it('takes earlier refunds into account', () => {
+    const refunded = { ...mixed, refunds: [makeRefund({ amount: 161.5, allocations: [{ method: 'credit_card', amount: 161.5 }] })] };
+    expect(allocateRefund(refunded, 20)).toEqual([{ method: 'gift_card', amount: 20, reference: 'GIFT-1' }]);
+  });
+
+  it('refuses to give back more than was paid', () => {
+    expect(() => allocateRefund(order(), 300)).toThrow('Only €211.50 can still be refunded');
+  });
+});
@@ -0,0 +1,134 @@
+import { CartItem, Order, RefundAllocation, RefundLine, RefundRequest, RefundScope, StockReservationLine } from '../types';
+import { getCartLineId } from './variants';
+import { getOrderVatRate } from './vat';
+import { roundMoney } from './money';
+
+export const REFUND_SCOPE_LABELS: Record<RefundScope, string> = {
+  order: 'Whole order',
+  lines: 'Items',
+  shipping: 'Shipping only',
+};
+
+const sum = (amounts: number[]) => roundMoney(amounts.reduce((total, amount) => total + amount, 0));
+
+export const getRefundedAmount = (order: Order) => sum((order.refunds || []).map(r => r.amount));
+
+export const getRefundableAmount = (order: Order) => roundMoney(order.total - getRefundedAmount(order));
+
+export const getRefundedQuantity = (order: Order, lineId: string) =>
+  (order.refunds || []).reduce((total, r) => total + r.lines.filter(l => l.lineId === lineId).reduce((n, l) => n + l.quantity, 0), 0);
+
+const getRefundedForLine = (order: Order, lineId: string) =>
+  sum((order.refunds || []).flatMap(r => r.lines.filter(l => l.lineId === lineId).map(l => l.amount)));
+
+// Prices include VAT, except on orders placed while it was added on top of net prices;
+// those are refunded at the rates they were charged, not today's
+const vatFactor = (order: Order, item?: CartItem) =>
+  order.vat && !order.vat.included ? 1 + getOrderVatRate(order, item?.category) / 100 : 1;
+
+// What the customer paid for a whole line: its price less its share of the order discount, plus any VAT added on top
+const getLinePaid = (order: Order, item: CartItem) => {
+  const gross = item.price * item.quantity;
+  const discountShare = order.subtotal > 0 ? (order.discount || 0) * gross / order.subtotal : 0;
+  return roundMoney((gross - discountShare) * vatFactor(order, item));
+};
+
+// The last units of a line take whatever is left, so rounding never leaves cents behind
+export const getLineRefundAmount = (order: Order, item: CartItem, quantity: number) => {
+  const lineId = getCartLineId(item);
+  const remaining = item.quantity - getRefundedQuantity(order, lineId);
+  const paid = getLinePaid(order, item);
+  return quantity >= remaining
+    ? roundMoney(paid - getRefundedForLine(order, lineId))
+    : roundMoney(paid * quantity / item.quantity);
+};
+
+export const getShippingRefundable = (order: Order) =>
+  roundMoney(order.shippingCost * vatFactor(order) - sum((order.refunds || []).map(r => r.shipping)));
+
+export interface RefundQuote {
+  lines: RefundLine[];
+  shipping: number;
+  amount: number;
+}
+
+/**
+ * Works out what a refund request gives back. A whole-order refund returns
+ * everything not yet refunded, duties included; line and shipping refunds
+ * return what the customer paid for those parts. Throws when the request asks
+ * for more than is left.
+ */
+export const quoteRefund = (order: Order, request: Pick<RefundRequest, 'scope' | 'lines'>): RefundQuote => {
+  const refundable = getRefundableAmount(order);
+  const remainingLine = (item: CartItem) => item.quantity - getRefundedQuantity(order, getCartLineId(item));
+  const toRefundLine = (item: CartItem, quantity: number): RefundLine => ({
+    lineId: getCartLineId(item),
+    name: item.name,
+    quantity,
+    amount: getLineRefundAmount(order, item, quantity),
+  });
+
+  if (request.scope === 'order') {
+    return {
+      lines: order.items.filter(item => remainingLine(item) > 0).map(item => toRefundLine(item, remainingLine(item))),
+      shipping: getShippingRefundable(order),
+      amount: refundable,
+    };
+  }
+
+  if (request.scope === 'shipping') {
+    const shipping = getShippingRefundable(order);
+    if (shipping <= 0) throw new Error('Shipping has already been refunded or was free');
+    return { lines: [], shipping, amount: Math.min(shipping, refundable) };
+  }
+
+  const requested = (request.lines || []).filter(l => l.quantity > 0);
+  if (requested.length === 0) throw new Error('Choose at least one item to refund');
+  const lines = requested.map(({ lineId, quantity }) => {
+    const item = order.items.find(i => getCartLineId(i) === lineId);
+    if (!item) throw new Error(`Line ${lineId} is not on this order`);
+    if (!Number.isInteger(quantity) || quantity > remainingLine(item)) {
+      throw new Error(`Only ${remainingLine(item)} of ${item.name} can still be refunded`);
+    }
+    return toRefundLine(item, quantity);
+  });
+  return { lines, shipping: 0, amount: Math.min(sum(lines.map(l => l.amount)), refundable) };
+};
+
+// Stock movements that put refunded lines back on the shelf
+export const toRestockLines = (order: Order, lines: RefundLine[]): StockReservationLine[] =>
+  lines.flatMap(line => {
+    const item = order.items.find(i => getCartLineId(i) === line.lineId);
+    return item ? [{ productId: item.id, ...(item.variant ? { variantId: item.variant.id } : {}), quantity: line.quantity }] : [];
+  });
+
+export const getAllocated = (order: Order, method: RefundAllocation['method']) =>
+  sum((order.refunds || []).flatMap(r => r.allocations.filter(a => a.method === method).map(a => a.amount)));
+
+/**
+ * Splits a refund over the ways the order was paid. Money charged outside
+ * the shop (gateway or bank transfer) goes back first, then the gift card
+ * balance is restored.
+ */
+export const allocateRefund = (order: Order, amount: number): RefundAllocation[] => {
+  const giftCardPaid = order.giftCard?.amount || 0;
+  const external = order.paymentMethod === 'gift_card' ? undefined : order.paymentMethod;
+  const externalPaid = !external ? 0
+    : order.payment ? order.payment.capturedAmount
+    : external === 'bank_transfer' && order.bankPayments?.length ? sum(order.bankPayments.map(p => p.amount))
+    : roundMoney(order.total - giftCardPaid);
+
+  const sources: RefundAllocation[] = [
+    ...(external ? [{ method: external, amount: roundMoney(externalPaid - getAllocated(order, external)), ...(order.payment ? { reference: order.payment.id } : {}) }] : []),
+    ...(order.giftCard ? [{ method: 'gift_card' as const, amount: roundMoney(giftCardPaid - getAllocated(order, 'gift_card')), reference: order.giftCard.code }] : []),
+  ];
+
+  let left = amount;
+  const allocations = sources.flatMap(source => {
+    const take = roundMoney(Math.min(left, Math.max(0, source.amount)));
+    left = roundMoney(left - take);
+    return take > 0 ? [{ ...source, amount: take }] : [];
+  });
+  if (left > 0) throw new Error(`Only €${roundMoney(amount - left).toFixed(2)} can still be refunded`);
+  return allocations;
+};
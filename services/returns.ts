@@ -0,0 +1,83 @@
+import { CartItem, Order, Product, ReturnAuthorization, ReturnReason, ReturnStatus, ReturnStatusChange } from '../types';
+import { describeVariant, getCartLineId } from './variants';
+import { getRefundedQuantity } from './refunds';
+
+// Matches the policy shown in the Returns & Exchanges info page
+export const RETURN_WINDOW_DAYS = 14;
+
+// RMA lifecycle. Refunded, exchanged and rejected returns are closed.
+export const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received', 'rejected'],
+  received: ['refunded', 'exchanged'],
+  rejected: [],
+  refunded: [],
+  exchanged: [],
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  refunded: 'Refunded',
+  exchanged: 'Exchanged',
+};
+
+export const RETURN_STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: 'bg-amber-50 text-amber-800 border-amber-200',
+  approved: 'bg-sky-50 text-sky-800 border-sky-200',
+  rejected: 'bg-stone-100 text-stone-500 border-stone-200',
+  received: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  refunded: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+  exchanged: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+};
+
+export const RETURN_REASONS: ReturnReason[] = ['wrong_size', 'damaged', 'not_as_described', 'changed_mind', 'other'];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  wrong_size: 'Wrong size',
+  damaged: 'Arrived damaged',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed mind',
+  other: 'Other',
+};
+
+export const canTransitionReturn = (from: ReturnStatus, to: ReturnStatus) => RETURN_TRANSITIONS[from].includes(to);
+
+export const applyReturnStatus = (rma: ReturnAuthorization, to: ReturnStatus, note?: string): ReturnAuthorization => {
+  const change: ReturnStatusChange = { status: to, date: new Date().toISOString(), ...(note ? { note } : {}) };
+  return { ...rma, status: to, statusHistory: [...rma.statusHistory, change] };
+};
+
+// Base-36 timestamp plus a random tail; the email check keeps RMAs private, so it only has to be unique
+export const generateRmaNumber = () =>
+  `RMA-${Date.now().toString(36).slice(-4)}${Math.floor(Math.random() * 1296).toString(36).padStart(2, '0')}`.toUpperCase();
+
+// Returns can be requested until RETURN_WINDOW_DAYS after delivery
+export const getReturnDeadline = (order: Order): Date | undefined => {
+  const delivered = [...(order.statusHistory || [])].reverse().find(change => change.status === 'delivered');
+  if (!delivered) return undefined;
+  const deadline = new Date(delivered.date);
+  deadline.setDate(deadline.getDate() + RETURN_WINDOW_DAYS);
+  return deadline;
+};
+
+// Open and exchanged returns hold their units; refunded ones are counted through the order's refunds
+const HOLDING_STATUSES: ReturnStatus[] = ['requested', 'approved', 'received', 'exchanged'];
+
+export const getReturnableQuantity = (order: Order, returns: ReturnAuthorization[], item: CartItem) => {
+  const lineId = getCartLineId(item);
+  const held = returns
+    .filter(r => r.orderId === order.id && HOLDING_STATUSES.includes(r.status))
+    .reduce((sum, r) => sum + r.lines.filter(l => l.lineId === lineId).reduce((n, l) => n + l.quantity, 0), 0);
+  return Math.max(0, item.quantity - getRefundedQuantity(order, lineId) - held);
+};
+
+// Other in-stock variants of the same product at the same price; price differences need a new order
+export const getExchangeOptions = (product: Product | undefined, item: CartItem) =>
+  (product?.variants || [])
+    .filter(v => v.id !== item.variant?.id && v.stockQuantity > 0 && v.priceDelta === (item.variant?.priceDelta ?? 0))
+    .map(v => ({ variantId: v.id, label: describeVariant(v) }));
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewSubmission } from '../types';
+import { getReviewIssue, getStoredPhotoLength } from './reviews';
+import { makeOrder } from '../test/fixtures';
+
+const delivered = makeOrder({ status: 'delivered', statusHistory: [{ status: 'delivered', date: '2026-03-20T10:00:00.000Z' }] });
+
+const submission = (overrides: Partial<ReviewSubmission> = {}): ReviewSubmission => ({
+  orderId: 'ETH-12345',
+  email: 'anna@example.com',
+  productId: 'scarf',
+  rating: 5,
+  text: 'Beautiful weave and soft cotton',
+  language: 'en',
+  ...overrides,
+});
+
+const photo = (length: number) => `data:image/jpeg;base64,${'A'.repeat(length)}`;
+
+describe('getReviewIssue', () => {
+  it('accepts a review of a delivered piece', () => {
+    expect(getReviewIssue(submission({ photos: [photo(40_000)] }), delivered)).toBeUndefined();
+  });
+
+  it('needs delivery first', () => {
+    expect(getReviewIssue(submission(), makeOrder())).toBe('You can review this piece once your order has been delivered');
+  });
+
+  it('only takes thumbnail-sized photos', () => {
+    expect(getReviewIssue(submission({ photos: [photo(200_000)] }), delivered)).toBe('Photos must be JPEG, PNG or WebP images under 110 KB');
+    expect(getReviewIssue(submission({ photos: ['data:image/gif;base64,AAAA'] }), delivered)).toBe('Photos must be JPEG, PNG or WebP images under 110 KB');
+  });
+});
+
+describe('getStoredPhotoLength', () => {
+  it('adds up the photos of every review', () => {
+    expect(getStoredPhotoLength([{ photos: ['abc', 'de'] }, { photos: [] }, { photos: ['f'] }])).toBe(6);
+  });
+});
@@ -0,0 +1,72 @@
+import { Order, RatingSummary, Review, ReviewStatus, ReviewSubmission } from '../types';
+
+export const REVIEW_TEXT_MIN_LENGTH = 10;
+export const REVIEW_TEXT_MAX_LENGTH = 2000;
+export const REVIEW_MAX_PHOTOS = 3;
+// Photos are stored as thumbnails: the browser scales them to this many pixels on the longest side
+export const REVIEW_PHOTO_MAX_SIZE = 480;
+// Roughly 110 KB per photo once base64-encoded; a 480 px JPEG is well below this
+const REVIEW_PHOTO_MAX_LENGTH = 150_000;
+// Reviews share the browser's ~5 MB storage with orders, so all review photos together stay under about 2 MB of it
+export const REVIEW_PHOTO_STORAGE_LIMIT = 2_000_000;
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Awaiting moderation',
+  approved: 'Published',
+  rejected: 'Rejected',
+};
+
+export const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-amber-50 text-amber-800 border-amber-200',
+  approved: 'bg-emerald-50 text-emerald-800 border-emerald-200',
+  rejected: 'bg-stone-100 text-stone-500 border-stone-200',
+};
+
+// Only delivered orders count as a verified purchase; a later return does not undo that
+export const getReviewIssue = (submission: ReviewSubmission, order: Order): string | undefined => {
+  if (!order.items.some(item => item.id === submission.productId)) return 'This order does not include that product';
+  if (!(order.statusHistory || []).some(change => change.status === 'delivered')) {
+    return 'You can review this piece once your order has been delivered';
+  }
+  if (!Number.isInteger(submission.rating) || submission.rating < 1 || submission.rating > 5) return 'Choose a rating from 1 to 5 stars';
+  const text = (submission.text || '').trim();
+  if (text.length < REVIEW_TEXT_MIN_LENGTH) return `Reviews need at least ${REVIEW_TEXT_MIN_LENGTH} characters`;
+  if (text.length > REVIEW_TEXT_MAX_LENGTH) return `Reviews can be at most ${REVIEW_TEXT_MAX_LENGTH} characters`;
+  const photos = submission.photos || [];
+  if (photos.length > REVIEW_MAX_PHOTOS) return `Attach at most ${REVIEW_MAX_PHOTOS} photos`;
+  if (photos.some(photo => !/^data:image\/(jpeg|png|webp);base64,/.test(photo) || photo.length > REVIEW_PHOTO_MAX_LENGTH)) {
+    return 'Photos must be JPEG, PNG or WebP images under 110 KB';
+  }
+  return undefined;
+};
+
+// Base64 characters taken up by the photos of these reviews
+export const getStoredPhotoLength = (reviews: { photos?: string[] }[]) =>
+  reviews.reduce((total, review) => total + (review.photos || []).reduce((sum, photo) => sum + photo.length, 0), 0);
+
+// One review per product per order; a rejected one may be written again
+export const hasReviewed = (reviews: Review[], orderId: string, productId: string) =>
+  reviews.some(r => r.orderId === orderId && r.productId === productId && r.status !== 'rejected');
+
+// "Selam Tesfaye" -> "Selam T."
+export const getReviewAuthorName = (order: Order) => {
+  const { firstName = '', lastName = '' } = order.shippingDetails;
+  return [firstName.trim(), lastName.trim() ? `${lastName.trim()[0].toUpperCase()}.` : ''].filter(Boolean).join(' ') || 'Customer';
+};
+
+// Published reviews only, keyed by product id
+export const summarizeRatings = (reviews: Review[]): Record<string, RatingSummary> => {
+  const totals: Record<string, { sum: number; count: number }> = {};
+  for (const review of reviews) {
+    if (review.status !== 'approved') continue;
+    const total = totals[review.productId] || (totals[review.productId] = { sum: 0, count: 0 });
+    total.sum += review.rating;
+    total.count += 1;
+  }
+  const summaries: Record<string, RatingSummary> = {};
+  for (const productId of Object.keys(totals)) {
+    const { sum, count } = totals[productId];
+    summaries[productId] = { average: Math.round((sum / count) * 10) / 10, count };
+  }
+  return summaries;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Product } from '../types';
+import { Route, buildPath, buildUrl, createProductSlug, createUniqueSlug, findProductBySlug, parseLocation, slugify } from './routing';
+
+describe('slugify', () => {
+  it('makes URL names from product names', () => {
+    expect(slugify('Men’s Traditional Telet Suit')).toBe('mens-traditional-telet-suit');
+    expect(slugify('Café  Crème!')).toBe('cafe-creme');
+    expect(slugify('ቀሚስ')).toBe('');
+  });
+});
+
+describe('createUniqueSlug', () => {
+  it('numbers slugs that are taken', () => {
+    expect(createUniqueSlug('Scarf', [], 'product')).toBe('scarf');
+    expect(createUniqueSlug('Scarf', ['scarf', 'scarf-2'], 'product')).toBe('scarf-3');
+  });
+
+  it('falls back for names without Latin letters', () => {
+    expect(createProductSlug('ቀሚስ', ['product'])).toBe('product-2');
+  });
+});
+
+describe('findProductBySlug', () => {
+  const products = [{ id: 'f1', slug: 'royal-habesha-kemis' }, { id: 'f3', slug: 'netela' }] as Product[];
+
+  it('finds products by slug, or by id for old links', () => {
+    expect(findProductBySlug(products, 'netela')?.id).toBe('f3');
+    expect(findProductBySlug(products, 'f1')?.id).toBe('f1');
+    expect(findProductBySlug(products, 'missing')).toBeUndefined();
+  });
+});
+
+describe('parseLocation', () => {
+  it('reads the language and route', () => {
+    expect(parseLocation('/am/shop/clothes', '')).toMatchObject({ language: 'am', route: { name: 'shop', categorySlug: 'clothes' } });
+    expect(parseLocation('/product/royal-habesha-kemis', '')).toMatchObject({ language: undefined, route: { name: 'product', slug: 'royal-habesha-kemis' } });
+    expect(parseLocation('/de/', '').route).toEqual({ name: 'home' });
+  });
+
+  it('takes the search query and category from the query string', () => {
+    const { route, params } = parseLocation('/en/search', '?q=scarf&category=accessories&sort=price');
+    expect(route).toEqual({ name: 'search', query: 'scarf', categorySlug: 'accessories' });
+    expect(params.get('sort')).toBe('price');
+  });
+
+  it('decodes segments', () => {
+    expect(parseLocation('/orders/track/ETH%2012345', '').route).toEqual({ name: 'track', orderRef: 'ETH 12345' });
+    expect(parseLocation('/product/%E0%A4%A', '').route).toEqual({ name: 'product', slug: '%E0%A4%A' });
+  });
+
+  it('opens old shared wishlist links', () => {
+    const { route, params } = parseLocation('/', '?wishlist=abc123');
+    expect(route).toEqual({ name: 'wishlist', shareId: 'abc123' });
+    expect(params.has('wishlist')).toBe(false);
+  });
+
+  it('sends unknown addresses to not found', () => {
+    expect(parseLocation('/shop/clothes/extra', '').route).toEqual({ name: 'not_found' });
+    expect(parseLocation('/xx/shop', '').route).toEqual({ name: 'not_found' });
+  });
+});
+
+describe('buildPath and buildUrl', () => {
+  it('round-trips through parseLocation', () => {
+    const routes: Route[] = [
+      { name: 'home' },
+      { name: 'shop', categorySlug: 'art' },
+      { name: 'product', slug: 'netela' },
+      { name: 'collection', slug: 'timkat' },
+      { name: 'wishlist', shareId: 'abc' },
+      { name: 'track', orderRef: 'ETH-12345' },
+      { name: 'admin' },
+    ];
+    routes.forEach(route => {
+      expect(parseLocation(buildPath(route, 'fr'), '')).toMatchObject({ language: 'fr', route });
+    });
+  });
+
+  it('puts the search and shop filters in the query string', () => {
+    expect(buildUrl({ name: 'search', query: 'red scarf', categorySlug: 'accessories' }, 'en', new URLSearchParams('sort=price')))
+      .toBe('/en/search?q=red+scarf&category=accessories&sort=price');
+    expect(buildUrl({ name: 'product', slug: 'netela' }, undefined, new URLSearchParams('sort=price'))).toBe('/product/netela');
+  });
+});
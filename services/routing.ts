@@ -0,0 +1,122 @@
+import { LanguageCode, Product } from '../types';
+
+// History-API routes. Every address carries the language as its first segment (/am/shop/clothes);
+// links without one (shared wishlists, old bookmarks) open in the reader's current language.
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'shop'; categorySlug?: string } // Without a category: the whole shop
+  | { name: 'search'; query: string; categorySlug?: string }
+  | { name: 'product'; slug: string }
+  | { name: 'collection'; slug: string }
+  | { name: 'wishlist'; shareId?: string } // Without a share id: the shopper's own list
+  | { name: 'track'; orderRef?: string }
+  | { name: 'admin' }
+  | { name: 'not_found' };
+
+export interface ParsedLocation {
+  language?: LanguageCode;
+  route: Route;
+  params: URLSearchParams; // Shop filters and sort stay in the query string
+}
+
+const LANGUAGE_CODES: LanguageCode[] = ['en', 'am', 'om', 'ti', 'fr', 'nl', 'it', 'de', 'es'];
+
+const QUERY_PARAM = 'q';
+const CATEGORY_PARAM = 'category';
+// Wishlists used to be shared as /?wishlist=<shareId>; those links still open the list
+const LEGACY_WISHLIST_PARAM = 'wishlist';
+
+// --- SLUGS ---
+
+// "Men’s Traditional Telet Suit" -> "mens-traditional-telet-suit"
+export const slugify = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Chosen once when a product, category or collection is created and never changed afterwards,
+// so shared links keep working after renames
+export const createUniqueSlug = (name: string, takenSlugs: string[], fallback: string) => {
+  const base = slugify(name) || fallback;
+  let slug = base;
+  for (let n = 2; takenSlugs.includes(slug); n++) slug = `${base}-${n}`;
+  return slug;
+};
+
+export const createProductSlug = (name: string, takenSlugs: string[]) => createUniqueSlug(name, takenSlugs, 'product');
+
+// Ids work too, for links made before products had slugs
+export const findProductBySlug = (products: Product[], slug: string) =>
+  products.find(p => p.slug === slug) || products.find(p => p.id === slug);
+
+// --- PARSING AND BUILDING ---
+
+export const parseLocation = (pathname: string, search: string): ParsedLocation => {
+  const params = new URLSearchParams(search);
+  const segments = pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const language = LANGUAGE_CODES.find(code => code === segments[0]);
+  if (language) segments.shift();
+
+  const legacyShareId = params.get(LEGACY_WISHLIST_PARAM);
+  if (segments.length === 0 && legacyShareId) {
+    params.delete(LEGACY_WISHLIST_PARAM);
+    return { language, route: { name: 'wishlist', shareId: legacyShareId }, params };
+  }
+
+  const [section, ...rest] = segments;
+  const route = ((): Route => {
+    if (!section) return { name: 'home' };
+    // Category and collection slugs are checked against the catalog once it has loaded
+    if (section === 'shop' && rest.length <= 1) return { name: 'shop', categorySlug: rest[0] };
+    if (section === 'search' && rest.length === 0) {
+      return { name: 'search', query: params.get(QUERY_PARAM) || '', categorySlug: params.get(CATEGORY_PARAM) || undefined };
+    }
+    if (section === 'product' && rest.length === 1) return { name: 'product', slug: rest[0] };
+    if (section === 'collections' && rest.length === 1) return { name: 'collection', slug: rest[0] };
+    if (section === 'wishlist' && rest.length <= 1) return { name: 'wishlist', shareId: rest[0] };
+    if (section === 'orders' && rest[0] === 'track' && rest.length <= 2) return { name: 'track', orderRef: rest[1] };
+    if (section === 'admin' && rest.length === 0) return { name: 'admin' };
+    return { name: 'not_found' };
+  })();
+
+  return { language, route, params };
+};
+
+// The path alone; two addresses with the same path are the same page
+export const buildPath = (route: Route, language?: LanguageCode): string => {
+  const prefix = language ? `/${language}` : '';
+  const encode = encodeURIComponent;
+  switch (route.name) {
+    case 'shop': return `${prefix}/shop${route.categorySlug ? `/${encode(route.categorySlug)}` : ''}`;
+    case 'search': return `${prefix}/search`;
+    case 'product': return `${prefix}/product/${encode(route.slug)}`;
+    case 'collection': return `${prefix}/collections/${encode(route.slug)}`;
+    case 'wishlist': return `${prefix}/wishlist${route.shareId ? `/${encode(route.shareId)}` : ''}`;
+    case 'track': return `${prefix}/orders/track${route.orderRef ? `/${encode(route.orderRef)}` : ''}`;
+    case 'admin': return `${prefix}/admin`;
+    default: return `${prefix}/`;
+  }
+};
+
+// `params` carries the shop's filters; the search query and its category are added here
+export const buildUrl = (route: Route, language?: LanguageCode, params: URLSearchParams = new URLSearchParams()) => {
+  const query = new URLSearchParams();
+  if (route.name === 'search') {
+    query.set(QUERY_PARAM, route.query);
+    if (route.categorySlug) query.set(CATEGORY_PARAM, route.categorySlug);
+  }
+  if (route.name === 'shop' || route.name === 'search') params.forEach((value, key) => query.set(key, value));
+  const queryString = query.toString();
+  return `${buildPath(route, language)}${queryString ? `?${queryString}` : ''}`;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { SEARCH_WEIGHTS, SearchDocument, buildSearchIndex, highlightMatches, normalizeSearchTerm, searchIndex, tokenize } from './search';
+
+const documents: SearchDocument[] = [
+  {
+    id: 'scarf',
+    fields: [
+      { text: 'Handwoven Netela Scarf', weight: SEARCH_WEIGHTS.name },
+      { text: 'Accessories', weight: SEARCH_WEIGHTS.category },
+    ],
+  },
+  {
+    id: 'kemis',
+    fields: [
+      { text: 'Royal Habesha Kemis', weight: SEARCH_WEIGHTS.name },
+      { text: 'ቀሚስ', weight: SEARCH_WEIGHTS.name },
+      { text: 'Clothes', weight: SEARCH_WEIGHTS.category },
+      { text: 'A handwoven cotton dress', weight: SEARCH_WEIGHTS.description },
+    ],
+  },
+];
+
+const index = buildSearchIndex(documents);
+const ids = (query: string) => searchIndex(index, query).map(result => result.id);
+
+describe('normalizeSearchTerm', () => {
+  it('folds case, accents and plurals', () => {
+    expect(normalizeSearchTerm('Scarves')).toBe('scarf');
+    expect(normalizeSearchTerm('Stories')).toBe('story');
+    expect(normalizeSearchTerm('Café')).toBe('cafe');
+    expect(normalizeSearchTerm('dress')).toBe('dress');
+  });
+
+  it('romanizes Ge’ez script', () => {
+    expect(normalizeSearchTerm('ቀሚስ')).toBe(normalizeSearchTerm('kemis'));
+    expect(normalizeSearchTerm('እንጀራ')).toBe('injera');
+  });
+});
+
+describe('tokenize', () => {
+  it('drops single letters and punctuation', () => {
+    expect(tokenize('A hand-woven scarf, à la mode')).toEqual(['hand', 'woven', 'scarf', 'la', 'mode']);
+  });
+});
+
+describe('searchIndex', () => {
+  it('ranks name matches above description matches', () => {
+    expect(ids('handwoven')).toEqual(['scarf', 'kemis']);
+  });
+
+  it('matches prefixes and typos', () => {
+    expect(ids('netel')).toEqual(['scarf']);
+    expect(ids('habsha')).toEqual(['kemis']);
+  });
+
+  it('finds Ge’ez names from Latin spelling and back', () => {
+    expect(ids('kemis')).toEqual(['kemis']);
+    expect(ids('ቀሚስ')).toEqual(['kemis']);
+  });
+
+  it('needs every word to match', () => {
+    expect(ids('handwoven dress')).toEqual(['kemis']);
+    expect(ids('netela kemis')).toEqual([]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchIndex(index, '  ')).toEqual([]);
+  });
+
+  it('reports the indexed terms each result matched', () => {
+    expect(searchIndex(index, 'scarves')[0].terms).toEqual(['scarf']);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('marks the words a search matched', () => {
+    expect(highlightMatches('Handwoven Netela Scarf', ['scarf'])).toEqual([
+      { text: 'Handwoven Netela ', match: false },
+      { text: 'Scarf', match: true },
+    ]);
+  });
+
+  it('leaves text alone without terms', () => {
+    expect(highlightMatches('Scarf', [])).toEqual([{ text: 'Scarf', match: false }]);
+  });
+});
@@ -0,0 +1,205 @@
+// Catalog search: an inverted index over every locale's product text, queried with prefix and typo tolerance.
+// Ge'ez script is romanized before indexing, so "kemis" finds "ቀሚስ" and a Ge'ez query finds the same pieces.
+
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  id: string;
+  fields: SearchField[];
+}
+
+export interface SearchIndex {
+  postings: Record<string, Record<string, number>>; // term -> document id -> best field weight
+  terms: string[];
+  size: number;
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+  terms: string[]; // Indexed terms the query matched, for highlighting
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Names matter most, then the category, then the description
+export const SEARCH_WEIGHTS = { name: 3, category: 2, description: 1 };
+
+const PREFIX_QUALITY = 0.75;
+const TYPO_QUALITY = [1, 0.5, 0.3]; // By edit distance
+const MIN_PREFIX_LENGTH = 2;
+
+// --- GE'EZ ROMANIZATION ---
+
+// Consonant of each 8-character syllable family from U+1200; labialized families (ቈ, ኈ, ኰ, ዀ, ጐ) add a "w".
+// Spellings follow how people type them in Latin letters rather than a scholarly system (ቀ is "k", not "q").
+const ETHIOPIC_CONSONANTS = [
+  'h', 'l', 'h', 'm', 's', 'r', 's', 'sh', 'k', 'kw', 'k', 'kw', 'b', 'v', 't', 'ch',
+  'h', 'hw', 'n', 'ny', '', 'k', 'kw', 'h', 'hw', 'w', '', 'z', 'zh', 'y', 'd', 'd',
+  'j', 'g', 'gw', 'g', 't', 'ch', 'p', 'ts', 'ts', 'f', 'p',
+];
+// Vowel orders: the sixth is usually silent or a short "i" that people leave out
+const ETHIOPIC_VOWELS = ['e', 'u', 'i', 'a', 'e', '', 'o', 'wa'];
+const ETHIOPIC_START = 0x1200;
+const ETHIOPIC_END = ETHIOPIC_START + ETHIOPIC_CONSONANTS.length * 8;
+
+const romanizeEthiopic = (token: string) => {
+  let result = '';
+  for (const char of token) {
+    const code = char.codePointAt(0)!;
+    if (code < ETHIOPIC_START || code >= ETHIOPIC_END) {
+      result += char;
+      continue;
+    }
+    const consonant = ETHIOPIC_CONSONANTS[Math.floor((code - ETHIOPIC_START) / 8)];
+    const order = (code - ETHIOPIC_START) % 8;
+    // አ and ዐ carry only their vowel: አ is "a" and እ is "i" (as in እንጀራ, injera)
+    if (!consonant && order === 0) result += 'a';
+    else if (!consonant && order === 5) result += 'i';
+    else result += consonant + ETHIOPIC_VOWELS[order];
+  }
+  return result;
+};
+
+// --- NORMALIZATION ---
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Light plural folding for the Latin-script languages: scarves -> scarf, stories -> story, bags -> bag
+const stem = (term: string) => {
+  if (term.length <= 3) return term;
+  if (term.endsWith('ies')) return term.slice(0, -3) + 'y';
+  if (term.endsWith('ves')) return term.slice(0, -3) + 'f';
+  if (term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+};
+
+// One word as it is stored in and looked up from the index
+export const normalizeSearchTerm = (word: string) => stem(
+  romanizeEthiopic(word.toLowerCase())
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/æ/g, 'ae')
+    .replace(/œ/g, 'oe')
+    .replace(/ø/g, 'o')
+);
+
+// Single letters ("a", "y", "à") match half the catalog in some language, so they are left out
+export const tokenize = (text: string) =>
+  (text.match(TOKEN_PATTERN) || []).map(normalizeSearchTerm).filter(term => term.length > 1);
+
+// --- INDEX ---
+
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings: Record<string, Record<string, number>> = {};
+  documents.forEach(doc => {
+    doc.fields.forEach(field => {
+      tokenize(field.text).forEach(term => {
+        const docs = postings[term] || (postings[term] = {});
+        docs[doc.id] = Math.max(docs[doc.id] || 0, field.weight);
+      });
+    });
+  });
+  return { postings, terms: Object.keys(postings).sort(), size: documents.length };
+};
+
+// Optimal string alignment distance, giving up once it exceeds max
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words have to be spelled right; longer ones may have one or two typos
+const allowedTypos = (term: string) => term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+
+// Indexed terms a query word could mean, with how closely each matches
+const expandTerm = (index: SearchIndex, word: string) => {
+  const matches: Record<string, number> = {};
+  const maxTypos = allowedTypos(word);
+  index.terms.forEach(term => {
+    let quality = 0;
+    if (term === word) quality = 1;
+    else if (word.length >= MIN_PREFIX_LENGTH && term.startsWith(word)) quality = PREFIX_QUALITY;
+    if (maxTypos > 0) {
+      const distance = editDistance(word, term, maxTypos);
+      if (distance <= maxTypos) quality = Math.max(quality, TYPO_QUALITY[distance]);
+    }
+    if (quality > 0) matches[term] = quality;
+  });
+  return matches;
+};
+
+// Every query word has to match something; rarer terms and better fields rank higher
+export const searchIndex = (index: SearchIndex, query: string): SearchResult[] => {
+  const words = Array.from(new Set(tokenize(query)));
+  if (words.length === 0) return [];
+
+  let scores: Record<string, { score: number; terms: Set<string> }> | null = null;
+  for (const word of words) {
+    const wordScores: Record<string, { score: number; terms: Set<string> }> = {};
+    Object.entries(expandTerm(index, word)).forEach(([term, quality]) => {
+      const docs = index.postings[term];
+      const idf = Math.log(1 + index.size / Object.keys(docs).length);
+      Object.entries(docs).forEach(([id, weight]) => {
+        const entry = wordScores[id] || (wordScores[id] = { score: 0, terms: new Set() });
+        entry.score = Math.max(entry.score, quality * weight * idf);
+        entry.terms.add(term);
+      });
+    });
+
+    if (scores === null) {
+      scores = wordScores;
+      continue;
+    }
+    const combined: Record<string, { score: number; terms: Set<string> }> = {};
+    Object.entries(scores).forEach(([id, entry]) => {
+      const match = wordScores[id];
+      if (match) combined[id] = { score: entry.score + match.score, terms: new Set([...entry.terms, ...match.terms]) };
+    });
+    scores = combined;
+  }
+
+  return Object.entries(scores || {})
+    .map(([id, entry]) => ({ id, score: entry.score, terms: Array.from(entry.terms) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Splits display text so the words a search matched can be marked, in whichever script they are shown
+export const highlightMatches = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(TOKEN_PATTERN)) {
+    if (!wanted.has(normalizeSearchTerm(found[0]))) continue;
+    if (found.index! > last) segments.push({ text: text.slice(last, found.index), match: false });
+    segments.push({ text: found[0], match: true });
+    last = found.index! + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
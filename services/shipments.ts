@@ -0,0 +1,177 @@
+import { CarrierEventImportResult, Order, OrderStatus, Shipment, ShipmentEvent, ShipmentEventStatus } from '../types';
+import { applyStatusChange, canTransition } from './orderStatus';
+import { parseCsvDate, readCsv } from './csv';
+
+export const SHIPMENT_EVENT_STATUSES: ShipmentEventStatus[] = [
+  'label_created', 'picked_up', 'in_transit', 'customs', 'out_for_delivery', 'delivered', 'exception',
+];
+
+export const SHIPMENT_EVENT_LABELS: Record<ShipmentEventStatus, string> = {
+  label_created: 'Label Created',
+  picked_up: 'Picked Up',
+  in_transit: 'In Transit',
+  customs: 'In Customs',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  exception: 'Exception',
+};
+
+export const SHIPMENT_EVENT_STYLES: Record<ShipmentEventStatus, string> = {
+  label_created: 'bg-stone-100 text-stone-600 border-stone-200',
+  picked_up: 'bg-sky-50 text-sky-800 border-sky-200',
+  in_transit: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  customs: 'bg-amber-50 text-amber-800 border-amber-200',
+  out_for_delivery: 'bg-indigo-50 text-indigo-800 border-indigo-200',
+  delivered: 'bg-emerald-100 text-emerald-900 border-emerald-300',
+  exception: 'bg-red-50 text-red-700 border-red-200',
+};
+
+// Carrier exports use their own wording and codes; checked in order, so "not delivered" wins over "delivered"
+const STATUS_PATTERNS: [RegExp, ShipmentEventStatus][] = [
+  [/exception|fail|not delivered|unsuccessful|returned to sender|damage|address|zustellhindernis|mislukt/, 'exception'],
+  [/out for delivery|with courier|in zustellung|wird zugestellt|onderweg naar|^wc$|^od$/, 'out_for_delivery'],
+  [/delivered|zugestellt|afgeleverd|bezorgd|^ok$|^dl$/, 'delivered'],
+  [/customs|clearance|zoll|douane|^cd$|^cc$/, 'customs'],
+  [/picked up|pickup|collected|abgeholt|opgehaald|accepted|^pu$/, 'picked_up'],
+  [/label|shipment information|electronic|pre.?advice|angekundigt|aangemeld|^lc$/, 'label_created'],
+  [/transit|depart|arriv|processed|sorting|hub|facility|unterwegs|sortiercentrum|^tr$|^af$|^ar$/, 'in_transit'],
+];
+
+export const parseShipmentStatus = (raw: string): ShipmentEventStatus | undefined => {
+  const text = raw.trim().toLowerCase().replace(/[_-]/g, ' ');
+  const exact = SHIPMENT_EVENT_STATUSES.find(status => status.replace(/_/g, ' ') === text);
+  return exact || STATUS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+};
+
+// Tracking numbers are printed with spaces and read back with mixed case
+export const normalizeTrackingNumber = (trackingNumber: string) => trackingNumber.replace(/\s+/g, '').toUpperCase();
+
+export const getShipmentStatus = (shipment: Shipment): ShipmentEventStatus | undefined =>
+  shipment.events[shipment.events.length - 1]?.status;
+
+export const createShipmentEvent = (input: Omit<ShipmentEvent, 'id'>): ShipmentEvent => ({
+  id: `sev_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+  date: input.date,
+  status: input.status,
+  ...(input.location?.trim() ? { location: input.location.trim() } : {}),
+  ...(input.description?.trim() ? { description: input.description.trim() } : {}),
+});
+
+// Carriers resend the same scan in every export; one per status, time and place is kept
+const isSameEvent = (a: Omit<ShipmentEvent, 'id'>, b: Omit<ShipmentEvent, 'id'>) =>
+  a.status === b.status &&
+  new Date(a.date).getTime() === new Date(b.date).getTime() &&
+  (a.location || '').toLowerCase() === (b.location || '').toLowerCase();
+
+export const hasShipmentEvent = (shipment: Shipment, event: Omit<ShipmentEvent, 'id'>) =>
+  shipment.events.some(existing => isSameEvent(existing, event));
+
+// Events can arrive out of order (late imports, manual backfills), so the timeline is re-sorted on insert
+export const addEventToShipment = (shipment: Shipment, event: ShipmentEvent): Shipment => ({
+  ...shipment,
+  events: [...shipment.events, event].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+});
+
+const FULFILMENT_PATH: OrderStatus[] = ['processing', 'shipped', 'delivered'];
+
+/**
+ * Moves the order forward to match its parcels: processing while labels are
+ * printed, shipped once any parcel has left, delivered once every parcel has
+ * arrived. Intermediate steps are recorded so the history stays a valid walk
+ * of the state machine; orders in any other state (cancelled, returned…) are
+ * left alone.
+ */
+export const syncOrderWithShipments = (order: Order): Order => {
+  const shipments = order.shipments || [];
+  if (shipments.length === 0) return order;
+  const statuses = shipments.map(getShipmentStatus);
+  const target: OrderStatus = statuses.every(status => status === 'delivered')
+    ? 'delivered'
+    : statuses.some(status => status && status !== 'label_created') ? 'shipped' : 'processing';
+
+  let updated = order;
+  for (const step of FULFILMENT_PATH.slice(0, FULFILMENT_PATH.indexOf(target) + 1)) {
+    if (!canTransition(updated.status, step)) continue;
+    const note = step === 'processing' ? undefined : shipments.map(s => `${s.carrier} ${s.trackingNumber}`).join(', ');
+    updated = applyStatusChange(updated, step, note);
+  }
+  return updated;
+};
+
+// --- Carrier CSV import ---
+
+// Header names seen in DHL, PostNL and Ethiopian Post exports, compared after normalizeCsvHeader
+const CARRIER_COLUMNS = {
+  trackingNumber: ['tracking number', 'tracking', 'tracking no', 'trackingnumber', 'tracking id', 'awb', 'waybill', 'shipment number', 'sendungsnummer', 'barcode', 'zendingnummer'],
+  date: ['date', 'timestamp', 'event date', 'scan date', 'datetime', 'datum'],
+  time: ['time', 'event time', 'uhrzeit', 'tijd'],
+  status: ['status', 'event', 'event code', 'status code', 'event status'],
+  location: ['location', 'place', 'city', 'facility', 'ort', 'locatie', 'plaats'],
+  description: ['description', 'details', 'message', 'event description', 'beschreibung', 'omschrijving'],
+};
+
+export interface CarrierEventRow {
+  trackingNumber: string;
+  event: Omit<ShipmentEvent, 'id'>;
+}
+
+export const parseCarrierEvents = (content: string): CarrierEventRow[] => {
+  const { rows, columns } = readCsv(content, CARRIER_COLUMNS);
+  if (columns.trackingNumber === -1) throw new Error('The CSV file needs a tracking number column');
+  if (columns.date === -1) throw new Error('The CSV file needs a date column');
+  if (columns.status === -1) throw new Error('The CSV file needs a status or event column');
+
+  return rows.map((fields, index) => {
+    const field = (key: keyof typeof CARRIER_COLUMNS) => columns[key] === -1 ? '' : fields[columns[key]] || '';
+    try {
+      const trackingNumber = normalizeTrackingNumber(field('trackingNumber'));
+      if (!trackingNumber) throw new Error('Missing tracking number');
+      const { date, time } = parseCsvDate(field('date'));
+      const at = new Date(`${date}T${(time || field('time') || '00:00').padStart(5, '0')}`);
+      if (Number.isNaN(at.getTime())) throw new Error(`Unrecognised time "${field('time')}"`);
+      const status = parseShipmentStatus(field('status')) || parseShipmentStatus(field('description'));
+      if (!status) throw new Error(`Unrecognised status "${field('status')}"`);
+      return {
+        trackingNumber,
+        event: {
+          date: at.toISOString(),
+          status,
+          ...(field('location') ? { location: field('location') } : {}),
+          // Keep the carrier's own wording when it says more than the mapped status
+          ...(field('description') || field('status') ? { description: field('description') || field('status') } : {}),
+        },
+      };
+    } catch (error) {
+      throw new Error(`Row ${index + 2}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+};
+
+/**
+ * Adds imported scans to the shipments they belong to, matched by tracking
+ * number. Scans already on the timeline are reported as duplicates, so the
+ * same export can be imported again safely.
+ */
+export const applyCarrierEvents = (rows: CarrierEventRow[], orders: Order[]): { results: CarrierEventImportResult[]; orders: Order[] } => {
+  const updated = [...orders];
+  const touched = new Set<number>();
+
+  const results = rows.map((row): CarrierEventImportResult => {
+    const index = updated.findIndex(o => o.shipments?.some(s => normalizeTrackingNumber(s.trackingNumber) === row.trackingNumber));
+    if (index === -1) return { ...row, status: 'unmatched' };
+
+    const order = updated[index];
+    const shipment = order.shipments!.find(s => normalizeTrackingNumber(s.trackingNumber) === row.trackingNumber)!;
+    if (hasShipmentEvent(shipment, row.event)) return { ...row, status: 'duplicate', orderId: order.id };
+
+    const withEvent = addEventToShipment(shipment, createShipmentEvent(row.event));
+    updated[index] = { ...order, shipments: order.shipments!.map(s => s.id === shipment.id ? withEvent : s) };
+    touched.add(index);
+    return { ...row, status: 'added', orderId: order.id };
+  });
+
+  touched.forEach(index => {
+    updated[index] = syncOrderWithShipments(updated[index]);
+  });
+  return { results, orders: updated };
+};
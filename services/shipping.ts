@@ -0,0 +1,111 @@
+import { CartItem, ProductDimensions, ShippingQuote, ShippingService } from '../types';
+import { roundMoney } from './money';
+
+// Parcel assumed for products that have no weight or dimensions yet
+export const DEFAULT_PARCEL: { weightKg: number; dimensionsCm: ProductDimensions } = {
+  weightKg: 1,
+  dimensionsCm: { length: 30, width: 20, height: 10 },
+};
+
+// Carriers bill the larger of actual and volumetric weight (L × W × H / divisor)
+const VOLUMETRIC_DIVISOR = 5000;
+
+export type ShippingZone = 'eu_core' | 'eu_south_north' | 'eu_east';
+
+// Groups EU_COUNTRIES by distance/transit from Addis Ababa via the main EU hubs
+export const SHIPPING_ZONES: Record<ShippingZone, string[]> = {
+  eu_core: ['Austria', 'Belgium', 'Denmark', 'France', 'Germany', 'Luxembourg', 'Netherlands'],
+  eu_south_north: ['Czech Republic', 'Finland', 'Hungary', 'Ireland', 'Italy', 'Poland', 'Portugal', 'Slovakia', 'Slovenia', 'Spain', 'Sweden'],
+  eu_east: ['Bulgaria', 'Croatia', 'Cyprus', 'Estonia', 'Greece', 'Latvia', 'Lithuania', 'Malta', 'Romania'],
+};
+
+interface ZoneRate {
+  brackets: { maxKg: number; price: number }[]; // Ascending by weight
+  perExtraKg: number; // Above the last bracket, per started kg
+  etaDays: [number, number];
+}
+
+export interface CarrierRateTable {
+  carrier: string;
+  service: ShippingService;
+  zones: Record<ShippingZone, ZoneRate>;
+}
+
+export const CARRIER_RATES: CarrierRateTable[] = [
+  {
+    carrier: 'Ethiopian Post EMS',
+    service: 'standard',
+    zones: {
+      eu_core: { brackets: [{ maxKg: 1, price: 14 }, { maxKg: 2, price: 19 }, { maxKg: 5, price: 29 }, { maxKg: 10, price: 45 }], perExtraKg: 4, etaDays: [7, 9] },
+      eu_south_north: { brackets: [{ maxKg: 1, price: 16 }, { maxKg: 2, price: 22 }, { maxKg: 5, price: 33 }, { maxKg: 10, price: 52 }], perExtraKg: 4.5, etaDays: [7, 10] },
+      eu_east: { brackets: [{ maxKg: 1, price: 18 }, { maxKg: 2, price: 24 }, { maxKg: 5, price: 36 }, { maxKg: 10, price: 58 }], perExtraKg: 5, etaDays: [8, 10] },
+    },
+  },
+  {
+    carrier: 'Ethiopian Cargo',
+    service: 'standard',
+    zones: {
+      eu_core: { brackets: [{ maxKg: 5, price: 32 }, { maxKg: 10, price: 42 }, { maxKg: 20, price: 65 }], perExtraKg: 3, etaDays: [8, 10] },
+      eu_south_north: { brackets: [{ maxKg: 5, price: 36 }, { maxKg: 10, price: 48 }, { maxKg: 20, price: 74 }], perExtraKg: 3.5, etaDays: [8, 10] },
+      eu_east: { brackets: [{ maxKg: 5, price: 39 }, { maxKg: 10, price: 52 }, { maxKg: 20, price: 80 }], perExtraKg: 4, etaDays: [9, 10] },
+    },
+  },
+  {
+    carrier: 'DHL Express',
+    service: 'express',
+    zones: {
+      eu_core: { brackets: [{ maxKg: 0.5, price: 32 }, { maxKg: 1, price: 38 }, { maxKg: 2, price: 49 }, { maxKg: 5, price: 72 }, { maxKg: 10, price: 110 }], perExtraKg: 9, etaDays: [3, 4] },
+      eu_south_north: { brackets: [{ maxKg: 0.5, price: 35 }, { maxKg: 1, price: 42 }, { maxKg: 2, price: 54 }, { maxKg: 5, price: 79 }, { maxKg: 10, price: 121 }], perExtraKg: 10, etaDays: [3, 5] },
+      eu_east: { brackets: [{ maxKg: 0.5, price: 38 }, { maxKg: 1, price: 45 }, { maxKg: 2, price: 58 }, { maxKg: 5, price: 85 }, { maxKg: 10, price: 130 }], perExtraKg: 11, etaDays: [4, 5] },
+    },
+  },
+];
+
+export const getShippingZone = (country: string): ShippingZone | undefined =>
+  (Object.keys(SHIPPING_ZONES) as ShippingZone[]).find(zone => SHIPPING_ZONES[zone].includes(country));
+
+const volumetricWeight = ({ length, width, height }: ProductDimensions) => length * width * height / VOLUMETRIC_DIVISOR;
+
+// Each unit ships in its own wrapping, so weights add up per unit
+export const getBillableWeight = (items: CartItem[]) =>
+  Math.round(items.reduce((sum, item) => {
+    const weight = item.weightKg ?? DEFAULT_PARCEL.weightKg;
+    const volume = volumetricWeight(item.dimensionsCm ?? DEFAULT_PARCEL.dimensionsCm);
+    return sum + Math.max(weight, volume) * item.quantity;
+  }, 0) * 10) / 10;
+
+const priceForWeight = (rate: ZoneRate, weightKg: number) => {
+  const bracket = rate.brackets.find(b => weightKg <= b.maxKg);
+  if (bracket) return bracket.price;
+  const last = rate.brackets[rate.brackets.length - 1];
+  return last.price + Math.ceil(weightKg - last.maxKg) * rate.perExtraKg;
+};
+
+/**
+ * Cheapest carrier per service for the parcel and destination, standard first.
+ * Empty when the destination is outside every zone or the cart is empty.
+ */
+export const getShippingQuotes = (items: CartItem[], country: string): ShippingQuote[] => {
+  const zone = getShippingZone(country);
+  if (!zone || items.length === 0) return [];
+  const weightKg = getBillableWeight(items);
+
+  const best = new Map<ShippingService, ShippingQuote>();
+  CARRIER_RATES.forEach(table => {
+    const rate = table.zones[zone];
+    const quote: ShippingQuote = {
+      service: table.service,
+      carrier: table.carrier,
+      price: roundMoney(priceForWeight(rate, weightKg)),
+      etaDays: rate.etaDays,
+      weightKg,
+    };
+    const current = best.get(table.service);
+    if (!current || quote.price < current.price) best.set(table.service, quote);
+  });
+
+  return (['standard', 'express'] as ShippingService[]).filter(s => best.has(s)).map(s => best.get(s)!);
+};
+
+export const getShippingQuote = (items: CartItem[], country: string, service: ShippingService): ShippingQuote | undefined =>
+  getShippingQuotes(items, country).find(q => q.service === service);
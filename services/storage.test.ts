@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBStorageAdapter, LocalStorageAdapter, MemoryStorageAdapter, StorageAdapter, createStorageAdapter } from './storage';
+
+// Just enough of the Web Storage API; `full` throws on write like private browsing does
+const fakeLocalStorage = ({ full = false } = {}) => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (full) throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const roundTrip = async (adapter: StorageAdapter) => {
+  expect(await adapter.getItem('orders')).toBeNull();
+  await adapter.setItem('orders', '[1]');
+  await adapter.setItem('orders', '[1,2]');
+  expect(await adapter.getItem('orders')).toBe('[1,2]');
+  await adapter.removeItem('orders');
+  expect(await adapter.getItem('orders')).toBeNull();
+};
+
+describe('MemoryStorageAdapter', () => {
+  it('stores, overwrites and removes values', () => roundTrip(new MemoryStorageAdapter()));
+
+  it('starts from a seed', async () => {
+    expect(await new MemoryStorageAdapter({ products: '[]' }).getItem('products')).toBe('[]');
+  });
+});
+
+describe('LocalStorageAdapter', () => {
+  it('stores values in localStorage', async () => {
+    const storage = fakeLocalStorage();
+    vi.stubGlobal('localStorage', storage);
+    await roundTrip(new LocalStorageAdapter());
+    await new LocalStorageAdapter().setItem('subscribers', '[]');
+    expect(storage.getItem('subscribers')).toBe('[]');
+  });
+});
+
+describe('IndexedDBStorageAdapter', () => {
+  it('stores values in an object store', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    await roundTrip(new IndexedDBStorageAdapter());
+  });
+
+  it('keeps values across instances', async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    await new IndexedDBStorageAdapter().setItem('schema_version', '6');
+    expect(await new IndexedDBStorageAdapter().getItem('schema_version')).toBe('6');
+  });
+});
+
+describe('createStorageAdapter', () => {
+  it('uses localStorage by default', () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage());
+    expect(createStorageAdapter().kind).toBe('local');
+  });
+
+  it('uses IndexedDB when asked and available', () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    expect(createStorageAdapter('indexeddb').kind).toBe('indexeddb');
+  });
+
+  it('falls back to localStorage without IndexedDB', () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage());
+    expect(createStorageAdapter('indexeddb').kind).toBe('local');
+  });
+
+  it('falls back to memory, with a warning, when localStorage refuses writes', () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage({ full: true }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(createStorageAdapter('local').kind).toBe('memory');
+    expect(warn).toHaveBeenCalledWith('[Storage] "local" is unavailable, falling back to in-memory storage.');
+  });
+
+  it('uses memory when asked, without a warning', () => {
+    vi.stubGlobal('localStorage', fakeLocalStorage());
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(createStorageAdapter('memory').kind).toBe('memory');
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
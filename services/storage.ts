@@ -0,0 +1,131 @@
+// Persistence layer for BackendService.
+// Every adapter speaks the same async key/value API so the backend does not
+// care whether data lives in localStorage, IndexedDB or plain memory.
+
+// 'file' is only provided by the Node mock server (server/jsonFileStorage.ts)
+export type StorageKind = 'local' | 'indexeddb' | 'memory' | 'file';
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// --- IN-MEMORY (tests, private browsing fallback) ---
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly kind = 'memory';
+  private store = new Map<string, string>();
+
+  constructor(seed: Record<string, string> = {}) {
+    Object.entries(seed).forEach(([key, value]) => this.store.set(key, value));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.has(key) ? this.store.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+}
+
+// --- LOCAL STORAGE (default, ~5MB quota) ---
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly kind = 'local';
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+// --- INDEXED DB (large catalogs) ---
+
+const IDB_NAME = 'ethio_backend';
+const IDB_STORE = 'kv';
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly kind = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = op(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+}
+
+// --- SELECTION ---
+
+// Private browsing modes expose localStorage but throw on write, so probe it.
+const isLocalStorageUsable = () => {
+  try {
+    const probe = '__ethio_probe__';
+    localStorage.setItem(probe, probe);
+    localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isIndexedDBUsable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Picks the storage adapter at startup. The preferred kind comes from the
+ * STORAGE_ADAPTER env variable; unavailable backends degrade towards memory.
+ */
+export const createStorageAdapter = (preferred: StorageKind = (process.env.STORAGE_ADAPTER as StorageKind) || 'local'): StorageAdapter => {
+  if (preferred === 'indexeddb' && isIndexedDBUsable()) {
+    return new IndexedDBStorageAdapter();
+  }
+  if (preferred !== 'memory' && isLocalStorageUsable()) {
+    return new LocalStorageAdapter();
+  }
+  if (preferred !== 'memory') {
+    console.warn(`[Storage] "${preferred}" is unavailable, falling back to in-memory storage.`);
+  }
+  return new MemoryStorageAdapter();
+};
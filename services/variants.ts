@@ -0,0 +1,33 @@
+import { CartItem, Product, ProductVariant } from '../types';
+
+export const hasVariants = (product: Product) => !!product.variants && product.variants.length > 0;
+
+// Exact match on every option; undefined until the customer has picked them all
+export const findVariant = (product: Product, selected: Record<string, string>): ProductVariant | undefined =>
+  product.variants?.find(v => Object.entries(v.options).every(([name, value]) => selected[name] === value));
+
+export const describeVariant = (variant?: ProductVariant) =>
+  variant ? Object.values(variant.options).join(' / ') : '';
+
+export const getVariantPrice = (product: Product, variant?: ProductVariant) =>
+  product.price + (variant?.priceDelta || 0);
+
+// Whether any in-stock variant carries this option value, given the other selections
+export const isOptionValueAvailable = (product: Product, selected: Record<string, string>, name: string, value: string) =>
+  (product.variants || []).some(v =>
+    v.options[name] === value &&
+    v.stockQuantity > 0 &&
+    Object.entries(selected).every(([other, otherValue]) => other === name || v.options[other] === otherValue)
+  );
+
+// Cart lines are unique per product + variant
+export const getCartLineId = (item: CartItem) => item.variant ? `${item.id}:${item.variant.id}` : item.id;
+
+export const toCartItem = (product: Product, variant?: ProductVariant, quantity: number = 1): CartItem => ({
+  ...product,
+  price: getVariantPrice(product, variant),
+  imageUrl: variant?.imageUrl || product.imageUrl,
+  stockQuantity: variant ? variant.stockQuantity : product.stockQuantity,
+  quantity,
+  ...(variant ? { variant } : {}),
+});
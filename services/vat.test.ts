@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderStatus } from '../types';
+import { buildVatReport, calculateVat, displayPrice, getOrderVatRate, getVatRate, vatReportToCsv } from './vat';
+import { makeOrder, makeRefund } from '../test/fixtures';
+
+// A scarf (19% in Germany) shipped for €19, so all €119 of it carries €19 VAT
+const order = (overrides: Partial<Order> = {}): Order => makeOrder({
+  vat: calculateVat('Germany', [{ gross: 100, category: 'Clothes' }, { gross: 19 }]),
+  ...overrides,
+});
+
+describe('getVatRate', () => {
+  it('uses the reduced rate for art and the standard rate otherwise', () => {
+    expect(getVatRate('Germany', 'Art')).toBe(7);
+    expect(getVatRate('Germany', 'Clothes')).toBe(19);
+    expect(getVatRate('Germany')).toBe(19);
+    expect(getVatRate('Denmark', 'Art')).toBe(25);
+  });
+
+  it('zero-rates destinations outside the EU', () => {
+    expect(getVatRate('Ethiopia')).toBe(0);
+  });
+});
+
+describe('displayPrice', () => {
+  it('shows catalog prices as they are when VAT is included', () => {
+    expect(displayPrice(119, 'Clothes', 'Germany', 'inclusive')).toBe(119);
+  });
+
+  it('takes the VAT out for net display', () => {
+    expect(displayPrice(119, 'Clothes', 'Germany', 'exclusive')).toBe(100);
+    expect(displayPrice(107, 'Art', 'Germany', 'exclusive')).toBe(100);
+  });
+});
+
+describe('calculateVat', () => {
+  it('extracts the VAT contained in gross amounts, grouped by rate', () => {
+    const vat = calculateVat('Germany', [{ gross: 119, category: 'Clothes' }, { gross: 107, category: 'Art' }, { gross: 11.9 }]);
+    expect(vat.lines).toEqual([
+      { rate: 19, taxable: 110, vat: 20.9 },
+      { rate: 7, taxable: 100, vat: 7 },
+    ]);
+    expect(vat.total).toBe(27.9);
+    expect(vat.included).toBe(true);
+  });
+
+  it('records the rates it was worked out at', () => {
+    expect(calculateVat('Germany', []).rates).toEqual({ standard: 19, reduced: { Art: 7 } });
+  });
+
+  it('leaves out rates with nothing charged', () => {
+    expect(calculateVat('Germany', [{ gross: 0, category: 'Art' }, { gross: 19 }]).lines).toEqual([{ rate: 19, taxable: 15.97, vat: 3.03 }]);
+  });
+});
+
+describe('getOrderVatRate', () => {
+  it('uses the rates stored on the order rather than today’s', () => {
+    const stored = order({ vat: { ...order().vat!, rates: { standard: 16, reduced: { Art: 5 } } } });
+    expect(getOrderVatRate(stored, 'Art')).toBe(5);
+    expect(getOrderVatRate(stored, 'Clothes')).toBe(16);
+  });
+
+  it('falls back to the charged lines on orders without stored rates', () => {
+    const legacy = order({ vat: { country: 'Germany', lines: [{ rate: 16, taxable: 100, vat: 16 }, { rate: 5, taxable: 50, vat: 2.5 }], total: 18.5 } });
+    expect(getOrderVatRate(legacy, 'Art')).toBe(5);
+    expect(getOrderVatRate(legacy, 'Clothes')).toBe(16);
+    expect(getOrderVatRate(legacy)).toBe(16);
+  });
+
+  it('is zero for orders placed before VAT', () => {
+    expect(getOrderVatRate(order({ vat: undefined }))).toBe(0);
+  });
+});
+
+describe('buildVatReport', () => {
+  it('sums VAT per month and destination', () => {
+    const rows = buildVatReport([order(), order({ id: 'ETH-10002' }), order({ id: 'ETH-10003', date: '2026-04-02T10:00:00.000Z' })]);
+    expect(rows).toEqual([
+      { month: '2026-04', country: 'Germany', orders: 1, taxable: 100, vat: 19 },
+      { month: '2026-03', country: 'Germany', orders: 2, taxable: 200, vat: 38 },
+    ]);
+  });
+
+  it('skips orders that owe no VAT', () => {
+    const skipped: OrderStatus[] = ['pending_payment', 'cancelled'];
+    expect(buildVatReport(skipped.map(status => order({ status })))).toEqual([]);
+    expect(buildVatReport([order({ vat: undefined })])).toEqual([]);
+  });
+
+  it('deducts the VAT in partial refunds', () => {
+    const refunded = order({
+      refunds: [makeRefund({ amount: 50, lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: 50 }] })],
+    });
+    expect(buildVatReport([refunded])).toEqual([{ month: '2026-03', country: 'Germany', orders: 1, taxable: 57.98, vat: 11.02 }]);
+  });
+
+  it('deducts refunded shipping at the standard rate', () => {
+    const refunded = order({ refunds: [makeRefund({ scope: 'shipping', amount: 19, shipping: 19 })] });
+    expect(buildVatReport([refunded])[0].vat).toBe(15.97);
+  });
+
+  it('books refunds in the month they were paid back, leaving filed months alone', () => {
+    const refunded = order({
+      status: 'refunded',
+      refunds: [makeRefund({ date: '2026-04-03T10:00:00.000Z', scope: 'order', amount: 131.5, lines: [{ lineId: 'scarf', name: 'Scarf', quantity: 1, amount: 100 }], shipping: 19 })],
+    });
+    expect(buildVatReport([refunded])).toEqual([
+      { month: '2026-04', country: 'Germany', orders: 0, taxable: -100, vat: -19 },
+      { month: '2026-03', country: 'Germany', orders: 1, taxable: 100, vat: 19 },
+    ]);
+  });
+});
+
+describe('vatReportToCsv', () => {
+  it('writes one line per row under a header', () => {
+    expect(vatReportToCsv([{ month: '2026-03', country: 'Germany', orders: 2, taxable: 200, vat: 38 }])).toBe(
+      'Month,Country,Orders,Taxable (EUR),VAT (EUR)\n2026-03,Germany,2,200.00,38.00'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { Order, Refund, VatBreakdown, VatLine, VatRates } from '../types';
+import { SEED_CATEGORY_IDS } from '../constants';
+import { getCartLineId } from './variants';
+import { roundMoney } from './money';
+
+// How storefront prices are shown. Catalog prices and shipping rates are stored VAT-inclusive,
+// as they always were; the VAT in them is worked out per destination.
+export type VatDisplayMode = 'inclusive' | 'exclusive';
+
+export const VAT_DISPLAY_MODE: VatDisplayMode = process.env.VAT_DISPLAY_MODE === 'exclusive' ? 'exclusive' : 'inclusive';
+
+// i18n key for the note shown next to storefront prices
+export const VAT_NOTE_KEY = VAT_DISPLAY_MODE === 'inclusive' ? 'incl_vat' : 'excl_vat';
+
+// Rate used for storefront prices until the customer picks a destination
+export const DEFAULT_VAT_COUNTRY = 'Germany';
+
+// Works of art, including anything nested under the Art category (products carry their top-level category)
+const ART = SEED_CATEGORY_IDS.ART;
+
+// Percentages per destination, keyed like EU_COUNTRIES
+export const VAT_RATES: Record<string, VatRates> = {
+  'Austria': { standard: 20, reduced: { [ART]: 13 } },
+  'Belgium': { standard: 21, reduced: { [ART]: 6 } },
+  'Bulgaria': { standard: 20 },
+  'Croatia': { standard: 25 },
+  'Cyprus': { standard: 19, reduced: { [ART]: 5 } },
+  'Czech Republic': { standard: 21, reduced: { [ART]: 12 } },
+  'Denmark': { standard: 25 },
+  'Estonia': { standard: 24 },
+  'Finland': { standard: 25.5 },
+  'France': { standard: 20, reduced: { [ART]: 5.5 } },
+  'Germany': { standard: 19, reduced: { [ART]: 7 } },
+  'Greece': { standard: 24 },
+  'Hungary': { standard: 27 },
+  'Ireland': { standard: 23, reduced: { [ART]: 13.5 } },
+  'Italy': { standard: 22, reduced: { [ART]: 10 } },
+  'Latvia': { standard: 21 },
+  'Lithuania': { standard: 21 },
+  'Luxembourg': { standard: 17, reduced: { [ART]: 8 } },
+  'Malta': { standard: 18 },
+  'Netherlands': { standard: 21, reduced: { [ART]: 9 } },
+  'Poland': { standard: 23, reduced: { [ART]: 8 } },
+  'Portugal': { standard: 23, reduced: { [ART]: 6 } },
+  'Romania': { standard: 21 },
+  'Slovakia': { standard: 23 },
+  'Slovenia': { standard: 22, reduced: { [ART]: 9.5 } },
+  'Spain': { standard: 21, reduced: { [ART]: 10 } },
+  'Sweden': { standard: 25, reduced: { [ART]: 12 } },
+};
+
+const ZERO_RATED: VatRates = { standard: 0 };
+
+// Without a category (e.g. shipping) the standard rate applies
+const pickRate = (rates: VatRates, category?: string) => (category ? rates.reduced?.[category] : undefined) ?? rates.standard;
+
+// Unknown destinations are zero-rated
+export const getVatRate = (country: string, category?: string): number => pickRate(VAT_RATES[country] || ZERO_RATED, category);
+
+/**
+ * The rate an order was charged for a category, whatever the rates are today.
+ * Orders placed before their rates were recorded go by the rates on their VAT
+ * lines; reduced rates are always below the standard one.
+ */
+export const getOrderVatRate = (order: Order, category?: string): number => {
+  const vat = order.vat;
+  if (!vat) return 0;
+  if (vat.rates) return pickRate(vat.rates, category);
+  const charged = vat.lines.map(line => line.rate);
+  if (charged.length === 0) return 0;
+  const reduced = !!category && VAT_RATES[vat.country]?.reduced?.[category] !== undefined;
+  return reduced ? Math.min(...charged) : Math.max(...charged);
+};
+
+// Converts a VAT-inclusive catalog price into what the storefront shows in the configured mode
+export const displayPrice = (grossPrice: number, category?: string, country: string = DEFAULT_VAT_COUNTRY, mode: VatDisplayMode = VAT_DISPLAY_MODE) =>
+  mode === 'inclusive' ? grossPrice : roundMoney(grossPrice / (1 + getVatRate(country, category) / 100));
+
+/**
+ * VAT contained in VAT-inclusive amounts for one destination, grouped by rate.
+ * Each amount is taxed at the rate for its category; uncategorised amounts
+ * (shipping) take the standard rate.
+ */
+export const calculateVat = (country: string, amounts: { gross: number; category?: string }[]): VatBreakdown => {
+  const lines = groupByRate(amounts.map(({ gross, category }) => ({ gross, rate: getVatRate(country, category) })));
+  return { country, lines, total: sumVat(lines), included: true, rates: VAT_RATES[country] || ZERO_RATED };
+};
+
+const groupByRate = (amounts: { gross: number; rate: number }[]): VatLine[] => {
+  const byRate = new Map<number, number>();
+  amounts.forEach(({ gross, rate }) => byRate.set(rate, (byRate.get(rate) || 0) + gross));
+  return Array.from(byRate.entries())
+    .filter(([, gross]) => gross > 0)
+    .sort(([a], [b]) => b - a)
+    .map(([rate, gross]) => {
+      const vat = roundMoney(gross * rate / (100 + rate));
+      return { rate, taxable: roundMoney(gross - vat), vat };
+    });
+};
+
+const sumVat = (lines: VatLine[]) => roundMoney(lines.reduce((sum, l) => sum + l.vat, 0));
+const sumTaxable = (lines: VatLine[]) => lines.reduce((sum, l) => sum + l.taxable, 0);
+
+// The VAT in what a refund paid back: refunded lines at their category's rate, refunded shipping at the
+// standard rate, both as charged on the order. Refund amounts are what the customer paid, so they contain VAT; duties carry none.
+const getRefundedVat = (order: Order, refund: Refund): VatLine[] =>
+  groupByRate([
+    ...refund.lines.map(line => ({
+      gross: line.amount,
+      rate: getOrderVatRate(order, order.items.find(item => getCartLineId(item) === line.lineId)?.category),
+    })),
+    { gross: refund.shipping, rate: getOrderVatRate(order) },
+  ]);
+
+export interface VatReportRow {
+  month: string; // YYYY-MM
+  country: string;
+  orders: number;
+  taxable: number;
+  vat: number;
+}
+
+// Orders that never completed owe no VAT
+const EXCLUDED_FROM_REPORT = ['pending_payment', 'cancelled'];
+
+/**
+ * IOSS-style summary of VAT collected per destination per month, newest month
+ * first. Sales count in the month of the order and refunds in the month they
+ * were paid back, so a month already filed never changes. Orders without a VAT
+ * breakdown are skipped.
+ */
+export const buildVatReport = (orders: Order[]): VatReportRow[] => {
+  const rows = new Map<string, VatReportRow>();
+  const rowFor = (date: string, country: string) => {
+    const month = date.slice(0, 7);
+    const key = `${month}|${country}`;
+    const row = rows.get(key) || { month, country, orders: 0, taxable: 0, vat: 0 };
+    rows.set(key, row);
+    return row;
+  };
+  orders
+    .filter(o => o.vat && !EXCLUDED_FROM_REPORT.includes(o.status))
+    .forEach(order => {
+      const { country, lines, total } = order.vat!;
+      const sale = rowFor(order.date, country);
+      sale.orders += 1;
+      sale.taxable = roundMoney(sale.taxable + sumTaxable(lines));
+      sale.vat = roundMoney(sale.vat + total);
+      (order.refunds || []).forEach(refund => {
+        const refunded = getRefundedVat(order, refund);
+        const row = rowFor(refund.date, country);
+        row.taxable = roundMoney(row.taxable - sumTaxable(refunded));
+        row.vat = roundMoney(row.vat - sumVat(refunded));
+      });
+    });
+
+  return Array.from(rows.values()).sort((a, b) => b.month.localeCompare(a.month) || a.country.localeCompare(b.country));
+};
+
+export const vatReportToCsv = (rows: VatReportRow[]) =>
+  ['Month,Country,Orders,Taxable (EUR),VAT (EUR)', ...rows.map(r => `${r.month},${r.country},${r.orders},${r.taxable.toFixed(2)},${r.vat.toFixed(2)}`)].join('\n');
@@ -0,0 +1,22 @@
+import { Wishlist } from '../types';
+import { generateSessionToken } from './accounts';
+import { buildPath } from './routing';
+
+// The id is all a device needs to edit its list, so it has to be unguessable; the share id only grants reading
+export const createWishlist = (productIds: string[] = [], customerId?: string): Wishlist => ({
+  id: `wl_${generateSessionToken()}`,
+  shareId: generateSessionToken().slice(0, 20),
+  customerId,
+  productIds,
+  updatedAt: new Date().toISOString(),
+});
+
+// Keeps the first list's order and appends what the others add
+export const mergeWishlistItems = (...lists: string[][]) => Array.from(new Set(lists.flat()));
+
+export const toggleWishlistItem = (productIds: string[], productId: string) =>
+  productIds.includes(productId) ? productIds.filter(id => id !== productId) : [...productIds, productId];
+
+// No language prefix: the link opens in whichever language the recipient browses in
+export const getWishlistShareUrl = (shareId: string, origin = window.location.origin) =>
+  `${origin}${buildPath({ name: 'wishlist', shareId })}`;
@@ -19,6 +19,12 @@ self.addEventListener('install', (event) => {
 
 // Fetch Event: Serve from cache, fall back to network
 self.addEventListener('fetch', (event) => {
+  // Every page address (/am/product/..., /en/shop/art) is the same app shell; offline, serve the cached one
+  if (event.request.mode === 'navigate') {
+    event.respondWith(fetch(event.request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
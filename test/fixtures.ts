@@ -0,0 +1,75 @@
+import { CartItem, Order, Product, Promotion, Refund, ShippingDetails } from '../types';
+
+// Builders for the records the unit tests work with; each test overrides only what it checks.
+
+// A 1 kg scarf, which ships in the lightest bracket everywhere
+export const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'scarf',
+  slug: 'scarf',
+  name: 'Scarf',
+  price: 100,
+  currency: 'EUR',
+  category: 'Clothes',
+  description: '',
+  detailedHistory: '',
+  imageUrl: '',
+  inStock: true,
+  stockQuantity: 3,
+  weightKg: 1,
+  dimensionsCm: { length: 20, width: 15, height: 5 },
+  ...overrides,
+});
+
+export const makeCartItem = (overrides: Partial<CartItem> = {}): CartItem => ({ ...makeProduct(), quantity: 1, ...overrides });
+
+export const makePromotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo',
+  code: 'TEN',
+  label: 'Ten off',
+  type: 'percentage',
+  value: 10,
+  usageCount: 0,
+  active: true,
+  ...overrides,
+});
+
+export const SHIPPING_DETAILS: ShippingDetails = {
+  firstName: 'Anna',
+  lastName: 'Berg',
+  email: 'anna@example.com',
+  phone: '+4930123456',
+  address: 'Hauptstr. 1',
+  city: 'Berlin',
+  postalCode: '10115',
+  country: 'Germany',
+};
+
+// A paid card order for one scarf to Germany. Amounts are taken as given, so tests set the ones they check.
+export const makeOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'ETH-12345',
+  date: '2026-03-14T10:00:00.000Z',
+  items: [makeCartItem()],
+  subtotal: 100,
+  shippingCost: 19,
+  duties: 12.5,
+  total: 131.5,
+  shippingDetails: SHIPPING_DETAILS,
+  paymentMethod: 'credit_card',
+  language: 'en',
+  status: 'paid',
+  statusHistory: [],
+  ...overrides,
+});
+
+export const makeRefund = (overrides: Partial<Refund> = {}): Refund => ({
+  id: 'r1',
+  date: '2026-03-20T10:00:00.000Z',
+  scope: 'lines',
+  amount: 0,
+  reason: 'Damaged',
+  issuedBy: 'Admin',
+  lines: [],
+  shipping: 0,
+  allocations: [],
+  ...overrides,
+});
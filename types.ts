@@ -1,26 +1,165 @@
+// Text an admin enters per language; English is required and stands in for any language left out
+export type LocalizedText = Partial<Record<LanguageCode, string>> & { en: string };
 
-export enum Category {
-  ALL = 'All',
-  CLOTHES = 'Clothes',
-  ART = 'Art',
-  MISC = 'Miscellaneous Products',
-  ACCESSORIES = 'Accessories'
+// Admin-managed shop category. The seeded ones use the names of the old fixed categories as ids,
+// so products, promotions and past orders that stored those names still point at them.
+export interface Category {
+  id: string;
+  slug: string; // /shop/<slug>, fixed when the category is created
+  name: LocalizedText;
+  description?: LocalizedText; // Tagline on its home page card
+  bannerUrl?: string; // Categories with a banner get a card on the home page
+  parentId?: string; // Missing for top-level categories
+  position: number; // Order among its siblings
+}
+
+export type CollectionMembership = 'manual' | 'rules';
+
+// Rule-based membership: a product belongs when it matches every condition that is set
+export interface CollectionRules {
+  categoryId?: string; // Includes everything nested under it
+  region?: string;
+  material?: string;
+  artisan?: string;
+  minPrice?: number; // Net, in the settlement currency
+  maxPrice?: number;
+  inStockOnly?: boolean;
+}
+
+// A curated selection across categories, e.g. "Timkat Edit"
+export interface Collection {
+  id: string;
+  slug: string; // /collections/<slug>, fixed when the collection is created
+  name: LocalizedText;
+  description?: LocalizedText;
+  bannerUrl?: string;
+  position: number;
+  membership: CollectionMembership;
+  productIds: string[]; // Hand-picked pieces in display order; unused for 'rules'
+  rules: CollectionRules; // Unused for 'manual'
+  active: boolean; // Hidden from the storefront while false
+}
+
+// A selectable dimension such as size, color or thread, and its values in display order
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>; // e.g. { size: 'M', thread: 'Gold' }
+  priceDelta: number; // Added to the product base price
+  stockQuantity: number;
+  imageUrl?: string;
+}
+
+export interface ProductDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+export type CurrencyCode = 'EUR' | 'GBP' | 'CHF' | 'SEK' | 'ETB' | 'USD';
+
+// Units of `currency` per one unit of the settlement currency (EUR)
+export interface ExchangeRate {
+  currency: CurrencyCode;
+  rate: number;
+  updatedAt: string;
 }
 
 export interface Product {
   id: string;
+  slug: string; // URL name (/product/royal-habesha-kemis), fixed when the product is created
   name: string;
-  price: number;
-  currency: string;
-  category: Category;
+  price: number; // In the settlement currency
+  currency: CurrencyCode;
+  category: string; // Top-level category id; VAT rates and promotions go by this
+  subcategoryId?: string; // The nested category it is filed under, when more specific than `category`
   description: string;
   detailedHistory: string;
   imageUrl: string;
-  inStock: boolean;
+  inStock: boolean; // Derived from stockQuantity, kept for older clients
+  stockQuantity: number; // Sum of variant stock when the product has variants
+  weightKg: number; // Packed weight
+  dimensionsCm: ProductDimensions; // Packed size, for volumetric weight
+  variantOptions?: VariantOption[];
+  variants?: ProductVariant[];
+  region?: string; // Where it is made, e.g. "Amhara"; shop filters are built from these
+  material?: string;
+  artisan?: string; // Maker or cooperative
+  createdAt?: string; // When it joined the catalog, for "newest first"
 }
 
+// price, imageUrl and stockQuantity are resolved for the chosen variant
 export interface CartItem extends Product {
   quantity: number;
+  variant?: ProductVariant;
+}
+
+export interface StockReservationLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// Holds stock for a checkout in progress until it expires or the order is placed
+export interface StockReservation {
+  id: string;
+  lines: StockReservationLine[];
+  expiresAt: string;
+}
+
+export type PromotionType = 'percentage' | 'fixed' | 'free_shipping' | 'buy_x_get_y';
+
+// A promo code and the rules that decide when the pricing engine applies it
+export interface Promotion {
+  id: string;
+  code: string; // Stored uppercase
+  label: string; // e.g. "Timkat Sale"
+  type: PromotionType;
+  value: number; // Percent off or a euro amount; unused for free_shipping and buy_x_get_y
+  buyQuantity?: number; // buy_x_get_y: for every buyQuantity + getQuantity units,
+  getQuantity?: number; // the cheapest getQuantity are free
+  category?: string; // Top-level category id: only items in this category count towards and receive the discount
+  minSpend?: number; // Minimum qualifying subtotal
+  startsAt?: string;
+  endsAt?: string;
+  usageLimit?: number; // Total orders allowed; unlimited when missing
+  usageCount: number;
+  active: boolean;
+}
+
+// What a promotion actually took off an order
+export interface AppliedPromotion {
+  code: string;
+  label: string;
+  type: PromotionType;
+  amount: number;
+}
+
+// VAT charged at one rate on an order
+export interface VatLine {
+  rate: number; // Percent
+  taxable: number; // Net of VAT
+  vat: number;
+}
+
+// Percentages for one destination
+export interface VatRates {
+  standard: number;
+  reduced?: Record<string, number>; // By top-level category id, e.g. works of art
+}
+
+export interface VatBreakdown {
+  country: string;
+  lines: VatLine[];
+  total: number;
+  // VAT is part of the prices and total. Orders placed while it was added on top of net prices lack this.
+  included?: boolean;
+  rates?: VatRates; // The destination's rates when the order was placed, for refunds
 }
 
 export interface ChatMessage {
@@ -40,22 +179,409 @@ export interface ShippingDetails {
   country: string;
 }
 
-export type PaymentMethod = 'credit_card' | 'paypal' | 'bank_transfer';
+// A delivery address kept on a customer account; the email always comes from the account
+export interface SavedAddress extends Omit<ShippingDetails, 'email'> {
+  id: string;
+  label?: string; // "Home", "Mum in Utrecht"…
+}
+
+export interface Customer {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  createdAt: string;
+  addresses: SavedAddress[];
+  defaultAddressId?: string;
+}
+
+export interface CustomerRegistration {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Returned on sign-in; the token goes with every account request
+export interface CustomerSession {
+  token: string;
+  expiresAt: string;
+  customer: Customer;
+}
+
+// Products saved for later, kept per account or per device.
+// The id is the owner's private handle; shareId is what a shared read-only link carries.
+export interface Wishlist {
+  id: string;
+  shareId: string;
+  customerId?: string;
+  productIds: string[];
+  updatedAt: string;
+}
+
+// What someone opening a shared link gets to see
+export interface SharedWishlist {
+  ownerName?: string; // First name when the list belongs to an account
+  products: Product[];
+  updatedAt: string;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// Verified-purchase review: only accepted with the number and email of a delivered order containing the product
+export interface Review {
+  id: string;
+  productId: string;
+  orderId: string;
+  authorName: string; // "Selam T." — taken from the order, never typed in
+  rating: number; // 1–5
+  text: string;
+  language: LanguageCode; // What it was written in; readers in other languages get a translation
+  photos: string[]; // Data URLs, downscaled in the browser before upload
+  createdAt: string;
+  status: ReviewStatus;
+  moderatedAt?: string;
+  reply?: { text: string; date: string };
+}
+
+export interface ReviewSubmission {
+  productId: string;
+  orderId: string;
+  email: string;
+  rating: number;
+  text: string;
+  language: LanguageCode;
+  photos?: string[];
+}
+
+export interface RatingSummary {
+  average: number; // Rounded to one decimal
+  count: number;
+}
+
+export type OrderStatus =
+  | 'pending_payment'
+  | 'paid'
+  | 'processing'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled'
+  | 'refunded'
+  | 'returned';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  date: string;
+  note?: string;
+}
+
+export type ShippingService = 'standard' | 'express';
+
+export interface ShippingQuote {
+  service: ShippingService;
+  carrier: string;
+  price: number;
+  etaDays: [number, number]; // Business days, min–max
+  weightKg: number; // Billable weight the price is based on
+}
+
+export type PaymentMethod = 'credit_card' | 'paypal' | 'bank_transfer' | 'gift_card';
 export type CardProvider = 'visa' | 'mastercard' | 'amex' | null;
 
-export interface Order {
+// Methods that go through the payment provider; bank transfers and gift cards are settled in-house
+export type ProviderPaymentMethod = 'credit_card' | 'paypal';
+
+export type PaymentStatus =
+  | 'requires_action' // Waiting on 3-D Secure or PayPal approval
+  | 'authorized'
+  | 'captured'
+  | 'declined'
+  | 'voided'
+  | 'partially_refunded'
+  | 'refunded';
+
+export type PaymentDeclineCode = 'card_declined' | 'insufficient_funds' | 'expired_card' | 'authentication_failed' | 'canceled_by_customer';
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  method: ProviderPaymentMethod;
+  reference: string; // Order id
+  amount: number;
+  currency: CurrencyCode;
+  status: PaymentStatus;
+  nextAction?: { type: 'three_d_secure' | 'redirect'; url?: string };
+  declineCode?: PaymentDeclineCode;
+  cardBrand?: CardProvider;
+  cardLast4?: string;
+  capturedAmount: number;
+  refundedAmount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentRequest {
+  method: ProviderPaymentMethod;
+  reference: string;
+  amount: number;
+  currency: CurrencyCode;
+  // Raw test card details for the mock gateway; a real provider tokenizes these in the browser
+  card?: { number: string; expiry: string; cvc: string; holder: string; brand: CardProvider };
+}
+
+export type PaymentWebhookType = 'payment.authorized' | 'payment.captured' | 'payment.declined' | 'payment.voided' | 'payment.refunded';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookType;
+  createdAt: string;
+  payment: PaymentIntent;
+}
+
+// What an order keeps about its provider payment
+export type OrderPayment = Pick<PaymentIntent, 'id' | 'provider' | 'status' | 'amount' | 'capturedAmount' | 'refundedAmount' | 'cardLast4' | 'updatedAt'>;
+
+export type RefundScope = 'order' | 'lines' | 'shipping';
+
+export interface RefundRequest {
+  scope: RefundScope;
+  lines?: { lineId: string; quantity: number }[]; // Only for the 'lines' scope
+  reason: string;
+  issuedBy: string;
+}
+
+export interface RefundLine {
+  lineId: string;
+  name: string;
+  quantity: number;
+  amount: number; // Incl. VAT, after the line's share of any discount
+}
+
+// How much of a refund went back through each payment method
+export interface RefundAllocation {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string; // Gateway payment id or gift card code
+}
+
+export interface Refund {
+  id: string;
+  date: string;
+  scope: RefundScope;
+  amount: number;
+  reason: string;
+  issuedBy: string;
+  lines: RefundLine[];
+  shipping: number;
+  allocations: RefundAllocation[];
+}
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'exchanged';
+export type ReturnReason = 'wrong_size' | 'damaged' | 'not_as_described' | 'changed_mind' | 'other';
+export type ReturnResolution = 'refund' | 'exchange';
+
+export interface ReturnLine {
+  lineId: string;
+  name: string;
+  quantity: number;
+  reason: ReturnReason;
+  exchangeVariantId?: string; // Exchanges only: the variant sent back instead
+  exchangeLabel?: string; // e.g. "L / Gold"
+}
+
+export interface ReturnStatusChange {
+  status: ReturnStatus;
+  date: string;
+  note?: string;
+}
+
+// A return merchandise authorization (RMA)
+export interface ReturnAuthorization {
+  id: string; // RMA number, e.g. RMA-7K2PQX
+  orderId: string;
+  email: string;
+  createdAt: string;
+  status: ReturnStatus;
+  resolution: ReturnResolution;
+  lines: ReturnLine[];
+  comment?: string;
+  statusHistory: ReturnStatusChange[];
+  refundId?: string;
+  exchangeOrderId?: string; // The replacement order shipped for an exchange
+}
+
+export interface ReturnRequest {
+  orderId: string;
+  email: string;
+  resolution: ReturnResolution;
+  lines: Pick<ReturnLine, 'lineId' | 'quantity' | 'reason' | 'exchangeVariantId'>[];
+  comment?: string;
+}
+
+// What a customer sees of their order when starting a return
+export interface ReturnableOrder {
+  orderId: string;
+  returnBy?: string; // Missing until the order is delivered
+  lines: {
+    lineId: string;
+    name: string;
+    imageUrl: string;
+    variantLabel?: string;
+    returnable: number;
+    exchangeOptions: { variantId: string; label: string }[];
+  }[];
+  returns: ReturnAuthorization[];
+}
+
+export type ShipmentEventStatus =
+  | 'label_created'
+  | 'picked_up'
+  | 'in_transit'
+  | 'customs'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'; // Failed delivery attempt, damage, address problem
+
+// One scan or status update reported by the carrier
+export interface ShipmentEvent {
   id: string;
+  date: string; // ISO timestamp of the scan, not of the import
+  status: ShipmentEventStatus;
+  location?: string;
+  description?: string;
+}
+
+// A parcel handed to a carrier; an order can ship in several
+export interface Shipment {
+  id: string;
+  carrier: string;
+  trackingNumber: string;
+  createdAt: string;
+  events: ShipmentEvent[]; // Oldest first
+}
+
+// What the customer tracking page is allowed to see
+export interface OrderTracking {
+  orderId: string;
+  status: OrderStatus;
+  date: string;
+  shipments: Shipment[];
+}
+
+export type CarrierEventImportStatus = 'added' | 'duplicate' | 'unmatched';
+
+export interface CarrierEventImportResult {
+  trackingNumber: string;
+  event: Omit<ShipmentEvent, 'id'>;
+  status: CarrierEventImportStatus;
+  orderId?: string;
+}
+
+// One booked entry from an imported bank statement. Credits are positive, debits negative.
+export interface BankStatementLine {
+  entryId: string; // The bank's own reference, used to skip entries imported twice
+  date: string; // YYYY-MM-DD booking date
+  amount: number;
+  currency: string;
+  remittance: string; // Free-text payment reference entered by the payer
+  counterparty?: string;
+}
+
+// A bank transfer credit applied to an order
+export interface BankPayment {
+  entryId: string;
+  date: string;
+  amount: number;
+  counterparty?: string;
+  importedAt: string;
+}
+
+export type ReconciliationStatus =
+  | 'matched' // Paid in full, order moved to paid
+  | 'overpaid' // Paid more than due, order moved to paid and the surplus needs refunding
+  | 'partial' // Recorded against the order, which waits for the rest
+  | 'not_pending' // References an order that is not waiting for a bank transfer
+  | 'unmatched' // No order reference found
+  | 'duplicate' // Entry was already imported
+  | 'ignored'; // Debits and foreign-currency credits
+
+export interface ReconciliationResult {
+  line: BankStatementLine;
+  status: ReconciliationStatus;
+  orderId?: string;
+  amountDue?: number; // What the order still needed before this credit
+  difference?: number; // Credit minus amount due
+  note?: string;
+}
+
+export type GiftCardTransactionType = 'issue' | 'redeem' | 'refund';
+
+// One ledger entry; amount is signed (negative when spent)
+export interface GiftCardTransaction {
+  id: string;
+  type: GiftCardTransactionType;
+  amount: number;
+  balanceAfter: number;
+  date: string;
+  orderId?: string;
+  note?: string;
+}
+
+export interface GiftCard {
+  id: string;
+  code: string;
+  initialAmount: number;
+  balance: number; // Always equals the sum of the ledger
+  purchaserName: string;
+  purchaserEmail: string;
+  recipientName: string;
+  recipientEmail: string;
+  message?: string;
+  createdAt: string;
+  paymentId?: string; // Provider payment the card was bought with
+  ledger: GiftCardTransaction[];
+}
+
+// `reference` is the one the card payment was authorized under
+export type GiftCardPurchase = Pick<GiftCard, 'initialAmount' | 'purchaserName' | 'purchaserEmail' | 'recipientName' | 'recipientEmail' | 'message'> & {
+  reference: string;
+  paymentId: string;
+};
+
+// The part of an order paid from a gift card; the rest goes through paymentMethod
+export interface GiftCardPayment {
+  code: string;
+  amount: number;
+}
+
+export interface Order {
+  id: string; // Assigned by the backend; what the client sends is only the reference its payment was authorized under
   date: string;
   items: CartItem[];
   subtotal: number;
+  discount?: number; // Goods discount; missing on orders placed before promotions
+  promotions?: AppliedPromotion[];
   shippingCost: number;
+  shippingMethod?: ShippingQuote; // Missing on orders placed before carrier rates
   duties: number;
-  total: number;
+  vat?: VatBreakdown; // Missing on orders placed before VAT was charged
+  total: number; // All amounts are in settlementCurrency
+  displayCurrency?: CurrencyCode; // What the customer browsed and saw totals in
+  settlementCurrency?: CurrencyCode; // What was actually charged
+  exchangeRate?: number; // displayCurrency units per settlementCurrency unit at checkout
   shippingDetails: ShippingDetails;
-  paymentMethod: PaymentMethod;
+  paymentMethod: PaymentMethod; // 'gift_card' only when the gift card covers the whole total
   cardProvider?: CardProvider; // Optional, only for cards
+  giftCard?: GiftCardPayment;
+  payment?: OrderPayment; // Card and PayPal orders only
+  bankPayments?: BankPayment[]; // Bank transfer credits matched from imported statements
+  refunds?: Refund[];
+  shipments?: Shipment[];
+  customerId?: string; // Set when placed while signed in
   language: string; // To know which language the user ordered in
-  status: 'pending' | 'shipped';
+  status: OrderStatus;
+  statusHistory: OrderStatusChange[];
 }
 
 export type LanguageCode = 'en' | 'am' | 'om' | 'ti' | 'fr' | 'nl' | 'it' | 'de' | 'es';
@@ -8,11 +8,17 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.MOCK_API_PORT || 4000}`,
+        },
       },
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_ADAPTER': JSON.stringify(env.STORAGE_ADAPTER),
+        'process.env.API_URL': JSON.stringify(env.API_URL),
+        'process.env.VAT_DISPLAY_MODE': JSON.stringify(env.VAT_DISPLAY_MODE)
       },
       resolve: {
         alias: {
@@ -0,0 +1,78 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { Wishlist } from './types';
+import { backend } from './services/backendClient';
+import { createStorageAdapter } from './services/storage';
+import { toggleWishlistItem } from './services/wishlists';
+import { useAccount } from './account';
+
+// Guests keep their list on the backend too; the device only remembers which one is theirs
+const WISHLIST_KEY = 'ethio_wishlist_id';
+const wishlistStorage = createStorageAdapter();
+
+interface WishlistContextType {
+  productIds: string[];
+  shareId: string | null;
+  isWishlisted: (productId: string) => boolean;
+  toggleWishlist: (productId: string) => Promise<void>;
+  removeFromWishlist: (productId: string) => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+export const WishlistProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { token, isRestoring } = useAccount();
+  const [wishlist, setWishlist] = useState<Wishlist | null>(null);
+
+  // Reloaded on sign in (the device list merges into the account's) and on sign out
+  useEffect(() => {
+    if (isRestoring) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const saved = await wishlistStorage.getItem(WISHLIST_KEY);
+        const loaded = await backend.getWishlist(saved, token || undefined);
+        if (cancelled) return;
+        setWishlist(loaded);
+        await wishlistStorage.setItem(WISHLIST_KEY, loaded.id);
+      } catch (error) {
+        console.error('Failed to load wishlist', error);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [token, isRestoring]);
+
+  const saveItems = async (productIds: string[]) => {
+    if (!wishlist) return;
+    const previous = wishlist;
+    setWishlist({ ...wishlist, productIds }); // Hearts respond immediately
+    try {
+      setWishlist(await backend.updateWishlist(wishlist.id, productIds, token || undefined));
+    } catch (error) {
+      setWishlist(previous);
+      throw error;
+    }
+  };
+
+  const productIds = wishlist?.productIds || [];
+
+  return (
+    <WishlistContext.Provider value={{
+      productIds,
+      shareId: wishlist?.shareId || null,
+      isWishlisted: (productId) => productIds.includes(productId),
+      toggleWishlist: (productId) => saveItems(toggleWishlistItem(productIds, productId)),
+      removeFromWishlist: (productId) => saveItems(productIds.filter(id => id !== productId)),
+    }}>
+      {children}
+    </WishlistContext.Provider>
+  );
+};
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};